@@ -1 +1,2 @@
 export * from './lib/api-client.js';
+export * from './lib/order-events.js';
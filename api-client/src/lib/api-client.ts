@@ -5,11 +5,58 @@ import {
   User,
   Order,
   MenuItem,
+  MenuSearchMatch,
+  MenuDraftPreview,
+  MenuVersion,
+  MenuItemRevision,
+  MenuTransferFormat,
+  ImportMenuRequest,
+  MenuImportResult,
+  Allergen,
+  DietaryTag,
+  DaypartConfig,
   CreateOrderRequest,
   UpdateOrderStatusRequest,
+  AddOrderItemRequest,
+  UpdateOrderItemRequest,
+  SplitOrderRequest,
+  ApplyDiscountsRequest,
+  VoidOrderRequest,
+  CreateRefundRequest,
+  Refund,
+  SetApprovalPinRequest,
+  PricingConfig,
+  ReportQuery,
+  OrderListFilters,
+  ExportFormat,
+  ReportGranularity,
+  SalesReport,
+  ItemSalesReport,
+  CategoryMixRow,
+  HeatmapCell,
+  ReceiptFormat,
+  ReceiptPaperWidth,
   CreateMenuItemRequest,
   UserRole,
+  Table,
+  FloorPlanTable,
+  TableStatus,
+  CreateTableRequest,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  OpenCheck,
+  CreatePaymentRequest,
+  Ingredient,
+  CreateIngredientRequest,
+  StockMovement,
+  RecordStockMovementRequest,
 } from '@restaurant-monorepo/shared-types';
+import {
+  OrderEventListener,
+  OrderEventStream,
+  OrderEventSubscriptionOptions,
+} from './order-events.js';
 
 // API Response types
 export interface ApiResponse<T> {
@@ -39,8 +86,10 @@ export interface PaginatedResponse<T> {
 export interface OrderStats {
   todayStats?: Array<{
     totalOrders: number;
-    totalRevenue: number;
+    totalRevenue: number; // net of voids and refunds
     avgOrderValue: number;
+    totalRefunds: number;
+    voidedOrders: number;
   }>;
   statusBreakdown?: Array<{
     _id: string;
@@ -54,6 +103,7 @@ export interface OrderStats {
 export class RestaurantApiClient {
   private api: AxiosInstance;
   private baseURL: string;
+  private orderEvents: OrderEventStream;
 
   constructor(baseURL = 'http://localhost:3000/api') {
     this.baseURL = baseURL;
@@ -66,6 +116,7 @@ export class RestaurantApiClient {
     });
 
     this.setupInterceptors();
+    this.orderEvents = new OrderEventStream(() => this.getOrderEventsUrl());
   }
 
   /**
@@ -108,6 +159,21 @@ export class RestaurantApiClient {
     return localStorage.getItem('auth_token');
   }
 
+  /**
+   * Build the WebSocket URL for the order event channel
+   */
+  private getOrderEventsUrl(): string | null {
+    const token = this.getStoredToken();
+    if (!token) return null;
+
+    const origin =
+      typeof window !== 'undefined' ? window.location.origin : undefined;
+    const url = new URL(`${this.baseURL}/ws`, origin);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
   /**
    * Clear authentication data
    */
@@ -157,6 +223,16 @@ export class RestaurantApiClient {
     return response.data;
   }
 
+  /**
+   * Set the PIN an owner or manager uses to approve voids and refunds
+   */
+  async setApprovalPin(
+    request: SetApprovalPinRequest
+  ): Promise<ApiResponse<null>> {
+    const response = await this.api.put('/auth/pin', request);
+    return response.data;
+  }
+
   /**
    * Logout user
    */
@@ -175,14 +251,35 @@ export class RestaurantApiClient {
   // =============================================================================
 
   /**
-   * Get menu items with optional filters
+   * Get menu items with optional filters. `orderable` also applies each
+   * item's schedule, at `at` or now. `dietary` keeps items with every tag.
+   * A `search` ranks the results best first and returns what matched in
+   * `matches`, keyed by menu item id.
    */
   async getMenuItems(params?: {
     category?: string;
     available?: boolean;
+    orderable?: boolean;
+    at?: string;
+    includeUnavailable?: boolean; // needs MANAGE_MENU
     search?: string;
-  }): Promise<ApiResponse<{ menuItems: MenuItem[]; count: number }>> {
-    const response = await this.api.get('/menu', { params });
+    excludeAllergens?: Allergen[];
+    dietary?: DietaryTag[];
+  }): Promise<
+    ApiResponse<{
+      menuItems: MenuItem[];
+      count: number;
+      matches?: Record<string, MenuSearchMatch>;
+    }>
+  > {
+    const { excludeAllergens, dietary, ...filters } = params ?? {};
+    const response = await this.api.get('/menu', {
+      params: {
+        ...filters,
+        excludeAllergens: excludeAllergens?.join(','),
+        dietary: dietary?.join(','),
+      },
+    });
     return response.data;
   }
 
@@ -197,7 +294,7 @@ export class RestaurantApiClient {
   }
 
   /**
-   * Create new menu item
+   * Create a menu item. It starts as a draft until the menu is published.
    */
   async createMenuItem(
     menuItem: CreateMenuItemRequest
@@ -207,24 +304,58 @@ export class RestaurantApiClient {
   }
 
   /**
-   * Update menu item
+   * Save changes to a menu item's draft. `draft` is null when the changes
+   * match the published item.
    */
   async updateMenuItem(
     id: string,
     menuItem: Partial<CreateMenuItemRequest>
-  ): Promise<ApiResponse<{ menuItem: MenuItem }>> {
+  ): Promise<
+    ApiResponse<{ menuItem: MenuItem; draft: MenuDraftPreview | null }>
+  > {
     const response = await this.api.put(`/menu/${id}`, menuItem);
     return response.data;
   }
 
   /**
-   * Delete menu item
+   * Archive a menu item. It leaves the menu but past orders still find it.
    */
-  async deleteMenuItem(id: string): Promise<ApiResponse<null>> {
+  async deleteMenuItem(
+    id: string
+  ): Promise<ApiResponse<{ menuItem: MenuItem }>> {
     const response = await this.api.delete(`/menu/${id}`);
     return response.data;
   }
 
+  /**
+   * Get archived menu items, most recently archived first
+   */
+  async getArchivedMenuItems(): Promise<
+    ApiResponse<{ menuItems: MenuItem[]; count: number }>
+  > {
+    const response = await this.api.get('/menu/archived');
+    return response.data;
+  }
+
+  /**
+   * Bring an archived menu item back
+   */
+  async restoreMenuItem(
+    id: string
+  ): Promise<ApiResponse<{ menuItem: MenuItem }>> {
+    const response = await this.api.patch(`/menu/${id}/restore`);
+    return response.data;
+  }
+
+  /**
+   * Delete an archived menu item for good. Refused while an open order
+   * uses it.
+   */
+  async purgeMenuItem(id: string): Promise<ApiResponse<null>> {
+    const response = await this.api.delete(`/menu/${id}/purge`);
+    return response.data;
+  }
+
   /**
    * Toggle menu item availability
    */
@@ -235,6 +366,39 @@ export class RestaurantApiClient {
     return response.data;
   }
 
+  /**
+   * Upload a JPEG, PNG or WebP photo; the API resizes it and adds a thumbnail
+   */
+  async uploadMenuItemImage(
+    id: string,
+    image: Blob
+  ): Promise<ApiResponse<{ menuItem: MenuItem }>> {
+    const formData = new FormData();
+    formData.append('image', image);
+    const response = await this.api.post(`/menu/${id}/image`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  /**
+   * Remove a menu item's photo and thumbnail
+   */
+  async removeMenuItemImage(
+    id: string
+  ): Promise<ApiResponse<{ menuItem: MenuItem }>> {
+    const response = await this.api.delete(`/menu/${id}/image`);
+    return response.data;
+  }
+
+  /**
+   * Get the hours of each daypart in restaurant time
+   */
+  async getDayparts(): Promise<ApiResponse<{ config: DaypartConfig }>> {
+    const response = await this.api.get('/menu/dayparts');
+    return response.data;
+  }
+
   /**
    * Get menu categories with statistics
    */
@@ -253,6 +417,105 @@ export class RestaurantApiClient {
     return response.data;
   }
 
+  /**
+   * Get every menu item with unpublished changes, as it will look
+   */
+  async getMenuDrafts(): Promise<
+    ApiResponse<{ drafts: MenuDraftPreview[]; currentVersion: number }>
+  > {
+    const response = await this.api.get('/menu/drafts');
+    return response.data;
+  }
+
+  /**
+   * Get a menu item for editing, with its draft changes applied
+   */
+  async getMenuItemDraft(
+    id: string
+  ): Promise<
+    ApiResponse<{ menuItem: MenuItem; draft: MenuDraftPreview | null }>
+  > {
+    const response = await this.api.get(`/menu/${id}/draft`);
+    return response.data;
+  }
+
+  /**
+   * Throw away a menu item's unpublished changes
+   */
+  async discardMenuItemDraft(id: string): Promise<ApiResponse<null>> {
+    const response = await this.api.delete(`/menu/${id}/draft`);
+    return response.data;
+  }
+
+  /**
+   * Publish every draft as a new menu version
+   */
+  async publishMenu(
+    note?: string
+  ): Promise<ApiResponse<{ version: MenuVersion }>> {
+    const response = await this.api.post('/menu/publish', { note });
+    return response.data;
+  }
+
+  /**
+   * Get published menu versions, newest first
+   */
+  async getMenuVersions(params?: { page?: number; limit?: number }): Promise<
+    ApiResponse<{
+      versions: MenuVersion[];
+      pagination: PaginatedResponse<MenuVersion>['pagination'];
+    }>
+  > {
+    const response = await this.api.get('/menu/versions', { params });
+    return response.data;
+  }
+
+  /**
+   * Get a menu version with every item change it made
+   */
+  async getMenuVersionChanges(
+    version: number
+  ): Promise<
+    ApiResponse<{ version: MenuVersion; revisions: MenuItemRevision[] }>
+  > {
+    const response = await this.api.get(`/menu/versions/${version}`);
+    return response.data;
+  }
+
+  /**
+   * Put the menu back to an earlier version, published as a new version
+   */
+  async rollbackMenu(
+    version: number,
+    note?: string
+  ): Promise<ApiResponse<{ version: MenuVersion }>> {
+    const response = await this.api.post(`/menu/versions/${version}/rollback`, {
+      note,
+    });
+    return response.data;
+  }
+
+  /**
+   * Get every published change to a menu item, newest first
+   */
+  async getMenuItemHistory(
+    id: string
+  ): Promise<ApiResponse<{ revisions: MenuItemRevision[] }>> {
+    const response = await this.api.get(`/menu/${id}/history`);
+    return response.data;
+  }
+
+  /**
+   * Import menu items from a CSV or JSON file's text, matched by name.
+   * With `dryRun` nothing is saved; each row reports what would happen.
+   */
+  async importMenu(
+    request: ImportMenuRequest
+  ): Promise<ApiResponse<{ result: MenuImportResult }>> {
+    const response = await this.api.post('/menu/import', request);
+    return response.data;
+  }
+
   // =============================================================================
   // ORDER ENDPOINTS
   // =============================================================================
@@ -260,12 +523,12 @@ export class RestaurantApiClient {
   /**
    * Get orders with pagination and filters
    */
-  async getOrders(params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-    tableNumber?: number;
-  }): Promise<
+  async getOrders(
+    params?: OrderListFilters & {
+      page?: number;
+      limit?: number;
+    }
+  ): Promise<
     ApiResponse<{
       orders: Order[];
       pagination: PaginatedResponse<Order>['pagination'];
@@ -298,9 +561,176 @@ export class RestaurantApiClient {
    */
   async updateOrderStatus(
     id: string,
-    status: UpdateOrderStatusRequest['status']
+    status: UpdateOrderStatusRequest['status'],
+    reason?: string
+  ): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.patch(`/orders/${id}/status`, {
+      status,
+      reason,
+    });
+    return response.data;
+  }
+
+  /**
+   * Add an item to a pending order
+   */
+  async addOrderItem(
+    id: string,
+    item: AddOrderItemRequest
+  ): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.post(`/orders/${id}/items`, item);
+    return response.data;
+  }
+
+  /**
+   * Change quantity or special instructions of a pending order's item
+   */
+  async updateOrderItem(
+    id: string,
+    itemId: string,
+    changes: UpdateOrderItemRequest
+  ): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.patch(
+      `/orders/${id}/items/${itemId}`,
+      changes
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove an item from a pending order
+   */
+  async removeOrderItem(
+    id: string,
+    itemId: string
+  ): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.delete(`/orders/${id}/items/${itemId}`);
+    return response.data;
+  }
+
+  /**
+   * Split an order's bill into separate checks
+   */
+  async splitOrder(
+    id: string,
+    split: SplitOrderRequest
   ): Promise<ApiResponse<{ order: Order }>> {
-    const response = await this.api.patch(`/orders/${id}/status`, { status });
+    const response = await this.api.post(`/orders/${id}/split`, split);
+    return response.data;
+  }
+
+  /**
+   * Merge an order's split checks back into one
+   */
+  async clearOrderSplit(id: string): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.delete(`/orders/${id}/split`);
+    return response.data;
+  }
+
+  /**
+   * Apply or remove order and line discounts
+   */
+  async applyOrderDiscounts(
+    id: string,
+    discounts: ApplyDiscountsRequest
+  ): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.put(`/orders/${id}/discounts`, discounts);
+    return response.data;
+  }
+
+  /**
+   * Void an unpaid order
+   */
+  async voidOrder(
+    id: string,
+    request: VoidOrderRequest
+  ): Promise<ApiResponse<{ order: Order }>> {
+    const response = await this.api.post(`/orders/${id}/void`, request);
+    return response.data;
+  }
+
+  /**
+   * Get refunds made on an order
+   */
+  async getOrderRefunds(
+    id: string
+  ): Promise<ApiResponse<{ refunds: Refund[] }>> {
+    const response = await this.api.get(`/orders/${id}/refunds`);
+    return response.data;
+  }
+
+  /**
+   * Refund a paid order in full, or the given items
+   */
+  async createRefund(
+    id: string,
+    request: CreateRefundRequest
+  ): Promise<ApiResponse<{ refund: Refund; order: Order }>> {
+    const response = await this.api.post(`/orders/${id}/refunds`, request);
+    return response.data;
+  }
+
+  /**
+   * Get a text or HTML receipt for an order, or one of its checks, without
+   * recording a print. It shows as a copy once the original is printed.
+   */
+  async getOrderReceipt(
+    id: string,
+    params?: {
+      format?: Exclude<ReceiptFormat, 'pdf'>;
+      width?: ReceiptPaperWidth;
+      checkId?: string;
+    }
+  ): Promise<string> {
+    const response = await this.api.get(`/orders/${id}/receipt`, {
+      params,
+      responseType: 'text',
+    });
+    return response.data;
+  }
+
+  /**
+   * Get a PDF receipt for an order, or one of its checks
+   */
+  async getOrderReceiptPdf(
+    id: string,
+    params?: { width?: ReceiptPaperWidth; checkId?: string }
+  ): Promise<Blob> {
+    const response = await this.api.get(`/orders/${id}/receipt`, {
+      params: { ...params, format: 'pdf' },
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  /**
+   * Print a text receipt for an order, or one of its checks.
+   * Every print after the first is marked as a copy.
+   */
+  async printOrderReceipt(
+    id: string,
+    request?: { width?: ReceiptPaperWidth; checkId?: string }
+  ): Promise<string> {
+    const response = await this.api.post(
+      `/orders/${id}/receipt/print`,
+      { ...request, format: 'text' },
+      { responseType: 'text' }
+    );
+    return response.data;
+  }
+
+  /**
+   * Print a PDF receipt for an order, or one of its checks
+   */
+  async printOrderReceiptPdf(
+    id: string,
+    request?: { width?: ReceiptPaperWidth; checkId?: string }
+  ): Promise<Blob> {
+    const response = await this.api.post(
+      `/orders/${id}/receipt/print`,
+      { ...request, format: 'pdf' },
+      { responseType: 'blob' }
+    );
     return response.data;
   }
 
@@ -312,6 +742,289 @@ export class RestaurantApiClient {
     return response.data;
   }
 
+  // =============================================================================
+  // TABLE ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Get tables with optional filters
+   */
+  async getTables(params?: {
+    section?: string;
+    status?: TableStatus;
+  }): Promise<ApiResponse<{ tables: Table[]; count: number }>> {
+    const response = await this.api.get('/tables', { params });
+    return response.data;
+  }
+
+  /**
+   * Get floor plan with occupancy and open order totals
+   */
+  async getFloorPlan(): Promise<ApiResponse<{ tables: FloorPlanTable[] }>> {
+    const response = await this.api.get('/tables/floor-plan');
+    return response.data;
+  }
+
+  /**
+   * Get table by ID
+   */
+  async getTableById(id: string): Promise<ApiResponse<{ table: Table }>> {
+    const response = await this.api.get(`/tables/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Create new table
+   */
+  async createTable(
+    table: CreateTableRequest
+  ): Promise<ApiResponse<{ table: Table }>> {
+    const response = await this.api.post('/tables', table);
+    return response.data;
+  }
+
+  /**
+   * Update table layout
+   */
+  async updateTable(
+    id: string,
+    table: Partial<CreateTableRequest>
+  ): Promise<ApiResponse<{ table: Table }>> {
+    const response = await this.api.put(`/tables/${id}`, table);
+    return response.data;
+  }
+
+  /**
+   * Update table status
+   */
+  async updateTableStatus(
+    id: string,
+    status: TableStatus
+  ): Promise<ApiResponse<{ table: Table }>> {
+    const response = await this.api.patch(`/tables/${id}/status`, { status });
+    return response.data;
+  }
+
+  /**
+   * Delete table
+   */
+  async deleteTable(id: string): Promise<ApiResponse<null>> {
+    const response = await this.api.delete(`/tables/${id}`);
+    return response.data;
+  }
+
+  // =============================================================================
+  // INVENTORY ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Get ingredients, optionally only those at or below their threshold
+   */
+  async getIngredients(params?: {
+    lowStock?: boolean;
+  }): Promise<ApiResponse<{ ingredients: Ingredient[]; count: number }>> {
+    const response = await this.api.get('/inventory/ingredients', { params });
+    return response.data;
+  }
+
+  /**
+   * Create ingredient with optional opening stock
+   */
+  async createIngredient(
+    ingredient: CreateIngredientRequest
+  ): Promise<ApiResponse<{ ingredient: Ingredient }>> {
+    const response = await this.api.post('/inventory/ingredients', ingredient);
+    return response.data;
+  }
+
+  /**
+   * Update ingredient name, unit or low stock threshold
+   */
+  async updateIngredient(
+    id: string,
+    ingredient: Partial<Omit<CreateIngredientRequest, 'stock'>>
+  ): Promise<ApiResponse<{ ingredient: Ingredient }>> {
+    const response = await this.api.put(
+      `/inventory/ingredients/${id}`,
+      ingredient
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete ingredient that no recipe uses
+   */
+  async deleteIngredient(id: string): Promise<ApiResponse<null>> {
+    const response = await this.api.delete(`/inventory/ingredients/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Record a restock, wastage or stock count
+   */
+  async recordStockMovement(
+    id: string,
+    movement: RecordStockMovementRequest
+  ): Promise<ApiResponse<{ ingredient: Ingredient; movement: StockMovement }>> {
+    const response = await this.api.post(
+      `/inventory/ingredients/${id}/movements`,
+      movement
+    );
+    return response.data;
+  }
+
+  /**
+   * Get stock movement history for an ingredient, newest first
+   */
+  async getStockMovements(
+    id: string,
+    params?: { page?: number; limit?: number }
+  ): Promise<
+    ApiResponse<{
+      movements: StockMovement[];
+      pagination: PaginatedResponse<StockMovement>['pagination'];
+    }>
+  > {
+    const response = await this.api.get(
+      `/inventory/ingredients/${id}/movements`,
+      { params }
+    );
+    return response.data;
+  }
+
+  // =============================================================================
+  // PAYMENT ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Get orders that still have an outstanding balance
+   */
+  async getOpenChecks(params?: {
+    tableNumber?: number;
+  }): Promise<ApiResponse<{ checks: OpenCheck[]; totalOutstanding: number }>> {
+    const response = await this.api.get('/payments/open-checks', { params });
+    return response.data;
+  }
+
+  /**
+   * Get payments with pagination and filters
+   */
+  async getPayments(params?: {
+    page?: number;
+    limit?: number;
+    orderId?: string;
+    method?: PaymentMethod;
+    status?: PaymentStatus;
+  }): Promise<
+    ApiResponse<{
+      payments: Payment[];
+      pagination: PaginatedResponse<Payment>['pagination'];
+    }>
+  > {
+    const response = await this.api.get('/payments', { params });
+    return response.data;
+  }
+
+  /**
+   * Get payment by ID
+   */
+  async getPaymentById(id: string): Promise<ApiResponse<{ payment: Payment }>> {
+    const response = await this.api.get(`/payments/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Take a cash or card payment against an order
+   */
+  async createPayment(
+    paymentData: CreatePaymentRequest
+  ): Promise<ApiResponse<{ payment: Payment; order: Order; balance: number }>> {
+    const response = await this.api.post('/payments', paymentData);
+    return response.data;
+  }
+
+  // =============================================================================
+  // PRICING ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Get the tax and gratuity settings used to price orders
+   */
+  async getPricingConfig(): Promise<
+    ApiResponse<{ config: PricingConfig; currency: string }>
+  > {
+    const response = await this.api.get('/pricing/config');
+    return response.data;
+  }
+
+  // =============================================================================
+  // REPORT ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Get revenue, order count and average ticket over time
+   */
+  async getSalesReport(
+    params: ReportQuery & { granularity?: ReportGranularity }
+  ): Promise<ApiResponse<{ from: string; to: string; report: SalesReport }>> {
+    const response = await this.api.get('/reports/sales', { params });
+    return response.data;
+  }
+
+  /**
+   * Get top and bottom selling menu items
+   */
+  async getItemSalesReport(
+    params: ReportQuery & { limit?: number }
+  ): Promise<
+    ApiResponse<{ from: string; to: string; report: ItemSalesReport }>
+  > {
+    const response = await this.api.get('/reports/items', { params });
+    return response.data;
+  }
+
+  /**
+   * Get sales by menu category
+   */
+  async getCategoryMix(
+    params: ReportQuery
+  ): Promise<
+    ApiResponse<{ from: string; to: string; categories: CategoryMixRow[] }>
+  > {
+    const response = await this.api.get('/reports/categories', { params });
+    return response.data;
+  }
+
+  /**
+   * Get orders and revenue by weekday and hour
+   */
+  async getHourlyHeatmap(params: ReportQuery): Promise<
+    ApiResponse<{
+      from: string;
+      to: string;
+      timezone: string;
+      cells: HeatmapCell[];
+    }>
+  > {
+    const response = await this.api.get('/reports/heatmap', { params });
+    return response.data;
+  }
+
+  // =============================================================================
+  // REAL-TIME EVENTS
+  // =============================================================================
+
+  /**
+   * Subscribe to order lifecycle events pushed by the API.
+   * Returns a function that removes the subscription.
+   */
+  subscribeToOrderEvents(
+    listener: OrderEventListener,
+    options?: OrderEventSubscriptionOptions
+  ): () => void {
+    return this.orderEvents.subscribe(listener, options);
+  }
+
   // =============================================================================
   // USER MANAGEMENT ENDPOINTS
   // =============================================================================
@@ -353,6 +1066,65 @@ export class RestaurantApiClient {
     return response.data;
   }
 
+  // =============================================================================
+  // EXPORT ENDPOINTS
+  // =============================================================================
+
+  /**
+   * Download order history matching the order list filters
+   */
+  async exportOrders(
+    params: OrderListFilters & { format: ExportFormat }
+  ): Promise<Blob> {
+    const response = await this.api.get('/orders/export', {
+      params,
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  /**
+   * Download the sales report
+   */
+  async exportSalesReport(
+    params: ReportQuery & {
+      format: ExportFormat;
+      granularity?: ReportGranularity;
+    }
+  ): Promise<Blob> {
+    const response = await this.api.get('/reports/sales/export', {
+      params,
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  /**
+   * Download the published menu in the format the menu import reads
+   */
+  async exportMenu(params: { format: MenuTransferFormat }): Promise<Blob> {
+    const response = await this.api.get('/menu/export', {
+      params,
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  /**
+   * Download the staff list
+   */
+  async exportStaff(params: {
+    format: ExportFormat;
+    role?: UserRole;
+    isActive?: boolean;
+  }): Promise<Blob> {
+    const response = await this.api.get('/users/export', {
+      params,
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
   // =============================================================================
   // UTILITY METHODS
   // =============================================================================
@@ -376,6 +1148,8 @@ export class RestaurantApiClient {
     } else {
       localStorage.removeItem('auth_token');
     }
+    // Re-authenticate any open event subscription with the new token
+    this.orderEvents.reconnect();
   }
 
   /**
@@ -0,0 +1,133 @@
+import { OrderEvent, OrderEventType } from '@restaurant-monorepo/shared-types';
+
+export type OrderEventListener = (event: OrderEvent) => void;
+
+export interface OrderEventSubscriptionOptions {
+  /** Only deliver these event types (defaults to all) */
+  types?: OrderEventType[];
+  /** Called whenever the underlying socket connects or drops */
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+interface Subscription {
+  listener: OrderEventListener;
+  options: OrderEventSubscriptionOptions;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Shared WebSocket connection to the API's order event channel.
+ * Opens on the first subscription, reconnects with backoff, and closes
+ * when the last subscriber leaves.
+ */
+export class OrderEventStream {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Set<Subscription>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private resolveUrl: () => string | null) {}
+
+  subscribe(
+    listener: OrderEventListener,
+    options: OrderEventSubscriptionOptions = {}
+  ): () => void {
+    const subscription: Subscription = { listener, options };
+    this.subscriptions.add(subscription);
+
+    if (!this.socket) {
+      this.connect();
+    } else if (this.socket.readyState === WebSocket.OPEN) {
+      options.onConnectionChange?.(true);
+    }
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  /**
+   * Close the connection and reopen it, e.g. after the auth token changed
+   */
+  reconnect(): void {
+    this.disconnect();
+    if (this.subscriptions.size > 0) {
+      this.connect();
+    }
+  }
+
+  private connect(): void {
+    if (typeof WebSocket === 'undefined') return;
+
+    const url = this.resolveUrl();
+    if (!url) return;
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.notifyConnection(true);
+    };
+
+    socket.onmessage = (message) => {
+      let event: OrderEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      this.subscriptions.forEach(({ listener, options }) => {
+        if (!options.types || options.types.includes(event.type)) {
+          listener(event);
+        }
+      });
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+
+      this.socket = null;
+      this.notifyConnection(false);
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    this.reconnectAttempts = 0;
+    socket?.close();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.subscriptions.size === 0 || this.reconnectTimer) return;
+
+    const delay = Math.min(
+      1000 * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY_MS
+    );
+    this.reconnectAttempts += 1;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private notifyConnection(connected: boolean): void {
+    this.subscriptions.forEach(({ options }) =>
+      options.onConnectionChange?.(connected)
+    );
+  }
+}
@@ -17,5 +17,6 @@ export default {
     '^.+\\.[tj]s$': ['@swc/jest', swcJestConfig],
   },
   moduleFileExtensions: ['ts', 'js', 'html'],
+  setupFilesAfterEnv: ['<rootDir>/src/testing/setup.ts'],
   coverageDirectory: 'test-output/jest/coverage',
 };
@@ -0,0 +1,178 @@
+import {
+  IngredientModel,
+  MenuItemModel,
+  OrderModel,
+  StockMovementModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import orderRoutes from '../routes/orders';
+import { buildOrder, menuItem, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockUsers,
+  spyOnModel,
+  StoredDocument,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+type StockUpdate = [
+  { $set: { stock: number | { $round: [{ $add: [string, number] }] } } }
+];
+
+const chef = buildUser('chef');
+
+const ingredient = (name: string, stock: number) =>
+  new IngredientModel({
+    name,
+    unit: 'each',
+    stock,
+    lowStockThreshold: 0,
+  }).toObject<StoredDocument>();
+
+describe('using stock when orders are prepared', () => {
+  let api: TestServer;
+  let ingredients: Map<string, StoredDocument>;
+  let menuItems: Map<string, StoredDocument>;
+  let movements: InstanceType<typeof StockMovementModel>[];
+  let patty: StoredDocument;
+  let bun: StoredDocument;
+  let burger: StoredDocument;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/orders': orderRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    movements = [];
+    mockUsers(chef);
+
+    patty = ingredient('Patty', 3);
+    bun = ingredient('Bun', 10);
+    ingredients = mockDocuments(IngredientModel, [patty, bun]);
+
+    burger = menuItem('Burger', {
+      recipe: [
+        { ingredientId: patty._id, quantity: 1 },
+        { ingredientId: bun._id, quantity: 1 },
+      ],
+    });
+    menuItems = mockDocuments(MenuItemModel, [burger]);
+
+    // Stock changes are an update pipeline adding to the current stock
+    spyOnModel(IngredientModel, 'findByIdAndUpdate').mockImplementation(
+      (id: mongoose.Types.ObjectId, [{ $set }]: StockUpdate) => {
+        const previous = ingredients.get(String(id));
+        if (!previous) return Promise.resolve(null);
+
+        const stock =
+          typeof $set.stock === 'number'
+            ? $set.stock
+            : (previous.stock as number) + $set.stock.$round[0].$add[1];
+        ingredients.set(String(id), { ...previous, stock });
+        return Promise.resolve(IngredientModel.hydrate(previous));
+      }
+    );
+    spyOnModel(StockMovementModel, 'create').mockImplementation(
+      (details: object) => {
+        const movement = new StockMovementModel(details);
+        movements.push(movement);
+        return Promise.resolve(movement);
+      }
+    );
+    spyOnModel(MenuItemModel, 'bulkWrite').mockImplementation(
+      (
+        operations: {
+          updateOne: {
+            filter: { _id: mongoose.Types.ObjectId };
+            update: { $set: object };
+          };
+        }[]
+      ) => {
+        for (const { updateOne } of operations) {
+          const { _id } = updateOne.filter;
+          menuItems.set(String(_id), {
+            ...menuItems.get(String(_id)),
+            _id,
+            ...updateOne.update.$set,
+          });
+        }
+        return Promise.resolve({});
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const placeOrder = (...quantities: number[]) => {
+    const order = buildOrder(
+      quantities.map((quantity) => ({
+        ...orderLine('Burger', 10, { quantity }),
+        menuItemId: burger._id,
+      }))
+    );
+    mockDocuments(OrderModel, [order]);
+    return order;
+  };
+
+  const startPreparing = (order: StoredDocument) =>
+    api.request('PATCH', `/orders/${order._id}/status`, {
+      body: { status: 'preparing' },
+      headers: authHeader(chef),
+    });
+
+  const stockOf = (item: StoredDocument) =>
+    ingredients.get(item._id.toString())?.stock;
+
+  it('should use the recipe ingredients for every portion ordered', async () => {
+    const order = placeOrder(1);
+
+    const { status } = await startPreparing(order);
+
+    expect(status).toBe(200);
+    expect(stockOf(patty)).toBe(2);
+    expect(stockOf(bun)).toBe(9);
+    expect(
+      movements.map((movement) => [
+        movement.type,
+        movement.quantity,
+        movement.stockAfter,
+        String(movement.orderId),
+      ])
+    ).toEqual([
+      ['sale', -1, 2, order._id.toString()],
+      ['sale', -1, 9, order._id.toString()],
+    ]);
+    expect(menuItems.get(burger._id.toString())).toMatchObject({
+      outOfStock: false,
+    });
+  });
+
+  it('should only use stock once for an order', async () => {
+    const order = placeOrder(1);
+    await startPreparing(order);
+
+    const { status } = await startPreparing(order);
+
+    expect(status).toBe(400);
+    expect(stockOf(patty)).toBe(2);
+    expect(movements).toHaveLength(2);
+  });
+
+  it('should mark an item out of stock when an ingredient runs out', async () => {
+    const order = placeOrder(2, 1);
+
+    await startPreparing(order);
+
+    expect(stockOf(patty)).toBe(0);
+    expect(stockOf(bun)).toBe(7);
+    expect(menuItems.get(burger._id.toString())).toMatchObject({
+      outOfStock: true,
+    });
+  });
+});
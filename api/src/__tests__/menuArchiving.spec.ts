@@ -0,0 +1,139 @@
+import {
+  IngredientModel,
+  MenuItemModel,
+  OrderModel,
+} from '@restaurant-monorepo/database';
+import menuRoutes from '../routes/menu';
+import { buildOrder, menuItem, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockQuery,
+  mockUsers,
+  StoredDocument,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const owner = buildUser('owner');
+
+describe('archived menu items', () => {
+  let api: TestServer;
+  let items: Map<string, StoredDocument>;
+  let saved: InstanceType<typeof MenuItemModel>[];
+  let burger: StoredDocument;
+  let soup: StoredDocument;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/menu': menuRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    saved = [];
+    mockUsers(owner);
+    jest.spyOn(IngredientModel, 'find').mockReturnValue(mockQuery([]));
+    jest
+      .spyOn(MenuItemModel.prototype, 'save')
+      .mockImplementation(function (this: InstanceType<typeof MenuItemModel>) {
+        saved.push(this);
+        return Promise.resolve(this);
+      });
+
+    burger = menuItem('Burger');
+    soup = menuItem('Soup', { archivedAt: new Date() });
+    items = mockDocuments(MenuItemModel, [burger, soup]);
+    mockDocuments(OrderModel, []);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const request = (method: string, path: string, body?: object) =>
+    api.request(method, `/menu${path}`, { body, headers: authHeader(owner) });
+
+  const createItem = (name: string) =>
+    request('POST', '/', {
+      name,
+      description: `${name}, made fresh`,
+      price: 6,
+      category: 'appetizer',
+      prepTime: 5,
+    });
+
+  describe('names', () => {
+    it('should let a new item take the name of an archived one', async () => {
+      const { status } = await createItem('Soup');
+
+      expect(status).toBe(201);
+      expect(saved.map((item) => item.name)).toEqual(['Soup']);
+    });
+
+    it('should refuse a new item with the name of one on the menu', async () => {
+      const { status, body } = await createItem('Burger');
+
+      expect(status).toBe(409);
+      expect(body.error.message).toBe(
+        'A menu item named "Burger" already exists'
+      );
+      expect(saved).toEqual([]);
+    });
+
+    it('should not restore an item whose name has been taken', async () => {
+      const newSoup = menuItem('Soup');
+      items.set(newSoup._id.toString(), newSoup);
+
+      const { status, body } = await request('PATCH', `/${soup._id}/restore`);
+
+      expect(status).toBe(409);
+      expect(body.error.message).toBe(
+        'A menu item named "Soup" already exists'
+      );
+      expect(saved).toEqual([]);
+    });
+
+    it('should restore an item whose name is free', async () => {
+      const { status } = await request('PATCH', `/${soup._id}/restore`);
+
+      expect(status).toBe(200);
+      expect(saved[0].archivedAt).toBeUndefined();
+    });
+  });
+
+  describe('purging', () => {
+    let deleteOne: jest.SpyInstance;
+
+    beforeEach(() => {
+      deleteOne = jest
+        .spyOn(MenuItemModel, 'deleteOne')
+        .mockReturnValue(mockQuery({ deletedCount: 1 }));
+    });
+
+    it('should not purge an item that is on an open order', async () => {
+      mockDocuments(OrderModel, [
+        buildOrder([{ ...orderLine('Soup', 6), menuItemId: soup._id }]),
+      ]);
+
+      const { status, body } = await request('DELETE', `/${soup._id}/purge`);
+
+      expect(status).toBe(409);
+      expect(body.error.message).toBe(
+        'Menu item is on open order ORD-20261019-001. Try again once it is paid or cancelled.'
+      );
+      expect(deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should purge an archived item no open order uses', async () => {
+      mockDocuments(OrderModel, [
+        buildOrder([{ ...orderLine('Burger', 10), menuItemId: burger._id }]),
+      ]);
+
+      const { status } = await request('DELETE', `/${soup._id}/purge`);
+
+      expect(status).toBe(200);
+      expect(deleteOne).toHaveBeenCalledWith({ _id: soup._id });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { MenuItemModel } from '@restaurant-monorepo/database';
+import menuRoutes from '../routes/menu';
+import { menuItem } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockUsers,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const owner = buildUser('owner');
+const waiter = buildUser('waiter');
+
+// A Monday lunchtime, so a Sunday-only item is off the menu
+const MONDAY_NOON = '2026-10-19T12:00:00Z';
+
+describe('listing the menu', () => {
+  let api: TestServer;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/menu': menuRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(owner, waiter);
+    mockDocuments(MenuItemModel, [
+      menuItem('Soup'),
+      menuItem('Sunday Roast', { schedule: { daysOfWeek: [0] } }),
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const listMenu = async (query: string, headers = {}) => {
+    const { status, body } = await api.request(
+      'GET',
+      `/menu?at=${MONDAY_NOON}${query}`,
+      { headers }
+    );
+    return {
+      status,
+      body,
+      names: body.data?.menuItems.map((item: { name: string }) => item.name),
+    };
+  };
+
+  it('should leave out items outside their schedule', async () => {
+    const { status, names } = await listMenu('');
+
+    expect(status).toBe(200);
+    expect(names).toEqual(['Soup']);
+  });
+
+  it('should list every item for staff who manage the menu', async () => {
+    const { names } = await listMenu(
+      '&includeUnavailable=true',
+      authHeader(owner)
+    );
+
+    expect(names).toEqual(['Soup', 'Sunday Roast']);
+  });
+
+  it('should refuse to list everything for anyone else', async () => {
+    expect((await listMenu('&includeUnavailable=true')).status).toBe(401);
+    expect(
+      (await listMenu('&includeUnavailable=true', authHeader(waiter))).status
+    ).toBe(403);
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  MenuItemModel,
+  MenuVersionModel,
+  OrderModel,
+} from '@restaurant-monorepo/database';
+import { OrderItem } from '@restaurant-monorepo/shared-types';
+import orderRoutes from '../routes/orders';
+import { buildOrder, menuItem, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockQuery,
+  mockUsers,
+  StoredDocument,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const waiter = buildUser('waiter');
+
+describe('editing orders', () => {
+  let api: TestServer;
+  let orders: Map<string, StoredDocument>;
+  let burger: StoredDocument;
+  let fries: StoredDocument;
+  let order: StoredDocument;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/orders': orderRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(waiter);
+    jest
+      .spyOn(MenuVersionModel, 'findOne')
+      .mockReturnValue(mockQuery(new MenuVersionModel({ version: 2 })));
+
+    // Both items cost more now than when the order was taken
+    burger = menuItem('Burger', { price: 14 });
+    fries = menuItem('Fries', { price: 5, category: 'appetizer' });
+    mockDocuments(MenuItemModel, [burger, fries]);
+
+    order = buildOrder([
+      { ...orderLine('Burger', 12.5), menuItemId: burger._id },
+      {
+        ...orderLine('Fries', 4, { category: 'appetizer' }),
+        menuItemId: fries._id,
+      },
+    ]);
+    orders = mockDocuments(OrderModel, [order]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const lineId = (index: number) =>
+    String((order.items as { _id: unknown }[])[index]._id);
+
+  const storedOrder = () => orders.get(order._id.toString());
+
+  it('should reprice every line and record the change when a quantity changes', async () => {
+    const { status, body } = await api.request(
+      'PATCH',
+      `/orders/${order._id}/items/${lineId(0)}`,
+      { body: { quantity: 2 }, headers: authHeader(waiter) }
+    );
+
+    expect(status).toBe(200);
+    const { items, pricing, modifications } = body.data.order;
+    expect(
+      items.map((item: OrderItem) => [
+        item.quantity,
+        item.unitPrice,
+        item.totalPrice,
+        item.menuVersion,
+      ])
+    ).toEqual([
+      [2, 14, 28, 2],
+      [1, 5, 5, 2],
+    ]);
+    expect(pricing.subtotal).toBe(33);
+    expect(modifications).toEqual([
+      expect.objectContaining({
+        action: 'item_updated',
+        itemId: lineId(0),
+        menuItemName: 'Burger',
+        previousQuantity: 1,
+        quantity: 2,
+        changedBy: waiter.id,
+      }),
+    ]);
+    expect(storedOrder()).toMatchObject({ total: body.data.order.total });
+  });
+
+  it('should add an item at the current price', async () => {
+    const { status, body } = await api.request(
+      'POST',
+      `/orders/${order._id}/items`,
+      {
+        body: { menuItemId: String(fries._id), quantity: 3 },
+        headers: authHeader(waiter),
+      }
+    );
+
+    expect(status).toBe(201);
+    const { items, pricing, modifications } = body.data.order;
+    expect(items).toHaveLength(3);
+    expect(items[2]).toMatchObject({
+      menuItemName: 'Fries',
+      quantity: 3,
+      unitPrice: 5,
+      totalPrice: 15,
+    });
+    expect(pricing.subtotal).toBe(34);
+    expect(modifications[0]).toMatchObject({
+      action: 'item_added',
+      itemId: items[2]._id,
+      quantity: 3,
+    });
+  });
+
+  it('should remove an item and record what was removed', async () => {
+    const { status, body } = await api.request(
+      'DELETE',
+      `/orders/${order._id}/items/${lineId(1)}`,
+      { headers: authHeader(waiter) }
+    );
+
+    expect(status).toBe(200);
+    expect(body.data.order.items).toHaveLength(1);
+    expect(body.data.order.pricing.subtotal).toBe(14);
+    expect(body.data.order.modifications[0]).toMatchObject({
+      action: 'item_removed',
+      menuItemName: 'Fries',
+      previousQuantity: 1,
+    });
+  });
+
+  it.each(['preparing', 'ready', 'served', 'cancelled'])(
+    'should not edit an order that is %s',
+    async (status) => {
+      orders.set(order._id.toString(), { ...order, status });
+
+      const response = await api.request(
+        'PATCH',
+        `/orders/${order._id}/items/${lineId(0)}`,
+        { body: { quantity: 2 }, headers: authHeader(waiter) }
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toBe(
+        `Order can only be modified while pending (current status: ${status})`
+      );
+      expect(storedOrder()).not.toHaveProperty('modifications.0');
+    }
+  );
+
+  it('should not edit an order with payments recorded', async () => {
+    orders.set(order._id.toString(), {
+      ...order,
+      amountPaid: 5,
+      paymentStatus: 'partially_paid',
+    });
+
+    const { status, body } = await api.request(
+      'DELETE',
+      `/orders/${order._id}/items/${lineId(1)}`,
+      { headers: authHeader(waiter) }
+    );
+
+    expect(status).toBe(409);
+    expect(body.error.message).toBe(
+      'Order has payments recorded and cannot be modified'
+    );
+  });
+});
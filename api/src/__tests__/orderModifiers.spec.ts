@@ -0,0 +1,150 @@
+import {
+  MenuItemModel,
+  MenuVersionModel,
+  OrderModel,
+} from '@restaurant-monorepo/database';
+import orderRoutes from '../routes/orders';
+import { buildOrder, menuItem, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockQuery,
+  mockUsers,
+  StoredDocument,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const waiter = buildUser('waiter');
+
+type StoredGroup = { _id: unknown; options: { _id: unknown }[] };
+
+describe('ordering with modifiers', () => {
+  let api: TestServer;
+  let burger: StoredDocument;
+  let order: StoredDocument;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/orders': orderRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(waiter);
+    jest
+      .spyOn(MenuVersionModel, 'findOne')
+      .mockReturnValue(mockQuery(new MenuVersionModel({ version: 1 })));
+
+    burger = menuItem('Burger', {
+      modifierGroups: [
+        {
+          name: 'Size',
+          required: true,
+          minSelections: 1,
+          maxSelections: 1,
+          options: [
+            { name: 'Regular', priceDelta: 0 },
+            { name: 'Double', priceDelta: 2.5 },
+          ],
+        },
+        {
+          name: 'Extras',
+          minSelections: 0,
+          maxSelections: 2,
+          options: [
+            { name: 'Cheese', priceDelta: 1 },
+            { name: 'Bacon', priceDelta: 2 },
+            { name: 'Egg', priceDelta: 1.5 },
+          ],
+        },
+      ],
+    });
+    const fries = menuItem('Fries', { price: 4, category: 'appetizer' });
+    mockDocuments(MenuItemModel, [burger, fries]);
+
+    order = buildOrder([
+      {
+        ...orderLine('Fries', 4, { category: 'appetizer' }),
+        menuItemId: fries._id,
+      },
+    ]);
+    mockDocuments(OrderModel, [order]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Pick options by position: [group, option]
+  const choose = (...picks: [number, number][]) =>
+    picks.map(([group, option]) => {
+      const { _id, options } = (burger.modifierGroups as StoredGroup[])[group];
+      return { groupId: String(_id), optionId: String(options[option]._id) };
+    });
+
+  const addBurger = (modifiers: ReturnType<typeof choose>, quantity = 1) =>
+    api.request('POST', `/orders/${order._id}/items`, {
+      body: { menuItemId: String(burger._id), quantity, modifiers },
+      headers: authHeader(waiter),
+    });
+
+  it('should include modifier prices in the line total', async () => {
+    const { status, body } = await addBurger(choose([0, 1], [1, 0], [1, 1]), 2);
+
+    expect(status).toBe(201);
+    const line = body.data.order.items[1];
+    expect(line).toMatchObject({
+      menuItemName: 'Burger',
+      quantity: 2,
+      unitPrice: 15.5,
+      totalPrice: 31,
+    });
+    expect(
+      line.modifiers.map(
+        (modifier: { optionName: string }) => modifier.optionName
+      )
+    ).toEqual(['Double', 'Cheese', 'Bacon']);
+    expect(body.data.order.pricing.subtotal).toBe(35);
+  });
+
+  it('should keep modifier prices when the quantity changes', async () => {
+    const added = await addBurger(choose([0, 1], [1, 2]));
+    const lineId = added.body.data.order.items[1]._id;
+
+    const { status, body } = await api.request(
+      'PATCH',
+      `/orders/${order._id}/items/${lineId}`,
+      { body: { quantity: 3 }, headers: authHeader(waiter) }
+    );
+
+    expect(status).toBe(200);
+    expect(body.data.order.items[1]).toMatchObject({
+      unitPrice: 14,
+      totalPrice: 42,
+    });
+  });
+
+  it('should require a choice from a required group', async () => {
+    const { status, body } = await addBurger(choose([1, 0]));
+
+    expect(status).toBe(400);
+    expect(body.error.message).toBe('Choose 1 for "Size" on "Burger"');
+  });
+
+  it('should only allow one choice from a single-choice group', async () => {
+    const { status, body } = await addBurger(choose([0, 0], [0, 1]));
+
+    expect(status).toBe(400);
+    expect(body.error.message).toBe('Choose 1 for "Size" on "Burger"');
+  });
+
+  it('should not allow more extras than the maximum', async () => {
+    const { status, body } = await addBurger(
+      choose([0, 0], [1, 0], [1, 1], [1, 2])
+    );
+
+    expect(status).toBe(400);
+    expect(body.error.message).toBe('Choose 0 to 2 for "Extras" on "Burger"');
+  });
+});
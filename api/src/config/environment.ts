@@ -21,6 +21,54 @@ export const env = {
   // API
   API_PREFIX: process.env.API_PREFIX || '/api',
 
+  // Realtime
+  WS_PATH: process.env.WS_PATH || '/ws',
+
+  // Payments
+  CURRENCY: process.env.CURRENCY || 'USD',
+  CARD_PROVIDER: process.env.CARD_PROVIDER || 'fake',
+
+  // Pricing (rates are percentages)
+  TAX_RATE: parseFloat(process.env.TAX_RATE || '0'),
+  TAX_RATES: process.env.TAX_RATES || '{}',
+  AUTO_GRATUITY_PARTY_SIZE: parseInt(
+    process.env.AUTO_GRATUITY_PARTY_SIZE || '0',
+    10
+  ),
+  AUTO_GRATUITY_RATE: parseFloat(process.env.AUTO_GRATUITY_RATE || '0'),
+  TAX_SERVICE_CHARGE: process.env.TAX_SERVICE_CHARGE === 'true',
+
+  // Receipts
+  RESTAURANT_NAME: process.env.RESTAURANT_NAME || 'Restaurant',
+  RESTAURANT_ADDRESS: process.env.RESTAURANT_ADDRESS || '',
+  RESTAURANT_PHONE: process.env.RESTAURANT_PHONE || '',
+  RESTAURANT_TAX_ID: process.env.RESTAURANT_TAX_ID || '',
+  RECEIPT_FOOTER: process.env.RECEIPT_FOOTER || 'Thank you for dining with us!',
+
+  // Reports (IANA timezone used to bucket days and hours)
+  REPORT_TIMEZONE: process.env.REPORT_TIMEZONE || 'UTC',
+
+  // Menu schedules (IANA timezone, and JSON of daypart to {start, end} HH:mm)
+  MENU_TIMEZONE:
+    process.env.MENU_TIMEZONE || process.env.REPORT_TIMEZONE || 'UTC',
+  DAYPART_HOURS: process.env.DAYPART_HOURS || '{}',
+
+  // Image uploads (STORAGE_DRIVER is local or s3). Uploaded files are served
+  // from UPLOAD_BASE_URL, which defaults to this API's /uploads route.
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local',
+  UPLOAD_DIR: process.env.UPLOAD_DIR || 'uploads',
+  UPLOAD_BASE_URL:
+    process.env.UPLOAD_BASE_URL ||
+    `http://${process.env.HOST || 'localhost'}:${process.env.PORT || '3000'}/uploads`,
+  MAX_IMAGE_UPLOAD_MB: parseFloat(process.env.MAX_IMAGE_UPLOAD_MB || '5'),
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  // For S3-compatible services such as MinIO or R2
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_PUBLIC_URL: process.env.S3_PUBLIC_URL || '',
+
   // CORS
   CORS_ORIGIN:
     process.env.CORS_ORIGIN || 'http://localhost:3000,http://localhost:4200,http://localhost:4201',
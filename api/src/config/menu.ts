@@ -0,0 +1,36 @@
+import {
+  Daypart,
+  DaypartConfig,
+  DaypartHours,
+} from '@restaurant-monorepo/shared-types';
+import { env } from './environment';
+
+const DEFAULT_DAYPART_HOURS: Record<Daypart, DaypartHours> = {
+  breakfast: { start: '06:00', end: '11:00' },
+  lunch: { start: '11:00', end: '16:00' },
+  dinner: { start: '16:00', end: '23:00' },
+};
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function parseDaypartHours(value: string): Record<Daypart, DaypartHours> {
+  let overrides: Partial<Record<Daypart, DaypartHours>>;
+  try {
+    overrides = JSON.parse(value);
+  } catch {
+    throw new Error('DAYPART_HOURS must be a JSON object of daypart to hours');
+  }
+
+  const dayparts = { ...DEFAULT_DAYPART_HOURS, ...overrides };
+  for (const [daypart, hours] of Object.entries(dayparts)) {
+    if (!TIME.test(hours?.start) || !TIME.test(hours?.end)) {
+      throw new Error(`DAYPART_HOURS for ${daypart} must use HH:mm times`);
+    }
+  }
+  return dayparts;
+}
+
+export const daypartConfig: DaypartConfig = {
+  timezone: env.MENU_TIMEZONE,
+  dayparts: parseDaypartHours(env.DAYPART_HOURS),
+};
@@ -0,0 +1,23 @@
+import { MenuCategory, PricingConfig } from '@restaurant-monorepo/shared-types';
+import { env } from './environment';
+
+function parseTaxRates(value: string): Partial<Record<MenuCategory, number>> {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error('TAX_RATES must be a JSON object of category to rate');
+  }
+}
+
+export const pricingConfig: PricingConfig = {
+  defaultTaxRate: env.TAX_RATE,
+  taxRates: parseTaxRates(env.TAX_RATES),
+  autoGratuity:
+    env.AUTO_GRATUITY_PARTY_SIZE > 0 && env.AUTO_GRATUITY_RATE > 0
+      ? {
+          minPartySize: env.AUTO_GRATUITY_PARTY_SIZE,
+          rate: env.AUTO_GRATUITY_RATE,
+        }
+      : undefined,
+  taxServiceCharge: env.TAX_SERVICE_CHARGE,
+};
@@ -5,7 +5,9 @@ import {
   LoginRequest,
   LoginResponse,
   ROLE_PERMISSIONS,
+  SetApprovalPinRequest,
 } from '@restaurant-monorepo/shared-types';
+import { canApproveWithPin } from '@restaurant-monorepo/rbac';
 import { generateToken, AuthenticatedRequest } from '../middleware/auth';
 import { ApiError } from '../utils/apiError';
 import { asyncHandler } from '../utils/asyncHandler';
@@ -146,6 +148,43 @@ export const refreshToken = asyncHandler(
   }
 );
 
+/**
+ * Set Approval PIN
+ * Owners and managers use the PIN to approve voids and refunds on other
+ * users' sessions
+ */
+export const setApprovalPin = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { pin, currentPassword }: SetApprovalPinRequest = req.body;
+
+    if (!req.user) {
+      throw ApiError.unauthorized('User not authenticated');
+    }
+
+    if (!canApproveWithPin(req.user.role)) {
+      throw ApiError.forbidden('Only owners and managers can set an approval PIN');
+    }
+
+    const user = await UserModel.findById(req.user._id).select('+password');
+    if (!user || !(await bcrypt.compare(currentPassword, user.password))) {
+      throw ApiError.unauthorized('Current password is incorrect');
+    }
+
+    const saltRounds = 12;
+    user.pin = await bcrypt.hash(pin, saltRounds);
+    user.pinFailedAttempts = 0;
+    user.pinLockedUntil = undefined;
+    await user.save();
+
+    logger.info('Approval PIN updated', { userId: user.id });
+
+    res.json({
+      success: true,
+      message: 'Approval PIN updated successfully',
+    });
+  }
+);
+
 /**
  * Logout (Optional - mainly for logging purposes)
  */
@@ -0,0 +1,278 @@
+import { Response } from 'express';
+import {
+  MenuItemModel,
+  OrderModel,
+  UserModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  ExportFormat,
+  MenuTransferFormat,
+  Order,
+  ReportGranularity,
+  ReportQuery,
+  SalesReportPoint,
+  User,
+  UserRole,
+} from '@restaurant-monorepo/shared-types';
+import { getOrderPricing } from '@restaurant-monorepo/pricing';
+import { hasPermission } from '@restaurant-monorepo/rbac';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import { ExportColumn, sendTableExport } from '../services/exports';
+import { buildOrderFilter } from '../services/orderFilters';
+import { MENU_EXPORT_COLUMNS, toTransferRow } from '../services/menuTransfer';
+import { buildSalesReport, getReportRange } from '../services/reports';
+import { env } from '../config/environment';
+
+type ExportedOrder = Order & { createdBy?: { name: string } };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatMoney = (value: number) => `${value.toFixed(2)} ${env.CURRENCY}`;
+
+/**
+ * Export Order History
+ * Uses the same filters as the order list. Customer names are only included
+ * for roles with VIEW_CUSTOMER_DATA.
+ */
+export const exportOrders = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw ApiError.unauthorized('User not authenticated');
+    }
+
+    const format = req.query.format as ExportFormat;
+    const filter = buildOrderFilter(req.query);
+    const showCustomer = hasPermission(req.user.role, 'VIEW_CUSTOMER_DATA');
+
+    const columns: ExportColumn<ExportedOrder>[] = [
+      { header: 'Order', width: 16, value: (order) => order.orderNumber },
+      { header: 'Placed', width: 24, value: (order) => order.createdAt },
+      { header: 'Table', width: 5, value: (order) => order.tableNumber },
+      ...(showCustomer
+        ? [
+            {
+              header: 'Customer',
+              width: 16,
+              value: (order: ExportedOrder) => order.customerName,
+            },
+          ]
+        : []),
+      { header: 'Status', width: 9, value: (order) => order.status },
+      {
+        header: 'Payment',
+        width: 14,
+        value: (order) => order.paymentStatus ?? 'unpaid',
+      },
+      { header: 'Items', width: 5, value: (order) => order.items.length },
+      {
+        header: 'Subtotal',
+        width: 9,
+        value: (order) => getOrderPricing(order).subtotal,
+      },
+      {
+        header: 'Discounts',
+        width: 9,
+        value: (order) => {
+          const pricing = getOrderPricing(order);
+          return pricing.lineDiscounts + pricing.orderDiscount;
+        },
+      },
+      {
+        header: 'Service',
+        width: 8,
+        value: (order) => getOrderPricing(order).serviceCharge,
+      },
+      { header: 'Tax', width: 8, value: (order) => getOrderPricing(order).tax },
+      { header: 'Total', width: 9, value: (order) => order.total },
+      { header: 'Paid', width: 9, value: (order) => order.amountPaid ?? 0 },
+      {
+        header: 'Refunded',
+        width: 9,
+        value: (order) => order.amountRefunded ?? 0,
+      },
+      {
+        header: 'Created By',
+        width: 16,
+        value: (order) => order.createdBy?.name,
+      },
+    ];
+
+    // The PDF opens with totals for everything matched
+    let summary: string[] | undefined;
+    if (format === 'pdf') {
+      const [totals] = await OrderModel.aggregate([
+        { $match: filter },
+        {
+          $group: {
+            _id: null,
+            orders: { $sum: 1 },
+            total: { $sum: '$total' },
+            paid: { $sum: { $ifNull: ['$amountPaid', 0] } },
+            refunded: { $sum: { $ifNull: ['$amountRefunded', 0] } },
+          },
+        },
+      ]);
+      summary = [
+        `Orders: ${totals?.orders ?? 0}`,
+        `Billed: ${formatMoney(totals?.total ?? 0)}`,
+        `Paid: ${formatMoney(totals?.paid ?? 0)}`,
+        `Refunded: ${formatMoney(totals?.refunded ?? 0)}`,
+      ];
+    }
+
+    const rows = OrderModel.find(filter)
+      .populate('createdBy', 'name')
+      .sort({ createdAt: -1 })
+      .lean<ExportedOrder[]>()
+      .cursor();
+
+    logger.info('Order history exported', {
+      format,
+      filter,
+      includesCustomerData: showCustomer,
+      exportedBy: req.user._id,
+    });
+
+    await sendTableExport(res, {
+      format,
+      filename: `orders-${today()}`,
+      title: 'Order History',
+      columns,
+      rows,
+      summary,
+    });
+  }
+);
+
+/**
+ * Export Sales Report
+ * The sales report's periods as rows, with totals in the PDF summary
+ */
+export const exportSalesReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const query = req.query as unknown as ReportQuery & {
+      granularity: ReportGranularity;
+      format: ExportFormat;
+    };
+    const range = getReportRange(query);
+    const report = await buildSalesReport(range, query.granularity);
+
+    const columns: ExportColumn<SalesReportPoint>[] = [
+      { header: 'Period', width: 24, value: (point) => point.period },
+      { header: 'Orders', width: 8, value: (point) => point.orders },
+      { header: 'Revenue', width: 12, value: (point) => point.revenue },
+      {
+        header: 'Average Ticket',
+        width: 14,
+        value: (point) => point.averageTicket,
+      },
+      { header: 'Refunds', width: 12, value: (point) => point.refunds },
+    ];
+
+    logger.info('Sales report exported', {
+      format: query.format,
+      from: range.from,
+      to: range.to,
+      granularity: query.granularity,
+      exportedBy: req.user?._id,
+    });
+
+    await sendTableExport(res, {
+      format: query.format,
+      filename: `sales-${query.from.slice(0, 10)}-${query.to.slice(0, 10)}`,
+      title: 'Sales Report',
+      columns,
+      rows: report.series,
+      summary: [
+        `Period: ${range.from.toISOString()} to ${range.to.toISOString()} (${
+          range.timezone
+        }, by ${query.granularity})`,
+        `Orders: ${report.totals.orders}`,
+        `Revenue: ${formatMoney(report.totals.revenue)}`,
+        `Average ticket: ${formatMoney(report.totals.averageTicket)}`,
+        `Refunds: ${formatMoney(report.totals.refunds)}`,
+      ],
+    });
+  }
+);
+
+/**
+ * Export Staff List
+ */
+export const exportStaff = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { format, role, isActive } = req.query as unknown as {
+      format: ExportFormat;
+      role?: UserRole;
+      isActive?: 'true' | 'false';
+    };
+
+    const filter: mongoose.FilterQuery<User> = {};
+    if (role) filter.role = role;
+    if (isActive !== undefined) filter.isActive = isActive === 'true';
+
+    const columns: ExportColumn<User>[] = [
+      { header: 'Name', width: 24, value: (user) => user.name },
+      { header: 'Email', width: 32, value: (user) => user.email },
+      { header: 'Role', width: 8, value: (user) => user.role },
+      { header: 'Active', width: 6, value: (user) => user.isActive },
+      { header: 'Joined', width: 24, value: (user) => user.createdAt },
+      { header: 'Last Login', width: 24, value: (user) => user.lastLogin },
+    ];
+
+    logger.info('Staff list exported', { format, exportedBy: req.user?._id });
+
+    await sendTableExport(res, {
+      format,
+      filename: `staff-${today()}`,
+      title: 'Staff',
+      columns,
+      rows: UserModel.find(filter).sort({ name: 1 }).lean<User[]>().cursor(),
+    });
+  }
+);
+
+/**
+ * Export Menu
+ * Every item on the menu as published, in the format the menu import reads
+ */
+export const exportMenu = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const format = req.query.format as MenuTransferFormat;
+    const filename = `menu-${today()}`;
+
+    const menuItems = await MenuItemModel.find({
+      published: { $ne: false },
+      archivedAt: null,
+    }).sort({ category: 1, name: 1 });
+    const rows = menuItems.map(toTransferRow);
+
+    logger.info('Menu exported', {
+      format,
+      count: rows.length,
+      exportedBy: req.user?._id,
+    });
+
+    if (format === 'json') {
+      res
+        .setHeader(
+          'Content-Disposition',
+          `attachment; filename="${filename}.json"`
+        )
+        .json(rows);
+      return;
+    }
+
+    await sendTableExport(res, {
+      format,
+      filename,
+      title: 'Menu',
+      columns: MENU_EXPORT_COLUMNS,
+      rows,
+    });
+  }
+);
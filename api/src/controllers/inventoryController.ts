@@ -0,0 +1,233 @@
+import { Response } from 'express';
+import {
+  IngredientModel,
+  MenuItemModel,
+  StockMovementModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  CreateIngredientRequest,
+  Ingredient,
+  RecordStockMovementRequest,
+} from '@restaurant-monorepo/shared-types';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import { recordStockMovement } from '../services/inventory';
+
+/**
+ * Create Ingredient (opening stock is recorded as a count)
+ */
+export const createIngredient = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { stock, ...ingredientData }: CreateIngredientRequest = req.body;
+
+    const existingIngredient = await IngredientModel.findOne({
+      name: ingredientData.name,
+    });
+    if (existingIngredient) {
+      throw ApiError.conflict(
+        `Ingredient "${ingredientData.name}" already exists`
+      );
+    }
+
+    const ingredient = await IngredientModel.create(ingredientData);
+
+    const stocked = stock
+      ? (
+          await recordStockMovement(
+            ingredient.id,
+            { type: 'count', quantity: stock, reason: 'Opening stock' },
+            req.user?._id
+          )
+        ).ingredient
+      : ingredient;
+
+    logger.info('Ingredient created', {
+      ingredientId: ingredient._id,
+      name: ingredient.name,
+      createdBy: req.user?._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Ingredient created successfully',
+      data: {
+        ingredient: stocked,
+      },
+    });
+  }
+);
+
+/**
+ * Get Ingredients, optionally only those at or below their threshold
+ */
+export const getIngredients = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const lowStock = req.query.lowStock as string;
+
+    const filter: mongoose.FilterQuery<Ingredient> = {};
+    if (lowStock === 'true') {
+      filter.$expr = { $lte: ['$stock', '$lowStockThreshold'] };
+    }
+
+    const ingredients = await IngredientModel.find(filter).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        ingredients,
+        count: ingredients.length,
+      },
+    });
+  }
+);
+
+/**
+ * Update Ingredient (name, unit, threshold; stock changes go through movements)
+ */
+export const updateIngredient = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const changes: Partial<Omit<CreateIngredientRequest, 'stock'>> = req.body;
+
+    if (changes.name) {
+      const existingIngredient = await IngredientModel.findOne({
+        name: changes.name,
+        _id: { $ne: req.params.id },
+      });
+      if (existingIngredient) {
+        throw ApiError.conflict(`Ingredient "${changes.name}" already exists`);
+      }
+    }
+
+    const ingredient = await IngredientModel.findByIdAndUpdate(
+      req.params.id,
+      changes,
+      { new: true, runValidators: true }
+    );
+
+    if (!ingredient) {
+      throw ApiError.notFound('Ingredient not found');
+    }
+
+    logger.info('Ingredient updated', {
+      ingredientId: ingredient._id,
+      name: ingredient.name,
+      updatedBy: req.user?._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Ingredient updated successfully',
+      data: {
+        ingredient,
+      },
+    });
+  }
+);
+
+/**
+ * Delete Ingredient
+ */
+export const deleteIngredient = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const ingredient = await IngredientModel.findById(req.params.id);
+
+    if (!ingredient) {
+      throw ApiError.notFound('Ingredient not found');
+    }
+
+    const usedBy = await MenuItemModel.findOne(
+      { 'recipe.ingredientId': ingredient._id },
+      'name'
+    );
+    if (usedBy) {
+      throw ApiError.conflict(
+        `Ingredient is used in the recipe for "${usedBy.name}"`
+      );
+    }
+
+    await ingredient.deleteOne();
+
+    logger.info('Ingredient deleted', {
+      ingredientId: ingredient._id,
+      name: ingredient.name,
+      deletedBy: req.user?._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Ingredient deleted successfully',
+    });
+  }
+);
+
+/**
+ * Record a Restock, Wastage or Stock Count
+ */
+export const createStockMovement = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const movementData: RecordStockMovementRequest = req.body;
+
+    const { ingredient, movement } = await recordStockMovement(
+      req.params.id,
+      movementData,
+      req.user?._id
+    );
+
+    logger.info('Stock movement recorded', {
+      ingredientId: req.params.id,
+      type: movement.type,
+      quantity: movement.quantity,
+      stockAfter: movement.stockAfter,
+      recordedBy: req.user?._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock updated successfully',
+      data: {
+        ingredient,
+        movement,
+      },
+    });
+  }
+);
+
+/**
+ * Get Stock Movements for an Ingredient, newest first
+ */
+export const getStockMovements = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const filter = { ingredientId: req.params.id };
+
+    const [movements, totalCount] = await Promise.all([
+      StockMovementModel.find(filter)
+        .populate('createdBy', 'name')
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip((page - 1) * limit),
+      StockMovementModel.countDocuments(filter),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        movements,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  }
+);
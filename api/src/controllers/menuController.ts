@@ -1,10 +1,16 @@
 import { Request, Response } from 'express';
-import { MenuItemModel } from '@restaurant-monorepo/database';
-import { CreateMenuItemRequest, MenuCategory } from '@restaurant-monorepo/shared-types';
+import { MenuItemModel, OrderModel, mongoose } from '@restaurant-monorepo/database';
+import { Allergen, CreateMenuItemRequest, DietaryTag, ImportMenuRequest, MenuCategory, MenuItem } from '@restaurant-monorepo/shared-types';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { ApiError } from '../utils/apiError';
 import { asyncHandler } from '../utils/asyncHandler';
 import { logger } from '../utils/logger';
+import { removeMenuImages, storeMenuImage } from '../services/menuImages';
+import { checkNameAvailable, newMenuItemDraft, saveMenuItemDraft } from '../services/menuVersions';
+import { importMenuItems } from '../services/menuTransfer';
+import { getRestaurantTime, isOrderableAt, isWithinSchedule } from '../services/menuSchedules';
+import { searchMenuItems } from '../services/menuSearch';
+import { daypartConfig } from '../config/menu';
 
 /**
  * Create Menu Item
@@ -12,7 +18,8 @@ import { logger } from '../utils/logger';
 export const createMenuItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const menuItemData: CreateMenuItemRequest = req.body;
 
-  const menuItem = new MenuItemModel(menuItemData);
+  // New items stay off the menu until the next publish
+  const menuItem = await newMenuItemDraft(menuItemData, req.user?._id);
   await menuItem.save();
 
   logger.info('Menu item created', { 
@@ -23,7 +30,7 @@ export const createMenuItem = asyncHandler(async (req: AuthenticatedRequest, res
 
   res.status(201).json({
     success: true,
-    message: 'Menu item created successfully',
+    message: 'Menu item created as a draft. Publish the menu to put it on sale.',
     data: {
       menuItem,
     },
@@ -32,28 +39,72 @@ export const createMenuItem = asyncHandler(async (req: AuthenticatedRequest, res
 
 /**
  * Get Menu Items with Filters
+ * Items outside their schedule at `at` (default now) are left out unless
+ * includeUnavailable is set.
  */
 export const getMenuItems = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const category = req.query.category as MenuCategory;
   const available = req.query.available as string;
   const search = req.query.search as string;
+  const orderable = req.query.orderable as string;
+  const includeUnavailable = req.query.includeUnavailable === 'true';
+  const at = req.query.at ? new Date(req.query.at as string) : new Date();
+  const excludeAllergens = req.query.excludeAllergens as Allergen[] | undefined;
+  const dietary = req.query.dietary as DietaryTag[] | undefined;
 
   // Build filter object
-  const filter: any = {};
+  const filter: mongoose.FilterQuery<MenuItem> = { published: { $ne: false }, archivedAt: null };
   if (category) filter.category = category;
   if (available !== undefined) filter.available = available === 'true';
-  if (search) {
-    filter.$text = { $search: search };
-  }
+  if (excludeAllergens?.length) filter.allergens = { $nin: excludeAllergens };
+  if (dietary?.length) filter.dietaryTags = { $all: dietary };
 
-  const menuItems = await MenuItemModel.find(filter)
+  const items = await MenuItemModel.find(filter)
     .sort({ category: 1, name: 1 });
 
+  // Schedules depend on the restaurant's local time, so they're checked here.
+  // Items outside their schedule are hidden unless asked for.
+  const now = getRestaurantTime(at);
+  const filtered = items.filter(
+    (item) =>
+      (includeUnavailable || isWithinSchedule(item.schedule, now)) &&
+      (orderable === undefined || isOrderableAt(item, at) === (orderable === 'true'))
+  );
+
+  // Searches come back best match first, with what matched in each item
+  const { menuItems, matches } = search
+    ? await searchMenuItems(filtered, search)
+    : { menuItems: filtered, matches: undefined };
+
   res.json({
     success: true,
     data: {
       menuItems,
       count: menuItems.length,
+      ...(matches && { matches }),
+    },
+  });
+});
+
+/**
+ * Import Menu Items from CSV or JSON
+ * Upserts by name. New items and changes wait for the next menu publish.
+ */
+export const importMenu = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { format, content, dryRun = false }: ImportMenuRequest = req.body;
+
+  const result = await importMenuItems(format, content, {
+    dryRun,
+    userId: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: dryRun
+      ? 'Import checked. Nothing has been saved.'
+      : `Imported ${result.created + result.updated} menu items as drafts. Publish the menu to make them live.`,
+    data: {
+      result,
     },
   });
 });
@@ -62,7 +113,11 @@ export const getMenuItems = asyncHandler(async (req: Request, res: Response): Pr
  * Get Menu Item by ID
  */
 export const getMenuItemById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const menuItem = await MenuItemModel.findById(req.params.id);
+  const menuItem = await MenuItemModel.findOne({
+    _id: req.params.id,
+    published: { $ne: false },
+    archivedAt: null,
+  });
 
   if (!menuItem) {
     throw ApiError.notFound('Menu item not found');
@@ -77,20 +132,46 @@ export const getMenuItemById = asyncHandler(async (req: Request, res: Response):
 });
 
 /**
- * Update Menu Item
+ * Update Menu Item. Changes are saved to the item's draft and go live with
+ * the next menu publish; only the image URL changes straight away.
  */
 export const updateMenuItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  const menuItem = await MenuItemModel.findByIdAndUpdate(
-    req.params.id,
-    req.body,
-    { new: true, runValidators: true }
-  );
+  const { imageUrl, ...changes }: Partial<CreateMenuItemRequest> = req.body;
+
+  const existing = await MenuItemModel.findById(req.params.id).select('+draft');
+  if (!existing) {
+    throw ApiError.notFound('Menu item not found');
+  }
+
+  if (existing.archivedAt) {
+    throw ApiError.conflict('Restore this menu item before editing it');
+  }
+
+  const draft =
+    Object.keys(changes).length > 0
+      ? await saveMenuItemDraft(existing, changes, req.user?._id)
+      : null;
+
+  // A different image URL replaces the uploaded photo and its thumbnail
+  const imageReplaced = imageUrl !== undefined && imageUrl !== existing.imageUrl;
+
+  const menuItem = imageReplaced
+    ? await MenuItemModel.findByIdAndUpdate(
+        req.params.id,
+        { imageUrl, $unset: { thumbnailUrl: 1 } },
+        { new: true, runValidators: true }
+      )
+    : existing;
 
   if (!menuItem) {
     throw ApiError.notFound('Menu item not found');
   }
 
-  logger.info('Menu item updated', { 
+  if (imageReplaced) {
+    await removeMenuImages([existing.imageUrl, existing.thumbnailUrl]);
+  }
+
+  logger.info('Menu item draft saved', { 
     menuItemId: menuItem._id, 
     name: menuItem.name,
     updatedBy: req.user?._id 
@@ -98,32 +179,251 @@ export const updateMenuItem = asyncHandler(async (req: AuthenticatedRequest, res
 
   res.json({
     success: true,
-    message: 'Menu item updated successfully',
+    message: draft
+      ? 'Changes saved as a draft. Publish the menu to make them live.'
+      : 'Menu item updated successfully',
     data: {
       menuItem,
+      draft,
     },
   });
 });
 
+/**
+ * Throw if a bundle still offers the menu item
+ */
+async function checkNotInBundle(menuItemId: string): Promise<void> {
+  const bundle = await MenuItemModel.findOne(
+    { 'bundleSlots.menuItemIds': menuItemId },
+    'name'
+  );
+  if (bundle) {
+    throw ApiError.conflict(
+      `Menu item is part of the "${bundle.name}" bundle. Remove it from the bundle first.`
+    );
+  }
+}
+
 /**
  * Delete Menu Item (Soft Delete)
+ * Archives the item: it leaves the menu and POS, but orders and reports
+ * still resolve it. Unpublished edits are dropped.
  */
 export const deleteMenuItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  const menuItem = await MenuItemModel.findByIdAndDelete(req.params.id);
+  await checkNotInBundle(req.params.id);
+
+  const menuItem = await MenuItemModel.findOneAndUpdate(
+    { _id: req.params.id, archivedAt: null },
+    {
+      archivedAt: new Date(),
+      archivedBy: req.user?._id,
+      $unset: { draft: 1 },
+    },
+    { new: true }
+  );
 
   if (!menuItem) {
     throw ApiError.notFound('Menu item not found');
   }
 
-  logger.info('Menu item deleted', { 
+  logger.info('Menu item archived', { 
     menuItemId: menuItem._id, 
     name: menuItem.name,
-    deletedBy: req.user?._id 
+    archivedBy: req.user?._id 
+  });
+
+  res.json({
+    success: true,
+    message: 'Menu item archived',
+    data: {
+      menuItem,
+    },
+  });
+});
+
+/**
+ * Get Archived Menu Items
+ */
+export const getArchivedMenuItems = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const menuItems = await MenuItemModel.find({ archivedAt: { $ne: null } })
+    .populate('archivedBy', 'name')
+    .sort({ archivedAt: -1 });
+
+  res.json({
+    success: true,
+    data: {
+      menuItems,
+      count: menuItems.length,
+    },
+  });
+});
+
+/**
+ * Restore Archived Menu Item
+ */
+export const restoreMenuItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const menuItem = await MenuItemModel.findOne({
+    _id: req.params.id,
+    archivedAt: { $ne: null },
+  });
+
+  if (!menuItem) {
+    throw ApiError.notFound('Archived menu item not found');
+  }
+
+  // The name may have gone to a new item while this one was archived
+  await checkNameAvailable(menuItem.name, menuItem.id);
+
+  menuItem.set('archivedAt', undefined);
+  menuItem.set('archivedBy', undefined);
+  // An item that was never on sale comes back as a draft waiting to publish
+  if (!menuItem.published) {
+    menuItem.set('draft', {
+      changes: { published: true },
+      updatedBy: req.user?._id,
+    });
+  }
+  await menuItem.save();
+
+  logger.info('Menu item restored', {
+    menuItemId: menuItem._id,
+    name: menuItem.name,
+    restoredBy: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: menuItem.published
+      ? 'Menu item restored'
+      : 'Menu item restored as a draft. Publish the menu to put it on sale.',
+    data: {
+      menuItem,
+    },
+  });
+});
+
+/**
+ * Purge Menu Item (Permanent Delete)
+ * Only archived items can be purged, and never while an open order uses
+ * them. Past orders keep the item's name and price on their lines.
+ */
+export const purgeMenuItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const menuItem = await MenuItemModel.findById(req.params.id);
+
+  if (!menuItem) {
+    throw ApiError.notFound('Menu item not found');
+  }
+
+  if (!menuItem.archivedAt) {
+    throw ApiError.badRequest('Archive the menu item before deleting it permanently');
+  }
+
+  await checkNotInBundle(req.params.id);
+
+  // Open means still in the kitchen, or served and not yet settled
+  const openOrder = await OrderModel.findOne(
+    {
+      'items.menuItemId': menuItem._id,
+      $or: [
+        { status: { $in: ['pending', 'preparing', 'ready'] } },
+        { status: 'served', paymentStatus: { $in: ['unpaid', 'partially_paid'] } },
+      ],
+    },
+    'orderNumber'
+  );
+  if (openOrder) {
+    throw ApiError.conflict(
+      `Menu item is on open order ${openOrder.orderNumber}. Try again once it is paid or cancelled.`
+    );
+  }
+
+  await MenuItemModel.deleteOne({ _id: menuItem._id });
+  await removeMenuImages([menuItem.imageUrl, menuItem.thumbnailUrl]);
+
+  logger.info('Menu item purged', {
+    menuItemId: menuItem._id,
+    name: menuItem.name,
+    purgedBy: req.user?._id,
   });
 
   res.json({
     success: true,
-    message: 'Menu item deleted successfully',
+    message: 'Menu item deleted permanently',
+  });
+});
+
+/**
+ * Upload Menu Item Image (multipart field "image")
+ */
+export const uploadMenuItemImage = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.file) {
+    throw ApiError.badRequest('Attach an image file in the "image" field');
+  }
+
+  const menuItem = await MenuItemModel.findById(req.params.id);
+
+  if (!menuItem) {
+    throw ApiError.notFound('Menu item not found');
+  }
+
+  const previousImages = [menuItem.imageUrl, menuItem.thumbnailUrl];
+  const { imageUrl, thumbnailUrl } = await storeMenuImage(
+    menuItem.id,
+    req.file.buffer
+  );
+
+  menuItem.imageUrl = imageUrl;
+  menuItem.thumbnailUrl = thumbnailUrl;
+  await menuItem.save();
+
+  await removeMenuImages(previousImages);
+
+  logger.info('Menu item image uploaded', {
+    menuItemId: menuItem._id,
+    name: menuItem.name,
+    size: req.file.size,
+    uploadedBy: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: 'Menu item image uploaded successfully',
+    data: {
+      menuItem,
+    },
+  });
+});
+
+/**
+ * Remove Menu Item Image
+ */
+export const removeMenuItemImage = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const menuItem = await MenuItemModel.findById(req.params.id);
+
+  if (!menuItem) {
+    throw ApiError.notFound('Menu item not found');
+  }
+
+  const previousImages = [menuItem.imageUrl, menuItem.thumbnailUrl];
+
+  menuItem.imageUrl = undefined;
+  menuItem.thumbnailUrl = undefined;
+  await menuItem.save();
+
+  await removeMenuImages(previousImages);
+
+  logger.info('Menu item image removed', {
+    menuItemId: menuItem._id,
+    name: menuItem.name,
+    removedBy: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: 'Menu item image removed successfully',
+    data: {
+      menuItem,
+    },
   });
 });
 
@@ -156,12 +456,26 @@ export const toggleAvailability = asyncHandler(async (req: AuthenticatedRequest,
   });
 });
 
+/**
+ * Get Daypart Hours
+ * Lets the dashboards show when each daypart runs
+ */
+export const getDayparts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: {
+      config: daypartConfig,
+    },
+  });
+});
+
 /**
  * Get Menu Categories with Item Counts
  */
 export const getMenuCategories = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const categories = await MenuItemModel.aggregate([
-    { $match: { available: true } },
+    // Only what's on the live menu, matching the menu list
+    { $match: { available: true, published: { $ne: false }, archivedAt: null } },
     {
       $group: {
         _id: '$category',
@@ -0,0 +1,219 @@
+import { Response } from 'express';
+import {
+  MenuItemModel,
+  MenuItemRevisionModel,
+  MenuVersionModel,
+} from '@restaurant-monorepo/database';
+import { PublishMenuRequest } from '@restaurant-monorepo/shared-types';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import {
+  getCurrentMenuVersion,
+  listMenuDrafts,
+  publishMenuDrafts,
+  rollbackMenuToVersion,
+} from '../services/menuVersions';
+
+/**
+ * Get Menu Drafts (every item with unpublished edits, as it will look)
+ */
+export const getMenuDrafts = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const [drafts, currentVersion] = await Promise.all([
+      listMenuDrafts(),
+      getCurrentMenuVersion(),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        drafts,
+        currentVersion,
+      },
+    });
+  }
+);
+
+/**
+ * Get Menu Item for Editing (with its draft changes applied, if any)
+ */
+export const getMenuItemDraft = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const [draft] = await listMenuDrafts({ _id: req.params.id });
+    const menuItem =
+      draft?.menuItem ?? (await MenuItemModel.findById(req.params.id));
+
+    if (!menuItem) {
+      throw ApiError.notFound('Menu item not found');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        menuItem,
+        draft: draft ?? null,
+      },
+    });
+  }
+);
+
+/**
+ * Discard Menu Item Draft
+ */
+export const discardMenuItemDraft = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const [draft] = await listMenuDrafts({ _id: req.params.id });
+    if (!draft) {
+      throw ApiError.notFound('This menu item has no draft changes');
+    }
+    if (draft.isNew) {
+      throw ApiError.badRequest(
+        'This item has never been published. Delete it instead.'
+      );
+    }
+
+    await MenuItemModel.updateOne(
+      { _id: req.params.id },
+      { $unset: { draft: 1 } }
+    );
+
+    logger.info('Menu item draft discarded', {
+      menuItemId: req.params.id,
+      discardedBy: req.user?._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Draft changes discarded',
+    });
+  }
+);
+
+/**
+ * Publish Menu (every draft goes live as one new version)
+ */
+export const publishMenu = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { note }: PublishMenuRequest = req.body;
+
+    const version = await publishMenuDrafts(req.user?._id, note);
+
+    res.status(201).json({
+      success: true,
+      message: `Menu version ${version.version} published`,
+      data: {
+        version,
+      },
+    });
+  }
+);
+
+/**
+ * Get Menu Versions
+ */
+export const getMenuVersions = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const [versions, totalCount] = await Promise.all([
+      MenuVersionModel.find()
+        .populate('publishedBy', 'name')
+        .sort({ version: -1 })
+        .limit(limit)
+        .skip((page - 1) * limit),
+      MenuVersionModel.countDocuments(),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        versions,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Get Menu Version Changes
+ */
+export const getMenuVersionChanges = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const version = Number(req.params.version);
+
+    const menuVersion = await MenuVersionModel.findOne({ version }).populate(
+      'publishedBy',
+      'name'
+    );
+    if (!menuVersion) {
+      throw ApiError.notFound(`Menu version ${version} not found`);
+    }
+
+    const revisions = await MenuItemRevisionModel.find({ version })
+      .populate('changedBy', 'name')
+      .sort({ menuItemName: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        version: menuVersion,
+        revisions,
+      },
+    });
+  }
+);
+
+/**
+ * Roll the Menu Back to an Earlier Version
+ */
+export const rollbackMenu = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { note }: PublishMenuRequest = req.body;
+
+    const version = await rollbackMenuToVersion(
+      Number(req.params.version),
+      req.user?._id,
+      note
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Menu rolled back to version ${version.rollbackOf}`,
+      data: {
+        version,
+      },
+    });
+  }
+);
+
+/**
+ * Get Menu Item History (every published change to the item)
+ */
+export const getMenuItemHistory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const revisions = await MenuItemRevisionModel.find({
+      menuItemId: req.params.id,
+    })
+      .populate('changedBy', 'name')
+      .sort({ version: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        revisions,
+      },
+    });
+  }
+);
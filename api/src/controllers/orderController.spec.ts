@@ -0,0 +1,200 @@
+import { OrderModel } from '@restaurant-monorepo/database';
+import { OrderCheck, OrderItem } from '@restaurant-monorepo/shared-types';
+import { pricingConfig } from '../config/pricing';
+import orderRoutes from '../routes/orders';
+import { buildOrder, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockUsers,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const waiter = buildUser('waiter');
+
+describe('bill splitting', () => {
+  let api: TestServer;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/orders': orderRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(waiter);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const split = (orderId: unknown, body: unknown) =>
+    api.request('POST', `/orders/${orderId}/split`, {
+      body,
+      headers: authHeader(waiter),
+    });
+
+  const sumOf = (checks: { total: number }[]) =>
+    Math.round(checks.reduce((sum, check) => sum + check.total * 100, 0)) / 100;
+
+  it('should split by line, with each check carrying its own tax', async () => {
+    jest.replaceProperty(pricingConfig, 'defaultTaxRate', 8);
+    const burger = orderLine('Burger', 12.5);
+    const fries = orderLine('Fries', 4.25);
+    const soda = orderLine('Soda', 2.99, { quantity: 2, category: 'beverage' });
+    const order = buildOrder([burger, fries, soda]);
+    mockDocuments(OrderModel, [order]);
+
+    const { status, body } = await split(order._id, {
+      method: 'by_item',
+      checks: [
+        { label: 'Alex', itemIds: [String(burger._id), String(soda._id)] },
+        { itemIds: [String(fries._id)] },
+      ],
+    });
+
+    expect(status).toBe(200);
+    const { checks, total } = body.data.order;
+    expect(checks).toHaveLength(2);
+    expect(checks[0]).toMatchObject({
+      label: 'Alex',
+      subtotal: 18.48,
+      tax: 1.48,
+      total: 19.96,
+      paymentStatus: 'unpaid',
+    });
+    expect(checks[1]).toMatchObject({
+      label: 'Check 2',
+      subtotal: 4.25,
+      tax: 0.34,
+      total: 4.59,
+    });
+    expect(sumOf(checks)).toBe(total);
+  });
+
+  it('should refuse a line split that leaves an item off every check', async () => {
+    const burger = orderLine('Burger', 12.5);
+    const fries = orderLine('Fries', 4.25);
+    const soda = orderLine('Soda', 2.99);
+    const order = buildOrder([burger, fries, soda]);
+    mockDocuments(OrderModel, [order]);
+
+    const { status, body } = await split(order._id, {
+      method: 'by_item',
+      checks: [
+        { itemIds: [String(burger._id)] },
+        { itemIds: [String(fries._id)] },
+      ],
+    });
+
+    expect(status).toBe(400);
+    expect(body.error.message).toContain('Unassigned: Soda');
+  });
+
+  it('should split by seat using the seats sent with the request', async () => {
+    const burger = orderLine('Burger', 12.5, { seat: 2 });
+    const salad = orderLine('Salad', 9);
+    const soup = orderLine('Soup', 6);
+    const order = buildOrder([burger, salad, soup]);
+    mockDocuments(OrderModel, [order]);
+
+    const { status, body } = await split(order._id, {
+      method: 'by_seat',
+      seats: { [String(salad._id)]: 1, [String(soup._id)]: 2 },
+    });
+
+    expect(status).toBe(200);
+    const { checks, items } = body.data.order;
+    expect(
+      checks.map((check: OrderCheck) => [check.label, check.total])
+    ).toEqual([
+      ['Seat 1', 9],
+      ['Seat 2', 18.5],
+    ]);
+    expect(checks[1].itemIds).toEqual([String(burger._id), String(soup._id)]);
+    expect(items.map((item: OrderItem) => item.seat)).toEqual([2, 1, 2]);
+  });
+
+  it('should refuse a seat split while some items have no seat', async () => {
+    const order = buildOrder([
+      orderLine('Burger', 12.5, { seat: 1 }),
+      orderLine('Salad', 9),
+    ]);
+    mockDocuments(OrderModel, [order]);
+
+    const { status, body } = await split(order._id, { method: 'by_seat' });
+
+    expect(status).toBe(400);
+    expect(body.error.message).toContain('Unassigned: Salad');
+  });
+
+  it('should split evenly, putting the leftover cent on the first check', async () => {
+    const order = buildOrder([orderLine('Platter', 10)]);
+    mockDocuments(OrderModel, [order]);
+
+    const { status, body } = await split(order._id, {
+      method: 'even',
+      count: 3,
+    });
+
+    expect(status).toBe(200);
+    const { checks } = body.data.order;
+    expect(checks.map((check: OrderCheck) => check.label)).toEqual([
+      'Share 1 of 3',
+      'Share 2 of 3',
+      'Share 3 of 3',
+    ]);
+    expect(checks.map((check: OrderCheck) => check.total)).toEqual([
+      3.34, 3.33, 3.33,
+    ]);
+    expect(sumOf(checks)).toBe(10);
+  });
+
+  it('should share tax and subtotal remainders so even checks add up', async () => {
+    jest.replaceProperty(pricingConfig, 'defaultTaxRate', 8);
+    const order = buildOrder([orderLine('Steak', 24.99)]);
+    mockDocuments(OrderModel, [order]);
+
+    const { body } = await split(order._id, { method: 'even', count: 4 });
+
+    const { checks, total, pricing } = body.data.order;
+    expect(total).toBe(26.99);
+    expect(sumOf(checks)).toBe(total);
+    expect(
+      checks.reduce(
+        (sum: number, check: any) => sum + Math.round(check.tax * 100),
+        0
+      )
+    ).toBe(Math.round(pricing.tax * 100));
+  });
+
+  it('should merge checks back into one', async () => {
+    const order = buildOrder([orderLine('Platter', 10)]);
+    mockDocuments(OrderModel, [order]);
+    await split(order._id, { method: 'even', count: 2 });
+
+    const { status, body } = await api.request(
+      'DELETE',
+      `/orders/${order._id}/split`,
+      { headers: authHeader(waiter) }
+    );
+
+    expect(status).toBe(200);
+    expect(body.data.order.checks).toEqual([]);
+    expect(body.data.order).not.toHaveProperty('splitMethod');
+  });
+
+  it('should not change the checks once a payment is recorded', async () => {
+    const order = buildOrder([orderLine('Platter', 10)], {
+      amountPaid: 5,
+      paymentStatus: 'partially_paid',
+    });
+    mockDocuments(OrderModel, [order]);
+
+    const { status } = await split(order._id, { method: 'even', count: 2 });
+
+    expect(status).toBe(409);
+  });
+});
@@ -1,27 +1,59 @@
 import { Response } from 'express';
-import { OrderModel, MenuItemModel } from '@restaurant-monorepo/database';
+import {
+  OrderModel,
+  MenuItemModel,
+  TableModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
 import { 
   CreateOrderRequest, 
   UpdateOrderStatusRequest,
-  OrderStatus
+  AddOrderItemRequest,
+  UpdateOrderItemRequest,
+  OrderItem,
+  OrderModification,
+  SplitOrderRequest,
+  ApplyDiscountsRequest,
+  Discount
 } from '@restaurant-monorepo/shared-types';
+import {
+  canTransitionOrderStatus,
+  isValidStatusTransition,
+} from '@restaurant-monorepo/rbac';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { ApiError } from '../utils/apiError';
 import { asyncHandler } from '../utils/asyncHandler';
 import { logger } from '../utils/logger';
+import { orderEvents } from '../services/orderEvents';
+import { buildOrderChecks } from '../services/billSplitting';
+import { priceOrderLines } from '../services/orderPricing';
+import { repriceModifiers, resolveModifiers } from '../services/menuModifiers';
+import { expandBundle, repriceBundles } from '../services/menuBundles';
+import { consumeOrderStock } from '../services/inventory';
+import { isOrderableAt } from '../services/menuSchedules';
+import { getCurrentMenuVersion } from '../services/menuVersions';
+import { netRevenueExpression } from '../services/reports';
+import { buildOrderFilter } from '../services/orderFilters';
+
+type OrderLine = OrderItem & { _id: mongoose.Types.ObjectId };
 
 /**
  * Create New Order
  */
 export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  const { tableNumber, items, customerName }: CreateOrderRequest = req.body;
+  const { tableNumber, items, customerName, partySize, allergies }: CreateOrderRequest = req.body;
+
+  const table = await TableModel.findOne({ number: tableNumber, isActive: true });
+  if (!table) {
+    throw ApiError.notFound(`Table ${tableNumber} does not exist`);
+  }
 
-  // Validate items and calculate total
-  let total = 0;
+  // Validate items
   const orderItems = [];
+  const menuVersion = await getCurrentMenuVersion();
 
   for (const item of items) {
-    const menuItem = await MenuItemModel.findById(item.menuItemId);
+    const menuItem = await MenuItemModel.findOne({ _id: item.menuItemId, published: { $ne: false }, archivedAt: null });
     if (!menuItem) {
       throw ApiError.notFound(`Menu item ${item.menuItemId} not found`);
     }
@@ -30,38 +62,72 @@ export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: R
       throw ApiError.badRequest(`Menu item "${menuItem.name}" is currently unavailable`);
     }
 
-    const itemTotal = menuItem.price * item.quantity;
-    total += itemTotal;
+    if (menuItem.outOfStock) {
+      throw ApiError.badRequest(`Menu item "${menuItem.name}" is out of stock`);
+    }
+
+    if (!isOrderableAt(menuItem)) {
+      throw ApiError.badRequest(`Menu item "${menuItem.name}" is not served at this time`);
+    }
+
+    // Bundles go to the kitchen as one line per component
+    if (menuItem.type === 'bundle') {
+      orderItems.push(...(await expandBundle(menuItem, item)));
+      continue;
+    }
+
+    const { modifiers, unitPrice } = resolveModifiers(menuItem, item.modifiers);
 
     orderItems.push({
       menuItemId: item.menuItemId,
       menuItemName: menuItem.name,
+      category: menuItem.category,
       quantity: item.quantity,
-      unitPrice: menuItem.price,
-      totalPrice: itemTotal,
+      unitPrice,
+      totalPrice: unitPrice * item.quantity,
+      modifiers: modifiers.length > 0 ? modifiers : undefined,
       specialInstructions: item.specialInstructions,
+      seat: item.seat,
+      allergens: menuItem.allergens.length > 0 ? [...menuItem.allergens] : undefined,
     });
   }
 
+  const { breakdown } = priceOrderLines(orderItems, { partySize });
+
   // Create order
   const order = new OrderModel({
     tableNumber,
-    items: orderItems,
-    total,
+    items: orderItems.map((line) => ({ ...line, menuVersion })),
+    partySize,
+    pricing: breakdown,
+    total: breakdown.total,
     customerName,
+    allergies: allergies?.length ? allergies : undefined,
     createdBy: req.user?._id,
+    statusHistory: [
+      { to: 'pending', changedBy: req.user?._id, changedAt: new Date() },
+    ],
   });
 
   await order.save();
   await order.populate('items.menuItemId');
 
+  // Seat the table when its first order comes in
+  if (table.status !== 'occupied') {
+    table.status = 'occupied';
+    table.occupiedSince = order.createdAt;
+    await table.save();
+  }
+
   logger.info('Order created successfully', { 
     orderId: order._id, 
     orderNumber: order.orderNumber,
     tableNumber,
-    total 
+    total: order.total
   });
 
+  orderEvents.publish('order.created', order, { actorId: req.user?._id });
+
   res.status(201).json({
     success: true,
     message: 'Order created successfully',
@@ -77,13 +143,7 @@ export const createOrder = asyncHandler(async (req: AuthenticatedRequest, res: R
 export const getOrders = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 10;
-  const status = req.query.status as OrderStatus;
-  const tableNumber = req.query.tableNumber as string;
-
-  // Build filter object
-  const filter: any = {};
-  if (status) filter.status = status;
-  if (tableNumber) filter.tableNumber = parseInt(tableNumber);
+  const filter = buildOrderFilter(req.query);
 
   // Execute queries in parallel
   const [orders, totalCount] = await Promise.all([
@@ -120,7 +180,8 @@ export const getOrders = asyncHandler(async (req: AuthenticatedRequest, res: Res
 export const getOrderById = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const order = await OrderModel.findById(req.params.id as string)
     .populate('items.menuItemId')
-    .populate('createdBy', 'name email');
+    .populate('createdBy', 'name email')
+    .populate('statusHistory.changedBy', 'name role');
 
   if (!order) {
     throw ApiError.notFound('Order not found');
@@ -136,28 +197,100 @@ export const getOrderById = asyncHandler(async (req: AuthenticatedRequest, res:
 
 /**
  * Update Order Status
+ *
+ * Enforces the order lifecycle and the roles allowed to perform each step,
+ * and appends the change to the order's status history.
  */
 export const updateOrderStatus = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  const { status }: UpdateOrderStatusRequest = req.body;
+  const { status, reason }: UpdateOrderStatusRequest = req.body;
   const orderId = req.params.id;
+  const user = req.user;
+
+  if (!user) {
+    throw ApiError.unauthorized('Authentication required');
+  }
 
-  const order = await OrderModel.findByIdAndUpdate(
-    orderId,
-    { status, updatedAt: new Date() },
+  const existingOrder = await OrderModel.findById(orderId).select('status amountPaid');
+
+  if (!existingOrder) {
+    throw ApiError.notFound('Order not found');
+  }
+
+  const previousStatus = existingOrder.status;
+
+  if (!isValidStatusTransition(previousStatus, status)) {
+    throw ApiError.badRequest(
+      `Cannot change order status from ${previousStatus} to ${status}`
+    );
+  }
+
+  if (!canTransitionOrderStatus(user.role, previousStatus, status)) {
+    throw ApiError.forbidden(
+      `Role ${user.role} cannot change order status from ${previousStatus} to ${status}`
+    );
+  }
+
+  // Money has changed hands, so it must go back through a refund
+  if (status === 'cancelled' && existingOrder.amountPaid > 0) {
+    throw ApiError.conflict(
+      'Order has payments recorded; refund it instead of cancelling'
+    );
+  }
+
+  // Only apply the change if nobody moved the order in the meantime
+  const order = await OrderModel.findOneAndUpdate(
+    {
+      _id: orderId,
+      status: previousStatus,
+      ...(status === 'cancelled' && { amountPaid: { $not: { $gt: 0 } } }),
+    },
+    {
+      $set: { status },
+      $push: {
+        statusHistory: {
+          from: previousStatus,
+          to: status,
+          changedBy: user._id,
+          changedAt: new Date(),
+          reason,
+        },
+      },
+    },
     { new: true, runValidators: true }
   ).populate('items.menuItemId');
 
   if (!order) {
-    throw ApiError.notFound('Order not found');
+    throw ApiError.conflict('Order status was changed by someone else, please refresh');
   }
 
   logger.info('Order status updated', { 
     orderId: order.id, 
     orderNumber: order.orderNumber,
+    previousStatus,
     newStatus: status,
-    updatedBy: req.user?._id 
+    reason,
+    updatedBy: user._id 
   });
 
+  // Items are locked once the kitchen starts, so this is when stock is used.
+  // A stock failure is logged rather than undoing the status change.
+  if (status === 'preparing') {
+    try {
+      await consumeOrderStock(order.id, user._id);
+    } catch (error) {
+      logger.error('Failed to consume stock for order', {
+        orderId: order.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  orderEvents.publish(
+    status === 'cancelled' ? 'order.cancelled' : 'order.status_changed',
+    order,
+    { previousStatus, actorId: user._id }
+  );
+
   res.json({
     success: true,
     message: 'Order status updated successfully',
@@ -167,6 +300,521 @@ export const updateOrderStatus = asyncHandler(async (req: AuthenticatedRequest,
   });
 });
 
+/**
+ * Load an order that can still be edited (not yet in preparation)
+ */
+async function findEditableOrder(orderId: string) {
+  const order = await OrderModel.findById(orderId);
+
+  if (!order) {
+    throw ApiError.notFound('Order not found');
+  }
+
+  if (order.status !== 'pending') {
+    throw ApiError.conflict(
+      `Order can only be modified while pending (current status: ${order.status})`
+    );
+  }
+
+  if (order.amountPaid > 0) {
+    throw ApiError.conflict('Order has payments recorded and cannot be modified');
+  }
+
+  return order;
+}
+
+/**
+ * Find a single line on an order by its item ID
+ */
+function findOrderLine(items: OrderLine[], itemId: string): OrderLine {
+  const line = items.find((item) => item._id.toString() === itemId);
+
+  if (!line) {
+    throw ApiError.notFound('Order item not found');
+  }
+
+  return line;
+}
+
+/**
+ * Whether an order line belongs to the same ordered bundle as another. Bundle
+ * components are resized and removed together.
+ */
+function isInSameBundle(item: OrderLine, line: OrderLine): boolean {
+  return Boolean(
+    line.bundle && item.bundle?.instanceId === line.bundle.instanceId
+  );
+}
+
+/**
+ * Reprice order lines against current menu prices and recompute the pricing
+ * breakdown, keeping the order's discounts and party size. Every line is then
+ * priced from the current menu version, so it's stamped with it.
+ */
+async function repriceOrderItems(
+  items: OrderLine[],
+  options: { discount?: Discount; partySize?: number }
+) {
+  const [menuItems, menuVersion] = await Promise.all([
+    MenuItemModel.find({
+      _id: {
+        $in: items.flatMap((item) =>
+          item.bundle ? [item.menuItemId, item.bundle.menuItemId] : [item.menuItemId]
+        ),
+      },
+    }),
+    getCurrentMenuVersion(),
+  ]);
+  const menuItemsById = new Map(
+    menuItems.map((menuItem) => [menuItem.id as string, menuItem])
+  );
+
+  const repricedItems = items.map((item) => {
+    const menuItem = menuItemsById.get(item.menuItemId.toString());
+    if (!menuItem) {
+      throw ApiError.notFound(`Menu item ${item.menuItemId} not found`);
+    }
+
+    const { modifiers, unitPrice } = repriceModifiers(menuItem, item.modifiers);
+
+    return {
+      ...item,
+      menuItemName: menuItem.name,
+      category: menuItem.category,
+      unitPrice,
+      totalPrice: unitPrice * item.quantity,
+      modifiers: item.modifiers ? modifiers : undefined,
+      menuVersion,
+    };
+  });
+
+  const pricedItems = repriceBundles(repricedItems, menuItemsById);
+  const { breakdown } = priceOrderLines(pricedItems, options);
+
+  return { items: pricedItems, pricing: breakdown };
+}
+
+/**
+ * Persist edited order lines and the audit entry, as long as the order is
+ * still pending at write time
+ */
+async function saveOrderEdit(
+  req: AuthenticatedRequest,
+  order: Awaited<ReturnType<typeof findEditableOrder>>,
+  items: OrderLine[],
+  modification: Omit<OrderModification, 'changedBy' | 'changedAt'>
+) {
+  const priced = await repriceOrderItems(items, {
+    discount: order.discount,
+    partySize: order.partySize,
+  });
+
+  const updatedOrder = await OrderModel.findOneAndUpdate(
+    { _id: order._id, status: 'pending', amountPaid: { $not: { $gt: 0 } } },
+    {
+      // Changing lines invalidates any bill split made so far
+      $set: {
+        items: priced.items,
+        pricing: priced.pricing,
+        total: priced.pricing.total,
+        checks: [],
+      },
+      $unset: { splitMethod: 1 },
+      $push: {
+        modifications: {
+          ...modification,
+          changedBy: req.user?._id,
+          changedAt: new Date(),
+        },
+      },
+    },
+    { new: true, runValidators: true }
+  ).populate('items.menuItemId');
+
+  if (!updatedOrder) {
+    throw ApiError.conflict(
+      'Order is no longer pending or has been paid, and cannot be modified'
+    );
+  }
+
+  logger.info('Order modified', {
+    orderId: updatedOrder.id,
+    orderNumber: updatedOrder.orderNumber,
+    action: modification.action,
+    itemId: modification.itemId,
+    total: updatedOrder.total,
+    modifiedBy: req.user?._id,
+  });
+
+  orderEvents.publish('order.items_changed', updatedOrder, {
+    actorId: req.user?._id,
+  });
+
+  return updatedOrder;
+}
+
+/**
+ * Add Item to Pending Order
+ */
+export const addOrderItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { menuItemId, quantity, modifiers: selections, bundleSelections, specialInstructions, seat }: AddOrderItemRequest = req.body;
+
+  const order = await findEditableOrder(req.params.id);
+
+  const menuItem = await MenuItemModel.findOne({ _id: menuItemId, published: { $ne: false }, archivedAt: null });
+  if (!menuItem) {
+    throw ApiError.notFound(`Menu item ${menuItemId} not found`);
+  }
+
+  if (!menuItem.available) {
+    throw ApiError.badRequest(`Menu item "${menuItem.name}" is currently unavailable`);
+  }
+
+  if (menuItem.outOfStock) {
+    throw ApiError.badRequest(`Menu item "${menuItem.name}" is out of stock`);
+  }
+
+  if (!isOrderableAt(menuItem)) {
+    throw ApiError.badRequest(`Menu item "${menuItem.name}" is not served at this time`);
+  }
+
+  let newLines: OrderLine[];
+  if (menuItem.type === 'bundle') {
+    const bundleLines = await expandBundle(menuItem, { quantity, bundleSelections, specialInstructions, seat });
+    newLines = bundleLines.map((line) => ({ ...line, _id: new mongoose.Types.ObjectId() }) as unknown as OrderLine);
+  } else {
+    const { modifiers, unitPrice } = resolveModifiers(menuItem, selections);
+    newLines = [
+      {
+        _id: new mongoose.Types.ObjectId(),
+        menuItemId: menuItem._id,
+        menuItemName: menuItem.name,
+        category: menuItem.category,
+        quantity,
+        unitPrice,
+        totalPrice: unitPrice * quantity,
+        modifiers: modifiers.length > 0 ? modifiers : undefined,
+        specialInstructions,
+        seat,
+        allergens: menuItem.allergens.length > 0 ? [...menuItem.allergens] : undefined,
+      } as OrderLine,
+    ];
+  }
+
+  const items = order.toObject().items as OrderLine[];
+  const updatedOrder = await saveOrderEdit(req, order, [...items, ...newLines], {
+    action: 'item_added',
+    itemId: newLines[0]._id.toString(),
+    menuItemName: menuItem.name,
+    quantity,
+    specialInstructions,
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Item added to order successfully',
+    data: {
+      order: updatedOrder,
+    },
+  });
+});
+
+/**
+ * Update Quantity or Special Instructions of an Order Item
+ */
+export const updateOrderItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { quantity, specialInstructions }: UpdateOrderItemRequest = req.body;
+
+  const order = await findEditableOrder(req.params.id);
+  const items = order.toObject().items as OrderLine[];
+  const line = findOrderLine(items, req.params.itemId);
+
+  const updatedLine = {
+    ...line,
+    quantity: quantity ?? line.quantity,
+    specialInstructions:
+      specialInstructions !== undefined
+        ? specialInstructions || undefined
+        : line.specialInstructions,
+  };
+
+  const updatedOrder = await saveOrderEdit(
+    req,
+    order,
+    items.map((item) => {
+      if (item === line) return updatedLine;
+      if (isInSameBundle(item, line)) {
+        return { ...item, quantity: updatedLine.quantity };
+      }
+      return item;
+    }),
+    {
+      action: 'item_updated',
+      itemId: req.params.itemId,
+      menuItemName: line.menuItemName,
+      previousQuantity: line.quantity,
+      quantity: updatedLine.quantity,
+      previousInstructions: line.specialInstructions,
+      specialInstructions: updatedLine.specialInstructions,
+    }
+  );
+
+  res.json({
+    success: true,
+    message: 'Order item updated successfully',
+    data: {
+      order: updatedOrder,
+    },
+  });
+});
+
+/**
+ * Remove Item from Pending Order
+ */
+export const removeOrderItem = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const order = await findEditableOrder(req.params.id);
+  const items = order.toObject().items as OrderLine[];
+  const line = findOrderLine(items, req.params.itemId);
+  const remainingItems = items.filter(
+    (item) => item !== line && !isInSameBundle(item, line)
+  );
+
+  if (remainingItems.length === 0) {
+    throw ApiError.badRequest(
+      'Order must have at least one item. Cancel the order instead.'
+    );
+  }
+
+  const updatedOrder = await saveOrderEdit(
+    req,
+    order,
+    remainingItems,
+    {
+      action: 'item_removed',
+      itemId: req.params.itemId,
+      menuItemName: line.bundle?.name ?? line.menuItemName,
+      previousQuantity: line.quantity,
+      previousInstructions: line.specialInstructions,
+    }
+  );
+
+  res.json({
+    success: true,
+    message: 'Order item removed successfully',
+    data: {
+      order: updatedOrder,
+    },
+  });
+});
+
+/**
+ * Load an order whose bill can still be split or merged
+ */
+async function findSplittableOrder(orderId: string) {
+  const order = await OrderModel.findById(orderId);
+
+  if (!order) {
+    throw ApiError.notFound('Order not found');
+  }
+
+  if (order.status === 'cancelled') {
+    throw ApiError.badRequest('Cannot split the bill of a cancelled order');
+  }
+
+  if (order.amountPaid > 0) {
+    throw ApiError.conflict(
+      'Order already has payments recorded; checks can only be changed before payment'
+    );
+  }
+
+  return order;
+}
+
+/**
+ * Split Order Into Separate Checks
+ */
+export const splitOrder = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const splitRequest: SplitOrderRequest = req.body;
+
+  const order = await findSplittableOrder(req.params.id);
+  const items = order.toObject().items as OrderLine[];
+
+  // Splitting by seat may come with seat assignments for the lines
+  if (splitRequest.method === 'by_seat' && splitRequest.seats) {
+    for (const [itemId, seat] of Object.entries(splitRequest.seats)) {
+      findOrderLine(items, itemId).seat = seat;
+    }
+  }
+
+  // Checks are built from each line's share of the priced order
+  const priced = priceOrderLines(items, {
+    discount: order.discount,
+    partySize: order.partySize,
+  });
+  const checks = buildOrderChecks(items, priced.lines, splitRequest);
+
+  const updatedOrder = await OrderModel.findOneAndUpdate(
+    {
+      _id: order._id,
+      status: { $ne: 'cancelled' },
+      total: order.total,
+      amountPaid: { $not: { $gt: 0 } },
+    },
+    {
+      $set: {
+        items,
+        pricing: priced.breakdown,
+        total: priced.breakdown.total,
+        splitMethod: splitRequest.method,
+        checks,
+      },
+    },
+    { new: true, runValidators: true }
+  ).populate('items.menuItemId');
+
+  if (!updatedOrder) {
+    throw ApiError.conflict('Order changed while splitting. Please retry.');
+  }
+
+  logger.info('Order bill split', {
+    orderId: updatedOrder.id,
+    orderNumber: updatedOrder.orderNumber,
+    method: splitRequest.method,
+    checks: checks.length,
+    splitBy: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: `Order split into ${checks.length} checks`,
+    data: {
+      order: updatedOrder,
+    },
+  });
+});
+
+/**
+ * Merge Split Checks Back Into One
+ */
+export const clearOrderSplit = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const order = await findSplittableOrder(req.params.id);
+
+  const updatedOrder = await OrderModel.findOneAndUpdate(
+    { _id: order._id, amountPaid: { $not: { $gt: 0 } } },
+    { $set: { checks: [] }, $unset: { splitMethod: 1 } },
+    { new: true }
+  ).populate('items.menuItemId');
+
+  if (!updatedOrder) {
+    throw ApiError.conflict('Order changed while merging checks. Please retry.');
+  }
+
+  logger.info('Order checks merged', {
+    orderId: updatedOrder.id,
+    orderNumber: updatedOrder.orderNumber,
+    mergedBy: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: 'Checks merged successfully',
+    data: {
+      order: updatedOrder,
+    },
+  });
+});
+
+/**
+ * Apply or Remove Order and Line Discounts
+ */
+export const applyOrderDiscounts = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { orderDiscount, lineDiscounts = [] }: ApplyDiscountsRequest = req.body;
+
+  const order = await OrderModel.findById(req.params.id);
+
+  if (!order) {
+    throw ApiError.notFound('Order not found');
+  }
+
+  if (order.status === 'cancelled') {
+    throw ApiError.badRequest('Cannot discount a cancelled order');
+  }
+
+  if (order.amountPaid > 0) {
+    throw ApiError.conflict(
+      'Order already has payments recorded; discounts can only be changed before payment'
+    );
+  }
+
+  const appliedBy = req.user?._id as unknown as Discount['appliedBy'];
+  const items = order.toObject().items as OrderLine[];
+
+  for (const { itemId, discount } of lineDiscounts) {
+    findOrderLine(items, itemId).discount = discount
+      ? { ...discount, appliedBy }
+      : undefined;
+  }
+
+  // Leaving the order discount out keeps the current one
+  const discount =
+    orderDiscount === undefined
+      ? order.toObject().discount
+      : orderDiscount
+        ? { ...orderDiscount, appliedBy }
+        : undefined;
+
+  const { breakdown } = priceOrderLines(items, {
+    discount,
+    partySize: order.partySize,
+  });
+
+  const updatedOrder = await OrderModel.findOneAndUpdate(
+    {
+      _id: order._id,
+      status: { $ne: 'cancelled' },
+      total: order.total,
+      amountPaid: { $not: { $gt: 0 } },
+    },
+    {
+      // New totals invalidate any bill split made so far
+      $set: {
+        items,
+        ...(discount && { discount }),
+        pricing: breakdown,
+        total: breakdown.total,
+        checks: [],
+      },
+      $unset: { splitMethod: 1, ...(!discount && { discount: 1 }) },
+    },
+    { new: true, runValidators: true }
+  ).populate('items.menuItemId');
+
+  if (!updatedOrder) {
+    throw ApiError.conflict('Order changed while applying discounts. Please retry.');
+  }
+
+  logger.info('Order discounts applied', {
+    orderId: updatedOrder.id,
+    orderNumber: updatedOrder.orderNumber,
+    lineDiscounts: breakdown.lineDiscounts,
+    orderDiscount: breakdown.orderDiscount,
+    total: updatedOrder.total,
+    appliedBy: req.user?._id,
+  });
+
+  orderEvents.publish('order.items_changed', updatedOrder, {
+    actorId: req.user?._id,
+  });
+
+  res.json({
+    success: true,
+    message: 'Discounts applied successfully',
+    data: {
+      order: updatedOrder,
+    },
+  });
+});
+
 /**
  * Get Order Statistics
  */
@@ -179,12 +827,20 @@ export const getOrderStats = asyncHandler(async (req: AuthenticatedRequest, res:
       $facet: {
         todayStats: [
           { $match: { createdAt: { $gte: today } } },
+          {
+            $addFields: {
+              // Voided orders bring in nothing and refunds come off revenue
+              netRevenue: netRevenueExpression
+            }
+          },
           {
             $group: {
               _id: null,
               totalOrders: { $sum: 1 },
-              totalRevenue: { $sum: '$total' },
-              avgOrderValue: { $avg: '$total' }
+              totalRevenue: { $sum: '$netRevenue' },
+              avgOrderValue: { $avg: '$netRevenue' },
+              totalRefunds: { $sum: { $ifNull: ['$amountRefunded', 0] } },
+              voidedOrders: { $sum: { $cond: [{ $gt: ['$void', null] }, 1, 0] } }
             }
           }
         ],
@@ -0,0 +1,216 @@
+import { OrderModel, PaymentModel } from '@restaurant-monorepo/database';
+import orderRoutes from '../routes/orders';
+import paymentRoutes from '../routes/payments';
+import { buildOrder, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockUsers,
+  StoredDocument,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const manager = buildUser('manager');
+
+describe('paying split checks', () => {
+  let api: TestServer;
+
+  beforeAll(async () => {
+    api = await startTestServer({
+      '/orders': orderRoutes,
+      '/payments': paymentRoutes,
+    });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(manager);
+    jest
+      .spyOn(PaymentModel.prototype, 'save')
+      .mockImplementation(function (this: unknown) {
+        return Promise.resolve(this);
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const splitEvenly = async (count: number) => {
+    const order = buildOrder([orderLine('Platter', 10)]);
+    mockDocuments(OrderModel, [order]);
+    const { body } = await api.request('POST', `/orders/${order._id}/split`, {
+      body: { method: 'even', count },
+      headers: authHeader(manager),
+    });
+    return body.data.order;
+  };
+
+  const pay = (body: Record<string, unknown>) =>
+    api.request('POST', '/payments', { body, headers: authHeader(manager) });
+
+  it('should pay one check of a split order', async () => {
+    const order = await splitEvenly(3);
+    const [first, second] = order.checks;
+
+    const { status, body } = await pay({
+      orderId: order._id,
+      checkId: first._id,
+      method: 'cash',
+      amount: first.total,
+      amountTendered: 5,
+    });
+
+    expect(status).toBe(201);
+    expect(body.data.payment).toMatchObject({
+      checkId: first._id,
+      amount: 3.34,
+      changeGiven: 1.66,
+    });
+    expect(body.data.balance).toBe(0);
+
+    const { checks, amountPaid, paymentStatus } = body.data.order;
+    expect(checks[0]).toMatchObject({
+      amountPaid: 3.34,
+      paymentStatus: 'paid',
+    });
+    expect(checks[1]).toMatchObject({
+      _id: second._id,
+      amountPaid: 0,
+      paymentStatus: 'unpaid',
+    });
+    expect(amountPaid).toBe(3.34);
+    expect(paymentStatus).toBe('partially_paid');
+  });
+
+  it('should mark the order paid once every check is paid', async () => {
+    const order = await splitEvenly(2);
+
+    for (const check of order.checks) {
+      const { status } = await pay({
+        orderId: order._id,
+        checkId: check._id,
+        method: 'cash',
+        amount: check.total,
+      });
+      expect(status).toBe(201);
+    }
+
+    const { body } = await pay({
+      orderId: order._id,
+      checkId: order.checks[0]._id,
+      method: 'cash',
+      amount: 1,
+    });
+    expect(body.error.message).toBe('Share 1 of 2 is already paid in full');
+  });
+
+  it('should not take more than the check balance', async () => {
+    const order = await splitEvenly(2);
+
+    const { status, body } = await pay({
+      orderId: order._id,
+      checkId: order.checks[1]._id,
+      method: 'cash',
+      amount: 10,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error.message).toBe(
+      'Amount exceeds the outstanding balance of 5.00'
+    );
+  });
+
+  it('should ask for a check when paying a split order', async () => {
+    const order = await splitEvenly(2);
+
+    const { status, body } = await pay({
+      orderId: order._id,
+      method: 'cash',
+      amount: 5,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error.message).toBe(
+      'Order is split into separate checks; choose a check to pay'
+    );
+  });
+
+  it('should reject a malformed check id', async () => {
+    const order = await splitEvenly(2);
+
+    const { status, body } = await pay({
+      orderId: order._id,
+      checkId: 'not-a-check',
+      method: 'cash',
+      amount: 5,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error.message).toContain('checkId: Invalid check ID');
+  });
+});
+
+describe('recording payments', () => {
+  let api: TestServer;
+  let orders: Map<string, StoredDocument>;
+  let order: StoredDocument;
+  let statuses: string[];
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/payments': paymentRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    statuses = [];
+    mockUsers(manager);
+    order = buildOrder([orderLine('Platter', 10)]);
+    orders = mockDocuments(OrderModel, [order]);
+    jest
+      .spyOn(PaymentModel.prototype, 'save')
+      .mockImplementation(function (this: InstanceType<typeof PaymentModel>) {
+        statuses.push(this.status);
+        return Promise.resolve(this);
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const pay = () =>
+    api.request('POST', '/payments', {
+      body: { orderId: order._id, method: 'cash', amount: 10 },
+      headers: authHeader(manager),
+    });
+
+  it('should save the payment before the order counts it as paid', async () => {
+    const { status, body } = await pay();
+
+    expect(status).toBe(201);
+    expect(statuses).toEqual(['pending', 'completed']);
+    expect(body.data.payment.status).toBe('completed');
+    expect(orders.get(order._id.toString())).toMatchObject({
+      amountPaid: 10,
+      paymentStatus: 'paid',
+    });
+  });
+
+  it('should leave the order unpaid when the payment cannot be saved', async () => {
+    jest
+      .spyOn(PaymentModel.prototype, 'save')
+      .mockRejectedValue(new Error('connection lost'));
+
+    const { status } = await pay();
+
+    expect(status).toBe(500);
+    expect(orders.get(order._id.toString())).toMatchObject({
+      amountPaid: 0,
+      paymentStatus: 'unpaid',
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import { Response } from 'express';
+import {
+  OrderModel,
+  PaymentModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  CreatePaymentRequest,
+  Order,
+  OrderCheck,
+  Payment,
+} from '@restaurant-monorepo/shared-types';
+import { roundCurrency } from '@restaurant-monorepo/pricing';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { env } from '../config/environment';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import { getCardProvider } from '../services/cardPayments';
+import { orderEvents } from '../services/orderEvents';
+
+type StoredCheck = OrderCheck & { _id: mongoose.Types.ObjectId };
+
+const getOrderBalance = (order: Pick<Order, 'total' | 'amountPaid'>) =>
+  roundCurrency(order.total - (order.amountPaid || 0));
+
+const getPaymentStatus = (amountPaid: number, total: number) =>
+  amountPaid >= roundCurrency(total) ? 'paid' : 'partially_paid';
+
+/**
+ * Add a payment to an order's paid amount (and to one of its split checks).
+ * The write only goes through if the order still has the total, paid amount
+ * and checks we validated against; returns null when it changed underneath us.
+ */
+async function applyPaymentToOrder(
+  order: InstanceType<typeof OrderModel>,
+  amount: number,
+  checkId?: string
+) {
+  const amountPaid = roundCurrency((order.amountPaid || 0) + amount);
+  const update: Pick<Order, 'amountPaid' | 'paymentStatus'> & {
+    checks?: StoredCheck[];
+  } = {
+    amountPaid,
+    paymentStatus: getPaymentStatus(amountPaid, order.total),
+  };
+
+  if (checkId) {
+    const checks = order.toObject().checks as StoredCheck[];
+    update.checks = checks.map((check) => {
+      if (check._id.toString() !== checkId) return check;
+
+      const checkPaid = roundCurrency(check.amountPaid + amount);
+      return {
+        ...check,
+        amountPaid: checkPaid,
+        paymentStatus: getPaymentStatus(checkPaid, check.total),
+      };
+    });
+  }
+
+  return OrderModel.findOneAndUpdate(
+    {
+      _id: order._id,
+      status: { $ne: 'cancelled' },
+      total: order.total,
+      amountPaid: order.amountPaid > 0 ? order.amountPaid : { $in: [0, null] },
+      ...(checkId
+        ? { 'checks._id': checkId }
+        : { 'checks.0': { $exists: false } }),
+    },
+    { $set: update },
+    { new: true, runValidators: true }
+  );
+}
+
+/**
+ * Take Payment Against an Order
+ */
+export const createPayment = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const {
+      orderId,
+      checkId,
+      method,
+      amount,
+      tip = 0,
+      amountTendered,
+      cardToken,
+    }: CreatePaymentRequest = req.body;
+
+    const order = await OrderModel.findById(orderId);
+    if (!order) {
+      throw ApiError.notFound('Order not found');
+    }
+
+    if (order.status === 'cancelled') {
+      throw ApiError.badRequest('Cannot take payment for a cancelled order');
+    }
+
+    // Split orders are paid check by check
+    const check = checkId
+      ? order.checks.find((c) => c.id === checkId)
+      : undefined;
+    if (order.checks.length > 0 && !check) {
+      throw checkId
+        ? ApiError.notFound('Check not found on this order')
+        : ApiError.badRequest(
+            'Order is split into separate checks; choose a check to pay'
+          );
+    }
+    if (order.checks.length === 0 && checkId) {
+      throw ApiError.badRequest('Order is not split into separate checks');
+    }
+
+    const balance = getOrderBalance(check ?? order);
+    if (balance <= 0) {
+      throw ApiError.conflict(
+        check
+          ? `${check.label} is already paid in full`
+          : 'Order is already paid in full'
+      );
+    }
+
+    if (roundCurrency(amount) > balance) {
+      throw ApiError.badRequest(
+        `Amount exceeds the outstanding balance of ${balance.toFixed(2)}`
+      );
+    }
+
+    const amountDue = roundCurrency(amount + tip);
+    const payment = new PaymentModel({
+      orderId: order._id,
+      checkId,
+      method,
+      amount: roundCurrency(amount),
+      tip: roundCurrency(tip),
+      processedBy: req.user?._id,
+    });
+
+    if (method === 'cash') {
+      const tendered = amountTendered ?? amountDue;
+      if (tendered < amountDue) {
+        throw ApiError.badRequest(
+          `Amount tendered is less than the ${amountDue.toFixed(2)} due`
+        );
+      }
+
+      payment.amountTendered = roundCurrency(tendered);
+      payment.changeGiven = roundCurrency(tendered - amountDue);
+    }
+
+    await payment.validate();
+
+    const provider = method === 'card' ? getCardProvider() : null;
+    if (provider) {
+      const result = await provider.charge({
+        amount: amountDue,
+        currency: env.CURRENCY,
+        reference: `${order.orderNumber}/${payment.id}`,
+        cardToken,
+      });
+
+      payment.provider = provider.name;
+      payment.providerReference = result.providerReference;
+      payment.cardBrand = result.cardBrand;
+      payment.cardLast4 = result.cardLast4;
+
+      if (!result.approved) {
+        payment.status = 'declined';
+        payment.declineReason = result.declineReason;
+        await payment.save();
+
+        logger.warn('Card payment declined', {
+          orderId: order._id,
+          paymentId: payment._id,
+          reason: result.declineReason,
+        });
+
+        throw ApiError.paymentRequired(
+          `Card declined: ${result.declineReason || 'no reason given'}`
+        );
+      }
+    }
+
+    const refundCharge = async () => {
+      if (provider && payment.providerReference) {
+        await provider.refund(payment.providerReference, amountDue);
+      }
+    };
+
+    // Record the payment before the order counts it as paid, so an order
+    // never shows money that has no payment behind it
+    payment.status = 'pending';
+    try {
+      await payment.save();
+    } catch (error) {
+      await refundCharge();
+      throw error;
+    }
+
+    const updatedOrder = await applyPaymentToOrder(
+      order,
+      payment.amount,
+      checkId
+    );
+    if (!updatedOrder) {
+      // Someone else paid or cancelled in the meantime; give the money back
+      await refundCharge();
+      await payment.deleteOne();
+      throw ApiError.conflict(
+        'Order balance changed while processing the payment. Please retry.'
+      );
+    }
+
+    payment.status = 'completed';
+    await payment.save();
+
+    logger.info('Payment recorded', {
+      paymentId: payment._id,
+      orderId: updatedOrder._id,
+      checkId,
+      orderNumber: updatedOrder.orderNumber,
+      method,
+      amount: payment.amount,
+      tip: payment.tip,
+      paymentStatus: updatedOrder.paymentStatus,
+      processedBy: req.user?._id,
+    });
+
+    orderEvents.publish('order.payment_recorded', updatedOrder, {
+      actorId: req.user?._id,
+    });
+
+    const updatedCheck = checkId
+      ? updatedOrder.checks.find((c) => c.id === checkId)
+      : undefined;
+
+    res.status(201).json({
+      success: true,
+      message: 'Payment recorded successfully',
+      data: {
+        payment,
+        order: updatedOrder,
+        balance: getOrderBalance(updatedCheck ?? updatedOrder),
+      },
+    });
+  }
+);
+
+/**
+ * Get Open Checks (orders with an outstanding balance)
+ */
+export const getOpenChecks = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const filter: mongoose.FilterQuery<Order> = {
+      status: { $ne: 'cancelled' },
+      paymentStatus: { $ne: 'paid' },
+    };
+    if (req.query.tableNumber) {
+      filter.tableNumber = parseInt(req.query.tableNumber as string);
+    }
+
+    const orders = await OrderModel.find(filter)
+      .populate('createdBy', 'name')
+      .sort({ createdAt: 1 });
+
+    // Split orders show up once per unpaid check
+    const checks = orders
+      .flatMap((order) =>
+        order.checks.length > 0
+          ? order.checks.map((check) => ({
+              order,
+              check,
+              balance: getOrderBalance(check),
+            }))
+          : [{ order, balance: getOrderBalance(order) }]
+      )
+      .filter((check) => check.balance > 0);
+
+    res.json({
+      success: true,
+      data: {
+        checks,
+        totalOutstanding: roundCurrency(
+          checks.reduce((sum, check) => sum + check.balance, 0)
+        ),
+      },
+    });
+  }
+);
+
+/**
+ * Get Payments with Pagination and Filters
+ */
+export const getPayments = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const filter: mongoose.FilterQuery<Payment> = {};
+    if (req.query.orderId) filter.orderId = req.query.orderId;
+    if (req.query.method) filter.method = req.query.method;
+    if (req.query.status) filter.status = req.query.status;
+
+    const [payments, totalCount] = await Promise.all([
+      PaymentModel.find(filter)
+        .populate('processedBy', 'name')
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip((page - 1) * limit),
+      PaymentModel.countDocuments(filter),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    res.json({
+      success: true,
+      data: {
+        payments,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  }
+);
+
+/**
+ * Get Payment by ID
+ */
+export const getPaymentById = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const payment = await PaymentModel.findById(req.params.id).populate(
+      'processedBy',
+      'name'
+    );
+
+    if (!payment) {
+      throw ApiError.notFound('Payment not found');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        payment,
+      },
+    });
+  }
+);
@@ -0,0 +1,19 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { pricingConfig } from '../config/pricing';
+import { env } from '../config/environment';
+import { asyncHandler } from '../utils/asyncHandler';
+
+/**
+ * Get Pricing Configuration
+ * Lets the dashboards price orders with the same rules as the API
+ */
+export const getPricingConfig = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: {
+      config: pricingConfig,
+      currency: env.CURRENCY,
+    },
+  });
+});
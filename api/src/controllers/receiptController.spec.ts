@@ -0,0 +1,103 @@
+import { OrderModel, PaymentModel } from '@restaurant-monorepo/database';
+import orderRoutes from '../routes/orders';
+import { buildOrder, orderLine } from '../testing/fixtures';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockQuery,
+  mockUsers,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const waiter = buildUser('waiter');
+const manager = buildUser('manager');
+
+describe('order receipts', () => {
+  let api: TestServer;
+  let updateOne: jest.SpyInstance;
+  const order = buildOrder([orderLine('Burger', 12.5)]);
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/orders': orderRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(waiter, manager);
+    mockDocuments(OrderModel, [order]);
+    jest.spyOn(PaymentModel, 'find').mockReturnValue(mockQuery([]));
+    updateOne = jest.spyOn(OrderModel, 'updateOne');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const getReceipt = (format: string) =>
+    api.request('GET', `/orders/${order._id}/receipt?format=${format}`, {
+      headers: authHeader(waiter),
+    });
+
+  const printReceipt = (user = manager) =>
+    api.request('POST', `/orders/${order._id}/receipt/print`, {
+      body: { format: 'text', width: 58 },
+      headers: authHeader(user),
+    });
+
+  it.each(['text', 'html', 'pdf'])(
+    'should not count viewing a %s receipt as a print',
+    async (format) => {
+      const { status } = await getReceipt(format);
+
+      expect(status).toBe(200);
+      expect(updateOne).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should show a viewed receipt as a copy once the original is printed', async () => {
+    mockDocuments(OrderModel, [
+      {
+        ...order,
+        receiptPrints: [{ format: 'text', copy: false, printedAt: new Date() }],
+      },
+    ]);
+
+    const { body } = await getReceipt('text');
+
+    expect(body).toContain('*** COPY ***');
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should record the first printed receipt as the original', async () => {
+    updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+    const { status, body } = await printReceipt();
+
+    expect(status).toBe(200);
+    expect(body).not.toContain('COPY');
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(updateOne.mock.calls[0][1]).toMatchObject({
+      $push: { receiptPrints: { format: 'text', copy: false } },
+    });
+  });
+
+  it('should mark a reprint as a copy', async () => {
+    updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+    const { body } = await printReceipt();
+
+    expect(body).toContain('*** COPY ***');
+    expect(updateOne.mock.calls[1][1]).toMatchObject({
+      $push: { receiptPrints: { copy: true } },
+    });
+  });
+
+  it('should only let staff who take payments print receipts', async () => {
+    const { status } = await printReceipt(waiter);
+
+    expect(status).toBe(403);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
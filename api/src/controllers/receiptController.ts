@@ -0,0 +1,175 @@
+import { Response } from 'express';
+import { OrderModel, PaymentModel } from '@restaurant-monorepo/database';
+import {
+  Order,
+  Payment,
+  ReceiptFormat,
+  ReceiptPaperWidth,
+} from '@restaurant-monorepo/shared-types';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import {
+  buildReceiptData,
+  renderHtmlReceipt,
+  renderPdfReceipt,
+  renderTextReceipt,
+} from '../services/receipts';
+
+/**
+ * Record that a receipt was printed. The first receipt for the order (or
+ * check) is the original; the conditional push makes sure only one request
+ * can claim it, and every later one is marked as a copy.
+ */
+async function recordReceiptPrint(
+  req: AuthenticatedRequest,
+  orderId: string,
+  format: ReceiptFormat,
+  checkId?: string
+): Promise<boolean> {
+  const print = {
+    checkId,
+    format,
+    printedBy: req.user?._id,
+    printedAt: new Date(),
+  };
+  const scope = { checkId: checkId ?? { $exists: false } };
+
+  const original = await OrderModel.updateOne(
+    { _id: orderId, receiptPrints: { $not: { $elemMatch: scope } } },
+    { $push: { receiptPrints: { ...print, copy: false } } }
+  );
+
+  if (original.modifiedCount > 0) {
+    return false;
+  }
+
+  await OrderModel.updateOne(
+    { _id: orderId },
+    { $push: { receiptPrints: { ...print, copy: true } } }
+  );
+  return true;
+}
+
+/**
+ * Load an order, the check being receipted and the payments against it
+ */
+async function loadReceiptData(orderId: string, checkId?: string) {
+  const order = await OrderModel.findById(orderId);
+
+  if (!order) {
+    throw ApiError.notFound('Order not found');
+  }
+
+  if (order.status === 'cancelled') {
+    throw ApiError.badRequest('Cannot print a receipt for a cancelled order');
+  }
+
+  const check = checkId
+    ? order.checks.find((candidate) => candidate.id === checkId)
+    : undefined;
+
+  if (checkId && !check) {
+    throw ApiError.notFound('Check not found');
+  }
+
+  const payments = await PaymentModel.find({
+    orderId: order._id,
+    status: 'completed',
+    ...(checkId && { checkId }),
+  }).sort({ createdAt: 1 });
+
+  return { order, check, payments };
+}
+
+/**
+ * Render a receipt in the requested format and send it
+ */
+function sendReceipt(
+  res: Response,
+  { order, check, payments }: Awaited<ReturnType<typeof loadReceiptData>>,
+  {
+    format,
+    width,
+    copy,
+  }: { format: ReceiptFormat; width: ReceiptPaperWidth; copy: boolean }
+): void {
+  const receipt = buildReceiptData(
+    order.toObject() as unknown as Order & { _id: string },
+    payments.map((payment) => payment.toObject() as unknown as Payment),
+    { check, copy }
+  );
+
+  const filename = `receipt-${order.orderNumber}${check ? `-${check.id}` : ''}${
+    copy ? '-copy' : ''
+  }`;
+
+  switch (format) {
+    case 'html':
+      res.type('html').send(renderHtmlReceipt(receipt));
+      break;
+    case 'pdf':
+      res
+        .type('application/pdf')
+        .setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`)
+        .send(renderPdfReceipt(receipt, width));
+      break;
+    default:
+      res
+        .type('text/plain; charset=utf-8')
+        .send(renderTextReceipt(receipt, width));
+  }
+}
+
+/**
+ * Get Order Receipt
+ * Renders the receipt for an order, or one of its checks, as text for
+ * thermal printers, HTML or PDF. Viewing a receipt doesn't count as a print;
+ * it shows as a copy once the original has been printed.
+ */
+export const getOrderReceipt = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { format, width, checkId } = req.query as unknown as {
+      format: ReceiptFormat;
+      width: ReceiptPaperWidth;
+      checkId?: string;
+    };
+
+    const data = await loadReceiptData(req.params.id, checkId);
+    const copy = data.order.receiptPrints.some(
+      (print) => print.checkId === checkId
+    );
+
+    sendReceipt(res, data, { format, width, copy });
+  }
+);
+
+/**
+ * Print Order Receipt
+ * Records the print and renders the receipt as text or PDF. Only the first
+ * print for the order (or check) is the original; reprints are copies.
+ */
+export const printOrderReceipt = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { format, width, checkId } = req.body as {
+      format: ReceiptFormat;
+      width: ReceiptPaperWidth;
+      checkId?: string;
+    };
+
+    const data = await loadReceiptData(req.params.id, checkId);
+    const copy = await recordReceiptPrint(req, data.order.id, format, checkId);
+
+    logger.info('Receipt printed', {
+      orderId: data.order.id,
+      orderNumber: data.order.orderNumber,
+      checkId,
+      format,
+      copy,
+      printedBy: req.user?._id,
+    });
+
+    sendReceipt(res, data, { format, width, copy });
+  }
+);
@@ -0,0 +1,423 @@
+import { Response } from 'express';
+import {
+  OrderModel,
+  PaymentModel,
+  RefundModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  CreateRefundRequest,
+  Order,
+  OrderItem,
+  RefundItem,
+  RefundTender,
+  VoidOrderRequest,
+} from '@restaurant-monorepo/shared-types';
+import { allocateCents, toCents } from '@restaurant-monorepo/pricing';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+import { resolveApproval } from '../services/approvals';
+import { getCardProvider } from '../services/cardPayments';
+import { getLineShareCents } from '../services/orderPricing';
+import { orderEvents } from '../services/orderEvents';
+
+type OrderLine = OrderItem & { _id: mongoose.Types.ObjectId };
+
+/**
+ * Void Order
+ * Cancels an order that has not been paid, recording why and who approved it.
+ */
+export const voidOrder = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const user = req.user;
+    if (!user) {
+      throw ApiError.unauthorized('User not authenticated');
+    }
+
+    const { reasonCode, note, approval }: VoidOrderRequest = req.body;
+
+    const existingOrder = await OrderModel.findById(req.params.id).select(
+      'status amountPaid'
+    );
+    if (!existingOrder) {
+      throw ApiError.notFound('Order not found');
+    }
+
+    if (existingOrder.status === 'cancelled') {
+      throw ApiError.conflict('Order is already cancelled');
+    }
+
+    if (existingOrder.amountPaid > 0) {
+      throw ApiError.conflict(
+        'Order has payments recorded; refund it instead of voiding'
+      );
+    }
+
+    const { approvedBy, approvalMethod } = await resolveApproval(
+      user,
+      approval
+    );
+    const previousStatus = existingOrder.status;
+
+    const order = await OrderModel.findOneAndUpdate(
+      {
+        _id: existingOrder._id,
+        status: previousStatus,
+        amountPaid: { $not: { $gt: 0 } },
+      },
+      {
+        $set: {
+          status: 'cancelled',
+          void: {
+            reasonCode,
+            note,
+            requestedBy: user._id,
+            approvedBy,
+            approvalMethod,
+            voidedAt: new Date(),
+          },
+        },
+        $push: {
+          statusHistory: {
+            from: previousStatus,
+            to: 'cancelled',
+            changedBy: user._id,
+            changedAt: new Date(),
+            reason: `Void: ${reasonCode}${note ? ` - ${note}` : ''}`.slice(
+              0,
+              200
+            ),
+          },
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!order) {
+      throw ApiError.conflict(
+        'Order was changed by someone else, please refresh'
+      );
+    }
+
+    logger.info('Order voided', {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      previousStatus,
+      reasonCode,
+      requestedBy: user._id,
+      approvedBy,
+      approvalMethod,
+    });
+
+    orderEvents.publish('order.cancelled', order, {
+      previousStatus,
+      actorId: user._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Order voided successfully',
+      data: {
+        order,
+      },
+    });
+  }
+);
+
+/**
+ * Work out which lines a refund covers and how much each gives back, in
+ * cents. Each line's share of the order total is refunded pro rata by
+ * quantity, rounded so refunding a line piece by piece adds up to its share.
+ */
+function buildRefundLines(
+  order: InstanceType<typeof OrderModel>,
+  refundableCents: number,
+  requested?: CreateRefundRequest['items']
+) {
+  const stored: Order = order.toObject();
+  const items = stored.items as OrderLine[];
+  const shares = getLineShareCents(stored);
+  const refundedQuantities = items.map((item) => item.refundedQuantity || 0);
+
+  if (!requested) {
+    const remaining = items.map((item, index) =>
+      Math.round(
+        (shares[index] * (item.quantity - refundedQuantities[index])) /
+          item.quantity
+      )
+    );
+    const amounts = allocateCents(refundableCents, remaining);
+
+    return {
+      items: items.map((item) => ({
+        ...item,
+        refundedQuantity: item.quantity,
+      })),
+      refundItems: items
+        .map((item, index) => ({
+          itemId: item._id.toString(),
+          menuItemName: item.menuItemName,
+          quantity: item.quantity - refundedQuantities[index],
+          amountCents: amounts[index],
+        }))
+        .filter((item) => item.quantity > 0 || item.amountCents > 0),
+    };
+  }
+
+  const updatedItems = items.map((item) => ({ ...item }));
+  const refundItems: (Omit<RefundItem, 'amount'> & { amountCents: number })[] =
+    [];
+
+  for (const { itemId, quantity } of requested) {
+    const index = updatedItems.findIndex(
+      (item) => item._id.toString() === itemId
+    );
+    if (index < 0) {
+      throw ApiError.badRequest(`Item ${itemId} is not on this order`);
+    }
+
+    const item = updatedItems[index];
+    const before = item.refundedQuantity || 0;
+    if (before + quantity > item.quantity) {
+      throw ApiError.badRequest(
+        `Only ${item.quantity - before} of ${item.menuItemName} left to refund`
+      );
+    }
+
+    const amountCents =
+      Math.round((shares[index] * (before + quantity)) / item.quantity) -
+      Math.round((shares[index] * before) / item.quantity);
+
+    item.refundedQuantity = before + quantity;
+    refundItems.push({
+      itemId,
+      menuItemName: item.menuItemName,
+      quantity,
+      amountCents,
+    });
+  }
+
+  return { items: updatedItems, refundItems };
+}
+
+/**
+ * Create Refund
+ * Refunds a paid order in full or line by line. The money goes back to the
+ * original payments, newest first, through the card provider where needed.
+ */
+export const createRefund = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const user = req.user;
+    if (!user) {
+      throw ApiError.unauthorized('User not authenticated');
+    }
+
+    const { reasonCode, note, items, approval }: CreateRefundRequest = req.body;
+
+    const order = await OrderModel.findById(req.params.id);
+    if (!order) {
+      throw ApiError.notFound('Order not found');
+    }
+
+    if (!(order.amountPaid > 0)) {
+      throw ApiError.badRequest(
+        'Order has no payments to refund; void it instead'
+      );
+    }
+
+    const amountRefunded = order.amountRefunded || 0;
+    const refundableCents = toCents(order.amountPaid) - toCents(amountRefunded);
+    if (refundableCents <= 0) {
+      throw ApiError.conflict('Order has already been refunded in full');
+    }
+
+    const { approvedBy, approvalMethod } = await resolveApproval(
+      user,
+      approval
+    );
+
+    const refundLines = buildRefundLines(order, refundableCents, items);
+
+    // A partly paid order can't give back more than was taken
+    const amountCents = Math.min(
+      refundableCents,
+      refundLines.refundItems.reduce((sum, item) => sum + item.amountCents, 0)
+    );
+    if (amountCents <= 0) {
+      throw ApiError.badRequest('Nothing to refund');
+    }
+    const amount = amountCents / 100;
+    const newAmountRefunded = (toCents(amountRefunded) + amountCents) / 100;
+    const fullyRefunded =
+      toCents(newAmountRefunded) >= toCents(order.amountPaid);
+
+    // Claim the refund on the order first so two refunds can't both pass the
+    // refundable check
+    const previousItems = order.toObject().items;
+    const previousPaymentStatus = order.paymentStatus;
+    const claimed = await OrderModel.findOneAndUpdate(
+      {
+        _id: order._id,
+        amountPaid: order.amountPaid,
+        amountRefunded:
+          amountRefunded > 0 ? amountRefunded : { $in: [0, null] },
+      },
+      {
+        $set: {
+          items: refundLines.items,
+          amountRefunded: newAmountRefunded,
+          ...(fullyRefunded && { paymentStatus: 'refunded' }),
+        },
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!claimed) {
+      throw ApiError.conflict(
+        'Order was changed by someone else, please refresh'
+      );
+    }
+
+    const payments = await PaymentModel.find({
+      orderId: order._id,
+      status: 'completed',
+    }).sort({ createdAt: -1 });
+
+    const tenders: RefundTender[] = [];
+    let remainingCents = amountCents;
+
+    try {
+      for (const payment of payments) {
+        if (remainingCents <= 0) break;
+
+        // Tips stay with the staff; only the amount applied to the bill
+        // comes back
+        const availableCents =
+          toCents(payment.amount) - toCents(payment.amountRefunded || 0);
+        const tenderCents = Math.min(availableCents, remainingCents);
+        if (tenderCents <= 0) continue;
+
+        if (payment.method === 'card' && payment.providerReference) {
+          await getCardProvider().refund(
+            payment.providerReference,
+            tenderCents / 100
+          );
+        }
+
+        await PaymentModel.updateOne(
+          { _id: payment._id },
+          { $inc: { amountRefunded: tenderCents / 100 } }
+        );
+
+        tenders.push({
+          paymentId: payment._id as unknown as RefundTender['paymentId'],
+          method: payment.method,
+          amount: tenderCents / 100,
+          providerReference: payment.providerReference,
+        });
+        remainingCents -= tenderCents;
+      }
+
+      if (remainingCents > 0) {
+        throw ApiError.conflict(
+          'Payments on this order do not cover the refund'
+        );
+      }
+    } catch (error) {
+      // Give back what we couldn't refund, keeping record of the tenders
+      // that did go through
+      await OrderModel.updateOne(
+        { _id: order._id },
+        {
+          $set: {
+            items: previousItems,
+            paymentStatus: previousPaymentStatus,
+          },
+          $inc: { amountRefunded: -remainingCents / 100 },
+        }
+      );
+
+      if (tenders.length > 0) {
+        await RefundModel.create({
+          orderId: order._id,
+          type: items ? 'items' : 'full',
+          items: [],
+          tenders,
+          amount: (amountCents - remainingCents) / 100,
+          reasonCode,
+          note,
+          requestedBy: user._id,
+          approvedBy,
+          approvalMethod,
+        });
+      }
+
+      logger.error('Refund failed', {
+        orderId: order.id,
+        amount,
+        refunded: (amountCents - remainingCents) / 100,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw error;
+    }
+
+    const refund = await RefundModel.create({
+      orderId: order._id,
+      type: items ? 'items' : 'full',
+      items: refundLines.refundItems.map(({ amountCents, ...item }) => ({
+        ...item,
+        amount: amountCents / 100,
+      })),
+      tenders,
+      amount,
+      reasonCode,
+      note,
+      requestedBy: user._id,
+      approvedBy,
+      approvalMethod,
+    });
+
+    logger.info('Refund processed', {
+      refundId: refund.id,
+      orderId: claimed.id,
+      orderNumber: claimed.orderNumber,
+      amount,
+      reasonCode,
+      requestedBy: user._id,
+      approvedBy,
+      approvalMethod,
+    });
+
+    orderEvents.publish('order.refunded', claimed, { actorId: user._id });
+
+    res.status(201).json({
+      success: true,
+      message: 'Refund processed successfully',
+      data: {
+        refund,
+        order: claimed,
+      },
+    });
+  }
+);
+
+/**
+ * Get Refunds for an Order
+ */
+export const getOrderRefunds = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const refunds = await RefundModel.find({ orderId: req.params.id })
+      .populate('requestedBy', 'name role')
+      .populate('approvedBy', 'name role')
+      .sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        refunds,
+      },
+    });
+  }
+);
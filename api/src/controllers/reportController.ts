@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import {
+  ReportGranularity,
+  ReportQuery,
+} from '@restaurant-monorepo/shared-types';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+import {
+  buildCategoryMix,
+  buildHourlyHeatmap,
+  buildItemSalesReport,
+  buildSalesReport,
+  getReportRange,
+} from '../services/reports';
+
+/**
+ * Get Sales Report
+ * Revenue, order count and average ticket per hour, day, week or month
+ */
+export const getSalesReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const query = req.query as unknown as ReportQuery & {
+      granularity: ReportGranularity;
+    };
+    const range = getReportRange(query);
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from,
+        to: range.to,
+        report: await buildSalesReport(range, query.granularity),
+      },
+    });
+  }
+);
+
+/**
+ * Get Item Sales Report
+ * Top and bottom menu items by quantity and revenue
+ */
+export const getItemSalesReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const query = req.query as unknown as ReportQuery & { limit: number };
+    const range = getReportRange(query);
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from,
+        to: range.to,
+        report: await buildItemSalesReport(range, query.limit),
+      },
+    });
+  }
+);
+
+/**
+ * Get Category Mix
+ */
+export const getCategoryMix = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const range = getReportRange(req.query as unknown as ReportQuery);
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from,
+        to: range.to,
+        categories: await buildCategoryMix(range),
+      },
+    });
+  }
+);
+
+/**
+ * Get Hourly Heatmap
+ * Orders and revenue by weekday and hour, for spotting peak times
+ */
+export const getHourlyHeatmap = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const range = getReportRange(req.query as unknown as ReportQuery);
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from,
+        to: range.to,
+        timezone: range.timezone,
+        cells: await buildHourlyHeatmap(range),
+      },
+    });
+  }
+);
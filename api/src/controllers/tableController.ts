@@ -0,0 +1,311 @@
+import { Response } from 'express';
+import {
+  OrderModel,
+  TableModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  CreateTableRequest,
+  Table,
+  TableStatus,
+  UpdateTableStatusRequest,
+} from '@restaurant-monorepo/shared-types';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { asyncHandler } from '../utils/asyncHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Sum the non-cancelled orders placed at each table since it was seated
+ */
+async function getOpenOrderSummaries(
+  tables: Table[]
+): Promise<Map<number, { count: number; total: number }>> {
+  const seatedTables = tables.filter((table) => table.occupiedSince);
+  const summaries = new Map<number, { count: number; total: number }>();
+
+  if (seatedTables.length === 0) {
+    return summaries;
+  }
+
+  const results = await OrderModel.aggregate([
+    {
+      $match: {
+        status: { $ne: 'cancelled' },
+        $or: seatedTables.map((table) => ({
+          tableNumber: table.number,
+          createdAt: { $gte: table.occupiedSince },
+        })),
+      },
+    },
+    {
+      $group: {
+        _id: '$tableNumber',
+        count: { $sum: 1 },
+        total: { $sum: '$total' },
+      },
+    },
+  ]);
+
+  for (const result of results) {
+    summaries.set(result._id, { count: result.count, total: result.total });
+  }
+
+  return summaries;
+}
+
+/**
+ * Create Table
+ */
+export const createTable = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const tableData: CreateTableRequest = req.body;
+
+    const existingTable = await TableModel.findOne({ number: tableData.number });
+    if (existingTable) {
+      throw ApiError.conflict(`Table ${tableData.number} already exists`);
+    }
+
+    const table = new TableModel(tableData);
+    await table.save();
+
+    logger.info('Table created', {
+      tableId: table._id,
+      number: table.number,
+      createdBy: req.user?._id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Table created successfully',
+      data: {
+        table,
+      },
+    });
+  }
+);
+
+/**
+ * Get Tables with Filters
+ */
+export const getTables = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const section = req.query.section as string;
+    const status = req.query.status as TableStatus;
+
+    const filter: mongoose.FilterQuery<Table> = { isActive: true };
+    if (section) filter.section = section;
+    if (status) filter.status = status;
+
+    const tables = await TableModel.find(filter).sort({ section: 1, number: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        tables,
+        count: tables.length,
+      },
+    });
+  }
+);
+
+/**
+ * Get Floor Plan with Occupancy and Open Order Totals
+ */
+export const getFloorPlan = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const tables = await TableModel.find({ isActive: true }).sort({
+      section: 1,
+      number: 1,
+    });
+    const summaries = await getOpenOrderSummaries(tables);
+
+    const floorPlan = tables.map((table) => {
+      const summary = summaries.get(table.number);
+      return {
+        ...table.toJSON(),
+        openOrderCount: summary?.count ?? 0,
+        openOrderTotal: summary?.total ?? 0,
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        tables: floorPlan,
+      },
+    });
+  }
+);
+
+/**
+ * Orders only store their table number, so a table with open orders can't
+ * be renumbered or deleted without leaving those orders behind
+ */
+async function checkNoOpenOrders(tableNumber: number, action: string) {
+  // Open means still in the kitchen, or served and not yet settled
+  const openOrder = await OrderModel.findOne(
+    {
+      tableNumber,
+      $or: [
+        { status: { $in: ['pending', 'preparing', 'ready'] } },
+        {
+          status: 'served',
+          paymentStatus: { $in: ['unpaid', 'partially_paid'] },
+        },
+      ],
+    },
+    'orderNumber'
+  );
+
+  if (openOrder) {
+    throw ApiError.conflict(
+      `Cannot ${action} table ${tableNumber} while order ${openOrder.orderNumber} is open`
+    );
+  }
+}
+
+/**
+ * Get Table by ID
+ */
+export const getTableById = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const table = await TableModel.findById(req.params.id);
+
+    if (!table) {
+      throw ApiError.notFound('Table not found');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        table,
+      },
+    });
+  }
+);
+
+/**
+ * Update Table Layout (number, capacity, section, position)
+ */
+export const updateTable = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const existing = await TableModel.findById(req.params.id);
+
+    if (!existing) {
+      throw ApiError.notFound('Table not found');
+    }
+
+    if (req.body.number !== undefined && req.body.number !== existing.number) {
+      if (existing.status === 'occupied') {
+        throw ApiError.conflict(
+          'Cannot renumber a table that is currently occupied'
+        );
+      }
+      await checkNoOpenOrders(existing.number, 'renumber');
+
+      const duplicate = await TableModel.findOne({ number: req.body.number });
+      if (duplicate) {
+        throw ApiError.conflict(`Table ${req.body.number} already exists`);
+      }
+    }
+
+    // Only apply the change if the number we checked is still current
+    const table = await TableModel.findOneAndUpdate(
+      { _id: existing._id, number: existing.number },
+      req.body,
+      { new: true, runValidators: true }
+    );
+
+    if (!table) {
+      throw ApiError.conflict('Table changed while updating. Please retry.');
+    }
+
+    logger.info('Table updated', {
+      tableId: table._id,
+      number: table.number,
+      updatedBy: req.user?._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Table updated successfully',
+      data: {
+        table,
+      },
+    });
+  }
+);
+
+/**
+ * Update Table Status (seat, reserve, clean, free)
+ */
+export const updateTableStatus = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { status }: UpdateTableStatusRequest = req.body;
+
+    const table = await TableModel.findById(req.params.id);
+
+    if (!table) {
+      throw ApiError.notFound('Table not found');
+    }
+
+    if (status === 'occupied') {
+      // Keep the original seating time if the table is already occupied
+      if (table.status !== 'occupied') {
+        table.occupiedSince = new Date();
+      }
+    } else {
+      table.occupiedSince = undefined;
+    }
+    table.status = status;
+    await table.save();
+
+    logger.info('Table status updated', {
+      tableId: table._id,
+      number: table.number,
+      status,
+      updatedBy: req.user?._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Table status updated successfully',
+      data: {
+        table,
+      },
+    });
+  }
+);
+
+/**
+ * Delete Table
+ */
+export const deleteTable = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const table = await TableModel.findById(req.params.id);
+
+    if (!table) {
+      throw ApiError.notFound('Table not found');
+    }
+
+    if (table.status === 'occupied') {
+      throw ApiError.conflict('Cannot delete a table that is currently occupied');
+    }
+
+    await checkNoOpenOrders(table.number, 'delete');
+
+    await table.deleteOne();
+
+    logger.info('Table deleted', {
+      tableId: table._id,
+      number: table.number,
+      deletedBy: req.user?._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Table deleted successfully',
+    });
+  }
+);
@@ -1,4 +1,5 @@
 import express from 'express';
+import path from 'path';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -7,12 +8,19 @@ import { connectDatabase } from '@restaurant-monorepo/database';
 import { env, isDevelopment } from './config/environment';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { logger } from './utils/logger';
+import { attachRealtimeServer } from './services/realtime';
+import { normalizeLegacyAllergens } from './services/allergens';
 
 // Import routes
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import orderRoutes from './routes/orders';
 import menuRoutes from './routes/menu';
+import tableRoutes from './routes/tables';
+import paymentRoutes from './routes/payments';
+import pricingRoutes from './routes/pricing';
+import reportRoutes from './routes/reports';
+import inventoryRoutes from './routes/inventory';
 
 const app = express();
 
@@ -38,6 +46,22 @@ app.use(
 // Compression middleware
 app.use(compression());
 
+// Uploaded images, when stored on this server's disk (before rate limiting,
+// since a menu page loads many of them)
+if (env.STORAGE_DRIVER === 'local') {
+  app.use(
+    '/uploads',
+    express.static(path.resolve(env.UPLOAD_DIR), {
+      immutable: true,
+      maxAge: '1y',
+      setHeaders: (res) => {
+        // Dashboards on other origins display these images
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      },
+    })
+  );
+}
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -83,6 +107,11 @@ app.use(`${apiPrefix}/auth`, authRoutes);
 app.use(`${apiPrefix}/users`, userRoutes);
 app.use(`${apiPrefix}/orders`, orderRoutes);
 app.use(`${apiPrefix}/menu`, menuRoutes);
+app.use(`${apiPrefix}/tables`, tableRoutes);
+app.use(`${apiPrefix}/payments`, paymentRoutes);
+app.use(`${apiPrefix}/pricing`, pricingRoutes);
+app.use(`${apiPrefix}/reports`, reportRoutes);
+app.use(`${apiPrefix}/inventory`, inventoryRoutes);
 
 // Welcome route
 app.get('/', (req, res) => {
@@ -94,7 +123,13 @@ app.get('/', (req, res) => {
       auth: `${apiPrefix}/auth`,
       menu: `${apiPrefix}/menu`,
       orders: `${apiPrefix}/orders`,
+      tables: `${apiPrefix}/tables`,
+      payments: `${apiPrefix}/payments`,
+      pricing: `${apiPrefix}/pricing`,
+      reports: `${apiPrefix}/reports`,
+      inventory: `${apiPrefix}/inventory`,
       users: `${apiPrefix}/users`,
+      events: `${apiPrefix}${env.WS_PATH}`,
     },
   });
 });
@@ -123,9 +158,10 @@ async function startServer() {
     await connectDatabase({
       mongoUri: env.MONGODB_URI,
     });
+    await normalizeLegacyAllergens();
 
     // Start server
-    app.listen(env.PORT, env.HOST, () => {
+    const server = app.listen(env.PORT, env.HOST, () => {
       logger.info(
         '🚀━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━🚀'
       );
@@ -137,10 +173,16 @@ async function startServer() {
       );
       logger.info(`🌟   Environment: ${env.NODE_ENV}`);
       logger.info(`💾   Database: Connected to MongoDB`);
+      logger.info(
+        `📢   Order Events: ws://${env.HOST}:${env.PORT}${apiPrefix}${env.WS_PATH}`
+      );
       logger.info(
         '🚀━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━🚀'
       );
     });
+
+    // Real-time order events share the HTTP server
+    attachRealtimeServer(server);
   } catch (error) {
     logger.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -31,26 +31,35 @@ export const authenticate = asyncHandler(
 
     const token = authHeader.replace('Bearer ', '');
 
-    try {
-      const decoded = jwt.verify(token, env.JWT_SECRET) as { userId: string };
-      const user = await UserModel.findById(decoded.userId).select('+password');
+    req.user = await resolveUserFromToken(token);
+    next();
+  }
+);
 
-      if (!user || !user.isActive) {
-        throw ApiError.unauthorized('Invalid or expired token');
-      }
+/**
+ * Verify a JWT and load the active user it belongs to
+ */
+export async function resolveUserFromToken(
+  token: string
+): Promise<User & { _id: string }> {
+  try {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as { userId: string };
+    const user = await UserModel.findById(decoded.userId).select('+password');
 
-      req.user = user as User & { _id: string };
-      next();
-    } catch (error) {
-      if (error instanceof jwt.JsonWebTokenError) {
-        throw ApiError.unauthorized('Invalid token');
-      } else if (error instanceof jwt.TokenExpiredError) {
-        throw ApiError.unauthorized('Token expired');
-      }
-      throw error;
+    if (!user || !user.isActive) {
+      throw ApiError.unauthorized('Invalid or expired token');
     }
+
+    return user as User & { _id: string };
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw ApiError.unauthorized('Invalid token');
+    } else if (error instanceof jwt.TokenExpiredError) {
+      throw ApiError.unauthorized('Token expired');
+    }
+    throw error;
   }
-);
+}
 
 /**
  * Permission-based Authorization
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { env } from '../config/environment';
+import { ApiError } from '../utils/apiError';
+import { IMAGE_MIME_TYPES } from '../services/menuImages';
+
+const imageUploader = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: env.MAX_IMAGE_UPLOAD_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(ApiError.badRequest('Image must be a JPEG, PNG or WebP file'));
+    }
+  },
+});
+
+/**
+ * Accept one image from a multipart form field into req.file (kept in memory)
+ */
+export const uploadImage = (field: string) => {
+  const handler = imageUploader.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(
+          error.code === 'LIMIT_FILE_SIZE'
+            ? ApiError.payloadTooLarge(
+                `Image must be ${env.MAX_IMAGE_UPLOAD_MB} MB or smaller`
+              )
+            : ApiError.badRequest(error.message)
+        );
+      } else {
+        next(error);
+      }
+    });
+  };
+};
@@ -5,6 +5,7 @@ import {
   getProfile,
   refreshToken,
   logout,
+  setApprovalPin,
 } from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validation';
@@ -32,6 +33,13 @@ const loginSchema = {
   }),
 };
 
+const setApprovalPinSchema = {
+  body: z.object({
+    pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits'),
+    currentPassword: z.string().min(1, 'Current password is required'),
+  }),
+};
+
 // Public routes
 router.post('/register', validate(registerSchema), register);
 router.post('/login', validate(loginSchema), login);
@@ -39,6 +47,12 @@ router.post('/login', validate(loginSchema), login);
 // Protected routes
 router.get('/profile', authenticate, getProfile);
 router.post('/refresh', authenticate, refreshToken);
+router.put(
+  '/pin',
+  authenticate,
+  validate(setApprovalPinSchema),
+  setApprovalPin
+);
 router.post('/logout', logout); // No auth required for logout
 
 export default router;
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import {
+  createIngredient,
+  getIngredients,
+  updateIngredient,
+  deleteIngredient,
+  createStockMovement,
+  getStockMovements,
+} from '../controllers/inventoryController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+// All inventory routes require authentication and inventory access
+router.use(authenticate);
+router.use(authorize(['MANAGE_INVENTORY']));
+
+// Validation schemas
+const createIngredientSchema = {
+  body: z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    unit: z.enum(['g', 'kg', 'ml', 'l', 'each']),
+    stock: z.number().min(0, 'Stock cannot be negative').optional(),
+    lowStockThreshold: z
+      .number()
+      .min(0, 'Low stock threshold cannot be negative')
+      .optional(),
+  }),
+};
+
+const ingredientListSchema = {
+  query: z.object({
+    lowStock: z.enum(['true', 'false']).optional(),
+  }),
+};
+
+const ingredientParamsSchema = {
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ingredient ID'),
+  }),
+};
+
+const stockMovementSchema = {
+  body: z
+    .object({
+      type: z.enum(['restock', 'wastage', 'count']),
+      quantity: z.number().min(0, 'Quantity cannot be negative'),
+      reason: z.string().trim().max(200).optional(),
+    })
+    .refine((movement) => movement.type === 'count' || movement.quantity > 0, {
+      message: 'Quantity must be greater than zero',
+      path: ['quantity'],
+    }),
+};
+
+const stockMovementListSchema = {
+  query: z.object({
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  }),
+};
+
+// Routes
+router.get('/ingredients', validate(ingredientListSchema), getIngredients);
+router.post('/ingredients', validate(createIngredientSchema), createIngredient);
+router.put(
+  '/ingredients/:id',
+  validate({
+    ...ingredientParamsSchema,
+    body: createIngredientSchema.body.omit({ stock: true }).partial(),
+  }),
+  updateIngredient
+);
+router.delete(
+  '/ingredients/:id',
+  validate(ingredientParamsSchema),
+  deleteIngredient
+);
+router.get(
+  '/ingredients/:id/movements',
+  validate({ ...ingredientParamsSchema, ...stockMovementListSchema }),
+  getStockMovements
+);
+router.post(
+  '/ingredients/:id/movements',
+  validate({ ...ingredientParamsSchema, ...stockMovementSchema }),
+  createStockMovement
+);
+
+export default router;
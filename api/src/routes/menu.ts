@@ -6,30 +6,74 @@ import {
   updateMenuItem,
   deleteMenuItem,
   toggleAvailability,
+  uploadMenuItemImage,
+  removeMenuItemImage,
   getMenuCategories,
+  getDayparts,
+  getArchivedMenuItems,
+  restoreMenuItem,
+  purgeMenuItem,
+  importMenu,
 } from '../controllers/menuController';
+import { exportMenu } from '../controllers/exportController';
+import {
+  getMenuDrafts,
+  getMenuItemDraft,
+  discardMenuItemDraft,
+  publishMenu,
+  getMenuVersions,
+  getMenuVersionChanges,
+  rollbackMenu,
+  getMenuItemHistory,
+} from '../controllers/menuVersionController';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate } from '../middleware/validation';
+import { uploadImage } from '../middleware/upload';
+import {
+  allergenSchema,
+  dietaryTagSchema,
+  menuItemSchema,
+} from './menuSchemas';
 import { z } from 'zod';
 
 const router = Router();
 
 // Validation schemas
+
+// Comma separated query list, e.g. ?excludeAllergens=peanuts,sesame
+const csvList = <T extends z.ZodType<unknown, string>>(item: T) =>
+  z
+    .string()
+    .transform((value) =>
+      value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(item));
+
 const createMenuItemSchema = {
-  body: z.object({
-    name: z.string().min(1, 'Name is required').max(100),
-    description: z.string().min(1, 'Description is required').max(500),
-    price: z.number().min(0, 'Price cannot be negative'),
-    category: z.enum([
-      'appetizer',
-      'main_course',
-      'dessert',
-      'beverage',
-      'special',
-    ]),
-    prepTime: z.number().min(1, 'Prep time must be at least 1 minute'),
-    allergens: z.array(z.string()).optional(),
-    imageUrl: z.string().url('Invalid image URL').optional(),
+  body: menuItemSchema,
+};
+
+const menuListSchema = {
+  query: z.object({
+    category: z
+      .enum(['appetizer', 'main_course', 'dessert', 'beverage', 'special'])
+      .optional(),
+    available: z.enum(['true', 'false']).optional(),
+    // Manual availability combined with the schedule at `at` (default now)
+    orderable: z.enum(['true', 'false']).optional(),
+    // Also list items outside their schedule at `at`
+    includeUnavailable: z.enum(['true', 'false']).optional(),
+    at: z
+      .string()
+      .refine((value) => !isNaN(Date.parse(value)), 'Expected an ISO date-time')
+      .optional(),
+    search: z.string().max(100).optional(),
+    excludeAllergens: csvList(allergenSchema).optional(),
+    // Items must carry every listed tag
+    dietary: csvList(dietaryTagSchema).optional(),
   }),
 };
 
@@ -39,9 +83,80 @@ const menuItemParamsSchema = {
   }),
 };
 
+const exportMenuSchema = {
+  query: z.object({
+    format: z.enum(['csv', 'json']).default('csv'),
+  }),
+};
+
+const importMenuSchema = {
+  body: z.object({
+    format: z.enum(['csv', 'json']),
+    content: z
+      .string()
+      .min(1, 'The file is empty')
+      .max(5_000_000, 'The file is too large'),
+    dryRun: z.boolean().default(false),
+  }),
+};
+
+const menuVersionListSchema = {
+  query: z.object({
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  }),
+};
+
+const menuVersionParamsSchema = {
+  params: z.object({
+    version: z.string().regex(/^\d+$/, 'Invalid menu version'),
+  }),
+};
+
+const publishMenuSchema = {
+  body: z.object({
+    note: z.string().trim().max(200).optional(),
+  }),
+};
+
 // Public routes (for viewing menu)
+// Listing items outside their schedule is for staff who manage the menu
+router.get(
+  '/',
+  validate(menuListSchema),
+  (req, res, next) =>
+    next(req.query.includeUnavailable === 'true' ? undefined : 'route'),
+  authenticate,
+  authorize(['MANAGE_MENU']),
+  getMenuItems
+);
 router.get('/', getMenuItems);
 router.get('/categories', getMenuCategories);
+router.get('/dayparts', getDayparts);
+
+// Registered ahead of /:id so these paths aren't read as item ids
+router.get('/drafts', authenticate, authorize(['MANAGE_MENU']), getMenuDrafts);
+router.get(
+  '/export',
+  authenticate,
+  authorize(['MANAGE_MENU']),
+  validate(exportMenuSchema),
+  exportMenu
+);
+router.get(
+  '/archived',
+  authenticate,
+  authorize(['MANAGE_MENU']),
+  getArchivedMenuItems
+);
+router.get(
+  '/versions',
+  authenticate,
+  authorize(['MANAGE_MENU']),
+  validate(menuVersionListSchema),
+  getMenuVersions
+);
+
 router.get('/:id', validate(menuItemParamsSchema), getMenuItemById);
 
 // Protected routes (require authentication)
@@ -54,6 +169,12 @@ router.post(
   validate(createMenuItemSchema),
   createMenuItem
 );
+router.post(
+  '/import',
+  authorize(['MANAGE_MENU']),
+  validate(importMenuSchema),
+  importMenu
+);
 router.put(
   '/:id',
   authorize(['MANAGE_MENU']),
@@ -69,6 +190,31 @@ router.delete(
   validate(menuItemParamsSchema),
   deleteMenuItem
 );
+router.patch(
+  '/:id/restore',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  restoreMenuItem
+);
+router.delete(
+  '/:id/purge',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  purgeMenuItem
+);
+router.post(
+  '/:id/image',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  uploadImage('image'),
+  uploadMenuItemImage
+);
+router.delete(
+  '/:id/image',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  removeMenuItemImage
+);
 router.patch(
   '/:id/toggle',
   authorize(['MANAGE_MENU']),
@@ -76,4 +222,42 @@ router.patch(
   toggleAvailability
 );
 
+// Drafts, publishing and version history
+router.post(
+  '/publish',
+  authorize(['MANAGE_MENU']),
+  validate(publishMenuSchema),
+  publishMenu
+);
+router.get(
+  '/versions/:version',
+  authorize(['MANAGE_MENU']),
+  validate(menuVersionParamsSchema),
+  getMenuVersionChanges
+);
+router.post(
+  '/versions/:version/rollback',
+  authorize(['MANAGE_MENU']),
+  validate({ ...menuVersionParamsSchema, ...publishMenuSchema }),
+  rollbackMenu
+);
+router.get(
+  '/:id/draft',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  getMenuItemDraft
+);
+router.delete(
+  '/:id/draft',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  discardMenuItemDraft
+);
+router.get(
+  '/:id/history',
+  authorize(['MANAGE_MENU']),
+  validate(menuItemParamsSchema),
+  getMenuItemHistory
+);
+
 export default router;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+const modifierGroupSchema = z
+  .object({
+    _id: objectId.optional(),
+    name: z.string().trim().min(1, 'Group name is required').max(50),
+    required: z.boolean().default(false),
+    minSelections: z.number().int().min(0).default(0),
+    maxSelections: z
+      .number()
+      .int()
+      .min(1, 'Maximum selections must be at least 1'),
+    options: z
+      .array(
+        z.object({
+          _id: objectId.optional(),
+          name: z.string().trim().min(1, 'Option name is required').max(50),
+          priceDelta: z
+            .number()
+            .min(0, 'Option price cannot be negative')
+            .default(0),
+          available: z.boolean().default(true),
+        })
+      )
+      .min(1, 'Modifier group needs at least one option')
+      .max(30),
+  })
+  .refine((group) => group.minSelections <= group.maxSelections, {
+    message: 'Minimum selections cannot exceed the maximum',
+    path: ['minSelections'],
+  })
+  .refine((group) => group.maxSelections <= group.options.length, {
+    message: 'Maximum selections cannot exceed the number of options',
+    path: ['maxSelections'],
+  });
+
+const bundleSlotSchema = z.object({
+  _id: objectId.optional(),
+  name: z.string().trim().min(1, 'Slot name is required').max(50),
+  menuItemIds: z
+    .array(objectId)
+    .min(1, 'Bundle slot must offer at least one menu item')
+    .max(30),
+});
+
+export const allergenSchema = z.enum([
+  'milk',
+  'eggs',
+  'fish',
+  'shellfish',
+  'tree_nuts',
+  'peanuts',
+  'wheat',
+  'soy',
+  'sesame',
+]);
+
+export const dietaryTagSchema = z.enum([
+  'vegan',
+  'vegetarian',
+  'halal',
+  'gluten_free',
+]);
+
+const scheduleDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const menuScheduleSchema = z
+  .object({
+    dayparts: z.array(z.enum(['breakfast', 'lunch', 'dinner'])).optional(),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+    startDate: scheduleDate.optional(),
+    endDate: scheduleDate.optional(),
+  })
+  .refine(
+    (schedule) =>
+      !schedule.startDate ||
+      !schedule.endDate ||
+      schedule.startDate <= schedule.endDate,
+    { message: 'End date cannot be before the start date', path: ['endDate'] }
+  );
+
+// A menu item as created through the API or imported in bulk
+export const menuItemSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().min(1, 'Description is required').max(500),
+  price: z.number().min(0, 'Price cannot be negative'),
+  category: z.enum([
+    'appetizer',
+    'main_course',
+    'dessert',
+    'beverage',
+    'special',
+  ]),
+  prepTime: z.number().min(1, 'Prep time must be at least 1 minute'),
+  allergens: z.array(allergenSchema).max(9).optional(),
+  dietaryTags: z.array(dietaryTagSchema).max(4).optional(),
+  // An empty string removes the image
+  imageUrl: z
+    .union([z.string().url('Invalid image URL'), z.literal('')])
+    .optional(),
+  modifierGroups: z.array(modifierGroupSchema).max(20).optional(),
+  type: z.enum(['single', 'bundle']).optional(),
+  bundleSlots: z.array(bundleSlotSchema).max(10).optional(),
+  schedule: menuScheduleSchema.optional(),
+  recipe: z
+    .array(
+      z.object({
+        ingredientId: objectId,
+        quantity: z.number().positive('Recipe quantity must be positive'),
+      })
+    )
+    .max(50)
+    .optional(),
+});
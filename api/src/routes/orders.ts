@@ -5,9 +5,27 @@ import {
   getOrderById,
   updateOrderStatus,
   getOrderStats,
+  addOrderItem,
+  updateOrderItem,
+  removeOrderItem,
+  splitOrder,
+  clearOrderSplit,
+  applyOrderDiscounts,
 } from '../controllers/orderController';
+import {
+  getOrderReceipt,
+  printOrderReceipt,
+} from '../controllers/receiptController';
+import { exportOrders } from '../controllers/exportController';
+import {
+  createRefund,
+  getOrderRefunds,
+  voidOrder,
+} from '../controllers/refundController';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate } from '../middleware/validation';
+import { isValidTimezone } from '../services/reports';
+import { allergenSchema } from './menuSchemas';
 import { z } from 'zod';
 
 const router = Router();
@@ -16,6 +34,33 @@ const router = Router();
 router.use(authenticate);
 
 // Validation schemas
+const modifierSelectionsSchema = z
+  .array(
+    z.object({
+      groupId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid modifier group ID'),
+      optionId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid modifier option ID'),
+    })
+  )
+  .max(50)
+  .optional();
+
+const bundleSelectionsSchema = z
+  .array(
+    z.object({
+      slotId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid bundle slot ID'),
+      menuItemId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid menu item ID'),
+      modifiers: modifierSelectionsSchema,
+    })
+  )
+  .max(10)
+  .optional();
+
 const createOrderSchema = {
   body: z.object({
     tableNumber: z.number().min(1, 'Table number must be positive'),
@@ -26,17 +71,223 @@ const createOrderSchema = {
             .string()
             .regex(/^[0-9a-fA-F]{24}$/, 'Invalid menu item ID'),
           quantity: z.number().min(1, 'Quantity must be at least 1'),
+          modifiers: modifierSelectionsSchema,
+          bundleSelections: bundleSelectionsSchema,
           specialInstructions: z.string().optional(),
+          seat: z.number().int().min(1, 'Seat must be positive').optional(),
         })
       )
       .min(1, 'Order must have at least one item'),
     customerName: z.string().optional(),
+    // Guest allergies, flagged against each line on the kitchen ticket
+    allergies: z.array(allergenSchema).optional(),
+    partySize: z
+      .number()
+      .int()
+      .min(1, 'Party size must be at least 1')
+      .optional(),
+  }),
+};
+
+const orderItemBodySchema = z.object({
+  menuItemId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid menu item ID'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  modifiers: modifierSelectionsSchema,
+  bundleSelections: bundleSelectionsSchema,
+  specialInstructions: z.string().max(200).optional(),
+  seat: z.number().int().min(1, 'Seat must be positive').optional(),
+});
+
+const addOrderItemSchema = {
+  body: orderItemBodySchema,
+};
+
+const updateOrderItemSchema = {
+  body: orderItemBodySchema
+    .pick({ quantity: true, specialInstructions: true })
+    .partial()
+    .refine(
+      (body) =>
+        body.quantity !== undefined || body.specialInstructions !== undefined,
+      'Provide a quantity or special instructions to update'
+    ),
+};
+
+const splitOrderSchema = {
+  body: z.discriminatedUnion('method', [
+    z.object({
+      method: z.literal('by_item'),
+      checks: z
+        .array(
+          z.object({
+            label: z.string().trim().max(50).optional(),
+            itemIds: z.array(
+              z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid order item ID')
+            ),
+          })
+        )
+        .min(2, 'A split needs at least two checks'),
+    }),
+    z.object({
+      method: z.literal('by_seat'),
+      seats: z
+        .record(z.string(), z.number().int().min(1, 'Seat must be positive'))
+        .optional(),
+    }),
+    z.object({
+      method: z.literal('even'),
+      count: z.number().int().min(2, 'A split needs at least two checks'),
+    }),
+  ]),
+};
+
+const discountSchema = z
+  .object({
+    type: z.enum(['percentage', 'fixed', 'comp']),
+    value: z.number().min(0, 'Discount cannot be negative').default(0),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .refine(
+    (discount) => discount.type !== 'percentage' || discount.value <= 100,
+    'Percentage discount cannot exceed 100'
+  );
+
+const applyDiscountsSchema = {
+  body: z
+    .object({
+      orderDiscount: discountSchema.nullable().optional(),
+      lineDiscounts: z
+        .array(
+          z.object({
+            itemId: z
+              .string()
+              .regex(/^[0-9a-fA-F]{24}$/, 'Invalid order item ID'),
+            discount: discountSchema.nullable(),
+          })
+        )
+        .optional(),
+    })
+    .refine(
+      (body) =>
+        body.orderDiscount !== undefined || body.lineDiscounts !== undefined,
+      'Provide an order discount or line discounts to apply'
+    ),
+};
+
+const receiptCheckIdSchema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, 'Invalid check ID')
+  .optional();
+
+const receiptQuerySchema = {
+  query: z.object({
+    format: z.enum(['text', 'html', 'pdf']).default('text'),
+    width: z
+      .enum(['58', '80'])
+      .default('80')
+      .transform((value) => parseInt(value, 10)),
+    checkId: receiptCheckIdSchema,
+  }),
+};
+
+const printReceiptSchema = {
+  body: z.object({
+    format: z.enum(['text', 'pdf']).default('text'),
+    width: z.union([z.literal(58), z.literal(80)]).default(80),
+    checkId: receiptCheckIdSchema,
+  }),
+};
+
+const refundReasonSchema = z.enum([
+  'customer_request',
+  'wrong_item',
+  'quality_issue',
+  'long_wait',
+  'duplicate_charge',
+  'entry_error',
+  'other',
+]);
+
+// Owner or manager credentials entered on a waiter's session
+const managerApprovalSchema = z.object({
+  email: z.string().email('Invalid approver email'),
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits'),
+});
+
+const voidOrderSchema = {
+  body: z.object({
+    reasonCode: refundReasonSchema,
+    note: z.string().trim().max(200).optional(),
+    approval: managerApprovalSchema.optional(),
+  }),
+};
+
+const createRefundSchema = {
+  body: z.object({
+    reasonCode: refundReasonSchema,
+    note: z.string().trim().max(200).optional(),
+    // Leave out to refund everything still refundable
+    items: z
+      .array(
+        z.object({
+          itemId: z
+            .string()
+            .regex(/^[0-9a-fA-F]{24}$/, 'Invalid order item ID'),
+          quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+        })
+      )
+      .min(1, 'Choose at least one item to refund')
+      .optional(),
+    approval: managerApprovalSchema.optional(),
+  }),
+};
+
+const orderDate = z
+  .string()
+  .refine(
+    (value) =>
+      /^\d{4}-\d{2}-\d{2}(T.*)?$/.test(value) && !isNaN(Date.parse(value)),
+    'Expected a date (YYYY-MM-DD) or ISO date-time'
+  );
+
+// Filters shared by the order list and its export
+const orderFilterFields = {
+  status: z
+    .enum(['pending', 'preparing', 'ready', 'served', 'cancelled'])
+    .optional(),
+  tableNumber: z
+    .string()
+    .regex(/^\d+$/, 'Table number must be a number')
+    .optional(),
+  from: orderDate.optional(),
+  to: orderDate.optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  createdBy: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID')
+    .optional(),
+  search: z.string().trim().max(100).optional(),
+};
+
+const orderListSchema = {
+  query: z.object({
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+    ...orderFilterFields,
+  }),
+};
+
+const exportOrdersSchema = {
+  query: z.object({
+    format: z.enum(['csv', 'xlsx', 'pdf']).default('csv'),
+    ...orderFilterFields,
   }),
 };
 
 const updateStatusSchema = {
   body: z.object({
     status: z.enum(['pending', 'preparing', 'ready', 'served', 'cancelled']),
+    reason: z.string().trim().max(200).optional(),
   }),
 };
 
@@ -46,6 +297,13 @@ const orderParamsSchema = {
   }),
 };
 
+const orderItemParamsSchema = {
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid order ID'),
+    itemId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid order item ID'),
+  }),
+};
+
 // Routes
 router.post(
   '/',
@@ -53,8 +311,19 @@ router.post(
   validate(createOrderSchema),
   createOrder
 );
-router.get('/', authorize(['VIEW_ORDERS']), getOrders);
+router.get(
+  '/',
+  authorize(['VIEW_ORDERS']),
+  validate(orderListSchema),
+  getOrders
+);
 router.get('/stats', authorize(['VIEW_REPORTS']), getOrderStats);
+router.get(
+  '/export',
+  authorize(['VIEW_REPORTS']),
+  validate(exportOrdersSchema),
+  exportOrders
+);
 router.get(
   '/:id',
   authorize(['VIEW_ORDERS']),
@@ -68,4 +337,82 @@ router.patch(
   updateOrderStatus
 );
 
+// Order modification routes (pending orders only)
+router.post(
+  '/:id/items',
+  authorize(['VIEW_ORDERS']),
+  validate({ ...orderParamsSchema, ...addOrderItemSchema }),
+  addOrderItem
+);
+router.patch(
+  '/:id/items/:itemId',
+  authorize(['VIEW_ORDERS']),
+  validate({ ...orderItemParamsSchema, ...updateOrderItemSchema }),
+  updateOrderItem
+);
+router.delete(
+  '/:id/items/:itemId',
+  authorize(['VIEW_ORDERS']),
+  validate(orderItemParamsSchema),
+  removeOrderItem
+);
+
+// Bill splitting routes
+router.post(
+  '/:id/split',
+  authorize(['VIEW_ORDERS']),
+  validate({ ...orderParamsSchema, ...splitOrderSchema }),
+  splitOrder
+);
+router.delete(
+  '/:id/split',
+  authorize(['VIEW_ORDERS']),
+  validate(orderParamsSchema),
+  clearOrderSplit
+);
+
+// Receipts
+router.get(
+  '/:id/receipt',
+  authorize(['VIEW_ORDERS']),
+  validate({ ...orderParamsSchema, ...receiptQuerySchema }),
+  getOrderReceipt
+);
+
+router.post(
+  '/:id/receipt/print',
+  authorize(['PROCESS_PAYMENTS']),
+  validate({ ...orderParamsSchema, ...printReceiptSchema }),
+  printOrderReceipt
+);
+
+// Discounts and comps
+router.put(
+  '/:id/discounts',
+  authorize(['PROCESS_PAYMENTS']),
+  validate({ ...orderParamsSchema, ...applyDiscountsSchema }),
+  applyOrderDiscounts
+);
+
+// Voids and refunds; approval is checked in the controller so waiters can
+// start them with a manager's PIN
+router.post(
+  '/:id/void',
+  authorize(['VIEW_ORDERS']),
+  validate({ ...orderParamsSchema, ...voidOrderSchema }),
+  voidOrder
+);
+router.get(
+  '/:id/refunds',
+  authorize(['VIEW_ORDERS']),
+  validate(orderParamsSchema),
+  getOrderRefunds
+);
+router.post(
+  '/:id/refunds',
+  authorize(['VIEW_ORDERS']),
+  validate({ ...orderParamsSchema, ...createRefundSchema }),
+  createRefund
+);
+
 export default router;
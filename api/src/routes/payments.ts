@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import {
+  createPayment,
+  getOpenChecks,
+  getPayments,
+  getPaymentById,
+} from '../controllers/paymentController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+// All payment routes require authentication and payment permission
+router.use(authenticate);
+router.use(authorize(['PROCESS_PAYMENTS']));
+
+// Validation schemas
+const createPaymentSchema = {
+  body: z
+    .object({
+      orderId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid order ID'),
+      checkId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid check ID')
+        .optional(),
+      method: z.enum(['cash', 'card']),
+      amount: z.number().positive('Amount must be positive'),
+      tip: z.number().min(0, 'Tip cannot be negative').optional(),
+      amountTendered: z
+        .number()
+        .min(0, 'Amount tendered cannot be negative')
+        .optional(),
+      cardToken: z.string().max(200).optional(),
+    })
+    .refine(
+      (body) => body.method === 'cash' || body.amountTendered === undefined,
+      {
+        message: 'Amount tendered only applies to cash payments',
+        path: ['amountTendered'],
+      }
+    ),
+};
+
+const paymentParamsSchema = {
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid payment ID'),
+  }),
+};
+
+// Routes
+router.get('/', getPayments);
+router.get('/open-checks', getOpenChecks);
+router.get('/:id', validate(paymentParamsSchema), getPaymentById);
+router.post('/', validate(createPaymentSchema), createPayment);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getPricingConfig } from '../controllers/pricingController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All pricing routes require authentication
+router.use(authenticate);
+
+// Routes
+router.get('/config', getPricingConfig);
+
+export default router;
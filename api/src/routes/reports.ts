@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import {
+  getCategoryMix,
+  getHourlyHeatmap,
+  getItemSalesReport,
+  getSalesReport,
+} from '../controllers/reportController';
+import { exportSalesReport } from '../controllers/exportController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { isValidTimezone } from '../services/reports';
+import { z } from 'zod';
+
+const router = Router();
+
+// All report routes require authentication and report permission
+router.use(authenticate);
+router.use(authorize(['VIEW_REPORTS']));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schemas
+const reportDate = z
+  .string()
+  .refine(
+    (value) =>
+      /^\d{4}-\d{2}-\d{2}(T.*)?$/.test(value) && !isNaN(Date.parse(value)),
+    'Expected a date (YYYY-MM-DD) or ISO date-time'
+  );
+
+const reportRangeFields = {
+  from: reportDate,
+  to: reportDate,
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+};
+
+// Rough range length; the exact bounds depend on the timezone
+const getRangeDays = (query: { from: string; to: string }) =>
+  (Date.parse(query.to) - Date.parse(query.from)) / DAY_MS;
+
+const withRangeChecks = <T extends { from: string; to: string }>(
+  schema: z.ZodType<T>
+) =>
+  schema
+    .refine((query) => getRangeDays(query) >= 0, {
+      message: 'from must not be after to',
+      path: ['to'],
+    })
+    .refine((query) => getRangeDays(query) <= 366, {
+      message: 'Reports cover at most one year',
+      path: ['to'],
+    });
+
+const rangeQuerySchema = {
+  query: withRangeChecks(z.object(reportRangeFields)),
+};
+
+const salesQueryFields = {
+  ...reportRangeFields,
+  granularity: z.enum(['hour', 'day', 'week', 'month']).default('day'),
+};
+
+const withSalesChecks = <
+  T extends { from: string; to: string; granularity: string }
+>(
+  schema: z.ZodType<T>
+) =>
+  withRangeChecks(schema).refine(
+    (query) => query.granularity !== 'hour' || getRangeDays(query) <= 31,
+    {
+      message: 'Hourly reports cover at most 31 days',
+      path: ['granularity'],
+    }
+  );
+
+const salesQuerySchema = {
+  query: withSalesChecks(z.object(salesQueryFields)),
+};
+
+const salesExportSchema = {
+  query: withSalesChecks(
+    z.object({
+      ...salesQueryFields,
+      format: z.enum(['csv', 'xlsx', 'pdf']).default('csv'),
+    })
+  ),
+};
+
+const itemsQuerySchema = {
+  query: withRangeChecks(
+    z.object({
+      ...reportRangeFields,
+      limit: z.coerce.number().int().min(1).max(50).default(10),
+    })
+  ),
+};
+
+// Routes
+router.get('/sales', validate(salesQuerySchema), getSalesReport);
+router.get('/sales/export', validate(salesExportSchema), exportSalesReport);
+router.get('/items', validate(itemsQuerySchema), getItemSalesReport);
+router.get('/categories', validate(rangeQuerySchema), getCategoryMix);
+router.get('/heatmap', validate(rangeQuerySchema), getHourlyHeatmap);
+
+export default router;
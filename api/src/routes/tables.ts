@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import {
+  createTable,
+  getTables,
+  getFloorPlan,
+  getTableById,
+  updateTable,
+  updateTableStatus,
+  deleteTable,
+} from '../controllers/tableController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+// All table routes require authentication
+router.use(authenticate);
+
+// Validation schemas
+const createTableSchema = {
+  body: z.object({
+    number: z.number().int().min(1, 'Table number must be positive'),
+    capacity: z.number().int().min(1, 'Capacity must be at least 1').max(50),
+    section: z.string().trim().min(1, 'Section is required').max(50),
+    position: z
+      .object({
+        x: z.number().min(0),
+        y: z.number().min(0),
+      })
+      .optional(),
+  }),
+};
+
+const updateTableStatusSchema = {
+  body: z.object({
+    status: z.enum(['available', 'occupied', 'reserved', 'cleaning']),
+  }),
+};
+
+const tableParamsSchema = {
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid table ID'),
+  }),
+};
+
+// Routes
+router.get('/', authorize(['VIEW_ORDERS']), getTables);
+router.get('/floor-plan', authorize(['VIEW_ORDERS']), getFloorPlan);
+router.get(
+  '/:id',
+  authorize(['VIEW_ORDERS']),
+  validate(tableParamsSchema),
+  getTableById
+);
+router.post(
+  '/',
+  authorize(['MANAGE_TABLES']),
+  validate(createTableSchema),
+  createTable
+);
+router.put(
+  '/:id',
+  authorize(['MANAGE_TABLES']),
+  validate({
+    ...tableParamsSchema,
+    body: createTableSchema.body.partial(),
+  }),
+  updateTable
+);
+router.patch(
+  '/:id/status',
+  authorize(['UPDATE_ORDER_STATUS']),
+  validate({ ...tableParamsSchema, ...updateTableStatusSchema }),
+  updateTableStatus
+);
+router.delete(
+  '/:id',
+  authorize(['MANAGE_TABLES']),
+  validate(tableParamsSchema),
+  deleteTable
+);
+
+export default router;
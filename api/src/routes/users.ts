@@ -1,10 +1,10 @@
-
 import { Router } from 'express';
 import {
   getUsers,
   getUserById,
   updateUserStatus,
 } from '../controllers/userController';
+import { exportStaff } from '../controllers/exportController';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { z } from 'zod';
@@ -21,6 +21,14 @@ const userParamsSchema = {
   }),
 };
 
+const exportStaffSchema = {
+  query: z.object({
+    format: z.enum(['csv', 'xlsx', 'pdf']).default('csv'),
+    role: z.enum(['owner', 'manager', 'chef', 'waiter']).optional(),
+    isActive: z.enum(['true', 'false']).optional(),
+  }),
+};
+
 const updateStatusSchema = {
   body: z.object({
     isActive: z.boolean(),
@@ -28,6 +36,7 @@ const updateStatusSchema = {
 };
 
 router.get('/', getUsers);
+router.get('/export', validate(exportStaffSchema), exportStaff);
 router.get('/:id', validate(userParamsSchema), getUserById);
 router.patch(
   '/:id/status',
@@ -35,4 +44,4 @@ router.patch(
   updateUserStatus
 );
 
-export default router;
\ No newline at end of file
+export default router;
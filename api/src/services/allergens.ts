@@ -0,0 +1,126 @@
+import { MenuItemModel } from '@restaurant-monorepo/database';
+import {
+  ALLERGENS,
+  Allergen,
+  DietaryTag,
+} from '@restaurant-monorepo/shared-types';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+
+// Free-text names used before allergens were a fixed list
+const ALLERGEN_SYNONYMS: Record<string, Allergen> = {
+  dairy: 'milk',
+  lactose: 'milk',
+  cheese: 'milk',
+  egg: 'eggs',
+  crustacean: 'shellfish',
+  crustaceans: 'shellfish',
+  shrimp: 'shellfish',
+  prawn: 'shellfish',
+  prawns: 'shellfish',
+  molluscs: 'shellfish',
+  nut: 'tree_nuts',
+  nuts: 'tree_nuts',
+  tree_nut: 'tree_nuts',
+  peanut: 'peanuts',
+  gluten: 'wheat',
+  soya: 'soy',
+  soybean: 'soy',
+  soybeans: 'soy',
+  sesame_seeds: 'sesame',
+};
+
+// Allergens an item carrying the tag cannot contain
+const DIETARY_EXCLUSIONS: Record<DietaryTag, Allergen[]> = {
+  vegan: ['milk', 'eggs', 'fish', 'shellfish'],
+  vegetarian: ['fish', 'shellfish'],
+  halal: [],
+  gluten_free: ['wheat'],
+};
+
+const DIETARY_LABELS: Record<DietaryTag, string> = {
+  vegan: 'Vegan',
+  vegetarian: 'Vegetarian',
+  halal: 'Halal',
+  gluten_free: 'Gluten-free',
+};
+
+function normalizeAllergen(value: string): Allergen | undefined {
+  const key = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  return ALLERGENS.includes(key as Allergen)
+    ? (key as Allergen)
+    : ALLERGEN_SYNONYMS[key];
+}
+
+/**
+ * Reject dietary tags that contradict the item's own allergens, such as a
+ * vegan dish that contains milk
+ */
+export function checkDietaryTags(
+  allergens: Allergen[],
+  dietaryTags: DietaryTag[]
+): void {
+  for (const tag of dietaryTags) {
+    const conflict = DIETARY_EXCLUSIONS[tag].find((allergen) =>
+      allergens.includes(allergen)
+    );
+    if (conflict) {
+      throw ApiError.badRequest(
+        `${DIETARY_LABELS[tag]} items cannot contain ${conflict.replace(
+          '_',
+          ' '
+        )}`
+      );
+    }
+  }
+}
+
+/**
+ * Map free-text allergens left over from before the fixed list onto it.
+ * Runs at startup and only touches items that still hold unknown values;
+ * anything that can't be mapped is dropped and logged for a manager to fix.
+ */
+export async function normalizeLegacyAllergens(): Promise<void> {
+  const items = await MenuItemModel.collection
+    .find(
+      { allergens: { $elemMatch: { $nin: ALLERGENS } } },
+      { projection: { name: 1, allergens: 1 } }
+    )
+    .toArray();
+
+  for (const item of items) {
+    const allergens = new Set<Allergen>();
+    const dropped: string[] = [];
+
+    for (const value of item.allergens as string[]) {
+      const allergen = normalizeAllergen(value);
+      if (allergen) {
+        allergens.add(allergen);
+      } else {
+        dropped.push(value);
+      }
+    }
+
+    await MenuItemModel.collection.updateOne(
+      { _id: item._id },
+      { $set: { allergens: [...allergens] } }
+    );
+
+    if (dropped.length > 0) {
+      logger.warn('Dropped unrecognised allergens from menu item', {
+        menuItemId: item._id,
+        name: item.name,
+        dropped,
+      });
+    }
+  }
+
+  if (items.length > 0) {
+    logger.info('Normalized legacy menu item allergens', {
+      count: items.length,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import bcrypt from 'bcrypt';
+import { UserModel } from '@restaurant-monorepo/database';
+import { buildUser, mockDocuments, StoredDocument } from '../testing/mocks';
+import { MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS, resolveApproval } from './approvals';
+
+const waiter = buildUser('waiter');
+const requester = { ...waiter.toObject(), _id: waiter.id };
+
+describe('resolveApproval', () => {
+  let manager: InstanceType<typeof UserModel>;
+  let users: ReturnType<typeof mockDocuments>;
+
+  beforeAll(async () => {
+    manager = buildUser('manager', { pin: await bcrypt.hash('4321', 4) });
+  });
+
+  beforeEach(() => {
+    users = mockDocuments(UserModel, [manager.toObject<StoredDocument>()]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const approveWith = (pin: string) =>
+    resolveApproval(requester, { email: 'MANAGER@example.com', pin });
+
+  const stored = () => users.get(manager.id) as StoredDocument;
+
+  it('should let users with PROCESS_PAYMENTS approve their own', async () => {
+    const approval = await resolveApproval(
+      { ...manager.toObject(), _id: manager.id },
+      undefined
+    );
+
+    expect(approval).toEqual({
+      approvedBy: manager.id,
+      approvalMethod: 'permission',
+    });
+  });
+
+  it('should accept the right manager PIN', async () => {
+    await expect(approveWith('4321')).resolves.toEqual({
+      approvedBy: manager.id,
+      approvalMethod: 'pin',
+    });
+  });
+
+  it('should reject a wrong PIN and count it against the approver', async () => {
+    await expect(approveWith('0000')).rejects.toMatchObject({
+      statusCode: 403,
+      message: 'Invalid manager approval',
+    });
+    expect(stored().pinFailedAttempts).toBe(1);
+  });
+
+  it('should clear the count after the right PIN', async () => {
+    await expect(approveWith('0000')).rejects.toThrow();
+    await approveWith('4321');
+
+    expect(stored().pinFailedAttempts).toBe(0);
+  });
+
+  it('should lock the PIN after too many wrong attempts', async () => {
+    for (let attempt = 1; attempt < MAX_PIN_ATTEMPTS; attempt++) {
+      await expect(approveWith('0000')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    }
+
+    await expect(approveWith('0000')).rejects.toMatchObject({
+      statusCode: 429,
+    });
+    const lockedUntil = stored().pinLockedUntil as Date;
+    expect(lockedUntil.getTime()).toBeGreaterThan(
+      Date.now() + PIN_LOCKOUT_MS - 60000
+    );
+
+    // Even the right PIN is refused while locked
+    await expect(approveWith('4321')).rejects.toMatchObject({
+      statusCode: 429,
+    });
+  });
+
+  it('should accept the right PIN again once the lock expires', async () => {
+    users.set(manager.id, {
+      ...manager.toObject<StoredDocument>(),
+      pinLockedUntil: new Date(Date.now() - 1000),
+    });
+
+    await expect(approveWith('4321')).resolves.toMatchObject({
+      approvalMethod: 'pin',
+    });
+    expect(stored().pinLockedUntil).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import bcrypt from 'bcrypt';
+import { UserModel } from '@restaurant-monorepo/database';
+import {
+  ApprovalMethod,
+  ManagerApproval,
+  User,
+} from '@restaurant-monorepo/shared-types';
+import {
+  canApproveRefunds,
+  canApproveWithPin,
+} from '@restaurant-monorepo/rbac';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+
+// Wrong PINs allowed before an approver's PIN is locked, and for how long
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+export interface Approval {
+  approvedBy: string;
+  approvalMethod: ApprovalMethod;
+}
+
+/**
+ * Work out who approves a void or refund. Users with PROCESS_PAYMENTS approve
+ * their own; anyone else needs an owner or manager to enter their PIN.
+ */
+export async function resolveApproval(
+  user: User & { _id: string },
+  approval?: ManagerApproval
+): Promise<Approval> {
+  if (canApproveRefunds(user.role)) {
+    return { approvedBy: user._id, approvalMethod: 'permission' };
+  }
+
+  if (!approval) {
+    throw ApiError.forbidden(
+      'Manager approval required: an owner or manager must enter their PIN'
+    );
+  }
+
+  const approver = await UserModel.findOne({
+    email: approval.email.toLowerCase(),
+    isActive: true,
+  }).select('+pin +pinFailedAttempts +pinLockedUntil');
+
+  if (approver?.pinLockedUntil && approver.pinLockedUntil > new Date()) {
+    logger.warn('Locked manager PIN approval attempted', {
+      requestedBy: user._id,
+      approverId: approver._id,
+    });
+    throw ApiError.tooManyRequests(
+      'Too many incorrect PINs. Manager approval is locked; try again later.'
+    );
+  }
+
+  const isValid =
+    !!approver &&
+    canApproveWithPin(approver.role) &&
+    !!approver.pin &&
+    (await bcrypt.compare(approval.pin, approver.pin));
+
+  if (!approver || !isValid) {
+    logger.warn('Rejected manager PIN approval', {
+      requestedBy: user._id,
+      approverEmail: approval.email,
+    });
+    if (approver && (await recordFailedPin(approver.id))) {
+      throw ApiError.tooManyRequests(
+        'Too many incorrect PINs. Manager approval is locked; try again later.'
+      );
+    }
+    throw ApiError.forbidden('Invalid manager approval');
+  }
+
+  if (approver.pinFailedAttempts || approver.pinLockedUntil) {
+    await UserModel.updateOne(
+      { _id: approver._id },
+      { $set: { pinFailedAttempts: 0 }, $unset: { pinLockedUntil: 1 } }
+    );
+  }
+
+  return { approvedBy: approver.id, approvalMethod: 'pin' };
+}
+
+/**
+ * Count a wrong PIN against the approver, locking their PIN once too many
+ * are entered in a row. Returns whether it is now locked.
+ */
+async function recordFailedPin(approverId: string): Promise<boolean> {
+  const approver = await UserModel.findOneAndUpdate(
+    { _id: approverId },
+    { $inc: { pinFailedAttempts: 1 } },
+    { new: true }
+  ).select('+pinFailedAttempts');
+
+  if (!approver || (approver.pinFailedAttempts ?? 0) < MAX_PIN_ATTEMPTS) {
+    return false;
+  }
+
+  await UserModel.updateOne(
+    { _id: approverId },
+    {
+      $set: {
+        pinFailedAttempts: 0,
+        pinLockedUntil: new Date(Date.now() + PIN_LOCKOUT_MS),
+      },
+    }
+  );
+
+  logger.warn('Manager PIN locked after repeated failures', {
+    approverId,
+    lockedForMinutes: PIN_LOCKOUT_MS / 60000,
+  });
+  return true;
+}
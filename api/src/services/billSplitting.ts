@@ -0,0 +1,160 @@
+import {
+  OrderCheck,
+  OrderItem,
+  SplitOrderRequest,
+} from '@restaurant-monorepo/shared-types';
+import {
+  allocateCents,
+  PricedLine,
+  toCents,
+} from '@restaurant-monorepo/pricing';
+import { ApiError } from '../utils/apiError';
+
+export const MAX_SPLIT_CHECKS = 20;
+
+type SplittableLine = OrderItem & { _id: { toString(): string } };
+
+interface CheckGroup {
+  label: string;
+  itemIds: string[];
+  seat?: number;
+  lineIndexes: number[];
+}
+
+function groupByItem(
+  lines: SplittableLine[],
+  checks: { label?: string; itemIds: string[] }[]
+): CheckGroup[] {
+  const linesById = new Map(
+    lines.map((line, index) => [line._id.toString(), { line, index }])
+  );
+  const assigned = new Set<string>();
+
+  const groups = checks.map((check, index) => {
+    if (check.itemIds.length === 0) {
+      throw ApiError.badRequest(`Check ${index + 1} has no items`);
+    }
+
+    const lineIndexes = check.itemIds.map((itemId) => {
+      const entry = linesById.get(itemId);
+      if (!entry) {
+        throw ApiError.badRequest(`Order item ${itemId} not found`);
+      }
+      if (assigned.has(itemId)) {
+        throw ApiError.badRequest(
+          `"${entry.line.menuItemName}" is assigned to more than one check`
+        );
+      }
+      assigned.add(itemId);
+      return entry.index;
+    });
+
+    return {
+      label: check.label || `Check ${index + 1}`,
+      itemIds: check.itemIds,
+      lineIndexes,
+    };
+  });
+
+  const unassigned = lines.filter((line) => !assigned.has(line._id.toString()));
+  if (unassigned.length > 0) {
+    throw ApiError.badRequest(
+      `Every item must be on a check. Unassigned: ${unassigned
+        .map((line) => line.menuItemName)
+        .join(', ')}`
+    );
+  }
+
+  return groups;
+}
+
+function groupBySeat(lines: SplittableLine[]): CheckGroup[] {
+  const unseated = lines.filter((line) => !line.seat);
+  if (unseated.length > 0) {
+    throw ApiError.badRequest(
+      `Assign a seat to every item before splitting by seat. Unassigned: ${unseated
+        .map((line) => line.menuItemName)
+        .join(', ')}`
+    );
+  }
+
+  const seats = new Map<number, number[]>();
+  lines.forEach((line, index) => {
+    const seat = line.seat as number;
+    seats.set(seat, [...(seats.get(seat) ?? []), index]);
+  });
+
+  return Array.from(seats.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([seat, lineIndexes]) => ({
+      label: `Seat ${seat}`,
+      itemIds: lineIndexes.map((index) => lines[index]._id.toString()),
+      seat,
+      lineIndexes,
+    }));
+}
+
+/**
+ * Build the separate checks for an order from its priced lines. Each check
+ * carries the discounted amount, service charge and tax of its own lines, so
+ * check totals always add up to the order total. Even shares divide each
+ * component of the whole order.
+ */
+export function buildOrderChecks(
+  lines: SplittableLine[],
+  pricedLines: PricedLine[],
+  request: SplitOrderRequest
+): OrderCheck[] {
+  let groups: CheckGroup[];
+
+  switch (request.method) {
+    case 'by_item':
+      groups = groupByItem(lines, request.checks);
+      break;
+    case 'by_seat':
+      groups = groupBySeat(lines);
+      break;
+    case 'even':
+      groups = Array.from({ length: request.count }, (_, index) => ({
+        label: `Share ${index + 1} of ${request.count}`,
+        itemIds: [],
+        lineIndexes: [],
+      }));
+      break;
+  }
+
+  if (groups.length < 2) {
+    throw ApiError.badRequest('A split needs at least two checks');
+  }
+  if (groups.length > MAX_SPLIT_CHECKS) {
+    throw ApiError.badRequest(
+      `An order can be split into at most ${MAX_SPLIT_CHECKS} checks`
+    );
+  }
+
+  const sumLines = (indexes: number[], field: keyof PricedLine) =>
+    indexes.reduce((sum, index) => sum + toCents(pricedLines[index][field]), 0);
+  const allLines = pricedLines.map((_, index) => index);
+
+  const components = (['net', 'serviceCharge', 'tax'] as const).map((field) =>
+    request.method === 'even'
+      ? allocateCents(
+          sumLines(allLines, field),
+          groups.map(() => 1)
+        )
+      : groups.map((group) => sumLines(group.lineIndexes, field))
+  );
+  const [subtotals, serviceCharges, taxes] = components;
+
+  return groups.map((group, index) => ({
+    label: group.label,
+    itemIds: group.itemIds,
+    seat: group.seat,
+    subtotal: subtotals[index] / 100,
+    serviceCharge: serviceCharges[index] / 100,
+    tax: taxes[index] / 100,
+    total: (subtotals[index] + serviceCharges[index] + taxes[index]) / 100,
+    amountPaid: 0,
+    paymentStatus: 'unpaid',
+  }));
+}
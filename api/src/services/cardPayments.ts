@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { env, isProduction } from '../config/environment';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+
+export interface CardChargeRequest {
+  amount: number;
+  currency: string;
+  /** Our own reference for the charge, e.g. the order number */
+  reference: string;
+  /** Token from a card terminal or hosted field, if the provider uses one */
+  cardToken?: string;
+}
+
+export interface CardChargeResult {
+  approved: boolean;
+  /** Provider-side transaction ID, needed for refunds */
+  providerReference: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  declineReason?: string;
+}
+
+/**
+ * Card processors plug in behind this interface
+ */
+export interface CardPaymentProvider {
+  readonly name: string;
+  charge(request: CardChargeRequest): Promise<CardChargeResult>;
+  refund(providerReference: string, amount: number): Promise<void>;
+}
+
+// Card tokens the fake provider treats specially
+export const FAKE_DECLINED_CARD_TOKEN = 'tok_declined';
+
+/**
+ * In-memory provider for local development and tests. Approves every charge
+ * except those made with FAKE_DECLINED_CARD_TOKEN.
+ */
+export class FakeCardProvider implements CardPaymentProvider {
+  readonly name = 'fake';
+  private charges = new Map<string, { amount: number; refunded: number }>();
+
+  async charge(request: CardChargeRequest): Promise<CardChargeResult> {
+    const providerReference = `fake_${randomUUID()}`;
+
+    if (request.cardToken === FAKE_DECLINED_CARD_TOKEN) {
+      return {
+        approved: false,
+        providerReference,
+        declineReason: 'Card declined by issuer',
+      };
+    }
+
+    this.charges.set(providerReference, {
+      amount: request.amount,
+      refunded: 0,
+    });
+
+    return {
+      approved: true,
+      providerReference,
+      cardBrand: 'visa',
+      cardLast4: '4242',
+    };
+  }
+
+  async refund(providerReference: string, amount: number): Promise<void> {
+    const charge = this.charges.get(providerReference);
+    if (!charge) {
+      throw ApiError.notFound(`Unknown card charge ${providerReference}`);
+    }
+
+    if (charge.refunded + amount > charge.amount) {
+      throw ApiError.badRequest('Refund exceeds the original charge');
+    }
+
+    charge.refunded += amount;
+  }
+}
+
+const providerFactories = new Map<string, () => CardPaymentProvider>([
+  ['fake', () => new FakeCardProvider()],
+]);
+
+let activeProvider: CardPaymentProvider | null = null;
+
+/**
+ * Make a card provider selectable through the CARD_PROVIDER setting
+ */
+export function registerCardProvider(
+  name: string,
+  factory: () => CardPaymentProvider
+): void {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * Override the active provider (e.g. with a FakeCardProvider in tests)
+ */
+export function setCardProvider(provider: CardPaymentProvider | null): void {
+  activeProvider = provider;
+}
+
+export function getCardProvider(): CardPaymentProvider {
+  if (!activeProvider) {
+    const factory = providerFactories.get(env.CARD_PROVIDER);
+    if (!factory) {
+      throw ApiError.internal(`Unknown card provider "${env.CARD_PROVIDER}"`);
+    }
+    activeProvider = factory();
+
+    if (isProduction && activeProvider instanceof FakeCardProvider) {
+      logger.warn('Card payments are using the fake provider in production');
+    }
+  }
+
+  return activeProvider;
+}
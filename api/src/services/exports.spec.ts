@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { OrderModel, UserModel } from '@restaurant-monorepo/database';
+import orderRoutes from '../routes/orders';
+import userRoutes from '../routes/users';
+import { authHeader, buildUser, mockUsers, spyOnModel } from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+import { ExportValue, sendTableExport } from './exports';
+
+const owner = buildUser('owner');
+const waiter = buildUser('waiter');
+
+describe('sendTableExport', () => {
+  let api: TestServer;
+  let rows: ExportValue[][] = [];
+
+  beforeAll(async () => {
+    const router = Router();
+    router.get('/', (req, res, next) =>
+      sendTableExport(res, {
+        format: 'csv',
+        filename: 'test',
+        title: 'Test',
+        columns: [{ header: 'Value', width: 20, value: (row) => row[0] }],
+        rows,
+      }).catch(next)
+    );
+    api = await startTestServer({ '/export': router });
+  });
+
+  afterAll(() => api.close());
+
+  const exportCsv = async (values: ExportValue[]) => {
+    rows = values.map((value) => [value]);
+    const { body } = await api.request('GET', '/export');
+    return (body as string).split('\r\n').slice(1, -1);
+  };
+
+  it('should prefix text a spreadsheet would run as a formula', async () => {
+    expect(
+      await exportCsv(['=SUM(A1:A9)', '+1', '-1', '@SUM(A1)', '\tcmd'])
+    ).toEqual(["'=SUM(A1:A9)", "'+1", "'-1", "'@SUM(A1)", "'\tcmd"]);
+  });
+
+  it('should escape formulas that also need quoting', async () => {
+    expect(await exportCsv(['=HYPERLINK("http://x","click")', '\rx'])).toEqual([
+      `"'=HYPERLINK(""http://x"",""click"")"`,
+      `"'\rx"`,
+    ]);
+  });
+
+  it('should leave numbers and ordinary text alone', async () => {
+    expect(
+      await exportCsv([-12.5, 'Fish, chips', 'Say "hi"', 'a=b', true, null])
+    ).toEqual(['-12.5', '"Fish, chips"', '"Say ""hi"""', 'a=b', 'Yes', '']);
+  });
+});
+
+describe('exportStaff', () => {
+  let api: TestServer;
+  let find: jest.SpyInstance;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/users': userRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(owner);
+    find = spyOnModel(UserModel, 'find').mockReturnValue({
+      sort: () => ({ lean: () => ({ cursor: () => [owner.toObject()] }) }),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should filter by role and active status', async () => {
+    const { status, body } = await api.request(
+      'GET',
+      '/users/export?role=owner&isActive=false',
+      { headers: authHeader(owner) }
+    );
+
+    expect(status).toBe(200);
+    expect(find).toHaveBeenCalledWith({ role: 'owner', isActive: false });
+    expect(body).toContain('owner@example.com');
+  });
+
+  it('should reject an unknown role', async () => {
+    const { status } = await api.request('GET', '/users/export?role=admin', {
+      headers: authHeader(owner),
+    });
+
+    expect(status).toBe(400);
+    expect(find).not.toHaveBeenCalled();
+  });
+});
+
+describe('exportOrders', () => {
+  let api: TestServer;
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/orders': orderRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    mockUsers(waiter);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only let staff who view reports export orders', async () => {
+    const find = jest.spyOn(OrderModel, 'find');
+
+    const { status } = await api.request('GET', '/orders/export', {
+      headers: authHeader(waiter),
+    });
+
+    expect(status).toBe(403);
+    expect(find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import { once } from 'events';
+import { Response } from 'express';
+import { ExportFormat } from '@restaurant-monorepo/shared-types';
+import { logger } from '../utils/logger';
+import { createTextPdf, MM_TO_POINTS } from '../utils/textPdf';
+import { ZipStreamWriter } from '../utils/zipStream';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  /** Column width in characters for the PDF summary */
+  width: number;
+  value: (row: T) => ExportValue;
+}
+
+export interface TableExport<T> {
+  format: ExportFormat;
+  filename: string;
+  title: string;
+  columns: ExportColumn<T>[];
+  rows: AsyncIterable<T> | Iterable<T>;
+  /** Lines printed above the table in the PDF summary */
+  summary?: string[];
+}
+
+// The PDF is a printable summary; bigger exports belong in CSV or XLSX
+const PDF_ROW_LIMIT = 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+function formatValue(value: ExportValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/**
+ * Quote a CSV field. Text that a spreadsheet would run as a formula is
+ * prefixed with an apostrophe.
+ */
+function toCsvField(value: ExportValue): string {
+  let text = formatValue(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(
+      /[^\t\n\r\x20-\u{d7ff}\u{e000}-\u{fffd}\u{10000}-\u{10ffff}]/gu,
+      ''
+    )
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function toXlsxRow(values: ExportValue[]): string {
+  const cells = values.map((value) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? `<c><v>${value}</v></c>`
+      : `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+          formatValue(value)
+        )}</t></is></c>`
+  );
+  return `<row>${cells.join('')}</row>`;
+}
+
+const XLSX_PARTS = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>',
+};
+
+const xlsxWorkbook = (sheetName: string) =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  `<sheets><sheet name="${escapeXml(
+    sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31)
+  )}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+async function writeCsv<T>(res: Response, table: TableExport<T>) {
+  const write = async (values: ExportValue[]) => {
+    if (!res.write(`${values.map(toCsvField).join(',')}\r\n`)) {
+      await once(res, 'drain');
+    }
+  };
+
+  // Byte order mark so spreadsheets read the file as UTF-8
+  res.write('\ufeff');
+  await write(table.columns.map((column) => column.header));
+  for await (const row of table.rows) {
+    await write(table.columns.map((column) => column.value(row)));
+  }
+}
+
+async function writeXlsx<T>(res: Response, table: TableExport<T>) {
+  const zip = new ZipStreamWriter(res);
+  for (const [name, content] of Object.entries(XLSX_PARTS)) {
+    await zip.addFile(name, content);
+  }
+  await zip.addFile('xl/workbook.xml', xlsxWorkbook(table.title));
+
+  const sheet = await zip.openFile('xl/worksheets/sheet1.xml');
+  await sheet.write(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+  );
+  await sheet.write(toXlsxRow(table.columns.map((column) => column.header)));
+  for await (const row of table.rows) {
+    await sheet.write(
+      toXlsxRow(table.columns.map((column) => column.value(row)))
+    );
+  }
+  await sheet.write('</sheetData></worksheet>');
+  await sheet.close();
+
+  await zip.finish();
+}
+
+async function writePdf<T>(res: Response, table: TableExport<T>) {
+  const fit = (text: string, width: number) =>
+    text.length > width ? `${text.slice(0, width - 1)}~` : text.padEnd(width);
+  const toLine = (values: string[]) =>
+    values
+      .map((value, index) => fit(value, table.columns[index].width))
+      .join(' ')
+      .trimEnd();
+
+  const header = toLine(table.columns.map((column) => column.header));
+  const lines = [
+    table.title,
+    `Generated ${new Date().toISOString()}`,
+    ...(table.summary ?? []),
+    '',
+    header,
+    '-'.repeat(header.length),
+  ];
+
+  let count = 0;
+  for await (const row of table.rows) {
+    if (count++ >= PDF_ROW_LIMIT) continue;
+    lines.push(
+      toLine(table.columns.map((column) => formatValue(column.value(row))))
+    );
+  }
+  if (count > PDF_ROW_LIMIT) {
+    lines.push(
+      '',
+      `${
+        count - PDF_ROW_LIMIT
+      } more rows not shown; export as CSV or XLSX for the full list`
+    );
+  }
+
+  // A4 landscape
+  res.write(
+    createTextPdf(lines, {
+      pageWidth: 297 * MM_TO_POINTS,
+      pageHeight: 210 * MM_TO_POINTS,
+      fontSize: 7,
+      margin: 28,
+      title: table.title,
+    })
+  );
+}
+
+/**
+ * Stream a table to the response as CSV, XLSX or a PDF summary. CSV and XLSX
+ * rows are written as they are read, so large ranges never sit in memory.
+ */
+export async function sendTableExport<T>(
+  res: Response,
+  table: TableExport<T>
+): Promise<void> {
+  res
+    .status(200)
+    .type(CONTENT_TYPES[table.format])
+    .setHeader(
+      'Content-Disposition',
+      `attachment; filename="${table.filename}.${table.format}"`
+    );
+
+  try {
+    switch (table.format) {
+      case 'xlsx':
+        await writeXlsx(res, table);
+        break;
+      case 'pdf':
+        await writePdf(res, table);
+        break;
+      default:
+        await writeCsv(res, table);
+    }
+  } catch (error) {
+    if (!res.headersSent) {
+      throw error;
+    }
+
+    // Too late for an error response; cut the download short instead
+    logger.error('Export failed mid-stream', {
+      filename: table.filename,
+      format: table.format,
+      error: error instanceof Error ? error.message : error,
+    });
+    res.destroy();
+    return;
+  }
+
+  res.end();
+}
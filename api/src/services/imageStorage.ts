@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { env } from '../config/environment';
+import { ApiError } from '../utils/apiError';
+
+/**
+ * Where uploaded files live. Keys are slash-separated paths chosen by the
+ * caller, e.g. "menu-items/<id>/<uuid>.webp".
+ */
+export interface ImageStorage {
+  readonly name: string;
+  /** Store the file and return the public URL it is served from */
+  save(key: string, data: Buffer, contentType: string): Promise<string>;
+  remove(key: string): Promise<void>;
+  /** The key behind a URL this storage returned, or null for other URLs */
+  keyFromUrl(url: string): string | null;
+}
+
+const joinUrl = (baseUrl: string, key: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${key}`;
+
+const keyUnder = (baseUrl: string, url: string) => {
+  const prefix = joinUrl(baseUrl, '');
+  return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+};
+
+/**
+ * Files on the API server's disk, served by the API itself (see main.ts)
+ */
+export class LocalImageStorage implements ImageStorage {
+  readonly name = 'local';
+
+  constructor(
+    private readonly directory: string,
+    private readonly baseUrl: string
+  ) {}
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw ApiError.badRequest(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return joinUrl(this.baseUrl, key);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  keyFromUrl(url: string): string | null {
+    return keyUnder(this.baseUrl, url);
+  }
+}
+
+/**
+ * Objects in an S3 bucket or any S3-compatible service
+ */
+export class S3ImageStorage implements ImageStorage {
+  readonly name = 's3';
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly publicUrl: string
+  ) {}
+
+  async save(key: string, data: Buffer, contentType: string): Promise<string> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+        // Keys are never reused, so the files can be cached for good
+        CacheControl: 'public, max-age=31536000, immutable',
+      })
+    );
+    return joinUrl(this.publicUrl, key);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  keyFromUrl(url: string): string | null {
+    return keyUnder(this.publicUrl, url);
+  }
+}
+
+function createS3Storage(): S3ImageStorage {
+  if (!env.S3_BUCKET) {
+    throw ApiError.internal('S3_BUCKET is required for the s3 storage driver');
+  }
+
+  const client = new S3Client({
+    region: env.S3_REGION,
+    ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT, forcePathStyle: true }),
+    // Without explicit keys the SDK's default credential chain is used
+    ...(env.S3_ACCESS_KEY_ID && {
+      credentials: {
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      },
+    }),
+  });
+
+  const publicUrl =
+    env.S3_PUBLIC_URL ||
+    (env.S3_ENDPOINT
+      ? joinUrl(env.S3_ENDPOINT, env.S3_BUCKET)
+      : `https://${env.S3_BUCKET}.s3.${env.S3_REGION}.amazonaws.com`);
+
+  return new S3ImageStorage(client, env.S3_BUCKET, publicUrl);
+}
+
+const storageFactories = new Map<string, () => ImageStorage>([
+  ['local', () => new LocalImageStorage(env.UPLOAD_DIR, env.UPLOAD_BASE_URL)],
+  ['s3', createS3Storage],
+]);
+
+let activeStorage: ImageStorage | null = null;
+
+/**
+ * Make a storage backend selectable through the STORAGE_DRIVER setting
+ */
+export function registerImageStorage(
+  name: string,
+  factory: () => ImageStorage
+): void {
+  storageFactories.set(name, factory);
+}
+
+/**
+ * Override the active storage (e.g. with a temporary directory in tests)
+ */
+export function setImageStorage(storage: ImageStorage | null): void {
+  activeStorage = storage;
+}
+
+export function getImageStorage(): ImageStorage {
+  if (!activeStorage) {
+    const factory = storageFactories.get(env.STORAGE_DRIVER);
+    if (!factory) {
+      throw ApiError.internal(`Unknown storage driver "${env.STORAGE_DRIVER}"`);
+    }
+    activeStorage = factory();
+  }
+
+  return activeStorage;
+}
@@ -0,0 +1,217 @@
+import {
+  IngredientModel,
+  MenuItemModel,
+  OrderModel,
+  StockMovementModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  RecipeLineInput,
+  RecordStockMovementRequest,
+  StockMovementType,
+} from '@restaurant-monorepo/shared-types';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+
+type IdLike = mongoose.Types.ObjectId | string;
+
+// Stock is kept to three decimals so fractional portions don't drift
+const STOCK_PRECISION = 3;
+
+const roundQuantity = (value: number) =>
+  Math.round(value * 10 ** STOCK_PRECISION) / 10 ** STOCK_PRECISION;
+
+/**
+ * Change an ingredient's stock in one atomic update and record the movement
+ */
+async function applyStockChange(
+  ingredientId: string,
+  change: { type: StockMovementType; quantity?: number; setTo?: number },
+  details: { orderId?: IdLike; reason?: string; createdBy?: IdLike } = {}
+) {
+  const stock =
+    change.setTo !== undefined
+      ? roundQuantity(change.setTo)
+      : {
+          $round: [{ $add: ['$stock', change.quantity ?? 0] }, STOCK_PRECISION],
+        };
+
+  const previous = await IngredientModel.findByIdAndUpdate(
+    ingredientId,
+    [{ $set: { stock } }],
+    { new: false }
+  );
+  if (!previous) {
+    return null;
+  }
+
+  const stockAfter =
+    change.setTo !== undefined
+      ? roundQuantity(change.setTo)
+      : roundQuantity(previous.stock + (change.quantity ?? 0));
+
+  const movement = await StockMovementModel.create({
+    ingredientId,
+    type: change.type,
+    quantity: roundQuantity(stockAfter - previous.stock),
+    stockAfter,
+    ...details,
+  });
+
+  if (stockAfter <= previous.lowStockThreshold) {
+    logger.warn('Ingredient low on stock', {
+      ingredientId,
+      name: previous.name,
+      stock: stockAfter,
+      lowStockThreshold: previous.lowStockThreshold,
+    });
+  }
+
+  return { ingredient: { ...previous.toJSON(), stock: stockAfter }, movement };
+}
+
+/**
+ * Recompute which menu items are out of stock. An item is out when any
+ * ingredient in its recipe can't cover one more portion.
+ */
+export async function refreshStockAvailability(
+  query: { ingredientIds: string[] } | { menuItemIds: string[] }
+) {
+  const menuItems = await MenuItemModel.find(
+    'ingredientIds' in query
+      ? { 'recipe.ingredientId': { $in: query.ingredientIds } }
+      : { _id: { $in: query.menuItemIds } },
+    'name recipe outOfStock'
+  );
+
+  const ingredientIds = menuItems.flatMap((menuItem) =>
+    menuItem.recipe.map((line) => line.ingredientId)
+  );
+  const ingredients = await IngredientModel.find(
+    { _id: { $in: ingredientIds } },
+    'stock'
+  );
+  const stockById = new Map(
+    ingredients.map((ingredient) => [ingredient.id as string, ingredient.stock])
+  );
+
+  const changed = menuItems.filter(
+    (menuItem) =>
+      menuItem.outOfStock !==
+      menuItem.recipe.some(
+        (line) =>
+          (stockById.get(line.ingredientId.toString()) ?? 0) < line.quantity
+      )
+  );
+  if (changed.length === 0) return;
+
+  await MenuItemModel.bulkWrite(
+    changed.map((menuItem) => ({
+      updateOne: {
+        filter: { _id: menuItem._id },
+        update: { $set: { outOfStock: !menuItem.outOfStock } },
+      },
+    }))
+  );
+
+  logger.info('Menu stock availability changed', {
+    outOfStock: changed
+      .filter((menuItem) => !menuItem.outOfStock)
+      .map((menuItem) => menuItem.name),
+    backInStock: changed
+      .filter((menuItem) => menuItem.outOfStock)
+      .map((menuItem) => menuItem.name),
+  });
+}
+
+/**
+ * Check a recipe's ingredients exist and whether they cover one portion
+ */
+export async function isRecipeOutOfStock(
+  recipe: RecipeLineInput[]
+): Promise<boolean> {
+  const ingredients = await IngredientModel.find(
+    { _id: { $in: recipe.map((line) => line.ingredientId) } },
+    'stock'
+  );
+  const stockById = new Map(
+    ingredients.map((ingredient) => [ingredient.id as string, ingredient.stock])
+  );
+
+  for (const line of recipe) {
+    if (!stockById.has(line.ingredientId)) {
+      throw ApiError.badRequest(`Ingredient ${line.ingredientId} not found`);
+    }
+  }
+
+  return recipe.some(
+    (line) => (stockById.get(line.ingredientId) ?? 0) < line.quantity
+  );
+}
+
+/**
+ * Take the ingredients an order uses out of stock. Runs once, when the order
+ * goes into preparation.
+ */
+export async function consumeOrderStock(orderId: string, userId?: IdLike) {
+  const order = await OrderModel.findById(orderId, 'items');
+  if (!order) return;
+
+  const portions = new Map<string, number>();
+  for (const item of order.items) {
+    const menuItemId = item.menuItemId.toString();
+    portions.set(menuItemId, (portions.get(menuItemId) ?? 0) + item.quantity);
+  }
+
+  const menuItems = await MenuItemModel.find(
+    { _id: { $in: [...portions.keys()] }, 'recipe.0': { $exists: true } },
+    'recipe'
+  );
+
+  const usage = new Map<string, number>();
+  for (const menuItem of menuItems) {
+    const count = portions.get(menuItem.id) ?? 0;
+    for (const line of menuItem.recipe) {
+      const ingredientId = line.ingredientId.toString();
+      usage.set(
+        ingredientId,
+        (usage.get(ingredientId) ?? 0) + line.quantity * count
+      );
+    }
+  }
+  if (usage.size === 0) return;
+
+  for (const [ingredientId, amount] of usage) {
+    await applyStockChange(
+      ingredientId,
+      { type: 'sale', quantity: -amount },
+      { orderId, createdBy: userId }
+    );
+  }
+
+  await refreshStockAvailability({ ingredientIds: [...usage.keys()] });
+}
+
+/**
+ * Record a restock, wastage or stocktake count against an ingredient
+ */
+export async function recordStockMovement(
+  ingredientId: string,
+  { type, quantity, reason }: RecordStockMovementRequest,
+  userId?: IdLike
+) {
+  const result = await applyStockChange(
+    ingredientId,
+    type === 'count'
+      ? { type, setTo: quantity }
+      : { type, quantity: type === 'wastage' ? -quantity : quantity },
+    { reason, createdBy: userId }
+  );
+  if (!result) {
+    throw ApiError.notFound('Ingredient not found');
+  }
+
+  await refreshStockAvailability({ ingredientIds: [ingredientId] });
+
+  return result;
+}
@@ -0,0 +1,244 @@
+import { MenuItemModel, mongoose } from '@restaurant-monorepo/database';
+import {
+  BundleSelection,
+  MenuItemType,
+  OrderItem,
+} from '@restaurant-monorepo/shared-types';
+import { allocateCents, toCents } from '@restaurant-monorepo/pricing';
+import { ApiError } from '../utils/apiError';
+import { resolveModifiers } from './menuModifiers';
+import { isOrderableAt } from './menuSchedules';
+
+type MenuItemDocument = InstanceType<typeof MenuItemModel>;
+
+type PricedLine = Pick<OrderItem, 'quantity' | 'unitPrice' | 'totalPrice'>;
+
+export interface BundleOrderRequest {
+  quantity: number;
+  bundleSelections?: BundleSelection[];
+  specialInstructions?: string;
+  seat?: number;
+}
+
+/**
+ * Spread the bundle price over its component lines in proportion to the
+ * components' own prices. Modifier upcharges stay on the line they belong to.
+ */
+function applyBundlePrice<T extends PricedLine>(
+  lines: T[],
+  bundlePrice: number,
+  componentPrices: number[]
+): T[] {
+  const shares = allocateCents(
+    toCents(bundlePrice),
+    componentPrices.map(toCents)
+  );
+
+  return lines.map((line, index) => {
+    const upchargeCents =
+      toCents(line.unitPrice) - toCents(componentPrices[index]);
+    const unitPrice = (shares[index] + upchargeCents) / 100;
+
+    return { ...line, unitPrice, totalPrice: unitPrice * line.quantity };
+  });
+}
+
+/**
+ * Check a bundle order against the bundle's slots and expand it into one
+ * order line per component, so the kitchen sees each dish on its own
+ */
+export async function expandBundle(
+  bundle: MenuItemDocument,
+  {
+    quantity,
+    bundleSelections = [],
+    specialInstructions,
+    seat,
+  }: BundleOrderRequest
+) {
+  for (const { slotId } of bundleSelections) {
+    if (!bundle.bundleSlots.some((slot) => slot.id === slotId)) {
+      throw ApiError.badRequest(
+        `Slot ${slotId} is not part of "${bundle.name}"`
+      );
+    }
+  }
+
+  // Archived and unpublished items are off the menu, inside bundles too
+  const components = await MenuItemModel.find({
+    _id: { $in: bundleSelections.map((selection) => selection.menuItemId) },
+    archivedAt: null,
+    published: { $ne: false },
+  });
+  const componentsById = new Map(
+    components.map((component) => [component.id as string, component])
+  );
+
+  const instanceId = new mongoose.Types.ObjectId().toString();
+  const componentPrices: number[] = [];
+
+  const lines = bundle.bundleSlots.map((slot) => {
+    const chosen = bundleSelections.filter(
+      (selection) => selection.slotId === slot.id
+    );
+    if (chosen.length !== 1) {
+      throw ApiError.badRequest(
+        `Choose one item for "${slot.name}" in "${bundle.name}"`
+      );
+    }
+
+    const [{ menuItemId, modifiers: selections }] = chosen;
+    if (!slot.menuItemIds.some((id) => id.toString() === menuItemId)) {
+      throw ApiError.badRequest(
+        `Menu item ${menuItemId} is not offered for "${slot.name}" in "${bundle.name}"`
+      );
+    }
+
+    const component = componentsById.get(menuItemId);
+    if (!component) {
+      throw ApiError.notFound(`Menu item ${menuItemId} not found`);
+    }
+
+    if (!component.available) {
+      throw ApiError.badRequest(
+        `"${component.name}" in "${bundle.name}" is currently unavailable`
+      );
+    }
+
+    if (component.outOfStock) {
+      throw ApiError.badRequest(
+        `"${component.name}" in "${bundle.name}" is out of stock`
+      );
+    }
+
+    if (!isOrderableAt(component)) {
+      throw ApiError.badRequest(
+        `"${component.name}" in "${bundle.name}" is not served at this time`
+      );
+    }
+
+    const { modifiers, unitPrice } = resolveModifiers(component, selections);
+    componentPrices.push(component.price);
+
+    return {
+      menuItemId: component._id,
+      menuItemName: component.name,
+      category: component.category,
+      quantity,
+      unitPrice,
+      totalPrice: unitPrice * quantity,
+      modifiers: modifiers.length > 0 ? modifiers : undefined,
+      bundle: {
+        instanceId,
+        menuItemId: bundle._id,
+        name: bundle.name,
+        price: bundle.price,
+        slotId: slot.id as string,
+        slotName: slot.name,
+      },
+      specialInstructions,
+      seat,
+      allergens:
+        component.allergens.length > 0 ? [...component.allergens] : undefined,
+    };
+  });
+
+  return applyBundlePrice(lines, bundle.price, componentPrices);
+}
+
+/**
+ * Reprice bundle component lines against the bundle's current price. Lines
+ * should already carry current component and modifier prices.
+ */
+export function repriceBundles<T extends OrderItem>(
+  lines: T[],
+  menuItemsById: Map<string, MenuItemDocument>
+): T[] {
+  const instances = new Map<string, number[]>();
+  lines.forEach((line, index) => {
+    if (!line.bundle) return;
+    const indexes = instances.get(line.bundle.instanceId) ?? [];
+    instances.set(line.bundle.instanceId, [...indexes, index]);
+  });
+
+  const repriced = [...lines];
+
+  for (const indexes of instances.values()) {
+    const { menuItemId } = lines[indexes[0]].bundle as NonNullable<
+      OrderItem['bundle']
+    >;
+    const bundle = menuItemsById.get(menuItemId.toString());
+    if (!bundle) {
+      throw ApiError.notFound(`Menu item ${menuItemId} not found`);
+    }
+
+    const componentLines = indexes.map((index) => lines[index]);
+    const priced = applyBundlePrice(
+      componentLines,
+      bundle.price,
+      componentLines.map(
+        (line) => menuItemsById.get(line.menuItemId.toString())?.price ?? 0
+      )
+    );
+
+    indexes.forEach((lineIndex, position) => {
+      const line = priced[position];
+      repriced[lineIndex] = {
+        ...line,
+        bundle: { ...line.bundle, name: bundle.name, price: bundle.price },
+      };
+    });
+  }
+
+  return repriced;
+}
+
+/**
+ * Check a menu item's bundle setup before it is saved. Bundle slots may only
+ * offer existing single items, and an item used in a bundle can't become one.
+ */
+export async function checkBundleDefinition(
+  {
+    type,
+    bundleSlots,
+  }: { type: MenuItemType; bundleSlots: { menuItemIds: unknown[] }[] },
+  menuItemId?: string
+) {
+  if (type !== 'bundle') return;
+
+  if (bundleSlots.length === 0) {
+    throw ApiError.badRequest('A bundle needs at least one slot');
+  }
+
+  const componentIds = [
+    ...new Set(
+      bundleSlots.flatMap((slot) => slot.menuItemIds.map((id) => String(id)))
+    ),
+  ];
+  if (menuItemId && componentIds.includes(menuItemId)) {
+    throw ApiError.badRequest('A bundle cannot include itself');
+  }
+
+  const components = await MenuItemModel.find(
+    { _id: { $in: componentIds }, archivedAt: null },
+    'type'
+  );
+  if (components.length !== componentIds.length) {
+    throw ApiError.badRequest(
+      'Bundle slots can only offer existing menu items'
+    );
+  }
+
+  if (components.some((component) => component.type === 'bundle')) {
+    throw ApiError.badRequest('Bundles cannot include other bundles');
+  }
+
+  if (
+    menuItemId &&
+    (await MenuItemModel.exists({ 'bundleSlots.menuItemIds': menuItemId }))
+  ) {
+    throw ApiError.conflict(
+      'This item is part of a bundle and cannot become a bundle itself'
+    );
+  }
+}
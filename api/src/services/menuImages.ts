@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+import { getImageStorage } from './imageStorage';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const IMAGE_FORMATS = ['jpeg', 'png', 'webp'];
+
+// Longest edge of the stored photo, and the square thumbnail for lists
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+
+/**
+ * Check an upload really is a supported image, then render the full-size
+ * photo and its thumbnail as WebP
+ */
+async function renderMenuImages(data: Buffer) {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(data).metadata());
+  } catch {
+    throw ApiError.badRequest('File is not a readable image');
+  }
+
+  if (!format || !IMAGE_FORMATS.includes(format)) {
+    throw ApiError.badRequest('Image must be a JPEG, PNG or WebP file');
+  }
+
+  // Apply the camera's orientation; metadata such as GPS is dropped
+  const source = sharp(data).rotate();
+
+  const [image, thumbnail] = await Promise.all([
+    source
+      .clone()
+      .resize(FULL_SIZE, FULL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer(),
+    source
+      .clone()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+      .webp({ quality: 75 })
+      .toBuffer(),
+  ]);
+
+  return { image, thumbnail };
+}
+
+/**
+ * Store a menu item photo and its thumbnail, returning their URLs
+ */
+export async function storeMenuImage(
+  menuItemId: string,
+  data: Buffer
+): Promise<{ imageUrl: string; thumbnailUrl: string }> {
+  const { image, thumbnail } = await renderMenuImages(data);
+  const storage = getImageStorage();
+  const key = `menu-items/${menuItemId}/${randomUUID()}`;
+
+  const [imageUrl, thumbnailUrl] = await Promise.all([
+    storage.save(`${key}.webp`, image, 'image/webp'),
+    storage.save(`${key}-thumb.webp`, thumbnail, 'image/webp'),
+  ]);
+
+  return { imageUrl, thumbnailUrl };
+}
+
+/**
+ * Delete stored images that are no longer referenced. External URLs are
+ * ignored, and failures are only logged since the menu item has moved on.
+ */
+export async function removeMenuImages(
+  urls: (string | undefined)[]
+): Promise<void> {
+  const storage = getImageStorage();
+
+  for (const url of urls) {
+    const key = url && storage.keyFromUrl(url);
+    if (!key) continue;
+
+    try {
+      await storage.remove(key);
+    } catch (error) {
+      logger.warn('Failed to remove stored image', {
+        key,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
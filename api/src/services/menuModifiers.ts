@@ -0,0 +1,117 @@
+import { MenuItemModel } from '@restaurant-monorepo/database';
+import {
+  ModifierSelection,
+  OrderItemModifier,
+} from '@restaurant-monorepo/shared-types';
+import { roundCurrency, toCents } from '@restaurant-monorepo/pricing';
+import { ApiError } from '../utils/apiError';
+
+type MenuItemDocument = InstanceType<typeof MenuItemModel>;
+
+export interface ResolvedModifiers {
+  modifiers: OrderItemModifier[];
+  unitPrice: number;
+}
+
+/**
+ * Check modifier choices against the menu item's groups and work out the
+ * line's unit price. Each group must get between its minimum and maximum
+ * choices; optional groups may also be left out entirely.
+ */
+export function resolveModifiers(
+  menuItem: MenuItemDocument,
+  selections: ModifierSelection[] = []
+): ResolvedModifiers {
+  const groups = menuItem.modifierGroups ?? [];
+  const modifiers: OrderItemModifier[] = [];
+
+  for (const { groupId, optionId } of selections) {
+    const group = groups.find((candidate) => candidate.id === groupId);
+    if (!group) {
+      throw ApiError.badRequest(
+        `Modifier group ${groupId} is not offered on "${menuItem.name}"`
+      );
+    }
+
+    const option = group.options.find((candidate) => candidate.id === optionId);
+    if (!option) {
+      throw ApiError.badRequest(
+        `Option ${optionId} is not part of "${group.name}" on "${menuItem.name}"`
+      );
+    }
+
+    if (!option.available) {
+      throw ApiError.badRequest(
+        `"${option.name}" is currently unavailable for "${menuItem.name}"`
+      );
+    }
+
+    if (modifiers.some((modifier) => modifier.optionId === optionId)) {
+      throw ApiError.badRequest(
+        `"${option.name}" was chosen more than once for "${menuItem.name}"`
+      );
+    }
+
+    modifiers.push({
+      groupId,
+      groupName: group.name,
+      optionId,
+      optionName: option.name,
+      priceDelta: option.priceDelta,
+    });
+  }
+
+  for (const group of groups) {
+    const count = modifiers.filter(
+      (modifier) => modifier.groupId === group.id
+    ).length;
+
+    if (count === 0 && !group.required) continue;
+
+    const min = Math.max(group.minSelections, group.required ? 1 : 0);
+    if (count < min || count > group.maxSelections) {
+      throw ApiError.badRequest(
+        min === group.maxSelections
+          ? `Choose ${min} for "${group.name}" on "${menuItem.name}"`
+          : `Choose ${min} to ${group.maxSelections} for "${group.name}" on "${menuItem.name}"`
+      );
+    }
+  }
+
+  const unitPriceCents = modifiers.reduce(
+    (sum, modifier) => sum + toCents(modifier.priceDelta),
+    toCents(menuItem.price)
+  );
+
+  return { modifiers, unitPrice: roundCurrency(unitPriceCents / 100) };
+}
+
+/**
+ * Reprice modifiers already on an order line against the current menu.
+ * Options that have since been removed keep the price they were ordered at.
+ */
+export function repriceModifiers(
+  menuItem: MenuItemDocument,
+  modifiers: OrderItemModifier[] = []
+): ResolvedModifiers {
+  const options = new Map(
+    (menuItem.modifierGroups ?? []).flatMap((group) =>
+      group.options.map((option) => [option.id, option] as const)
+    )
+  );
+
+  const repriced = modifiers.map((modifier) => {
+    const option = options.get(String(modifier.optionId));
+    return option ? { ...modifier, priceDelta: option.priceDelta } : modifier;
+  });
+
+  const unitPriceCents = repriced.reduce(
+    (sum, modifier) => sum + toCents(modifier.priceDelta),
+    toCents(menuItem.price)
+  );
+
+  return {
+    modifiers: repriced,
+    unitPrice: roundCurrency(unitPriceCents / 100),
+  };
+}
@@ -0,0 +1,103 @@
+import {
+  DAYPARTS,
+  Daypart,
+  DaypartConfig,
+  MenuItem,
+  MenuSchedule,
+} from '@restaurant-monorepo/shared-types';
+import { daypartConfig } from '../config/menu';
+
+export interface RestaurantTime {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 0 = Sunday
+  time: string; // HH:mm
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * The calendar date, weekday and clock time at an instant in a timezone
+ */
+export function getRestaurantTime(
+  at: Date,
+  timezone = daypartConfig.timezone
+): RestaurantTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((candidate) => candidate.type === type)?.value ?? '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+/**
+ * Dayparts whose window contains the given clock time
+ */
+export function getActiveDayparts(
+  time: string,
+  config: DaypartConfig = daypartConfig
+): Daypart[] {
+  return DAYPARTS.filter((daypart) => {
+    const { start, end } = config.dayparts[daypart];
+    return start <= end
+      ? time >= start && time < end
+      : time >= start || time < end;
+  });
+}
+
+/**
+ * Whether a schedule allows ordering at the given restaurant time. Each rule
+ * that is set must match.
+ */
+export function isWithinSchedule(
+  schedule: MenuSchedule | undefined,
+  now: RestaurantTime,
+  config: DaypartConfig = daypartConfig
+): boolean {
+  if (!schedule) return true;
+
+  const { dayparts, daysOfWeek, startDate, endDate } = schedule;
+
+  if (startDate && now.date < startDate) return false;
+  if (endDate && now.date > endDate) return false;
+  if (daysOfWeek?.length && !daysOfWeek.includes(now.dayOfWeek)) return false;
+
+  if (dayparts?.length) {
+    const active = getActiveDayparts(now.time, config);
+    if (!dayparts.some((daypart) => active.includes(daypart))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether a menu item can be ordered at an instant: it must be published and
+ * not archived, switched on, in stock and inside its schedule
+ */
+export function isOrderableAt(
+  menuItem: Pick<
+    MenuItem,
+    'published' | 'archivedAt' | 'available' | 'outOfStock' | 'schedule'
+  >,
+  at: Date = new Date()
+): boolean {
+  return (
+    menuItem.published !== false &&
+    !menuItem.archivedAt &&
+    menuItem.available &&
+    !menuItem.outOfStock &&
+    isWithinSchedule(menuItem.schedule, getRestaurantTime(at))
+  );
+}
@@ -0,0 +1,238 @@
+import { MenuItemModel } from '@restaurant-monorepo/database';
+import { Allergen, MenuCategory } from '@restaurant-monorepo/shared-types';
+import { mockQuery, spyOnModel } from '../testing/mocks';
+import { searchMenuItems } from './menuSearch';
+
+const menuItem = (
+  name: string,
+  fields: {
+    description?: string;
+    category?: MenuCategory;
+    allergens?: Allergen[];
+  } = {}
+) =>
+  new MenuItemModel({
+    name,
+    description: fields.description ?? 'House favourite',
+    category: fields.category ?? 'main_course',
+    allergens: fields.allergens ?? [],
+    price: 10,
+    prepTime: 10,
+  });
+
+describe('menu search', () => {
+  let textHits: { _id: unknown; score: number }[];
+
+  beforeEach(() => {
+    textHits = [];
+    spyOnModel(MenuItemModel, 'find').mockImplementation(() =>
+      mockQuery(textHits)
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const namesFound = async (
+    items: InstanceType<typeof MenuItemModel>[],
+    query: string
+  ) => {
+    const { menuItems } = await searchMenuItems(items, query);
+    return menuItems.map((item) => item.name);
+  };
+
+  describe('typo tolerance', () => {
+    it('should need short terms typed exactly', async () => {
+      const items = [menuItem('Tea'), menuItem('Pie')];
+
+      expect(await namesFound(items, 'tea')).toEqual(['Tea']);
+      expect(await namesFound(items, 'tee')).toEqual([]);
+      expect(await namesFound(items, 'pei')).toEqual([]);
+    });
+
+    it('should allow one typo in terms of four to seven letters', async () => {
+      const items = [
+        menuItem('Pizza'),
+        menuItem('Lasagne'),
+        menuItem('Caesar'),
+      ];
+
+      expect(await namesFound(items, 'piza')).toEqual(['Pizza']);
+      expect(await namesFound(items, 'lasagna')).toEqual(['Lasagne']);
+      expect(await namesFound(items, 'lasogno')).toEqual([]);
+    });
+
+    it('should count swapped neighbouring letters as one typo', async () => {
+      const items = [menuItem('Caesar Salad')];
+
+      expect(await namesFound(items, 'ceasar')).toEqual(['Caesar Salad']);
+    });
+
+    it('should allow two typos in terms of eight letters or more', async () => {
+      const items = [menuItem('Margherita')];
+
+      expect(await namesFound(items, 'margarita')).toEqual(['Margherita']);
+      expect(await namesFound(items, 'margeritta')).toEqual(['Margherita']);
+      expect(await namesFound(items, 'mxrgxritx')).toEqual([]);
+    });
+
+    it('should match a partly typed word with a typo in it', async () => {
+      const items = [menuItem('Margherita')];
+
+      const { matches } = await searchMenuItems(items, 'margj');
+
+      expect(matches[items[0].id].highlights).toEqual([
+        { field: 'name', text: 'Margherita', ranges: [[0, 5]] },
+      ]);
+    });
+  });
+
+  describe('accent folding', () => {
+    it('should find accented words from unaccented terms', async () => {
+      const items = [menuItem('Jalapeño Poppers'), menuItem('Crème Brûlée')];
+
+      expect(await namesFound(items, 'jalapeno')).toEqual(['Jalapeño Poppers']);
+      expect(await namesFound(items, 'creme brulee')).toEqual(['Crème Brûlée']);
+    });
+
+    it('should ignore case and accents in the query too', async () => {
+      const items = [menuItem('Creme Brulee')];
+
+      expect(await namesFound(items, 'CRÈME BRÛLÉE')).toEqual(['Creme Brulee']);
+    });
+
+    it('should highlight the accented text as written', async () => {
+      const items = [menuItem('Crème Brûlée')];
+
+      const { matches } = await searchMenuItems(items, 'brulee');
+
+      expect(matches[items[0].id].highlights).toEqual([
+        { field: 'name', text: 'Crème Brûlée', ranges: [[6, 12]] },
+      ]);
+    });
+  });
+
+  describe('ranking', () => {
+    it('should rank exact, then prefix, then fuzzy name matches', async () => {
+      const items = [
+        menuItem('Chocolat Tart'),
+        menuItem('Chocolates'),
+        menuItem('Chocolate Cake'),
+      ];
+
+      expect(await namesFound(items, 'chocolate')).toEqual([
+        'Chocolate Cake',
+        'Chocolates',
+        'Chocolat Tart',
+      ]);
+    });
+
+    it('should rank name matches above category, allergen and description matches', async () => {
+      const items = [
+        menuItem('Sundae', { description: 'Vanilla ice cream with milk' }),
+        menuItem('Latte', { allergens: ['milk'] }),
+        menuItem('Milkshake', { category: 'beverage' }),
+        menuItem('Milk', { category: 'beverage' }),
+      ];
+
+      expect(await namesFound(items, 'milk')).toEqual([
+        'Milk',
+        'Milkshake',
+        'Latte',
+        'Sundae',
+      ]);
+    });
+
+    it('should order equal scores by name', async () => {
+      const items = [menuItem('Soup B'), menuItem('Soup A')];
+
+      expect(await namesFound(items, 'soup')).toEqual(['Soup A', 'Soup B']);
+    });
+
+    it('should only return items that match every term', async () => {
+      const items = [menuItem('Chocolate Cake'), menuItem('Cheese Cake')];
+
+      expect(await namesFound(items, 'chocolate cake')).toEqual([
+        'Chocolate Cake',
+      ]);
+      expect(await namesFound(items, 'chocolate pizza')).toEqual([]);
+    });
+
+    it('should add the text index score and keep its matches', async () => {
+      const fried = menuItem('Fried Chicken');
+      const frites = menuItem('Frites', { category: 'appetizer' });
+      textHits = [{ _id: frites._id, score: 20 }];
+
+      const { menuItems, matches } = await searchMenuItems(
+        [fried, frites],
+        'fried'
+      );
+
+      expect(menuItems.map((item) => item.name)).toEqual([
+        'Frites',
+        'Fried Chicken',
+      ]);
+      expect(matches[frites.id]).toEqual({ score: 20, highlights: [] });
+      expect(matches[fried.id].score).toBe(10);
+    });
+
+    it('should still search when the text index is unavailable', async () => {
+      jest.spyOn(MenuItemModel, 'find').mockImplementation(() => {
+        throw new Error('text index required for $text query');
+      });
+
+      expect(await namesFound([menuItem('Pizza')], 'pizza')).toEqual(['Pizza']);
+    });
+  });
+
+  describe('highlights', () => {
+    it('should merge overlapping ranges from several terms', async () => {
+      const items = [menuItem('Margherita')];
+
+      const { matches } = await searchMenuItems(items, 'marg margherita');
+
+      expect(matches[items[0].id].highlights).toEqual([
+        { field: 'name', text: 'Margherita', ranges: [[0, 10]] },
+      ]);
+    });
+
+    it('should keep separate ranges in text order', async () => {
+      const items = [menuItem('Pizza with Cheese')];
+
+      const { matches } = await searchMenuItems(items, 'cheese pizza');
+
+      expect(matches[items[0].id].highlights).toEqual([
+        {
+          field: 'name',
+          text: 'Pizza with Cheese',
+          ranges: [
+            [0, 5],
+            [11, 17],
+          ],
+        },
+      ]);
+    });
+
+    it('should highlight every field a term matched', async () => {
+      const items = [
+        menuItem('Fish Tacos', {
+          description: 'Battered fish, lime slaw',
+          allergens: ['fish'],
+        }),
+      ];
+
+      const { matches } = await searchMenuItems(items, 'fish');
+
+      expect(matches[items[0].id].highlights).toEqual([
+        { field: 'name', text: 'Fish Tacos', ranges: [[0, 4]] },
+        {
+          field: 'description',
+          text: 'Battered fish, lime slaw',
+          ranges: [[9, 13]],
+        },
+        { field: 'allergens', text: 'fish', ranges: [[0, 4]] },
+      ]);
+    });
+  });
+});
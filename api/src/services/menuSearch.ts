@@ -0,0 +1,250 @@
+import { MenuItemModel } from '@restaurant-monorepo/database';
+import {
+  MenuItem,
+  MenuSearchField,
+  MenuSearchHighlight,
+  MenuSearchMatch,
+} from '@restaurant-monorepo/shared-types';
+import { logger } from '../utils/logger';
+
+type MenuItemDocument = InstanceType<typeof MenuItemModel>;
+
+type SearchableItem = Pick<
+  MenuItem,
+  'name' | 'description' | 'category' | 'allergens'
+>;
+
+// Same weights as the text index, so both passes rank fields alike
+const FIELD_WEIGHTS: Record<MenuSearchField, number> = {
+  name: 10,
+  category: 3,
+  allergens: 2,
+  description: 1,
+};
+
+// How well a term matched a word, before the field weight
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.5;
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+interface Word {
+  text: string; // folded, for comparing
+  start: number;
+  end: number;
+}
+
+interface WordMatch {
+  quality: number;
+  length: number; // characters to highlight from the start of the word
+}
+
+// Lower case without accents, so "jalapeno" finds "Jalapeño"
+const fold = (value: string) =>
+  value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const toWords = (value: string): Word[] =>
+  [...value.matchAll(WORD_PATTERN)].map((match) => ({
+    text: fold(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+// Short terms must be typed exactly; longer ones tolerate a typo or two
+const allowedTypos = (term: string) =>
+  term.length < 4 ? 0 : term.length < 8 ? 1 : 2;
+
+/**
+ * Edits (insert, delete, substitute or swap neighbours) needed to turn one
+ * word into the other, or max + 1 once it's clearly over the limit
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        row[j] + 1,
+        nextRow[j - 1] + 1,
+        row[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+      nextRow.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Match a search term against one word. A term that is the start of the
+ * word counts, so "marg" finds "Margherita" while it's still being typed.
+ */
+function matchWord(term: string, word: string): WordMatch | undefined {
+  if (word === term) return { quality: EXACT_MATCH, length: word.length };
+  if (word.startsWith(term)) {
+    return { quality: PREFIX_MATCH, length: term.length };
+  }
+
+  const typos = allowedTypos(term);
+  if (typos === 0) return undefined;
+
+  if (editDistance(term, word, typos) <= typos) {
+    return { quality: FUZZY_MATCH, length: word.length };
+  }
+  if (
+    word.length > term.length &&
+    editDistance(term, word.slice(0, term.length), typos) <= typos
+  ) {
+    return { quality: FUZZY_MATCH, length: term.length };
+  }
+  return undefined;
+}
+
+const mergeRanges = (ranges: [number, number][]) =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+
+/**
+ * Score a menu item against a query. Every term has to match a word in the
+ * name, description, category or allergens; the best match per term counts.
+ */
+function matchMenuItem(
+  item: SearchableItem,
+  query: string
+): MenuSearchMatch | undefined {
+  const terms = [...new Set(toWords(query).map((word) => word.text))];
+  if (terms.length === 0) return undefined;
+
+  const fields = (
+    [
+      ['name', item.name],
+      ['description', item.description],
+      ['category', item.category],
+      ...item.allergens.map((allergen) => ['allergens', allergen]),
+    ] as [MenuSearchField, string][]
+  ).map(([field, text]) => ({
+    field,
+    text,
+    words: toWords(text),
+    ranges: [] as [number, number][],
+  }));
+
+  let score = 0;
+  for (const term of terms) {
+    let best = 0;
+
+    for (const field of fields) {
+      for (const word of field.words) {
+        const match = matchWord(term, word.text);
+        if (!match) continue;
+
+        field.ranges.push([
+          word.start,
+          Math.min(word.start + match.length, word.end),
+        ]);
+        best = Math.max(best, FIELD_WEIGHTS[field.field] * match.quality);
+      }
+    }
+
+    if (best === 0) return undefined;
+    score += best;
+  }
+
+  const highlights: MenuSearchHighlight[] = fields
+    .filter((field) => field.ranges.length > 0)
+    .map(({ field, text, ranges }) => ({
+      field,
+      text,
+      ranges: mergeRanges(ranges),
+    }));
+
+  return { score, highlights };
+}
+
+/**
+ * Mongo's relevance for items the text index matches. Its stemming finds
+ * word forms the typo check misses, like "fries" for "fried".
+ */
+async function getTextScores(
+  items: MenuItemDocument[],
+  query: string
+): Promise<Map<string, number>> {
+  try {
+    const hits = await MenuItemModel.find(
+      {
+        _id: { $in: items.map((item) => item._id) },
+        $text: { $search: query },
+      },
+      { score: { $meta: 'textScore' } }
+    ).lean<{ _id: unknown; score: number }[]>();
+
+    return new Map(hits.map((hit) => [String(hit._id), hit.score]));
+  } catch (error) {
+    // Still building, or autoIndex is off; the fuzzy pass works without it
+    logger.warn('Menu text index unavailable, searching without it', {
+      error: error instanceof Error ? error.message : error,
+    });
+    return new Map();
+  }
+}
+
+/**
+ * Filter menu items down to those matching a search box query, best first,
+ * with the score and highlighted matches for each
+ */
+export async function searchMenuItems(
+  items: MenuItemDocument[],
+  query: string
+): Promise<{
+  menuItems: MenuItemDocument[];
+  matches: Record<string, MenuSearchMatch>;
+}> {
+  const textScores = await getTextScores(items, query);
+  const matches: Record<string, MenuSearchMatch> = {};
+
+  for (const item of items) {
+    const match = matchMenuItem(item, query);
+    const textScore = textScores.get(item.id);
+    if (!match && textScore === undefined) continue;
+
+    matches[item.id] = {
+      score: (match?.score ?? 0) + (textScore ?? 0),
+      highlights: match?.highlights ?? [],
+    };
+  }
+
+  const menuItems = items
+    .filter((item) => matches[item.id])
+    .sort(
+      (a, b) =>
+        matches[b.id].score - matches[a.id].score ||
+        a.name.localeCompare(b.name)
+    );
+
+  return { menuItems, matches };
+}
@@ -0,0 +1,284 @@
+import {
+  IngredientModel,
+  MenuItemModel,
+  MenuItemRevisionModel,
+} from '@restaurant-monorepo/database';
+import { MenuImportRow } from '@restaurant-monorepo/shared-types';
+import menuRoutes from '../routes/menu';
+import {
+  authHeader,
+  buildUser,
+  mockDocuments,
+  mockQuery,
+  mockUsers,
+  StoredDocument,
+} from '../testing/mocks';
+import { startTestServer, TestServer } from '../testing/server';
+
+const owner = buildUser('owner');
+
+const HEADER = 'name,description,price,category,prepTime,allergens';
+
+const menuItem = (name: string, fields: Record<string, unknown> = {}) =>
+  new MenuItemModel({
+    name,
+    description: `${name}, made fresh`,
+    price: 10,
+    category: 'main_course',
+    prepTime: 10,
+    ...fields,
+  }).toObject<StoredDocument>();
+
+describe('menu import and export', () => {
+  let api: TestServer;
+  let items: Map<string, StoredDocument>;
+  let saved: InstanceType<typeof MenuItemModel>[];
+
+  beforeAll(async () => {
+    api = await startTestServer({ '/menu': menuRoutes });
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    saved = [];
+    mockUsers(owner);
+    jest.spyOn(MenuItemModel, 'exists').mockReturnValue(mockQuery(null));
+    jest
+      .spyOn(MenuItemRevisionModel, 'exists')
+      .mockReturnValue(mockQuery(null));
+    jest.spyOn(IngredientModel, 'find').mockReturnValue(mockQuery([]));
+    jest
+      .spyOn(MenuItemModel.prototype, 'save')
+      .mockImplementation(function (this: InstanceType<typeof MenuItemModel>) {
+        saved.push(this);
+        return Promise.resolve(this);
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stored = (item: StoredDocument) => items.get(item._id.toString());
+
+  const importMenu = async (
+    content: string,
+    { format = 'csv', dryRun = false } = {}
+  ) => {
+    const { status, body } = await api.request('POST', '/menu/import', {
+      body: { format, content, dryRun },
+      headers: authHeader(owner),
+    });
+    return { status, body, result: body.data?.result };
+  };
+
+  describe('round trip', () => {
+    beforeEach(() => {
+      items = mockDocuments(MenuItemModel, [
+        menuItem('Soup, of the day', {
+          description: 'Ask your "server"\nfor today\'s soup',
+          price: 6.5,
+          category: 'appetizer',
+          allergens: ['milk', 'wheat'],
+          dietaryTags: ['vegetarian'],
+          modifierGroups: [
+            {
+              name: 'Size',
+              required: true,
+              minSelections: 1,
+              maxSelections: 1,
+              options: [
+                { name: 'Small "cup"', priceDelta: 0 },
+                { name: 'Large, bowl', priceDelta: 2 },
+              ],
+            },
+          ],
+        }),
+        menuItem('-Spicy- Wings', {
+          description: '=Chef +special @ the bar',
+          schedule: { dayparts: ['dinner'], daysOfWeek: [5, 6] },
+        }),
+        menuItem('Green Salad', { allergens: [] }),
+      ]);
+    });
+
+    it.each(['csv', 'json'])(
+      'should import an exported %s menu as unchanged',
+      async (format) => {
+        const exported = await api.request(
+          'GET',
+          `/menu/export?format=${format}`,
+          { headers: authHeader(owner) }
+        );
+        expect(exported.status).toBe(200);
+        const content =
+          format === 'json' ? JSON.stringify(exported.body) : exported.body;
+
+        const { status, result } = await importMenu(content, { format });
+
+        expect(status).toBe(200);
+        expect(result).toMatchObject({
+          created: 0,
+          updated: 0,
+          unchanged: 3,
+          failed: 0,
+        });
+        expect(
+          result.rows.map((row: MenuImportRow) => [
+            row.name,
+            row.action,
+            row.errors,
+          ])
+        ).toEqual(
+          expect.arrayContaining([
+            ['Soup, of the day', 'unchanged', []],
+            ['-Spicy- Wings', 'unchanged', []],
+            ['Green Salad', 'unchanged', []],
+          ])
+        );
+        expect(saved).toEqual([]);
+      }
+    );
+  });
+
+  describe('reading CSV cells', () => {
+    beforeEach(() => {
+      items = mockDocuments(MenuItemModel, []);
+    });
+
+    it('should undo the apostrophe exports put before formula-like text', async () => {
+      const { result } = await importMenu(
+        [
+          HEADER,
+          `'=Fries,'+Salted @ the pass,4,appetizer,5,`,
+          `'Nduja Pizza,'Spicy' salami,12,main_course,15,"milk, wheat"`,
+        ].join('\r\n')
+      );
+
+      expect(result).toMatchObject({ created: 2, failed: 0 });
+      expect(saved.map(({ name, description }) => [name, description])).toEqual(
+        [
+          ['=Fries', '+Salted @ the pass'],
+          ["'Nduja Pizza", "'Spicy' salami"],
+        ]
+      );
+      expect(saved[0].allergens).toEqual([]);
+      expect([...saved[1].allergens]).toEqual(['milk', 'wheat']);
+    });
+
+    it('should read a file saved with a byte order mark', async () => {
+      const { result } = await importMenu(
+        `\ufeff${HEADER}\nSoup,Hot,6,appetizer,5,`
+      );
+
+      expect(result).toMatchObject({ created: 1, failed: 0 });
+    });
+
+    it('should reject a file with an unterminated quote', async () => {
+      const { status, body } = await importMenu(
+        `${HEADER}\nSoup,"Hot and fresh,6,appetizer,5,`
+      );
+
+      expect(status).toBe(400);
+      expect(body.error.message).toBe('CSV has an unterminated quoted field');
+    });
+
+    it('should reject unknown columns', async () => {
+      const { status, body } = await importMenu('name,colour\nSoup,red');
+
+      expect(status).toBe(400);
+      expect(body.error.message).toMatch(/^Unknown column "colour"/);
+    });
+
+    it('should report bad cells against their row', async () => {
+      const { result } = await importMenu(
+        [
+          'name,description,price,category,prepTime,recipe',
+          'Soup,Hot,6,appetizer,5,[not json',
+          'Salad,Crisp,free,appetizer,5,',
+        ].join('\n')
+      );
+
+      expect(result.failed).toBe(2);
+      expect(result.rows[0]).toMatchObject({
+        row: 1,
+        errors: ['recipe: not valid JSON'],
+      });
+      expect(result.rows[1]).toMatchObject({ row: 2, name: 'Salad' });
+      expect(result.rows[1].errors[0]).toMatch(/^price: /);
+      expect(saved).toEqual([]);
+    });
+  });
+
+  describe('matching existing items', () => {
+    it('should refuse two rows with the same name', async () => {
+      items = mockDocuments(MenuItemModel, []);
+
+      const { result } = await importMenu(
+        [HEADER, 'Soup,Hot,6,appetizer,5,', ' Soup ,Cold,7,appetizer,5,'].join(
+          '\n'
+        )
+      );
+
+      expect(result).toMatchObject({ created: 1, failed: 1 });
+      expect(result.rows[1].errors).toEqual(['Another row has the same name']);
+      expect(saved.map(({ description }) => description)).toEqual(['Hot']);
+    });
+
+    it('should not update an archived item', async () => {
+      const soup = menuItem('Soup', { archivedAt: new Date() });
+      items = mockDocuments(MenuItemModel, [soup]);
+
+      const { result } = await importMenu(`${HEADER}\nSoup,Hot,6,appetizer,5,`);
+
+      expect(result.rows[0].errors).toEqual([
+        'This item is archived. Restore it first.',
+      ]);
+      expect(stored(soup)).not.toHaveProperty('draft');
+    });
+
+    it('should save changes to existing items as drafts', async () => {
+      const soup = menuItem('Soup', { price: 6, category: 'appetizer' });
+      items = mockDocuments(MenuItemModel, [soup]);
+
+      const { result } = await importMenu(
+        `${HEADER}\nSoup,"Soup, made fresh",7.5,appetizer,10,`
+      );
+
+      expect(result).toMatchObject({ updated: 1, failed: 0 });
+      expect(result.rows[0].changes).toEqual([
+        { field: 'price', from: 6, to: 7.5 },
+      ]);
+      expect(stored(soup)).toMatchObject({
+        price: 6,
+        draft: { changes: { price: 7.5 } },
+      });
+    });
+
+    it('should only report what would change on a dry run', async () => {
+      const soup = menuItem('Soup', { price: 6, category: 'appetizer' });
+      items = mockDocuments(MenuItemModel, [soup]);
+      const updateOne = jest.spyOn(MenuItemModel, 'updateOne');
+
+      const { result, body } = await importMenu(
+        [
+          `${HEADER},imageUrl`,
+          'Soup,"Soup, made fresh",7.5,appetizer,10,,https://example.com/soup.jpg',
+          'Salad,Crisp,9,appetizer,5,',
+        ].join('\n'),
+        { dryRun: true }
+      );
+
+      expect(body.message).toBe('Import checked. Nothing has been saved.');
+      expect(result).toMatchObject({ dryRun: true, created: 1, updated: 1 });
+      expect(result.rows[0].changes).toEqual([
+        { field: 'price', from: 6, to: 7.5 },
+        { field: 'imageUrl', to: 'https://example.com/soup.jpg' },
+      ]);
+      expect(updateOne).not.toHaveBeenCalled();
+      expect(saved).toEqual([]);
+      expect(stored(soup)).toEqual(soup);
+    });
+  });
+});
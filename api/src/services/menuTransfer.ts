@@ -0,0 +1,329 @@
+import { MenuItemModel, mongoose } from '@restaurant-monorepo/database';
+import {
+  MenuFieldChange,
+  MenuImportResult,
+  MenuImportRow,
+  MenuTransferFormat,
+} from '@restaurant-monorepo/shared-types';
+import { menuItemSchema } from '../routes/menuSchemas';
+import { ApiError } from '../utils/apiError';
+import { parseCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+import { ExportColumn, ExportValue } from './exports';
+import { removeMenuImages } from './menuImages';
+import {
+  newMenuItemDraft,
+  previewMenuItemDraft,
+  saveMenuItemDraft,
+} from './menuVersions';
+
+type MenuItemDocument = InstanceType<typeof MenuItemModel>;
+
+type IdLike = mongoose.Types.ObjectId | string;
+
+export type MenuTransferRow = Record<string, unknown>;
+
+// The fields of a create request, in column order. Exports hold exactly
+// these, so an exported menu imports back unchanged.
+const TRANSFER_FIELDS = [
+  'name',
+  'description',
+  'price',
+  'category',
+  'prepTime',
+  'type',
+  'allergens',
+  'dietaryTags',
+  'imageUrl',
+  'modifierGroups',
+  'bundleSlots',
+  'schedule',
+  'recipe',
+] as const;
+
+type TransferField = (typeof TRANSFER_FIELDS)[number];
+
+// How each field is written in a CSV cell; everything else is plain text
+const LIST_FIELDS: TransferField[] = ['allergens', 'dietaryTags'];
+const NUMBER_FIELDS: TransferField[] = ['price', 'prepTime'];
+const JSON_FIELDS: TransferField[] = [
+  'modifierGroups',
+  'bundleSlots',
+  'schedule',
+  'recipe',
+];
+
+export const MAX_IMPORT_ROWS = 500;
+
+/**
+ * A menu item as a create request. Ids inside modifiers, bundle slots and
+ * recipes are kept, so they only carry over within the same database.
+ */
+export function toTransferRow(item: MenuItemDocument): MenuTransferRow {
+  // Through JSON so ObjectIds and dates come out as strings
+  const plain = JSON.parse(JSON.stringify(item.toJSON()));
+  return Object.fromEntries(
+    TRANSFER_FIELDS.filter((field) => plain[field] !== undefined).map(
+      (field) => [field, plain[field]]
+    )
+  );
+}
+
+function toCsvValue(field: TransferField, value: unknown): ExportValue {
+  if (value === undefined) return undefined;
+  if (LIST_FIELDS.includes(field)) return (value as string[]).join(',');
+  if (JSON_FIELDS.includes(field)) return JSON.stringify(value);
+  return value as ExportValue;
+}
+
+export const MENU_EXPORT_COLUMNS: ExportColumn<MenuTransferRow>[] =
+  TRANSFER_FIELDS.map((field) => ({
+    header: field,
+    width: 16,
+    value: (row) => toCsvValue(field, row[field]),
+  }));
+
+/**
+ * Read one CSV cell back into the value the create request expects. An
+ * empty cell leaves the field out, except lists, where it means none.
+ */
+function fromCsvCell(field: TransferField, cell: string): unknown {
+  // Undo the apostrophe exports put in front of formula-like text
+  const text = /^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell;
+
+  if (LIST_FIELDS.includes(field)) {
+    return text
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  }
+  if (text.trim() === '') return undefined;
+  if (NUMBER_FIELDS.includes(field)) return Number(text);
+  if (JSON_FIELDS.includes(field)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${field}: not valid JSON`);
+    }
+  }
+  return text;
+}
+
+interface ImportFileRow {
+  row: number;
+  data?: unknown;
+  error?: string;
+}
+
+function readCsvRows(content: string): ImportFileRow[] {
+  let records: string[][];
+  try {
+    records = parseCsv(content);
+  } catch (error) {
+    throw ApiError.badRequest((error as Error).message);
+  }
+
+  const [header = [], ...lines] = records;
+  const fields = header.map((column) => column.trim());
+  const unknown = fields.find(
+    (field) => !(TRANSFER_FIELDS as readonly string[]).includes(field)
+  );
+  if (unknown !== undefined) {
+    throw ApiError.badRequest(
+      `Unknown column "${unknown}". Columns are: ${TRANSFER_FIELDS.join(', ')}`
+    );
+  }
+
+  return lines.map((cells, index) => {
+    const row = index + 1;
+    try {
+      const data = Object.fromEntries(
+        fields
+          .map((field, column) => [
+            field,
+            fromCsvCell(field as TransferField, cells[column] ?? ''),
+          ])
+          .filter(([, value]) => value !== undefined)
+      );
+      return { row, data };
+    } catch (error) {
+      return { row, error: (error as Error).message };
+    }
+  });
+}
+
+function readJsonRows(content: string): ImportFileRow[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(content);
+  } catch {
+    throw ApiError.badRequest('The file is not valid JSON');
+  }
+
+  if (!Array.isArray(items)) {
+    throw ApiError.badRequest('A JSON import must be an array of menu items');
+  }
+  return items.map((data, index) => ({ row: index + 1, data }));
+}
+
+/**
+ * Messages for the problems with one row, as the API would report them
+ */
+function describeError(error: unknown): string[] {
+  if (error instanceof ApiError) return [error.message];
+  if (error instanceof mongoose.Error.ValidationError) {
+    return Object.values(error.errors).map((issue) => issue.message);
+  }
+  if ((error as { code?: number }).code === 11000) {
+    return ['A menu item with this name was added while importing'];
+  }
+  throw error;
+}
+
+/**
+ * Create or update one menu item from an import row, matched by name.
+ * Changes to existing items go into their draft, like edits made by hand.
+ */
+async function importRow(
+  data: ReturnType<typeof menuItemSchema.parse>,
+  existing: MenuItemDocument | undefined,
+  { dryRun, userId }: { dryRun: boolean; userId?: IdLike }
+): Promise<Pick<MenuImportRow, 'action' | 'changes'>> {
+  if (!existing) {
+    const menuItem = await newMenuItemDraft(
+      { ...data, allergens: data.allergens ?? [] },
+      userId
+    );
+    if (!dryRun) await menuItem.save();
+    return { action: 'create' };
+  }
+
+  if (existing.archivedAt) {
+    throw ApiError.conflict('This item is archived. Restore it first.');
+  }
+
+  const { imageUrl, ...changes } = data;
+  const changed: MenuFieldChange[] = dryRun
+    ? (await previewMenuItemDraft(existing, changes))?.changed ?? []
+    : (await saveMenuItemDraft(existing, changes, userId))?.changes ?? [];
+
+  // As with a manual edit, the image goes live straight away
+  if (imageUrl !== undefined && imageUrl !== (existing.imageUrl ?? '')) {
+    changed.push({ field: 'imageUrl', from: existing.imageUrl, to: imageUrl });
+    if (!dryRun) {
+      await MenuItemModel.updateOne(
+        { _id: existing._id },
+        { imageUrl, $unset: { thumbnailUrl: 1 } }
+      );
+      await removeMenuImages([existing.imageUrl, existing.thumbnailUrl]);
+    }
+  }
+
+  return changed.length > 0
+    ? { action: 'update', changes: changed }
+    : { action: 'unchanged' };
+}
+
+/**
+ * Import menu items from a CSV or JSON file, upserting by name. Every row
+ * gets the same checks as a single create or update; rows with errors are
+ * skipped and reported. A dry run reports what would happen without saving.
+ */
+export async function importMenuItems(
+  format: MenuTransferFormat,
+  content: string,
+  { dryRun, userId }: { dryRun: boolean; userId?: IdLike }
+): Promise<MenuImportResult> {
+  const fileRows =
+    format === 'json' ? readJsonRows(content) : readCsvRows(content);
+
+  if (fileRows.length === 0) {
+    throw ApiError.badRequest('The file has no menu items');
+  }
+  if (fileRows.length > MAX_IMPORT_ROWS) {
+    throw ApiError.badRequest(
+      `Import at most ${MAX_IMPORT_ROWS} menu items at a time`
+    );
+  }
+
+  const seenNames = new Set<string>();
+  const checked = fileRows.map(({ row, data, error }) => {
+    const name = (data as { name?: unknown } | undefined)?.name;
+    const result: MenuImportRow = {
+      row,
+      name: typeof name === 'string' ? name : undefined,
+      errors: error ? [error] : [],
+    };
+    if (error) return { result };
+
+    const parsed = menuItemSchema.safeParse(data);
+    if (!parsed.success) {
+      result.errors = parsed.error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message
+      );
+      return { result };
+    }
+
+    // Stored names are trimmed, so match them that way
+    const item = { ...parsed.data, name: parsed.data.name.trim() };
+    if (seenNames.has(item.name)) {
+      result.errors.push('Another row has the same name');
+      return { result };
+    }
+    seenNames.add(item.name);
+    return { result, item };
+  });
+
+  const existingItems = await MenuItemModel.find({
+    name: { $in: [...seenNames] },
+  }).select('+draft');
+  // An item on the menu wins over archived ones with the same name
+  const existingByName = new Map(
+    existingItems
+      .sort((a, b) => Number(!a.archivedAt) - Number(!b.archivedAt))
+      .map((item) => [item.name, item])
+  );
+
+  for (const { result, item } of checked) {
+    if (!item) continue;
+
+    try {
+      Object.assign(
+        result,
+        await importRow(item, existingByName.get(item.name), {
+          dryRun,
+          userId,
+        })
+      );
+    } catch (error) {
+      result.errors.push(...describeError(error));
+    }
+  }
+
+  const rows = checked.map(({ result }) => result);
+  const count = (action: MenuImportRow['action']) =>
+    rows.filter((row) => row.errors.length === 0 && row.action === action)
+      .length;
+
+  const summary: MenuImportResult = {
+    dryRun,
+    rows,
+    created: count('create'),
+    updated: count('update'),
+    unchanged: count('unchanged'),
+    failed: rows.filter((row) => row.errors.length > 0).length,
+  };
+
+  logger.info(dryRun ? 'Menu import checked' : 'Menu imported', {
+    format,
+    created: summary.created,
+    updated: summary.updated,
+    unchanged: summary.unchanged,
+    failed: summary.failed,
+    importedBy: userId,
+  });
+
+  return summary;
+}
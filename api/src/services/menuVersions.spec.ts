@@ -0,0 +1,326 @@
+import {
+  MenuItemModel,
+  MenuItemRevisionModel,
+  MenuVersionModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import { MenuItemDraft } from '@restaurant-monorepo/shared-types';
+import {
+  mockDocuments,
+  mockQuery,
+  spyOnModel,
+  StoredDocument,
+} from '../testing/mocks';
+import {
+  getCurrentMenuVersion,
+  publishMenuDrafts,
+  rollbackMenuToVersion,
+} from './menuVersions';
+
+type MenuItemRevisionDocument = InstanceType<typeof MenuItemRevisionModel>;
+type MenuVersionDocument = InstanceType<typeof MenuVersionModel>;
+
+const manager = new mongoose.Types.ObjectId();
+
+const menuItem = (
+  name: string,
+  fields: { price?: number; published?: boolean } = {},
+  draft?: Partial<MenuItemDraft>
+) =>
+  new MenuItemModel({
+    name,
+    description: `${name}, made fresh`,
+    price: fields.price ?? 10,
+    category: 'main_course',
+    prepTime: 10,
+    published: fields.published ?? true,
+    ...(draft && { draft: { updatedAt: new Date(), ...draft } }),
+  }).toObject<StoredDocument>();
+
+describe('menu versions', () => {
+  let items: Map<string, StoredDocument>;
+  let versions: MenuVersionDocument[];
+  let revisions: MenuItemRevisionDocument[];
+
+  const recordRevisions = (docs: object[]) => {
+    const created = docs.map((doc) => new MenuItemRevisionModel(doc));
+    revisions.push(...created);
+    return Promise.resolve(created);
+  };
+
+  beforeEach(() => {
+    versions = [];
+    revisions = [];
+
+    jest.spyOn(MenuItemModel, 'exists').mockReturnValue(mockQuery(null));
+
+    spyOnModel(MenuVersionModel, 'findOne').mockImplementation(
+      (filter: { complete?: unknown }) =>
+        mockQuery(
+          versions
+            .filter((version) => !filter.complete || version.complete)
+            .pop() ?? null
+        )
+    );
+    spyOnModel(MenuVersionModel, 'exists').mockImplementation(
+      (filter: { version: number }) =>
+        mockQuery(
+          versions.find((version) => version.version === filter.version) ?? null
+        )
+    );
+    spyOnModel(MenuVersionModel, 'create').mockImplementation(
+      (details: object) => {
+        const version = new MenuVersionModel(details);
+        versions.push(version);
+        return Promise.resolve(version);
+      }
+    );
+    jest
+      .spyOn(MenuVersionModel.prototype, 'save')
+      .mockImplementation(function (this: unknown) {
+        return Promise.resolve(this);
+      });
+
+    spyOnModel(MenuItemRevisionModel, 'insertMany').mockImplementation(
+      recordRevisions
+    );
+    spyOnModel(MenuItemRevisionModel, 'distinct').mockImplementation(() =>
+      mockQuery([
+        ...new Set(revisions.map((revision) => String(revision.menuItemId))),
+      ])
+    );
+    spyOnModel(MenuItemRevisionModel, 'find').mockImplementation(
+      (filter: { version: { $gt: number } }) =>
+        mockQuery(
+          revisions
+            .filter((revision) => revision.version > filter.version.$gt)
+            .sort((a, b) => a.version - b.version)
+        )
+    );
+    spyOnModel(MenuItemRevisionModel, 'deleteMany').mockImplementation(
+      (filter: { version: number; menuItemId: { $in: unknown[] } }) => {
+        const ids = filter.menuItemId.$in.map(String);
+        revisions = revisions.filter(
+          (revision) =>
+            revision.version !== filter.version ||
+            !ids.includes(String(revision.menuItemId))
+        );
+        return mockQuery({});
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stored = (item: StoredDocument) => items.get(item._id.toString());
+
+  const saveDraft = (item: StoredDocument, changes: MenuItemDraft['changes']) =>
+    items.set(item._id.toString(), {
+      ...stored(item),
+      _id: item._id,
+      draft: { changes, updatedAt: new Date() },
+    });
+
+  describe('publishing', () => {
+    it('should put every draft live under one version', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      const salad = menuItem(
+        'Salad',
+        { published: false },
+        { changes: { published: true } }
+      );
+      const soup = menuItem('Soup');
+      items = mockDocuments(MenuItemModel, [burger, salad, soup]);
+
+      const version = await publishMenuDrafts(manager, 'Spring menu');
+
+      expect(version).toMatchObject({
+        version: 1,
+        note: 'Spring menu',
+        changeCount: 2,
+        complete: true,
+      });
+      expect(stored(burger)).toMatchObject({ price: 12 });
+      expect(stored(burger)).not.toHaveProperty('draft');
+      expect(stored(salad)).toMatchObject({ published: true });
+      expect(stored(salad)).not.toHaveProperty('draft');
+
+      expect(
+        revisions.map((revision) => [revision.menuItemName, revision.action])
+      ).toEqual([
+        ['Burger', 'updated'],
+        ['Salad', 'created'],
+      ]);
+      expect(revisions[0]).toMatchObject({
+        changes: [{ field: 'price', from: 10, to: 12 }],
+      });
+    });
+
+    it('should refuse to publish when there are no drafts', async () => {
+      items = mockDocuments(MenuItemModel, [menuItem('Soup')]);
+
+      await expect(publishMenuDrafts(manager)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'There are no draft changes to publish',
+      });
+      expect(versions).toEqual([]);
+    });
+
+    it('should keep a draft edited while the menu was publishing', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      const fries = menuItem('Fries', { price: 4 }, { changes: { price: 5 } });
+      items = mockDocuments(MenuItemModel, [burger, fries]);
+      spyOnModel(MenuItemRevisionModel, 'insertMany').mockImplementationOnce(
+        (docs: object[]) => {
+          saveDraft(fries, { price: 6 });
+          return recordRevisions(docs);
+        }
+      );
+
+      const version = await publishMenuDrafts(manager);
+
+      expect(version).toMatchObject({ changeCount: 1, complete: true });
+      expect(stored(burger)).toMatchObject({ price: 12 });
+      expect(stored(fries)).toMatchObject({
+        price: 4,
+        draft: { changes: { price: 6 } },
+      });
+      expect(revisions.map((revision) => revision.menuItemName)).toEqual([
+        'Burger',
+      ]);
+    });
+
+    it('should record history before going live, and only then mark the version complete', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      items = mockDocuments(MenuItemModel, [burger]);
+      jest
+        .spyOn(MenuItemModel, 'updateOne')
+        .mockRejectedValue(new Error('connection lost'));
+
+      await expect(publishMenuDrafts(manager)).rejects.toThrow(
+        'connection lost'
+      );
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0].complete).toBe(false);
+      expect(revisions).toHaveLength(1);
+      expect(stored(burger)).toMatchObject({
+        price: 10,
+        draft: { changes: { price: 12 } },
+      });
+    });
+
+    it('should not make a publish cut short the current version', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      items = mockDocuments(MenuItemModel, [burger]);
+      jest
+        .spyOn(MenuItemModel, 'updateOne')
+        .mockRejectedValueOnce(new Error('connection lost'));
+      await expect(publishMenuDrafts(manager)).rejects.toThrow();
+
+      expect(await getCurrentMenuVersion()).toBe(0);
+
+      const version = await publishMenuDrafts(manager);
+
+      expect(version).toMatchObject({ version: 2, complete: true });
+      expect(await getCurrentMenuVersion()).toBe(2);
+    });
+  });
+
+  describe('rolling back', () => {
+    it('should restore items to how they were at the version', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      items = mockDocuments(MenuItemModel, [burger]);
+      await publishMenuDrafts(manager);
+      saveDraft(burger, { price: 15 });
+      await publishMenuDrafts(manager);
+      saveDraft(burger, { description: 'Now with cheese' });
+
+      const version = await rollbackMenuToVersion(1, manager);
+
+      expect(version).toMatchObject({
+        version: 3,
+        rollbackOf: 1,
+        note: 'Rolled back to version 1',
+        changeCount: 1,
+        complete: true,
+      });
+      expect(stored(burger)).toMatchObject({
+        price: 12,
+        draft: { changes: { description: 'Now with cheese' } },
+      });
+      expect(revisions[revisions.length - 1]).toMatchObject({
+        version: 3,
+        action: 'updated',
+        changes: [{ field: 'price', from: 15, to: 12 }],
+      });
+    });
+
+    it('should withdraw an item first published after the version', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      const salad = menuItem('Salad', { published: false });
+      items = mockDocuments(MenuItemModel, [burger, salad]);
+      await publishMenuDrafts(manager);
+      saveDraft(salad, { published: true });
+      await publishMenuDrafts(manager);
+
+      const version = await rollbackMenuToVersion(1, manager);
+
+      expect(version).toMatchObject({ version: 3, changeCount: 1 });
+      expect(stored(salad)).toMatchObject({ published: false });
+      expect(stored(burger)).toMatchObject({ price: 12, published: true });
+      expect(revisions[revisions.length - 1]).toMatchObject({
+        menuItemName: 'Salad',
+        action: 'withdrawn',
+        changes: [{ field: 'published', from: true, to: false }],
+      });
+    });
+
+    it('should withdraw everything when rolling back to before the first publish', async () => {
+      const salad = menuItem(
+        'Salad',
+        { published: false },
+        { changes: { published: true } }
+      );
+      items = mockDocuments(MenuItemModel, [salad]);
+      await publishMenuDrafts(manager);
+
+      await rollbackMenuToVersion(0, manager);
+
+      expect(stored(salad)).toMatchObject({ published: false });
+    });
+
+    it('should only roll back to an earlier version that exists', async () => {
+      items = mockDocuments(MenuItemModel, [
+        menuItem('Burger', {}, { changes: { price: 12 } }),
+      ]);
+      await publishMenuDrafts(manager);
+      versions.push(new MenuVersionModel({ version: 3 }));
+
+      await expect(rollbackMenuToVersion(3, manager)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Choose an earlier version to roll back to',
+      });
+      await expect(rollbackMenuToVersion(2, manager)).rejects.toMatchObject({
+        statusCode: 404,
+        message: 'Menu version 2 not found',
+      });
+    });
+
+    it('should refuse a rollback that would change nothing', async () => {
+      const burger = menuItem('Burger', {}, { changes: { price: 12 } });
+      items = mockDocuments(MenuItemModel, [burger]);
+      await publishMenuDrafts(manager);
+      saveDraft(burger, { price: 15 });
+      await publishMenuDrafts(manager);
+      await rollbackMenuToVersion(1, manager);
+
+      await expect(rollbackMenuToVersion(1, manager)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'The menu already matches version 1',
+      });
+    });
+  });
+});
@@ -0,0 +1,526 @@
+import {
+  MenuItemModel,
+  MenuItemRevisionModel,
+  MenuVersionModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import {
+  CreateMenuItemRequest,
+  MenuDraftPreview,
+  MenuFieldChange,
+  MenuItemDraft,
+  MenuRevisionAction,
+} from '@restaurant-monorepo/shared-types';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+import { checkDietaryTags } from './allergens';
+import { isRecipeOutOfStock } from './inventory';
+import { checkBundleDefinition } from './menuBundles';
+
+type MenuItemDocument = InstanceType<typeof MenuItemModel>;
+
+type MenuVersionDocument = InstanceType<typeof MenuVersionModel>;
+
+type IdLike = mongoose.Types.ObjectId | string;
+
+type DraftChanges = MenuItemDraft['changes'];
+
+type Snapshot = Record<string, unknown>;
+
+// Everything a draft can change. Photos, availability and stock go live
+// straight away and aren't versioned.
+const VERSIONED_FIELDS = [
+  'type',
+  'name',
+  'description',
+  'price',
+  'category',
+  'prepTime',
+  'allergens',
+  'dietaryTags',
+  'modifierGroups',
+  'bundleSlots',
+  'schedule',
+  'recipe',
+  'published',
+] as const;
+
+/**
+ * The published fields of a menu item, as plain data
+ */
+function takeSnapshot(item: MenuItemDocument): Snapshot {
+  const plain = item.toObject({ depopulate: true });
+  return Object.fromEntries(
+    VERSIONED_FIELDS.map((field) => [field, plain[field]])
+  );
+}
+
+// Compared as JSON so ObjectIds and dates match by value
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+function diffSnapshots(before: Snapshot, after: Snapshot): MenuFieldChange[] {
+  return VERSIONED_FIELDS.filter(
+    (field) => !isSameValue(before[field], after[field])
+  ).map((field) => ({ field, from: before[field], to: after[field] }));
+}
+
+/**
+ * A detached copy of the item with draft changes applied. Never saved.
+ */
+function applyChanges(
+  item: MenuItemDocument,
+  changes: DraftChanges
+): MenuItemDocument {
+  const preview = MenuItemModel.hydrate(
+    item.toObject({ depopulate: true })
+  ) as MenuItemDocument;
+  preview.set(changes);
+  preview.set('draft', undefined);
+  return preview;
+}
+
+/**
+ * Names only need to be unique among items that aren't archived, so a new
+ * item can reuse the name of an archived one
+ */
+export async function checkNameAvailable(
+  name: string,
+  exceptId?: IdLike
+): Promise<void> {
+  const duplicate = await MenuItemModel.exists({
+    name,
+    archivedAt: null,
+    ...(exceptId && { _id: { $ne: exceptId } }),
+  });
+  if (duplicate) {
+    throw ApiError.conflict(`A menu item named "${name}" already exists`);
+  }
+}
+
+/**
+ * Check a menu item as it would be published
+ */
+async function checkMenuItem(
+  preview: MenuItemDocument,
+  changes: DraftChanges
+): Promise<void> {
+  await preview.validate();
+
+  if (changes.name !== undefined) {
+    await checkNameAvailable(preview.name, preview.id);
+  }
+
+  if (changes.type !== undefined || changes.bundleSlots !== undefined) {
+    await checkBundleDefinition(
+      { type: preview.type, bundleSlots: preview.bundleSlots },
+      preview.id
+    );
+  }
+
+  if (changes.allergens !== undefined || changes.dietaryTags !== undefined) {
+    checkDietaryTags(preview.allergens, preview.dietaryTags);
+  }
+}
+
+/**
+ * Stock status for the published fields, rechecked when the recipe changes
+ */
+async function getOutOfStock(
+  item: MenuItemDocument,
+  after: Snapshot,
+  changes: MenuFieldChange[]
+): Promise<boolean> {
+  if (!changes.some((change) => change.field === 'recipe')) {
+    return item.outOfStock;
+  }
+
+  const recipe = (after.recipe ?? []) as {
+    ingredientId: unknown;
+    quantity: number;
+  }[];
+  return isRecipeOutOfStock(
+    recipe.map((line) => ({
+      ingredientId: String(line.ingredientId),
+      quantity: line.quantity,
+    }))
+  );
+}
+
+/**
+ * Items that have been through at least one publish
+ */
+async function getPublishedItemIds(itemIds: unknown[]): Promise<Set<string>> {
+  const ids = await MenuItemRevisionModel.distinct('menuItemId', {
+    menuItemId: { $in: itemIds },
+  });
+  return new Set(ids.map((id) => String(id)));
+}
+
+/**
+ * The latest fully published menu version, or 0 before the first publish.
+ * A publish cut short never becomes current.
+ */
+export async function getCurrentMenuVersion(): Promise<number> {
+  const latest = await MenuVersionModel.findOne(
+    { complete: { $ne: false } },
+    'version'
+  ).sort({ version: -1 });
+  return latest?.version ?? 0;
+}
+
+/**
+ * Take the next version number. The unique index turns a publish racing
+ * another one into a conflict instead of two menus with the same number.
+ * The version stays incomplete until applyVersion has written it.
+ */
+async function createVersion(details: {
+  note?: string;
+  rollbackOf?: number;
+  changeCount: number;
+  publishedBy?: IdLike;
+}) {
+  // Numbered after every version, complete or not, so numbers aren't reused
+  const latest = await MenuVersionModel.findOne({}, 'version').sort({
+    version: -1,
+  });
+  const version = (latest?.version ?? 0) + 1;
+  try {
+    return await MenuVersionModel.create({
+      ...details,
+      version,
+      complete: false,
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw ApiError.conflict(
+        'The menu was published by someone else just now. Try again.'
+      );
+    }
+    throw error;
+  }
+}
+
+interface PendingChange {
+  item: MenuItemDocument;
+  action: MenuRevisionAction;
+  before?: Snapshot;
+  after: Snapshot;
+  changes: MenuFieldChange[];
+  changedBy?: unknown;
+  outOfStock: boolean;
+}
+
+/**
+ * Record every change under the version, then write it as live. History goes
+ * in first, so a publish cut short never leaves a live change that rollback
+ * can't undo. Drafts saved again since they were read are skipped and stay
+ * for the next publish. Returns the changes that went live.
+ */
+async function applyVersion(
+  version: MenuVersionDocument,
+  pending: PendingChange[],
+  { clearDrafts }: { clearDrafts: boolean }
+): Promise<PendingChange[]> {
+  await MenuItemRevisionModel.insertMany(
+    pending
+      .filter(({ changes }) => changes.length > 0)
+      .map(({ item, action, before, after, changes, changedBy }) => ({
+        menuItemId: item._id,
+        menuItemName: (after.name as string) ?? item.name,
+        version: version.version,
+        action,
+        changes,
+        before,
+        after,
+        changedBy,
+      }))
+  );
+
+  const written = await Promise.all(
+    pending.map(async ({ item, after, outOfStock }) => {
+      const { matchedCount } = await MenuItemModel.updateOne(
+        clearDrafts
+          ? { _id: item._id, 'draft.updatedAt': item.draft?.updatedAt }
+          : { _id: item._id },
+        {
+          $set: { ...after, outOfStock },
+          ...(clearDrafts && { $unset: { draft: 1 } }),
+        }
+      );
+      return matchedCount > 0;
+    })
+  );
+
+  const applied = pending.filter((_, index) => written[index]);
+  const skipped = pending.filter((_, index) => !written[index]);
+  if (skipped.length > 0) {
+    await MenuItemRevisionModel.deleteMany({
+      version: version.version,
+      menuItemId: { $in: skipped.map(({ item }) => item._id) },
+    });
+  }
+
+  version.set({
+    complete: true,
+    changeCount: applied.filter(({ changes }) => changes.length > 0).length,
+  });
+  await version.save();
+
+  return applied;
+}
+
+/**
+ * A checked, unsaved new menu item. It stays off the menu until the next
+ * publish puts it on sale.
+ */
+export async function newMenuItemDraft(
+  data: CreateMenuItemRequest,
+  userId?: IdLike
+): Promise<MenuItemDocument> {
+  await checkBundleDefinition({
+    type: data.type ?? 'single',
+    bundleSlots: data.bundleSlots ?? [],
+  });
+
+  checkDietaryTags(data.allergens ?? [], data.dietaryTags ?? []);
+  await checkNameAvailable(data.name);
+
+  const menuItem = new MenuItemModel({
+    ...data,
+    outOfStock: await isRecipeOutOfStock(data.recipe ?? []),
+    published: false,
+    draft: { changes: { published: true }, updatedBy: userId },
+  });
+  await menuItem.validate();
+  return menuItem;
+}
+
+/**
+ * Check edits against the item as it would be published, without saving.
+ * `changes` holds the merged draft, minus fields edited back to their
+ * published value; null when nothing would change.
+ */
+export async function previewMenuItemDraft(
+  item: MenuItemDocument,
+  changes: DraftChanges
+): Promise<{
+  preview: MenuItemDocument;
+  changes: DraftChanges;
+  changed: MenuFieldChange[];
+} | null> {
+  const merged: DraftChanges = { ...item.draft?.changes, ...changes };
+  const preview = applyChanges(item, merged);
+  await checkMenuItem(preview, changes);
+
+  const changed = diffSnapshots(takeSnapshot(item), takeSnapshot(preview));
+  if (changed.length === 0) return null;
+
+  const pending = Object.fromEntries(
+    Object.entries(merged).filter(([field]) =>
+      changed.some((change) => change.field === field)
+    )
+  ) as DraftChanges;
+
+  return { preview, changes: pending, changed };
+}
+
+/**
+ * Store edits as the item's draft, merged with any earlier unpublished
+ * edits. Fields edited back to their published value drop out.
+ */
+export async function saveMenuItemDraft(
+  item: MenuItemDocument,
+  changes: DraftChanges,
+  userId?: IdLike
+): Promise<MenuDraftPreview | null> {
+  const result = await previewMenuItemDraft(item, changes);
+
+  if (!result) {
+    await MenuItemModel.updateOne({ _id: item._id }, { $unset: { draft: 1 } });
+    return null;
+  }
+
+  const draft = {
+    changes: result.changes,
+    updatedBy: userId,
+    updatedAt: new Date(),
+  };
+  await MenuItemModel.updateOne({ _id: item._id }, { $set: { draft } });
+
+  return {
+    menuItem: result.preview.toJSON(),
+    changes: result.changed,
+    isNew:
+      !item.published &&
+      !(await MenuItemRevisionModel.exists({ menuItemId: item._id })),
+    updatedBy: draft.updatedBy as MenuDraftPreview['updatedBy'],
+    updatedAt: draft.updatedAt,
+  };
+}
+
+/**
+ * Every item with unpublished edits, as it will look once published
+ */
+export async function listMenuDrafts(
+  filter: { _id?: IdLike } = {}
+): Promise<MenuDraftPreview[]> {
+  const items = await MenuItemModel.find({
+    ...filter,
+    draft: { $exists: true },
+  })
+    .select('+draft')
+    .populate('draft.updatedBy', 'name')
+    .sort({ 'draft.updatedAt': -1 });
+  const publishedIds = await getPublishedItemIds(items.map((item) => item._id));
+
+  return items.map((item) => {
+    const draft = item.draft as MenuItemDraft;
+    const preview = applyChanges(item, draft.changes);
+    return {
+      menuItem: preview.toJSON(),
+      changes: diffSnapshots(takeSnapshot(item), takeSnapshot(preview)),
+      isNew: !item.published && !publishedIds.has(item.id),
+      updatedBy: draft.updatedBy,
+      updatedAt: draft.updatedAt,
+    };
+  });
+}
+
+/**
+ * Publish every draft as one new menu version. All drafts are checked before
+ * anything is written.
+ */
+export async function publishMenuDrafts(userId?: IdLike, note?: string) {
+  const items = await MenuItemModel.find({ draft: { $exists: true } }).select(
+    '+draft'
+  );
+  if (items.length === 0) {
+    throw ApiError.badRequest('There are no draft changes to publish');
+  }
+
+  const publishedIds = await getPublishedItemIds(items.map((item) => item._id));
+  const pending: PendingChange[] = [];
+
+  for (const item of items) {
+    const draft = item.draft as MenuItemDraft;
+    const preview = applyChanges(item, draft.changes);
+    const isNew = !item.published && !publishedIds.has(item.id);
+    const before = takeSnapshot(item);
+    const after = takeSnapshot(preview);
+    const changes = diffSnapshots(before, after);
+
+    try {
+      await checkMenuItem(preview, draft.changes);
+      pending.push({
+        item,
+        action: isNew ? 'created' : 'updated',
+        before: isNew ? undefined : before,
+        after,
+        changes,
+        changedBy: draft.updatedBy ?? userId,
+        outOfStock: await getOutOfStock(item, after, changes),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ApiError(
+          `${preview.name}: ${error.message}`,
+          error.statusCode
+        );
+      }
+      throw error;
+    }
+  }
+
+  const version = await createVersion({
+    note,
+    changeCount: pending.filter(({ changes }) => changes.length > 0).length,
+    publishedBy: userId,
+  });
+  const applied = await applyVersion(version, pending, { clearDrafts: true });
+
+  logger.info('Menu published', {
+    version: version.version,
+    changeCount: version.changeCount,
+    skipped: pending.length - applied.length,
+    publishedBy: userId,
+  });
+
+  return version;
+}
+
+/**
+ * Put the menu back the way it was at an earlier version, as a new version.
+ * Items added since are hidden again. Drafts are left alone.
+ */
+export async function rollbackMenuToVersion(
+  targetVersion: number,
+  userId?: IdLike,
+  note?: string
+) {
+  const currentVersion = await getCurrentMenuVersion();
+  if (targetVersion >= currentVersion) {
+    throw ApiError.badRequest('Choose an earlier version to roll back to');
+  }
+  if (
+    targetVersion > 0 &&
+    !(await MenuVersionModel.exists({ version: targetVersion }))
+  ) {
+    throw ApiError.notFound(`Menu version ${targetVersion} not found`);
+  }
+
+  // The first change after the target holds each item's state at the target
+  const revisions = await MenuItemRevisionModel.find({
+    version: { $gt: targetVersion },
+  }).sort({ version: 1 });
+  const stateAtTarget = new Map<string, Snapshot | undefined>();
+  for (const revision of revisions) {
+    const id = String(revision.menuItemId);
+    if (!stateAtTarget.has(id)) stateAtTarget.set(id, revision.before);
+  }
+
+  const items = await MenuItemModel.find({
+    _id: { $in: [...stateAtTarget.keys()] },
+  });
+  const pending: PendingChange[] = [];
+  for (const item of items) {
+    const before = takeSnapshot(item);
+    const restored = stateAtTarget.get(item.id);
+    const after = restored ?? { ...before, published: false };
+    const changes = diffSnapshots(before, after);
+    if (changes.length === 0) continue;
+
+    pending.push({
+      item,
+      action: restored ? 'updated' : 'withdrawn',
+      before,
+      after,
+      changes,
+      changedBy: userId,
+      outOfStock: await getOutOfStock(item, after, changes),
+    });
+  }
+
+  if (pending.length === 0) {
+    throw ApiError.badRequest(
+      `The menu already matches version ${targetVersion}`
+    );
+  }
+
+  const version = await createVersion({
+    note: note ?? `Rolled back to version ${targetVersion}`,
+    rollbackOf: targetVersion,
+    changeCount: pending.length,
+    publishedBy: userId,
+  });
+  await applyVersion(version, pending, { clearDrafts: false });
+
+  logger.info('Menu rolled back', {
+    version: version.version,
+    rollbackOf: targetVersion,
+    changeCount: version.changeCount,
+    publishedBy: userId,
+  });
+
+  return version;
+}
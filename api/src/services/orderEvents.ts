@@ -0,0 +1,47 @@
+import { EventEmitter } from 'events';
+import {
+  Order,
+  OrderEvent,
+  OrderEventType,
+  OrderStatus,
+} from '@restaurant-monorepo/shared-types';
+
+type OrderEventListener = (event: OrderEvent) => void;
+
+/**
+ * In-process bus for order lifecycle events
+ */
+export class OrderEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every connected dashboard registers through a single listener, but
+    // other subsystems may subscribe as well
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(
+    type: OrderEventType,
+    order: { toJSON(): unknown },
+    details: { previousStatus?: OrderStatus; actorId?: string } = {}
+  ): void {
+    const event: OrderEvent = {
+      type,
+      order: order.toJSON() as Order,
+      previousStatus: details.previousStatus,
+      actorId: details.actorId?.toString(),
+      timestamp: new Date().toISOString(),
+    };
+
+    this.emitter.emit('order', event);
+  }
+
+  subscribe(listener: OrderEventListener): () => void {
+    this.emitter.on('order', listener);
+    return () => {
+      this.emitter.off('order', listener);
+    };
+  }
+}
+
+export const orderEvents = new OrderEventBus();
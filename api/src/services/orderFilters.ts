@@ -0,0 +1,44 @@
+import { mongoose } from '@restaurant-monorepo/database';
+import { Order, OrderStatus } from '@restaurant-monorepo/shared-types';
+import { env } from '../config/environment';
+import { toRangeEnd, toRangeStart } from './reports';
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Mongo filter for the order list query string, shared by the order list
+ * and its exports. Plain dates are whole days in the given timezone.
+ */
+export function buildOrderFilter(
+  query: Record<string, unknown>
+): mongoose.FilterQuery<Order> {
+  const status = query.status as OrderStatus;
+  const tableNumber = query.tableNumber as string;
+  const from = query.from as string;
+  const to = query.to as string;
+  const timezone = (query.timezone as string) || env.REPORT_TIMEZONE;
+  const createdBy = query.createdBy as string;
+  const search = (query.search as string)?.trim();
+
+  const filter: mongoose.FilterQuery<Order> = {};
+  if (status) filter.status = status;
+  if (tableNumber) filter.tableNumber = parseInt(tableNumber);
+  if (createdBy) filter.createdBy = createdBy;
+
+  if (from || to) {
+    const createdAt: mongoose.QuerySelector<Date> = {};
+    if (from) createdAt.$gte = toRangeStart(from, timezone);
+    if (to) createdAt.$lt = toRangeEnd(to, timezone);
+    filter.createdAt = createdAt;
+  }
+
+  // Order numbers and customer names are short, so a substring match is
+  // cheap enough and finds partial numbers like the last few digits
+  if (search) {
+    const pattern = { $regex: escapeRegex(search), $options: 'i' };
+    filter.$or = [{ orderNumber: pattern }, { customerName: pattern }];
+  }
+
+  return filter;
+}
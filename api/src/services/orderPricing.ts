@@ -0,0 +1,52 @@
+import { Discount, OrderItem } from '@restaurant-monorepo/shared-types';
+import {
+  allocateCents,
+  priceOrder,
+  toCents,
+} from '@restaurant-monorepo/pricing';
+import { pricingConfig } from '../config/pricing';
+
+type PricedItem = Pick<
+  OrderItem,
+  'unitPrice' | 'quantity' | 'category' | 'discount'
+>;
+
+/**
+ * Price order lines with the restaurant's tax and gratuity settings
+ */
+export function priceOrderLines(
+  items: PricedItem[],
+  options: { discount?: Discount; partySize?: number }
+) {
+  return priceOrder(
+    {
+      lines: items.map((item) => ({
+        unitPrice: item.unitPrice,
+        quantity: item.quantity,
+        category: item.category,
+        discount: item.discount,
+      })),
+      orderDiscount: options.discount,
+      partySize: options.partySize,
+    },
+    pricingConfig
+  );
+}
+
+/**
+ * Share of an order's stored total carried by each line, in cents. Shares
+ * follow the lines' priced totals and always add up to the stored total, even
+ * if tax settings changed after the order was placed.
+ */
+export function getLineShareCents(order: {
+  items: PricedItem[];
+  discount?: Discount;
+  partySize?: number;
+  total: number;
+}): number[] {
+  const { lines } = priceOrderLines(order.items, order);
+  return allocateCents(
+    toCents(order.total),
+    lines.map((line) => toCents(line.total))
+  );
+}
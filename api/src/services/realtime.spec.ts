@@ -0,0 +1,183 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocket, WebSocketServer } from 'ws';
+import { OrderModel } from '@restaurant-monorepo/database';
+import { OrderEvent } from '@restaurant-monorepo/shared-types';
+import { env } from '../config/environment';
+import { generateToken } from '../middleware/auth';
+import { buildUser, mockUsers } from '../testing/mocks';
+import { orderEvents } from './orderEvents';
+import { attachRealtimeServer, scopeOrderEvent } from './realtime';
+
+const chef = buildUser('chef');
+const waiter = buildUser('waiter', { email: 'waiter@example.com' });
+const manager = buildUser('manager');
+const inactive = buildUser('waiter', {
+  email: 'former@example.com',
+  isActive: false,
+});
+
+const buildOrder = () =>
+  new OrderModel({
+    orderNumber: 'ORD-1',
+    tableNumber: 4,
+    customerName: 'Ada Lovelace',
+    items: [],
+    total: 0,
+    createdBy: waiter._id,
+  });
+
+describe('scopeOrderEvent', () => {
+  const event: OrderEvent = {
+    type: 'order.created',
+    order: buildOrder().toJSON() as OrderEvent['order'],
+    timestamp: new Date().toISOString(),
+  };
+
+  it('should strip the customer name for roles without VIEW_CUSTOMER_DATA', () => {
+    const scoped = scopeOrderEvent(event, chef);
+
+    expect(scoped?.order).not.toHaveProperty('customerName');
+    expect(event.order.customerName).toBe('Ada Lovelace');
+  });
+
+  it('should keep the customer name for roles with VIEW_CUSTOMER_DATA', () => {
+    expect(scopeOrderEvent(event, waiter)?.order.customerName).toBe(
+      'Ada Lovelace'
+    );
+  });
+});
+
+describe('attachRealtimeServer', () => {
+  let server: Server;
+  let wss: WebSocketServer;
+  let channelUrl: string;
+
+  beforeAll(async () => {
+    // Only the heartbeat interval is faked; sockets still use real timers
+    jest.useFakeTimers({
+      doNotFake: [
+        'Date',
+        'hrtime',
+        'nextTick',
+        'performance',
+        'queueMicrotask',
+        'setImmediate',
+        'clearImmediate',
+        'setTimeout',
+        'clearTimeout',
+      ],
+    });
+    mockUsers(chef, waiter, manager, inactive);
+    server = createServer();
+    wss = attachRealtimeServer(server);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    channelUrl = `ws://127.0.0.1:${port}${env.API_PREFIX}${env.WS_PATH}`;
+  });
+
+  afterAll(async () => {
+    wss.clients.forEach((socket) => socket.terminate());
+    wss.close();
+    await new Promise((resolve) => server.close(resolve));
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const connect = (token?: string, options?: { autoPong: boolean }) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(
+        token ? `${channelUrl}?token=${token}` : channelUrl,
+        options
+      );
+      socket.once('open', () => resolve(socket));
+      socket.once('unexpected-response', (_, response) =>
+        reject(new Error(String(response.statusCode)))
+      );
+      socket.once('error', reject);
+    });
+
+  const nextMessage = (socket: WebSocket) =>
+    new Promise<OrderEvent>((resolve) =>
+      socket.once('message', (data) => resolve(JSON.parse(data.toString())))
+    );
+
+  it('should never send the customer name to a role without VIEW_CUSTOMER_DATA', async () => {
+    const chefSocket = await connect(generateToken(chef.id));
+    const waiterSocket = await connect(generateToken(waiter.id));
+
+    const chefMessage = nextMessage(chefSocket);
+    const waiterMessage = nextMessage(waiterSocket);
+    orderEvents.publish('order.created', buildOrder());
+
+    expect((await chefMessage).order).not.toHaveProperty('customerName');
+    expect((await waiterMessage).order.customerName).toBe('Ada Lovelace');
+
+    chefSocket.close();
+    waiterSocket.close();
+  });
+
+  it.each(['order.payment_recorded', 'order.refunded'] as const)(
+    'should only send %s to roles that take payments',
+    async (type) => {
+      const chefSocket = await connect(generateToken(chef.id));
+      const managerSocket = await connect(generateToken(manager.id));
+
+      const chefMessage = nextMessage(chefSocket);
+      const managerMessage = nextMessage(managerSocket);
+      orderEvents.publish(type, buildOrder());
+      orderEvents.publish('order.status_changed', buildOrder());
+
+      expect((await managerMessage).type).toBe(type);
+      expect((await chefMessage).type).toBe('order.status_changed');
+
+      chefSocket.close();
+      managerSocket.close();
+    }
+  );
+
+  it('should drop clients that stop answering heartbeat pings', async () => {
+    const responsive = await connect(generateToken(waiter.id));
+    const silent = await connect(generateToken(waiter.id), {
+      autoPong: false,
+    });
+    const silentClosed = new Promise((resolve) =>
+      silent.once('close', resolve)
+    );
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+    jest.advanceTimersByTime(30000);
+    await settle();
+    jest.advanceTimersByTime(30000);
+    await silentClosed;
+    await settle();
+
+    expect(responsive.readyState).toBe(WebSocket.OPEN);
+    responsive.close();
+  });
+
+  it('should refuse a connection without a token', async () => {
+    await expect(connect()).rejects.toThrow('401');
+  });
+
+  it('should refuse an invalid token', async () => {
+    const forged = jwt.sign({ userId: chef.id }, 'not-the-secret');
+
+    await expect(connect(forged)).rejects.toThrow('401');
+  });
+
+  it('should refuse an expired token', async () => {
+    const expired = jwt.sign({ userId: chef.id }, env.JWT_SECRET, {
+      expiresIn: -60,
+    });
+
+    await expect(connect(expired)).rejects.toThrow('401');
+  });
+
+  it('should refuse a token for an inactive user', async () => {
+    await expect(connect(generateToken(inactive.id))).rejects.toThrow('401');
+  });
+});
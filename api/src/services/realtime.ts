@@ -0,0 +1,148 @@
+import { IncomingMessage, Server, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  OrderEvent,
+  ORDER_EVENT_PERMISSIONS,
+  Permission,
+  ROLE_PERMISSIONS,
+  User,
+} from '@restaurant-monorepo/shared-types';
+import { env } from '../config/environment';
+import { resolveUserFromToken } from '../middleware/auth';
+import { ApiError } from '../utils/apiError';
+import { logger } from '../utils/logger';
+import { orderEvents } from './orderEvents';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface RealtimeClient {
+  socket: WebSocket;
+  user: User & { _id: string };
+  isAlive: boolean;
+}
+
+function roleHasPermissions(
+  user: User,
+  requiredPermissions: Permission[]
+): boolean {
+  const userPermissions = ROLE_PERMISSIONS[user.role] || [];
+  return requiredPermissions.every((permission) =>
+    userPermissions.includes(permission)
+  );
+}
+
+/**
+ * Narrow an order event to what the subscriber's role is allowed to see
+ */
+export function scopeOrderEvent(
+  event: OrderEvent,
+  user: User
+): OrderEvent | null {
+  if (!roleHasPermissions(user, ORDER_EVENT_PERMISSIONS[event.type])) {
+    return null;
+  }
+
+  if (roleHasPermissions(user, ['VIEW_CUSTOMER_DATA'])) {
+    return event;
+  }
+
+  const order = { ...event.order };
+  delete order.customerName;
+  return { ...event, order };
+}
+
+function rejectUpgrade(socket: Duplex, statusCode: number): void {
+  socket.write(
+    `HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode]}\r\nConnection: close\r\n\r\n`
+  );
+  socket.destroy();
+}
+
+/**
+ * Attach the authenticated order event WebSocket channel to the HTTP server
+ */
+export function attachRealtimeServer(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<RealtimeClient>();
+  const channelPath = `${env.API_PREFIX}${env.WS_PATH}`;
+
+  server.on(
+    'upgrade',
+    async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(request.url || '/', `http://${request.headers.host}`);
+
+      if (url.pathname !== channelPath) {
+        rejectUpgrade(socket, 404);
+        return;
+      }
+
+      try {
+        const token = url.searchParams.get('token');
+        if (!token) {
+          throw ApiError.unauthorized('Access token is required');
+        }
+
+        const user = await resolveUserFromToken(token);
+        if (!roleHasPermissions(user, ['VIEW_ORDERS'])) {
+          throw ApiError.forbidden('Insufficient permissions');
+        }
+
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          const client: RealtimeClient = { socket: ws, user, isAlive: true };
+          clients.add(client);
+
+          ws.on('pong', () => {
+            client.isAlive = true;
+          });
+          ws.on('close', () => {
+            clients.delete(client);
+          });
+
+          logger.debug('Realtime client connected', {
+            userId: user._id,
+            role: user.role,
+          });
+        });
+      } catch (error) {
+        const statusCode = error instanceof ApiError ? error.statusCode : 500;
+        logger.warn('Realtime connection rejected', {
+          statusCode,
+          message: (error as Error).message,
+        });
+        rejectUpgrade(socket, statusCode);
+      }
+    }
+  );
+
+  const unsubscribe = orderEvents.subscribe((event) => {
+    for (const client of clients) {
+      if (client.socket.readyState !== WebSocket.OPEN) continue;
+
+      const scopedEvent = scopeOrderEvent(event, client.user);
+      if (scopedEvent) {
+        client.socket.send(JSON.stringify(scopedEvent));
+      }
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const client of clients) {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  return wss;
+}
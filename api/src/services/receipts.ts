@@ -0,0 +1,585 @@
+import {
+  Discount,
+  Order,
+  OrderCheck,
+  OrderItem,
+  OrderItemModifier,
+  Payment,
+  ReceiptPaperWidth,
+} from '@restaurant-monorepo/shared-types';
+import { getOrderPricing, roundCurrency } from '@restaurant-monorepo/pricing';
+import { env } from '../config/environment';
+import { createTextPdf, MM_TO_POINTS } from '../utils/textPdf';
+
+export interface ReceiptHeader {
+  name: string;
+  address?: string;
+  phone?: string;
+  taxId?: string;
+  footer?: string;
+}
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  modifiers?: string[];
+  specialInstructions?: string;
+  discount?: string;
+}
+
+export interface ReceiptAmount {
+  label: string;
+  amount: number;
+}
+
+export interface ReceiptTender {
+  label: string;
+  amount: number;
+  tip: number;
+  amountTendered?: number;
+  changeGiven?: number;
+}
+
+export interface ReceiptData {
+  header: ReceiptHeader;
+  orderNumber: string;
+  tableNumber: number;
+  customerName?: string;
+  checkLabel?: string;
+  orderedAt: Date;
+  printedAt: Date;
+  copy: boolean;
+  lines: ReceiptLine[];
+  subtotal: number;
+  adjustments: ReceiptAmount[]; // discounts, service charge and taxes
+  total: number;
+  tenders: ReceiptTender[];
+  amountPaid: number;
+  balance: number;
+  currency: string;
+}
+
+// Characters per line with the printer's standard font
+const PAPER_COLUMNS: Record<ReceiptPaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+export const getReceiptHeader = (): ReceiptHeader => ({
+  name: env.RESTAURANT_NAME,
+  address: env.RESTAURANT_ADDRESS || undefined,
+  phone: env.RESTAURANT_PHONE || undefined,
+  taxId: env.RESTAURANT_TAX_ID || undefined,
+  footer: env.RECEIPT_FOOTER || undefined,
+});
+
+const describeDiscount = (discount: Discount) =>
+  (discount.type === 'comp'
+    ? 'Comp'
+    : discount.type === 'percentage'
+    ? `${discount.value}% off`
+    : `${discount.value.toFixed(2)} off`) +
+  (discount.reason ? ` - ${discount.reason}` : '');
+
+const formatCategory = (category?: string) =>
+  category ? ` ${category.replace('_', ' ')}` : '';
+
+const describeModifier = (modifier: OrderItemModifier) =>
+  modifier.priceDelta > 0
+    ? `${modifier.optionName} +${modifier.priceDelta.toFixed(2)}`
+    : modifier.optionName;
+
+const toReceiptLine = (item: OrderItem): ReceiptLine => ({
+  name: item.menuItemName,
+  quantity: item.quantity,
+  unitPrice: item.unitPrice,
+  totalPrice: item.totalPrice,
+  modifiers: item.modifiers?.map(describeModifier),
+  specialInstructions: item.specialInstructions,
+  discount: item.discount ? describeDiscount(item.discount) : undefined,
+});
+
+// A bundle prints as one line at the bundle price, listing the components
+// chosen, even though the kitchen gets a line per component
+const toReceiptLines = (items: OrderItem[]): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const bundles = new Map<string, ReceiptLine>();
+
+  for (const item of items) {
+    if (!item.bundle) {
+      lines.push(toReceiptLine(item));
+      continue;
+    }
+
+    const component = item.modifiers?.length
+      ? `${item.menuItemName} (${item.modifiers
+          .map(describeModifier)
+          .join(', ')})`
+      : item.menuItemName;
+    const discount = item.discount
+      ? `${item.menuItemName}: ${describeDiscount(item.discount)}`
+      : undefined;
+
+    const bundle = bundles.get(item.bundle.instanceId);
+    if (!bundle) {
+      const line: ReceiptLine = {
+        name: item.bundle.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        modifiers: [component],
+        discount,
+      };
+      bundles.set(item.bundle.instanceId, line);
+      lines.push(line);
+      continue;
+    }
+
+    bundle.unitPrice = roundCurrency(bundle.unitPrice + item.unitPrice);
+    bundle.totalPrice = roundCurrency(bundle.totalPrice + item.totalPrice);
+    bundle.modifiers?.push(component);
+    if (discount) {
+      bundle.discount = bundle.discount
+        ? `${bundle.discount}; ${discount}`
+        : discount;
+    }
+  }
+
+  return lines;
+};
+
+const toReceiptTender = (payment: Payment): ReceiptTender => ({
+  label:
+    payment.method === 'cash'
+      ? 'Cash'
+      : `${payment.cardBrand ?? 'Card'}${
+          payment.cardLast4 ? ` ****${payment.cardLast4}` : ''
+        }`,
+  amount: payment.amount,
+  tip: payment.tip ?? 0,
+  amountTendered: payment.amountTendered,
+  changeGiven: payment.changeGiven,
+});
+
+/**
+ * Collect what goes on the receipt for a whole order, or for one of its
+ * checks when the bill is split. Payments should already be limited to the
+ * completed ones for the same order or check.
+ */
+export function buildReceiptData(
+  order: Order & { _id: { toString(): string } },
+  payments: Payment[],
+  options: {
+    check?: OrderCheck & { _id?: { toString(): string } };
+    copy: boolean;
+    printedAt?: Date;
+  }
+): ReceiptData {
+  const { check } = options;
+  const base = {
+    header: getReceiptHeader(),
+    orderNumber: order.orderNumber,
+    tableNumber: order.tableNumber,
+    customerName: order.customerName,
+    orderedAt: order.createdAt,
+    printedAt: options.printedAt ?? new Date(),
+    copy: options.copy,
+    tenders: payments.map(toReceiptTender),
+    currency: env.CURRENCY,
+  };
+
+  if (!check) {
+    const pricing = getOrderPricing(order);
+    const adjustments: ReceiptAmount[] = [];
+
+    if (pricing.lineDiscounts > 0) {
+      adjustments.push({
+        label: 'Item discounts',
+        amount: -pricing.lineDiscounts,
+      });
+    }
+    if (pricing.orderDiscount > 0) {
+      adjustments.push({
+        label: order.discount
+          ? `Discount (${describeDiscount(order.discount)})`
+          : 'Discount',
+        amount: -pricing.orderDiscount,
+      });
+    }
+    if (pricing.serviceCharge > 0) {
+      adjustments.push({
+        label: `Service charge ${pricing.serviceChargeRate}%`,
+        amount: pricing.serviceCharge,
+      });
+    }
+    for (const tax of pricing.taxes) {
+      adjustments.push({
+        label: `Tax${formatCategory(tax.category)} ${tax.rate}%`,
+        amount: tax.tax,
+      });
+    }
+
+    return {
+      ...base,
+      lines: toReceiptLines(order.items),
+      subtotal: pricing.subtotal,
+      adjustments,
+      total: order.total,
+      amountPaid: order.amountPaid ?? 0,
+      balance: roundCurrency(order.total - (order.amountPaid ?? 0)),
+    };
+  }
+
+  // Even shares cover no specific lines, so the share itself is the line
+  const items = order.items as (OrderItem & { _id?: { toString(): string } })[];
+  const checkItems = items.filter((item) =>
+    check.itemIds.includes(item._id?.toString() ?? '')
+  );
+  const lines =
+    checkItems.length > 0
+      ? toReceiptLines(checkItems)
+      : [
+          {
+            name: `${check.label} of ${order.orderNumber}`,
+            quantity: 1,
+            unitPrice: check.subtotal,
+            totalPrice: check.subtotal,
+          },
+        ];
+
+  const subtotal = roundCurrency(
+    lines.reduce((sum, line) => sum + line.totalPrice, 0)
+  );
+  const adjustments: ReceiptAmount[] = [];
+
+  if (subtotal > check.subtotal) {
+    adjustments.push({
+      label: 'Discounts',
+      amount: roundCurrency(check.subtotal - subtotal),
+    });
+  }
+  if (check.serviceCharge > 0) {
+    adjustments.push({ label: 'Service charge', amount: check.serviceCharge });
+  }
+  if (check.tax > 0) {
+    adjustments.push({ label: 'Tax', amount: check.tax });
+  }
+
+  return {
+    ...base,
+    checkLabel: check.label,
+    lines,
+    subtotal,
+    adjustments,
+    total: check.total,
+    amountPaid: check.amountPaid,
+    balance: roundCurrency(check.total - check.amountPaid),
+  };
+}
+
+// ----- Plain text (thermal printers) -----
+
+const formatAmount = (amount: number) =>
+  amount < 0 ? `-${Math.abs(amount).toFixed(2)}` : amount.toFixed(2);
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleString('en-US', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+
+    while (current.length > width) {
+      lines.push(current.slice(0, width));
+      current = current.slice(width);
+    }
+  }
+
+  return current ? [...lines, current] : lines;
+}
+
+const center = (text: string, width: number) =>
+  wrap(text, width).map((line) =>
+    line.padStart(Math.floor((width + line.length) / 2)).trimEnd()
+  );
+
+/**
+ * Label on the left and amount on the right; long labels wrap above the line
+ * carrying the amount
+ */
+function row(label: string, amount: string, width: number): string[] {
+  const labelWidth = width - amount.length - 1;
+  const indent = label.match(/^\s*/)?.[0] ?? '';
+  const labelLines = wrap(label, labelWidth - indent.length).map(
+    (text) => indent + text
+  );
+  const last = labelLines.pop() ?? '';
+  return [...labelLines, `${last.padEnd(labelWidth)} ${amount}`];
+}
+
+/**
+ * Plain-text receipt laid out for a 58mm or 80mm thermal printer
+ */
+export function renderTextReceipt(
+  receipt: ReceiptData,
+  paperWidth: ReceiptPaperWidth = 80
+): string {
+  const width = PAPER_COLUMNS[paperWidth];
+  const rule = (char: string) => char.repeat(width);
+  const { header } = receipt;
+  const out: string[] = [];
+
+  if (receipt.copy) {
+    out.push(...center('*** COPY ***', width), '');
+  }
+
+  out.push(...center(header.name.toUpperCase(), width));
+  if (header.address) out.push(...center(header.address, width));
+  if (header.phone) out.push(...center(`Tel: ${header.phone}`, width));
+  if (header.taxId) out.push(...center(`Tax ID: ${header.taxId}`, width));
+  out.push(rule('='));
+
+  out.push(`Order: ${receipt.orderNumber}`);
+  out.push(
+    `Table: ${receipt.tableNumber}` +
+      (receipt.checkLabel ? `  Check: ${receipt.checkLabel}` : '')
+  );
+  if (receipt.customerName)
+    out.push(...wrap(`Guest: ${receipt.customerName}`, width));
+  out.push(`Date: ${formatDate(receipt.orderedAt)}`);
+  out.push(rule('-'));
+
+  for (const line of receipt.lines) {
+    out.push(
+      ...row(
+        `${line.quantity} x ${line.name}`,
+        formatAmount(line.totalPrice),
+        width
+      )
+    );
+    if (line.quantity > 1) {
+      out.push(`    @ ${formatAmount(line.unitPrice)}`);
+    }
+    for (const modifier of line.modifiers ?? []) {
+      out.push(...wrap(modifier, width - 4).map((text) => `  + ${text}`));
+    }
+    if (line.specialInstructions) {
+      out.push(
+        ...wrap(line.specialInstructions, width - 4).map(
+          (text) => `  > ${text}`
+        )
+      );
+    }
+    if (line.discount) {
+      out.push(...wrap(line.discount, width - 2).map((text) => `  ${text}`));
+    }
+  }
+  out.push(rule('-'));
+
+  out.push(...row('Subtotal', formatAmount(receipt.subtotal), width));
+  for (const adjustment of receipt.adjustments) {
+    out.push(...row(adjustment.label, formatAmount(adjustment.amount), width));
+  }
+  out.push(
+    ...row(`TOTAL ${receipt.currency}`, formatAmount(receipt.total), width)
+  );
+
+  if (receipt.tenders.length > 0) {
+    out.push(rule('-'));
+    for (const tender of receipt.tenders) {
+      out.push(...row(tender.label, formatAmount(tender.amount), width));
+      if (tender.tip > 0) {
+        out.push(...row('  Tip', formatAmount(tender.tip), width));
+      }
+      if (tender.amountTendered !== undefined) {
+        out.push(
+          ...row('  Tendered', formatAmount(tender.amountTendered), width)
+        );
+        out.push(
+          ...row('  Change', formatAmount(tender.changeGiven ?? 0), width)
+        );
+      }
+    }
+  }
+
+  out.push(rule('-'));
+  out.push(...row('Paid', formatAmount(receipt.amountPaid), width));
+  out.push(...row('Balance due', formatAmount(receipt.balance), width));
+  out.push(rule('='));
+
+  if (header.footer) out.push(...center(header.footer, width));
+  out.push(...center(`Printed ${formatDate(receipt.printedAt)}`, width));
+  if (receipt.copy) {
+    out.push('', ...center('*** COPY ***', width));
+  }
+
+  return `${out.join('\n')}\n`;
+}
+
+// ----- HTML (email and web) -----
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Standalone HTML receipt with inline styles so it survives email clients
+ */
+export function renderHtmlReceipt(receipt: ReceiptData): string {
+  const money = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: receipt.currency,
+  });
+  const { header } = receipt;
+  const amountRow = (label: string, amount: number, style = '') =>
+    `<tr style="${style}"><td>${escapeHtml(
+      label
+    )}</td><td style="text-align:right">${money.format(amount)}</td></tr>`;
+
+  const copyBanner = receipt.copy
+    ? '<p style="text-align:center;font-weight:bold;letter-spacing:2px;border:1px dashed #000;padding:4px">COPY</p>'
+    : '';
+
+  const lines = receipt.lines
+    .map(
+      (line) =>
+        `<tr><td>${line.quantity} &times; ${escapeHtml(line.name)}` +
+        (line.quantity > 1
+          ? `<div style="color:#666;font-size:12px">@ ${money.format(
+              line.unitPrice
+            )}</div>`
+          : '') +
+        (line.modifiers ?? [])
+          .map(
+            (modifier) =>
+              `<div style="color:#666;font-size:12px">+ ${escapeHtml(
+                modifier
+              )}</div>`
+          )
+          .join('') +
+        (line.specialInstructions
+          ? `<div style="color:#666;font-size:12px">${escapeHtml(
+              line.specialInstructions
+            )}</div>`
+          : '') +
+        (line.discount
+          ? `<div style="color:#15803d;font-size:12px">${escapeHtml(
+              line.discount
+            )}</div>`
+          : '') +
+        `</td><td style="text-align:right;vertical-align:top">${money.format(
+          line.totalPrice
+        )}</td></tr>`
+    )
+    .join('');
+
+  const tenders = receipt.tenders
+    .map(
+      (tender) =>
+        amountRow(tender.label, tender.amount) +
+        (tender.tip > 0 ? amountRow('Tip', tender.tip, 'color:#666') : '') +
+        (tender.amountTendered !== undefined
+          ? amountRow('Tendered', tender.amountTendered, 'color:#666') +
+            amountRow('Change', tender.changeGiven ?? 0, 'color:#666')
+          : '')
+    )
+    .join('');
+
+  const divider =
+    '<tr><td colspan="2"><hr style="border:0;border-top:1px dashed #999"></td></tr>';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(receipt.orderNumber)}${
+    receipt.copy ? ' (copy)' : ''
+  }</title>
+</head>
+<body style="font-family:Helvetica,Arial,sans-serif;font-size:14px;color:#111;max-width:360px;margin:0 auto;padding:16px">
+${copyBanner}
+<div style="text-align:center">
+<h1 style="font-size:20px;margin:0 0 4px">${escapeHtml(header.name)}</h1>
+${header.address ? `<div>${escapeHtml(header.address)}</div>` : ''}
+${header.phone ? `<div>Tel: ${escapeHtml(header.phone)}</div>` : ''}
+${header.taxId ? `<div>Tax ID: ${escapeHtml(header.taxId)}</div>` : ''}
+</div>
+<p style="margin:16px 0 8px">
+Order <strong>${escapeHtml(receipt.orderNumber)}</strong> &middot; Table ${
+    receipt.tableNumber
+  }${
+    receipt.checkLabel ? ` &middot; ${escapeHtml(receipt.checkLabel)}` : ''
+  }<br>
+${
+  receipt.customerName ? `${escapeHtml(receipt.customerName)}<br>` : ''
+}${escapeHtml(formatDate(receipt.orderedAt))}
+</p>
+<table style="width:100%;border-collapse:collapse">
+${lines}
+${divider}
+${amountRow('Subtotal', receipt.subtotal)}
+${receipt.adjustments
+  .map((adjustment) => amountRow(adjustment.label, adjustment.amount))
+  .join('')}
+${amountRow('Total', receipt.total, 'font-weight:bold;font-size:16px')}
+${tenders ? divider + tenders : ''}
+${divider}
+${amountRow('Paid', receipt.amountPaid)}
+${amountRow('Balance due', receipt.balance, 'font-weight:bold')}
+</table>
+${
+  header.footer
+    ? `<p style="text-align:center;margin-top:16px">${escapeHtml(
+        header.footer
+      )}</p>`
+    : ''
+}
+<p style="text-align:center;color:#666;font-size:12px">Printed ${escapeHtml(
+    formatDate(receipt.printedAt)
+  )}</p>
+${copyBanner}
+</body>
+</html>
+`;
+}
+
+// ----- PDF -----
+
+/**
+ * PDF of the thermal layout on a page as wide as the paper roll
+ */
+export function renderPdfReceipt(
+  receipt: ReceiptData,
+  paperWidth: ReceiptPaperWidth = 80
+): Buffer {
+  const text = renderTextReceipt(receipt, paperWidth);
+  const pageWidth = paperWidth * MM_TO_POINTS;
+  const margin = 8;
+
+  return createTextPdf(text.trimEnd().split('\n'), {
+    pageWidth,
+    margin,
+    // Size the font so the printer's columns span the page
+    fontSize: (pageWidth - margin * 2) / (PAPER_COLUMNS[paperWidth] * 0.6),
+    title: `Receipt ${receipt.orderNumber}${receipt.copy ? ' (copy)' : ''}`,
+  });
+}
@@ -0,0 +1,67 @@
+import { OrderModel } from '@restaurant-monorepo/database';
+import { buildOrder, orderLine } from '../testing/fixtures';
+import { mockDocuments } from '../testing/mocks';
+import { buildCategoryMix, buildItemSalesReport, ReportRange } from './reports';
+
+const range: ReportRange = {
+  from: new Date('2026-10-01T00:00:00Z'),
+  to: new Date('2026-11-01T00:00:00Z'),
+  timezone: 'UTC',
+};
+
+describe('item and category reports', () => {
+  beforeEach(() => {
+    // 10% off, and one of the two burgers was refunded
+    const discounted = buildOrder(
+      [
+        orderLine('Burger', 10, { quantity: 2 }),
+        orderLine('Fries', 5, { category: 'appetizer' }),
+      ],
+      { discount: { type: 'percentage', value: 10 } }
+    );
+    const [burger, fries] = discounted.items as ReturnType<typeof orderLine>[];
+    Object.assign(burger, { refundedQuantity: 1 });
+
+    const fullPrice = buildOrder([
+      { ...orderLine('Burger', 10), menuItemId: burger.menuItemId },
+    ]);
+    const refunded = buildOrder([
+      {
+        ...orderLine('Fries', 5, { category: 'appetizer' }),
+        menuItemId: fries.menuItemId,
+      },
+    ]);
+    Object.assign((refunded.items as object[])[0], { refundedQuantity: 1 });
+
+    mockDocuments(OrderModel, [discounted, fullPrice, refunded]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count what each item brought in after discounts and refunds', async () => {
+    const report = await buildItemSalesReport(range, 10);
+
+    expect(
+      report.topByRevenue.map(({ menuItemName, quantity, revenue }) => [
+        menuItemName,
+        quantity,
+        revenue,
+      ])
+    ).toEqual([
+      ['Burger', 2, 19],
+      ['Fries', 1, 4.5],
+    ]);
+    expect(report.bottomByQuantity[0]).toMatchObject({ menuItemName: 'Fries' });
+  });
+
+  it('should split revenue by category the same way', async () => {
+    const mix = await buildCategoryMix(range);
+
+    expect(mix).toEqual([
+      { category: 'main_course', quantity: 2, revenue: 19, share: 80.9 },
+      { category: 'appetizer', quantity: 1, revenue: 4.5, share: 19.1 },
+    ]);
+  });
+});
@@ -0,0 +1,347 @@
+import { PipelineStage } from 'mongoose';
+import { OrderModel } from '@restaurant-monorepo/database';
+import {
+  CategoryMixRow,
+  HeatmapCell,
+  ItemSalesReport,
+  ItemSalesRow,
+  MenuCategory,
+  Order,
+  ReportGranularity,
+  ReportQuery,
+  SalesReport,
+  SalesTotals,
+} from '@restaurant-monorepo/shared-types';
+import { roundCurrency } from '@restaurant-monorepo/pricing';
+import { env } from '../config/environment';
+import { getLineShareCents } from './orderPricing';
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+  timezone: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at the given instant
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((candidate) => candidate.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Midnight at the start of a calendar date in the given timezone
+ */
+function startOfDay(date: string, timezone: string, addDays = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day + addDays);
+
+  // Check the offset again in case midnight falls across a DST change
+  const guess =
+    utcMidnight - getTimezoneOffset(new Date(utcMidnight), timezone);
+  return new Date(utcMidnight - getTimezoneOffset(new Date(guess), timezone));
+}
+
+/**
+ * Start of a range boundary. A plain date means midnight at the start of that
+ * day in the timezone.
+ */
+export function toRangeStart(value: string, timezone: string): Date {
+  return DATE_ONLY.test(value) ? startOfDay(value, timezone) : new Date(value);
+}
+
+/**
+ * Exclusive end of a range boundary. A plain date includes the whole day.
+ */
+export function toRangeEnd(value: string, timezone: string): Date {
+  return DATE_ONLY.test(value)
+    ? startOfDay(value, timezone, 1)
+    : new Date(value);
+}
+
+/**
+ * Turn report query strings into the range to aggregate. Plain dates are
+ * whole days in the report timezone, so a plain `to` includes that day.
+ */
+export function getReportRange(query: ReportQuery): ReportRange {
+  const timezone = query.timezone || env.REPORT_TIMEZONE;
+
+  return {
+    from: toRangeStart(query.from, timezone),
+    to: toRangeEnd(query.to, timezone),
+    timezone,
+  };
+}
+
+// What an order brought in: nothing if it was voided, less any refunds
+export const netRevenueExpression = {
+  $cond: [
+    { $eq: ['$status', 'cancelled'] },
+    null,
+    { $subtract: ['$total', { $ifNull: ['$amountRefunded', 0] }] },
+  ],
+};
+
+const matchCompletedSales = (range: ReportRange): PipelineStage.Match => ({
+  $match: {
+    createdAt: { $gte: range.from, $lt: range.to },
+    status: { $ne: 'cancelled' },
+  },
+});
+
+const salesTotalsGroup = {
+  revenue: { $sum: '$netRevenue' },
+  orders: { $sum: 1 },
+  refunds: { $sum: { $ifNull: ['$amountRefunded', 0] } },
+};
+
+interface SalesTotalsGroupResult {
+  revenue: number;
+  orders: number;
+  refunds: number;
+}
+
+function toSalesTotals(group?: SalesTotalsGroupResult): SalesTotals {
+  const revenue = roundCurrency(group?.revenue ?? 0);
+  const orders = group?.orders ?? 0;
+
+  return {
+    revenue,
+    orders,
+    averageTicket: orders > 0 ? roundCurrency(revenue / orders) : 0,
+    refunds: roundCurrency(group?.refunds ?? 0),
+  };
+}
+
+/**
+ * Revenue, order count and average ticket for the range, overall and per
+ * period. Periods without orders are left out of the series.
+ */
+export async function buildSalesReport(
+  range: ReportRange,
+  granularity: ReportGranularity
+): Promise<SalesReport> {
+  const [result] = await OrderModel.aggregate<{
+    totals: SalesTotalsGroupResult[];
+    series: (SalesTotalsGroupResult & { _id: Date })[];
+  }>([
+    matchCompletedSales(range),
+    { $addFields: { netRevenue: netRevenueExpression } },
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, ...salesTotalsGroup } }],
+        series: [
+          {
+            $group: {
+              _id: {
+                $dateTrunc: {
+                  date: '$createdAt',
+                  unit: granularity,
+                  timezone: range.timezone,
+                  startOfWeek: 'monday',
+                },
+              },
+              ...salesTotalsGroup,
+            },
+          },
+          { $sort: { _id: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  return {
+    granularity,
+    timezone: range.timezone,
+    totals: toSalesTotals(result?.totals[0]),
+    series: (result?.series ?? []).map((point) => ({
+      period: point._id.toISOString(),
+      ...toSalesTotals(point),
+    })),
+  };
+}
+
+interface SoldLine {
+  menuItemId: string;
+  menuItemName: string;
+  category?: MenuCategory;
+  quantity: number;
+  revenueCents: number;
+}
+
+/**
+ * Order lines sold in the range, oldest first, with the units not refunded
+ * and what those units brought in. A line's revenue is its share of the
+ * order total, the same share refunds are worked out from, so it is net of
+ * discounts and includes tax and gratuity like the sales report.
+ */
+async function getSoldLines(range: ReportRange): Promise<SoldLine[]> {
+  const orders = await OrderModel.find(
+    matchCompletedSales(range).$match,
+    'items discount partySize total'
+  )
+    .sort({ createdAt: 1 })
+    .lean<Pick<Order, 'items' | 'discount' | 'partySize' | 'total'>[]>();
+
+  return orders.flatMap((order) => {
+    const shares = getLineShareCents(order);
+
+    return order.items.flatMap((item, index) => {
+      const quantity = item.quantity - (item.refundedQuantity || 0);
+      if (quantity <= 0) return [];
+
+      return [
+        {
+          menuItemId: String(item.menuItemId),
+          menuItemName: item.menuItemName,
+          category: item.category,
+          quantity,
+          revenueCents: Math.round((shares[index] * quantity) / item.quantity),
+        },
+      ];
+    });
+  });
+}
+
+/**
+ * Add up sold lines by key. Names and categories come from the latest sale.
+ */
+function groupSoldLines(lines: SoldLine[], key: (line: SoldLine) => string) {
+  const groups = new Map<string, SoldLine>();
+
+  for (const line of lines) {
+    const group = groups.get(key(line));
+    groups.set(key(line), {
+      ...line,
+      quantity: (group?.quantity ?? 0) + line.quantity,
+      revenueCents: (group?.revenueCents ?? 0) + line.revenueCents,
+    });
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Best and worst selling menu items by quantity and by revenue
+ */
+export async function buildItemSalesReport(
+  range: ReportRange,
+  limit: number
+): Promise<ItemSalesReport> {
+  const items: ItemSalesRow[] = groupSoldLines(
+    await getSoldLines(range),
+    (line) => line.menuItemId
+  ).map(({ revenueCents, ...item }) => ({
+    ...item,
+    revenue: revenueCents / 100,
+  }));
+
+  const ranked = (field: 'quantity' | 'revenue', direction: 1 | -1) =>
+    [...items]
+      .sort(
+        (a, b) =>
+          (a[field] - b[field]) * direction ||
+          a.menuItemName.localeCompare(b.menuItemName)
+      )
+      .slice(0, limit);
+
+  return {
+    topByQuantity: ranked('quantity', -1),
+    topByRevenue: ranked('revenue', -1),
+    bottomByQuantity: ranked('quantity', 1),
+    bottomByRevenue: ranked('revenue', 1),
+  };
+}
+
+/**
+ * Quantity and revenue sold per menu category, with each category's share
+ */
+export async function buildCategoryMix(
+  range: ReportRange
+): Promise<CategoryMixRow[]> {
+  const groups = groupSoldLines(
+    await getSoldLines(range),
+    (line) => line.category ?? 'uncategorized'
+  ).sort((a, b) => b.revenueCents - a.revenueCents);
+
+  const totalCents = groups.reduce((sum, group) => sum + group.revenueCents, 0);
+
+  return groups.map((group) => ({
+    category: group.category ?? 'uncategorized',
+    quantity: group.quantity,
+    revenue: group.revenueCents / 100,
+    share:
+      totalCents > 0
+        ? Math.round((group.revenueCents / totalCents) * 1000) / 10
+        : 0,
+  }));
+}
+
+/**
+ * Orders and revenue by weekday and hour of day in the report timezone.
+ * Only hours with orders are returned.
+ */
+export async function buildHourlyHeatmap(
+  range: ReportRange
+): Promise<HeatmapCell[]> {
+  const cells = await OrderModel.aggregate<{
+    _id: { dayOfWeek: number; hour: number };
+    orders: number;
+    revenue: number;
+  }>([
+    matchCompletedSales(range),
+    { $addFields: { netRevenue: netRevenueExpression } },
+    {
+      $group: {
+        _id: {
+          dayOfWeek: {
+            $isoDayOfWeek: { date: '$createdAt', timezone: range.timezone },
+          },
+          hour: { $hour: { date: '$createdAt', timezone: range.timezone } },
+        },
+        orders: { $sum: 1 },
+        revenue: { $sum: '$netRevenue' },
+      },
+    },
+    { $sort: { '_id.dayOfWeek': 1, '_id.hour': 1 } },
+  ]);
+
+  return cells.map((cell) => ({
+    dayOfWeek: cell._id.dayOfWeek,
+    hour: cell._id.hour,
+    orders: cell.orders,
+    revenue: roundCurrency(cell.revenue),
+  }));
+}
@@ -0,0 +1,62 @@
+import {
+  MenuItemModel,
+  OrderModel,
+  mongoose,
+} from '@restaurant-monorepo/database';
+import { MenuCategory, Order } from '@restaurant-monorepo/shared-types';
+import { priceOrderLines } from '../services/orderPricing';
+import { StoredDocument } from './mocks';
+
+/**
+ * One order line for a menu item that is never loaded
+ */
+export function orderLine(
+  menuItemName: string,
+  unitPrice: number,
+  fields: { quantity?: number; category?: MenuCategory; seat?: number } = {}
+) {
+  const quantity = fields.quantity ?? 1;
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    menuItemId: new mongoose.Types.ObjectId(),
+    menuItemName,
+    category: fields.category ?? 'main_course',
+    quantity,
+    unitPrice,
+    totalPrice: unitPrice * quantity,
+    seat: fields.seat,
+  };
+}
+
+/**
+ * A stored order priced with the current pricing config
+ */
+export function buildOrder(
+  items: ReturnType<typeof orderLine>[],
+  fields: Partial<Omit<Order, 'items'>> = {}
+) {
+  const { breakdown } = priceOrderLines(items, fields);
+  return new OrderModel({
+    orderNumber: 'ORD-20261019-001',
+    tableNumber: 5,
+    items,
+    pricing: breakdown,
+    total: breakdown.total,
+    createdBy: new mongoose.Types.ObjectId(),
+    ...fields,
+  }).toObject<StoredDocument>();
+}
+
+/**
+ * A stored, published menu item
+ */
+export function menuItem(name: string, fields: Record<string, unknown> = {}) {
+  return new MenuItemModel({
+    name,
+    description: `${name}, made fresh`,
+    price: 10,
+    category: 'main_course',
+    prepTime: 10,
+    ...fields,
+  }).toObject<StoredDocument>();
+}
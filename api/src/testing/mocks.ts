@@ -0,0 +1,229 @@
+import { UserModel, mongoose } from '@restaurant-monorepo/database';
+import { UserRole } from '@restaurant-monorepo/shared-types';
+import { generateToken } from '../middleware/auth';
+
+/**
+ * Stand-in for a mongoose query. Chained calls like populate, select or sort
+ * return the same query, and awaiting it (or calling exec) gives the result.
+ * Typed as never so it can be returned wherever a model expects a query.
+ */
+export function mockQuery<T>(result: T): never {
+  const query: object = new Proxy(
+    {},
+    {
+      get: (_, property) => {
+        if (property === 'then') {
+          const promise = Promise.resolve(result);
+          return promise.then.bind(promise);
+        }
+        if (property === 'exec') return () => Promise.resolve(result);
+        return () => query;
+      },
+    }
+  );
+  return query as never;
+}
+
+export type StoredDocument = Record<string, unknown> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+// The update operators mockDocuments applies; other keys are set as they are
+type Update = Record<string, unknown> & {
+  $set?: Record<string, unknown>;
+  $unset?: Record<string, unknown>;
+  $inc?: Record<string, number>;
+  $push?: Record<string, unknown>;
+};
+
+/**
+ * Values a path reaches, stepping into arrays the way MongoDB does: a numeric
+ * key picks one element, any other key looks inside every element, and an
+ * array at the end of the path also offers each of its elements
+ */
+function valuesAt(value: unknown, keys: string[]): unknown[] {
+  const [key, ...rest] = keys;
+  if (Array.isArray(value)) {
+    if (key === undefined) return [value, ...value];
+    return /^\d+$/.test(key)
+      ? valuesAt(value[Number(key)], rest)
+      : value.flatMap((element) => valuesAt(element, keys));
+  }
+  if (key === undefined) return [value];
+  if (value === null || typeof value !== 'object') return [undefined];
+  return valuesAt((value as Record<string, unknown>)[key], rest);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof mongoose.Types.ObjectId) {
+    return String(actual) === expected.toString();
+  }
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime();
+  }
+  if (expected === null) return actual === null || actual === undefined;
+  if (typeof expected === 'object') {
+    const { $exists, $in } = expected as {
+      $exists?: boolean;
+      $in?: unknown[];
+    };
+    if ($exists !== undefined) return (actual !== undefined) === $exists;
+    if ($in) return $in.some((value) => String(value) === String(actual));
+    return true;
+  }
+  // Ids can be given as strings
+  if (actual instanceof mongoose.Types.ObjectId) {
+    return actual.toString() === String(expected);
+  }
+  return actual === expected;
+}
+
+/**
+ * Does a stored document match a filter? Plain values, ids, dates, $exists,
+ * $in and $ne are compared, on nested paths and into arrays too; other
+ * operators such as $or are ignored.
+ */
+function matchesFilter(
+  stored: StoredDocument,
+  filter: Record<string, unknown> = {}
+): boolean {
+  return Object.entries(filter).every(([path, expected]) => {
+    if (path.startsWith('$')) return true;
+
+    const values = valuesAt(stored, path.split('.'));
+    if (values.length === 0) values.push(undefined);
+
+    // $ne only holds when none of the values match
+    if (isPlainObject(expected) && '$ne' in expected) {
+      return !values.some((actual) => matchesValue(actual, expected.$ne));
+    }
+    return values.some((actual) => matchesValue(actual, expected));
+  });
+}
+
+/**
+ * jest.spyOn without the method's types. Model methods are overloaded and
+ * jest only types a spy from the last overload, so implementations are
+ * checked against their own signatures instead.
+ */
+export function spyOnModel<M extends object>(
+  model: M,
+  method: jest.FunctionPropertyNames<Required<M>>
+): jest.SpyInstance {
+  return jest.spyOn(model, method);
+}
+
+/**
+ * Keep a model's documents in memory behind find, findById, findOne, exists,
+ * findOneAndUpdate and updateOne. Filters are matched loosely (see
+ * matchesFilter), and updates support $set, $unset, $inc and $push. Updates are
+ * cast by mongoose, so new subdocuments get ids as they would when saved.
+ */
+export function mockDocuments<T>(
+  Model: mongoose.Model<T>,
+  documents: StoredDocument[]
+): Map<string, StoredDocument> {
+  const store = new Map(documents.map((doc) => [doc._id.toString(), doc]));
+  const load = (filter?: Record<string, unknown>) => {
+    const stored = [...store.values()].find((doc) =>
+      matchesFilter(doc, filter)
+    );
+    return stored ? Model.hydrate(stored) : null;
+  };
+  const update = (filter: Record<string, unknown>, changes: Update) => {
+    const doc = load(filter);
+    if (!doc) return null;
+
+    const {
+      $set = {},
+      $unset = {},
+      $inc = {},
+      $push = {},
+      ...fields
+    } = changes;
+    doc.set({ ...fields, ...$set });
+    for (const path of Object.keys($unset)) doc.set(path, undefined);
+    for (const [path, by] of Object.entries<number>($inc)) {
+      doc.set(path, (doc.get(path) ?? 0) + by);
+    }
+    for (const [path, value] of Object.entries($push)) {
+      doc.set(path, [...(doc.get(path) ?? []), value]);
+    }
+    store.set(doc.id, doc.toObject() as StoredDocument);
+    return doc;
+  };
+
+  spyOnModel(Model, 'find').mockImplementation(
+    (filter?: Record<string, unknown>) =>
+      mockQuery(
+        [...store.values()]
+          .filter((doc) => matchesFilter(doc, filter))
+          .map((doc) => Model.hydrate(doc))
+      )
+  );
+  spyOnModel(Model, 'findById').mockImplementation((id: unknown) =>
+    mockQuery(load({ _id: id }))
+  );
+  spyOnModel(Model, 'findOne').mockImplementation(
+    (filter?: Record<string, unknown>) => mockQuery(load(filter))
+  );
+  spyOnModel(Model, 'exists').mockImplementation(
+    (filter: Record<string, unknown>) => {
+      const doc = load(filter);
+      return mockQuery(doc ? { _id: doc._id } : null);
+    }
+  );
+  spyOnModel(Model, 'findOneAndUpdate').mockImplementation(
+    (filter: Record<string, unknown>, changes: Update) =>
+      mockQuery(update(filter, changes))
+  );
+  spyOnModel(Model, 'updateOne').mockImplementation(
+    (filter: Record<string, unknown>, changes: Update) => {
+      const count = update(filter, changes) ? 1 : 0;
+      return mockQuery({ matchedCount: count, modifiedCount: count });
+    }
+  );
+
+  return store;
+}
+
+/**
+ * Make UserModel.findById return these users, so the real authenticate
+ * middleware accepts tokens for them
+ */
+export function mockUsers(...users: InstanceType<typeof UserModel>[]) {
+  return jest
+    .spyOn(UserModel, 'findById')
+    .mockImplementation((id: unknown) =>
+      mockQuery(users.find((user) => user.id === String(id)) ?? null)
+    );
+}
+
+/**
+ * An active user with the given role, unsaved
+ */
+export function buildUser(
+  role: UserRole,
+  fields: Record<string, unknown> = {}
+) {
+  return new UserModel({
+    name: `Test ${role}`,
+    email: `${role}@example.com`,
+    password: 'password',
+    role,
+    isActive: true,
+    ...fields,
+  });
+}
+
+/**
+ * Authorization header for a user
+ */
+export function authHeader(user: InstanceType<typeof UserModel>) {
+  return { Authorization: `Bearer ${generateToken(user.id)}` };
+}
@@ -0,0 +1,60 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Router } from 'express';
+import { errorHandler } from '../middleware/errorHandler';
+
+export interface TestServer {
+  server: Server;
+  url: string;
+  request: (
+    method: string,
+    path: string,
+    options?: { body?: unknown; headers?: Record<string, string> }
+  ) => Promise<{ status: number; body: any }>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve routers the way main.ts mounts them, on a free local port
+ */
+export async function startTestServer(
+  routes: Record<string, Router>
+): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  for (const [path, router] of Object.entries(routes)) {
+    app.use(path, router);
+  }
+  app.use(errorHandler);
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    server,
+    url,
+    request: async (method, path, { body, headers = {} } = {}) => {
+      const response = await fetch(`${url}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      const isJson = response.headers
+        .get('content-type')
+        ?.includes('application/json');
+      return {
+        status: response.status,
+        body: isJson ? JSON.parse(text) : text,
+      };
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,2 @@
+// Keep request and error logs out of the test output
+jest.mock('../utils/logger');
@@ -17,6 +17,10 @@ export class ApiError extends Error {
     return new ApiError(message, 401);
   }
 
+  static paymentRequired(message = 'Payment Required') {
+    return new ApiError(message, 402);
+  }
+
   static forbidden(message = 'Forbidden') {
     return new ApiError(message, 403);
   }
@@ -29,6 +33,14 @@ export class ApiError extends Error {
     return new ApiError(message, 409);
   }
 
+  static payloadTooLarge(message = 'Payload Too Large') {
+    return new ApiError(message, 413);
+  }
+
+  static tooManyRequests(message = 'Too Many Requests') {
+    return new ApiError(message, 429);
+  }
+
   static internal(message = 'Internal Server Error') {
     return new ApiError(message, 500, false);
   }
@@ -0,0 +1,54 @@
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('name,price\nSoup,6\nSalad,9')).toEqual([
+      ['name', 'price'],
+      ['Soup', '6'],
+      ['Salad', '9'],
+    ]);
+  });
+
+  it('should keep commas, line breaks and doubled quotes inside quotes', () => {
+    expect(
+      parseCsv(
+        'name,description\n"Soup, of the day","Ask your ""server""\nfor today\'s"'
+      )
+    ).toEqual([
+      ['name', 'description'],
+      ['Soup, of the day', 'Ask your "server"\nfor today\'s'],
+    ]);
+  });
+
+  it('should read CRLF line endings, keeping quoted line breaks as written', () => {
+    expect(parseCsv('name,description\r\nSoup,"Hot\r\nand fresh"\r\n')).toEqual(
+      [
+        ['name', 'description'],
+        ['Soup', 'Hot\r\nand fresh'],
+      ]
+    );
+  });
+
+  it('should ignore a byte order mark at the start', () => {
+    expect(parseCsv('\ufeffname\nSoup')).toEqual([['name'], ['Soup']]);
+  });
+
+  it('should keep empty fields and skip blank lines', () => {
+    expect(parseCsv('a,b,c\n\n,,\n1,,3\n\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['', '', ''],
+      ['1', '', '3'],
+    ]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('name,description\nSoup,"Hot and fresh')).toThrow(
+      'CSV has an unterminated quoted field'
+    );
+  });
+
+  it('should return no rows for empty text', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('\ufeff\r\n')).toEqual([]);
+  });
+});
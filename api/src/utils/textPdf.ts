@@ -0,0 +1,110 @@
+export interface TextPdfOptions {
+  /** Page width in points (1mm = 2.835pt) */
+  pageWidth: number;
+  /** Page height in points; omit to fit every line on a single page */
+  pageHeight?: number;
+  fontSize?: number;
+  margin?: number;
+  title?: string;
+}
+
+export const MM_TO_POINTS = 72 / 25.4;
+
+/**
+ * Escape a line for a PDF string literal. Characters outside Latin-1 have no
+ * glyph in the standard fonts and are replaced.
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Render preformatted lines of text as a PDF in Courier. Lines are not
+ * wrapped, so lay them out for the page width first.
+ */
+export function createTextPdf(
+  lines: string[],
+  options: TextPdfOptions
+): Buffer {
+  const fontSize = options.fontSize ?? 9;
+  const margin = options.margin ?? 12;
+  const leading = fontSize * 1.2;
+  const pageHeight =
+    options.pageHeight ?? Math.max(lines.length, 1) * leading + margin * 2;
+  const linesPerPage = Math.max(
+    1,
+    Math.floor((pageHeight - margin * 2) / leading)
+  );
+
+  const pages: string[][] = [];
+  for (let index = 0; index < lines.length; index += linesPerPage) {
+    pages.push(lines.slice(index, index + linesPerPage));
+  }
+  if (pages.length === 0) {
+    pages.push([]);
+  }
+
+  // Objects 1-3 are the catalog, page tree and font; each page then takes a
+  // page object followed by its content stream
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+
+  for (const pageLines of pages) {
+    const stream = [
+      'BT',
+      `/F1 ${formatNumber(fontSize)} Tf`,
+      `${formatNumber(leading)} TL`,
+      `${formatNumber(margin)} ${formatNumber(
+        pageHeight - margin - fontSize
+      )} Td`,
+      ...pageLines.map((line) => `(${escapePdfText(line)}) Tj T*`),
+      'ET',
+    ].join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(
+        options.pageWidth
+      )} ${formatNumber(
+        pageHeight
+      )}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${
+        objects.length + 2
+      } 0 R >>`,
+      `<< /Length ${Buffer.byteLength(
+        stream,
+        'latin1'
+      )} >>\nstream\n${stream}\nendstream`
+    );
+  }
+
+  if (options.title) {
+    objects.push(`<< /Title (${escapePdfText(options.title)}) >>`);
+  }
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+    .join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${
+    options.title ? ` /Info ${objects.length} 0 R` : ''
+  } >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,186 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { crc32, createDeflateRaw, deflateRawSync } from 'zlib';
+
+interface ZipEntry {
+  name: Buffer;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// General purpose flags: sizes follow the data (bit 3), UTF-8 names (bit 11)
+const STREAMED_FLAGS = 0x0808;
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+
+/**
+ * DOS date and time of the archive's entries
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Writes a zip archive straight to a stream, one file at a time, so large
+ * files never have to be held in memory. Archives are limited to 4 GB.
+ */
+export class ZipStreamWriter {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private modified = toDosDateTime(new Date());
+
+  constructor(private output: Writable) {}
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    if (!this.output.write(chunk)) {
+      await once(this.output, 'drain');
+    }
+  }
+
+  private localHeader(
+    name: Buffer,
+    flags: number,
+    crc: number,
+    compressedSize: number,
+    size: number
+  ): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(flags, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressedSize, 18);
+    header.writeUInt32LE(size, 22);
+    header.writeUInt16LE(name.length, 26);
+    return Buffer.concat([header, name]);
+  }
+
+  /**
+   * Add a small file that is already in memory
+   */
+  async addFile(name: string, content: string | Buffer): Promise<void> {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const entry: ZipEntry = {
+      name: Buffer.from(name),
+      flags: UTF8_FLAG,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+    };
+
+    this.entries.push(entry);
+    await this.write(
+      this.localHeader(
+        entry.name,
+        entry.flags,
+        entry.crc,
+        entry.compressedSize,
+        entry.size
+      )
+    );
+    await this.write(compressed);
+  }
+
+  /**
+   * Start a file whose content is written in pieces. Finish it with close()
+   * before adding anything else to the archive.
+   */
+  async openFile(name: string): Promise<{
+    write(content: string): Promise<void>;
+    close(): Promise<void>;
+  }> {
+    const entry: ZipEntry = {
+      name: Buffer.from(name),
+      flags: STREAMED_FLAGS,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+    };
+    this.entries.push(entry);
+    await this.write(this.localHeader(entry.name, entry.flags, 0, 0, 0));
+
+    const deflate = createDeflateRaw();
+    deflate.on('data', (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      this.offset += chunk.length;
+      if (!this.output.write(chunk)) {
+        deflate.pause();
+        this.output.once('drain', () => deflate.resume());
+      }
+    });
+    const ended = once(deflate, 'end');
+
+    return {
+      write: async (content: string) => {
+        const data = Buffer.from(content);
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        if (!deflate.write(data)) {
+          await once(deflate, 'drain');
+        }
+      },
+      close: async () => {
+        deflate.end();
+        await ended;
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        await this.write(descriptor);
+      },
+    };
+  }
+
+  /**
+   * Write the central directory. The output stream is left open.
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+  }
+}
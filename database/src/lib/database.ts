@@ -3,7 +3,29 @@ import {
   User,
   Order,
   MenuItem,
+  MenuItemDraft,
+  MenuItemRevision,
+  MenuVersion,
+  MenuSchedule,
+  RecipeLine,
+  Ingredient,
+  StockMovement,
+  BundleSlot,
+  ModifierGroup,
+  ModifierOption,
   OrderItem,
+  OrderItemBundle,
+  OrderItemModifier,
+  OrderStatusChange,
+  OrderModification,
+  OrderCheck,
+  ReceiptPrint,
+  OrderVoid,
+  Refund,
+  Discount,
+  PricingBreakdown,
+  Payment,
+  Table,
 } from '@restaurant-monorepo/shared-types';
 
 /**
@@ -86,6 +108,19 @@ const userSchema = new mongoose.Schema<User & mongoose.Document>(
       maxLength: [128, 'Password must be less than 128 characters'], // Add this line
       select: false,
     },
+    pin: {
+      type: String,
+      select: false,
+    },
+    pinFailedAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    pinLockedUntil: {
+      type: Date,
+      select: false,
+    },
     role: {
       type: String,
       enum: {
@@ -102,10 +137,12 @@ const userSchema = new mongoose.Schema<User & mongoose.Document>(
           'VIEW_ORDERS',
           'UPDATE_ORDER_STATUS',
           'MANAGE_MENU',
+          'MANAGE_TABLES',
           'VIEW_REPORTS',
           'MANAGE_STAFF',
           'PROCESS_PAYMENTS',
           'VIEW_CUSTOMER_DATA',
+          'MANAGE_INVENTORY',
         ],
       },
     ],
@@ -123,6 +160,7 @@ const userSchema = new mongoose.Schema<User & mongoose.Document>(
     toJSON: {
       transform: function (doc, ret: Partial<User> & { __v?: number }) {
         delete ret.password;
+        delete ret.pin;
         delete ret?.__v;
         return ret;
       },
@@ -143,8 +181,185 @@ export const UserModel = mongoose.model<User & mongoose.Document>(
 
 // Menu Item Schema and Model
 
+const MENU_CATEGORIES = [
+  'appetizer',
+  'main_course',
+  'dessert',
+  'beverage',
+  'special',
+];
+
+const ALLERGENS = [
+  'milk',
+  'eggs',
+  'fish',
+  'shellfish',
+  'tree_nuts',
+  'peanuts',
+  'wheat',
+  'soy',
+  'sesame',
+];
+
+const DIETARY_TAGS = ['vegan', 'vegetarian', 'halal', 'gluten_free'];
+
+const allergenField = {
+  type: String,
+  enum: {
+    values: ALLERGENS,
+    message: '{VALUE} is not a recognised allergen',
+  },
+};
+
+const modifierOptionSchema = new mongoose.Schema<
+  ModifierOption & mongoose.Document
+>({
+  name: {
+    type: String,
+    required: [true, 'Option name is required'],
+    trim: true,
+    maxLength: [50, 'Option name must be less than 50 characters'],
+  },
+  priceDelta: {
+    type: Number,
+    default: 0,
+    min: [0, 'Option price cannot be negative'],
+  },
+  available: {
+    type: Boolean,
+    default: true,
+  },
+});
+
+const modifierGroupSchema = new mongoose.Schema<
+  ModifierGroup & mongoose.Document
+>({
+  name: {
+    type: String,
+    required: [true, 'Modifier group name is required'],
+    trim: true,
+    maxLength: [50, 'Modifier group name must be less than 50 characters'],
+  },
+  required: {
+    type: Boolean,
+    default: false,
+  },
+  minSelections: {
+    type: Number,
+    default: 0,
+    min: [0, 'Minimum selections cannot be negative'],
+  },
+  maxSelections: {
+    type: Number,
+    required: [true, 'Maximum selections is required'],
+    min: [1, 'Maximum selections must be at least 1'],
+  },
+  options: {
+    type: [modifierOptionSchema],
+    validate: {
+      validator: function (options: ModifierOption[]) {
+        return options && options.length > 0;
+      },
+      message: 'Modifier group must have at least one option',
+    },
+  },
+});
+
+const SCHEDULE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const menuScheduleSchema = new mongoose.Schema<
+  MenuSchedule & mongoose.Document
+>(
+  {
+    dayparts: {
+      type: [String],
+      enum: {
+        values: ['breakfast', 'lunch', 'dinner'],
+        message: 'Daypart must be either breakfast, lunch, or dinner',
+      },
+      default: undefined,
+    },
+    daysOfWeek: {
+      type: [Number],
+      min: [0, 'Day of week must be between 0 (Sunday) and 6'],
+      max: [6, 'Day of week must be between 0 (Sunday) and 6'],
+      default: undefined,
+    },
+    startDate: {
+      type: String,
+      match: [SCHEDULE_DATE, 'Start date must be YYYY-MM-DD'],
+    },
+    endDate: {
+      type: String,
+      match: [SCHEDULE_DATE, 'End date must be YYYY-MM-DD'],
+    },
+  },
+  { _id: false }
+);
+
+const recipeLineSchema = new mongoose.Schema<RecipeLine & mongoose.Document>(
+  {
+    ingredientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Ingredient',
+      required: [true, 'Ingredient ID is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Recipe quantity is required'],
+      min: [0, 'Recipe quantity cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+const bundleSlotSchema = new mongoose.Schema<BundleSlot & mongoose.Document>({
+  name: {
+    type: String,
+    required: [true, 'Bundle slot name is required'],
+    trim: true,
+    maxLength: [50, 'Bundle slot name must be less than 50 characters'],
+  },
+  menuItemIds: {
+    type: [{ type: mongoose.Schema.Types.ObjectId, ref: 'MenuItem' }],
+    validate: {
+      validator: function (menuItemIds: mongoose.Types.ObjectId[]) {
+        return menuItemIds && menuItemIds.length > 0;
+      },
+      message: 'Bundle slot must offer at least one menu item',
+    },
+  },
+});
+
+const menuItemDraftSchema = new mongoose.Schema<MenuItemDraft>(
+  {
+    // Validated by the API, and again by the model when published
+    changes: {
+      type: mongoose.Schema.Types.Mixed,
+      default: {},
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false, minimize: false }
+);
+
 const menuItemSchema = new mongoose.Schema<MenuItem & mongoose.Document>(
   {
+    type: {
+      type: String,
+      enum: {
+        values: ['single', 'bundle'],
+        message: 'Type must be either single or bundle',
+      },
+      default: 'single',
+    },
     name: {
       type: String,
       required: [true, 'Name is required'],
@@ -164,7 +379,7 @@ const menuItemSchema = new mongoose.Schema<MenuItem & mongoose.Document>(
     category: {
       type: String,
       enum: {
-        values: ['appetizer', 'main_course', 'dessert', 'beverage', 'special'],
+        values: MENU_CATEGORIES,
         message:
           'Category must be either appetizer, main_course, dessert, beverage, or special',
       },
@@ -180,8 +395,20 @@ const menuItemSchema = new mongoose.Schema<MenuItem & mongoose.Document>(
       min: [0, 'Preparation time must be greater than 0'],
     },
     allergens: {
-      type: [String],
-      trim: true,
+      type: [allergenField],
+      default: [],
+    },
+    dietaryTags: {
+      type: [
+        {
+          type: String,
+          enum: {
+            values: DIETARY_TAGS,
+            message: '{VALUE} is not a recognised dietary tag',
+          },
+        },
+      ],
+      default: [],
     },
     imageUrl: {
       type: String,
@@ -192,6 +419,55 @@ const menuItemSchema = new mongoose.Schema<MenuItem & mongoose.Document>(
         message: 'Image URL must be a valid URL',
       },
     },
+    thumbnailUrl: {
+      type: String,
+      validate: {
+        validator: function (value: string) {
+          return !value || /^https?:\/\/.+/.test(value);
+        },
+        message: 'Thumbnail URL must be a valid URL',
+      },
+    },
+    modifierGroups: {
+      type: [modifierGroupSchema],
+      default: [],
+    },
+    bundleSlots: {
+      type: [bundleSlotSchema],
+      default: [],
+      validate: {
+        validator: function (this: MenuItem, slots: BundleSlot[]) {
+          return this.type !== 'bundle' || slots.length > 0;
+        },
+        message: 'Bundle must have at least one slot',
+      },
+    },
+    schedule: menuScheduleSchema,
+    recipe: {
+      type: [recipeLineSchema],
+      default: [],
+    },
+    outOfStock: {
+      type: Boolean,
+      default: false,
+    },
+    published: {
+      type: Boolean,
+      default: true,
+    },
+    // Left out of queries unless asked for, so the public menu never shows
+    // unpublished edits
+    draft: {
+      type: menuItemDraftSchema,
+      select: false,
+    },
+    archivedAt: {
+      type: Date,
+    },
+    archivedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
@@ -205,18 +481,330 @@ const menuItemSchema = new mongoose.Schema<MenuItem & mongoose.Document>(
 );
 
 // Indexing for performance
-menuItemSchema.index({ name: 1 }, { unique: true });
+// Names are unique among items that aren't archived. Unset archivedAt
+// indexes as null, so live items share one key while each archived item keeps
+// its own, and an archived name can be reused. (A partial index can't filter
+// on archivedAt being unset.)
+menuItemSchema.index({ name: 1, archivedAt: 1 }, { unique: true });
 menuItemSchema.index({ category: 1 });
 menuItemSchema.index({ available: 1 });
 menuItemSchema.index({ prepTime: 1 });
 menuItemSchema.index({ allergens: 1 });
+menuItemSchema.index({ dietaryTags: 1 });
+menuItemSchema.index({ archivedAt: 1 });
+// Backs `$text` search; the API adds prefix and typo matching on top
+menuItemSchema.index(
+  { name: 'text', description: 'text', category: 'text', allergens: 'text' },
+  {
+    name: 'menu_item_search',
+    weights: { name: 10, category: 3, allergens: 2, description: 1 },
+  }
+);
+menuItemSchema.index({ 'bundleSlots.menuItemIds': 1 });
+menuItemSchema.index({ 'recipe.ingredientId': 1 });
 
 export const MenuItemModel = mongoose.model<MenuItem & mongoose.Document>(
   'MenuItem',
   menuItemSchema
 );
 
+// Menu Version Schema and Model
+
+const menuVersionSchema = new mongoose.Schema<MenuVersion & mongoose.Document>(
+  {
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: [1, 'Version must be positive'],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxLength: [200, 'Note cannot exceed 200 characters'],
+    },
+    rollbackOf: {
+      type: Number,
+      min: [0, 'Rolled back version cannot be negative'],
+    },
+    changeCount: {
+      type: Number,
+      default: 0,
+    },
+    // Set once every change is written. Versions from before this was
+    // recorded read as complete.
+    complete: {
+      type: Boolean,
+      default: true,
+    },
+    publishedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (doc, ret: Partial<MenuVersion> & { __v?: number }) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Also stops two publishes from taking the same number
+menuVersionSchema.index({ version: 1 }, { unique: true });
+
+export const MenuVersionModel = mongoose.model<
+  MenuVersion & mongoose.Document
+>('MenuVersion', menuVersionSchema);
+
+const menuFieldChangeSchema = new mongoose.Schema(
+  {
+    field: { type: String, required: true },
+    from: mongoose.Schema.Types.Mixed,
+    to: mongoose.Schema.Types.Mixed,
+  },
+  { _id: false }
+);
+
+const menuItemRevisionSchema = new mongoose.Schema<
+  MenuItemRevision & mongoose.Document
+>(
+  {
+    menuItemId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'MenuItem',
+      required: [true, 'Menu item ID is required'],
+    },
+    menuItemName: {
+      type: String,
+      required: [true, 'Menu item name is required'],
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+    },
+    action: {
+      type: String,
+      enum: ['created', 'updated', 'withdrawn'],
+      required: [true, 'Action is required'],
+    },
+    changes: {
+      type: [menuFieldChangeSchema],
+      default: [],
+    },
+    before: mongoose.Schema.Types.Mixed,
+    after: {
+      type: mongoose.Schema.Types.Mixed,
+      required: [true, 'Published fields are required'],
+    },
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (
+        doc,
+        ret: Partial<MenuItemRevision> & { __v?: number }
+      ) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+menuItemRevisionSchema.index({ menuItemId: 1, version: -1 });
+menuItemRevisionSchema.index({ version: 1 });
+
+export const MenuItemRevisionModel = mongoose.model<
+  MenuItemRevision & mongoose.Document
+>('MenuItemRevision', menuItemRevisionSchema);
+
+// Table Schema and Model
+const tableSchema = new mongoose.Schema<Table & mongoose.Document>(
+  {
+    number: {
+      type: Number,
+      required: [true, 'Table number is required'],
+      min: [1, 'Table number must be positive'],
+    },
+    capacity: {
+      type: Number,
+      required: [true, 'Capacity is required'],
+      min: [1, 'Capacity must be at least 1'],
+      max: [50, 'Capacity cannot exceed 50'],
+    },
+    section: {
+      type: String,
+      required: [true, 'Section is required'],
+      trim: true,
+      maxLength: [50, 'Section must be less than 50 characters'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['available', 'occupied', 'reserved', 'cleaning'],
+        message:
+          'Status must be one of: available, occupied, reserved, cleaning',
+      },
+      default: 'available',
+    },
+    position: {
+      x: { type: Number, min: 0 },
+      y: { type: Number, min: 0 },
+    },
+    occupiedSince: {
+      type: Date,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret: Partial<Table> & { __v?: number }) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexing for performance
+tableSchema.index({ number: 1 }, { unique: true });
+tableSchema.index({ section: 1 });
+tableSchema.index({ status: 1 });
+
+export const TableModel = mongoose.model<Table & mongoose.Document>(
+  'Table',
+  tableSchema
+);
+
 // Order Schemas
+const discountSchema = new mongoose.Schema<Discount & mongoose.Document>(
+  {
+    type: {
+      type: String,
+      enum: {
+        values: ['percentage', 'fixed', 'comp'],
+        message: 'Discount type must be one of: percentage, fixed, comp',
+      },
+      required: [true, 'Discount type is required'],
+    },
+    value: {
+      type: Number,
+      default: 0,
+      min: [0, 'Discount value cannot be negative'],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxLength: [200, 'Discount reason cannot exceed 200 characters'],
+    },
+    appliedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { _id: false }
+);
+
+const pricingBreakdownSchema = new mongoose.Schema<
+  PricingBreakdown & mongoose.Document
+>(
+  {
+    subtotal: { type: Number, required: true, min: 0 },
+    lineDiscounts: { type: Number, default: 0, min: 0 },
+    orderDiscount: { type: Number, default: 0, min: 0 },
+    serviceCharge: { type: Number, default: 0, min: 0 },
+    serviceChargeRate: { type: Number, default: 0, min: 0 },
+    tax: { type: Number, default: 0, min: 0 },
+    taxes: {
+      type: [
+        {
+          _id: false,
+          category: { type: String, enum: MENU_CATEGORIES },
+          rate: Number,
+          taxableAmount: Number,
+          tax: Number,
+        },
+      ],
+      default: [],
+    },
+    total: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const orderItemModifierSchema = new mongoose.Schema<
+  OrderItemModifier & mongoose.Document
+>(
+  {
+    groupId: {
+      type: String,
+      required: [true, 'Modifier group ID is required'],
+    },
+    groupName: {
+      type: String,
+      required: [true, 'Modifier group name is required'],
+    },
+    optionId: {
+      type: String,
+      required: [true, 'Modifier option ID is required'],
+    },
+    optionName: {
+      type: String,
+      required: [true, 'Modifier option name is required'],
+    },
+    priceDelta: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const orderItemBundleSchema = new mongoose.Schema<
+  OrderItemBundle & mongoose.Document
+>(
+  {
+    instanceId: {
+      type: String,
+      required: [true, 'Bundle instance ID is required'],
+    },
+    menuItemId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'MenuItem',
+      required: [true, 'Bundle menu item ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Bundle name is required'],
+    },
+    price: {
+      type: Number,
+      required: [true, 'Bundle price is required'],
+      min: [0, 'Bundle price cannot be negative'],
+    },
+    slotId: {
+      type: String,
+      required: [true, 'Bundle slot ID is required'],
+    },
+    slotName: {
+      type: String,
+      required: [true, 'Bundle slot name is required'],
+    },
+  },
+  { _id: false }
+);
+
 const orderItemSchema = new mongoose.Schema<OrderItem & mongoose.Document>({
   menuItemId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -227,6 +815,10 @@ const orderItemSchema = new mongoose.Schema<OrderItem & mongoose.Document>({
     type: String,
     required: [true, 'Menu item name is required'],
   },
+  category: {
+    type: String,
+    enum: MENU_CATEGORIES,
+  },
   quantity: {
     type: Number,
     required: [true, 'Quantity is required'],
@@ -242,10 +834,195 @@ const orderItemSchema = new mongoose.Schema<OrderItem & mongoose.Document>({
     required: [true, 'Total price is required'],
     min: [0, 'Total price cannot be negative'],
   },
+  modifiers: {
+    type: [orderItemModifierSchema],
+    default: undefined,
+  },
+  bundle: orderItemBundleSchema,
+  discount: discountSchema,
   specialInstructions: {
     type: String,
     maxLength: [200, 'Special instructions cannot exceed 200 characters'],
   },
+  seat: {
+    type: Number,
+    min: [1, 'Seat number must be positive'],
+  },
+  refundedQuantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Refunded quantity cannot be negative'],
+  },
+  allergens: {
+    type: [allergenField],
+    default: undefined,
+  },
+  menuVersion: {
+    type: Number,
+    min: [0, 'Menu version cannot be negative'],
+  },
+});
+
+const ORDER_STATUSES = ['pending', 'preparing', 'ready', 'served', 'cancelled'];
+
+const orderStatusChangeSchema = new mongoose.Schema<
+  OrderStatusChange & mongoose.Document
+>(
+  {
+    from: {
+      type: String,
+      enum: ORDER_STATUSES,
+    },
+    to: {
+      type: String,
+      enum: ORDER_STATUSES,
+      required: [true, 'Target status is required'],
+    },
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Status change actor is required'],
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxLength: [200, 'Reason cannot exceed 200 characters'],
+    },
+  },
+  { _id: false }
+);
+
+const orderModificationSchema = new mongoose.Schema<
+  OrderModification & mongoose.Document
+>(
+  {
+    action: {
+      type: String,
+      enum: ['item_added', 'item_updated', 'item_removed'],
+      required: [true, 'Modification action is required'],
+    },
+    itemId: {
+      type: String,
+      required: [true, 'Order item ID is required'],
+    },
+    menuItemName: {
+      type: String,
+      required: [true, 'Menu item name is required'],
+    },
+    previousQuantity: Number,
+    quantity: Number,
+    previousInstructions: String,
+    specialInstructions: String,
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Modification actor is required'],
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const ORDER_PAYMENT_STATUSES = ['unpaid', 'partially_paid', 'paid', 'refunded'];
+
+const REFUND_REASON_CODES = [
+  'customer_request',
+  'wrong_item',
+  'quality_issue',
+  'long_wait',
+  'duplicate_charge',
+  'entry_error',
+  'other',
+];
+
+const orderVoidSchema = new mongoose.Schema<OrderVoid & mongoose.Document>(
+  {
+    reasonCode: {
+      type: String,
+      enum: REFUND_REASON_CODES,
+      required: [true, 'Reason code is required'],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxLength: [200, 'Note cannot exceed 200 characters'],
+    },
+    requestedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    approvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    approvalMethod: {
+      type: String,
+      enum: ['permission', 'pin'],
+      required: true,
+    },
+    voidedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const receiptPrintSchema = new mongoose.Schema<ReceiptPrint & mongoose.Document>(
+  {
+    checkId: String,
+    format: {
+      type: String,
+      enum: ['text', 'html', 'pdf'],
+      required: true,
+    },
+    copy: {
+      type: Boolean,
+      default: false,
+    },
+    printedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    printedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const orderCheckSchema = new mongoose.Schema<OrderCheck & mongoose.Document>({
+  label: {
+    type: String,
+    required: [true, 'Check label is required'],
+    trim: true,
+    maxLength: [50, 'Check label cannot exceed 50 characters'],
+  },
+  itemIds: {
+    type: [String],
+    default: [],
+  },
+  seat: Number,
+  subtotal: { type: Number, required: true, min: 0 },
+  serviceCharge: { type: Number, default: 0, min: 0 },
+  tax: { type: Number, required: true, min: 0 },
+  total: { type: Number, required: true, min: 0 },
+  amountPaid: { type: Number, default: 0, min: 0 },
+  paymentStatus: {
+    type: String,
+    enum: ORDER_PAYMENT_STATUSES,
+    default: 'unpaid',
+  },
 });
 
 const orderSchema = new mongoose.Schema<Order & mongoose.Document>(
@@ -268,22 +1045,68 @@ const orderSchema = new mongoose.Schema<Order & mongoose.Document>(
     status: {
       type: String,
       enum: {
-        values: ['pending', 'preparing', 'ready', 'served', 'cancelled'],
+        values: ORDER_STATUSES,
         message:
           'Status must be one of: pending, preparing, ready, served, cancelled',
       },
       default: 'pending',
     },
+    statusHistory: {
+      type: [orderStatusChangeSchema],
+      default: [],
+    },
+    modifications: {
+      type: [orderModificationSchema],
+      default: [],
+    },
+    partySize: {
+      type: Number,
+      min: [1, 'Party size must be at least 1'],
+    },
+    discount: discountSchema,
+    pricing: pricingBreakdownSchema,
     total: {
       type: Number,
       required: [true, 'Total is required'],
       min: [0, 'Total cannot be negative'],
     },
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: [0, 'Amount paid cannot be negative'],
+    },
+    amountRefunded: {
+      type: Number,
+      default: 0,
+      min: [0, 'Amount refunded cannot be negative'],
+    },
+    paymentStatus: {
+      type: String,
+      enum: ORDER_PAYMENT_STATUSES,
+      default: 'unpaid',
+    },
+    void: orderVoidSchema,
+    splitMethod: {
+      type: String,
+      enum: ['by_item', 'by_seat', 'even'],
+    },
+    checks: {
+      type: [orderCheckSchema],
+      default: [],
+    },
+    receiptPrints: {
+      type: [receiptPrintSchema],
+      default: [],
+    },
     customerName: {
       type: String,
       trim: true,
       maxLength: [100, 'Customer name cannot exceed 100 characters'],
     },
+    allergies: {
+      type: [allergenField],
+      default: undefined,
+    },
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -325,12 +1148,287 @@ orderSchema.index({ orderNumber: 1 }, { unique: true });
 orderSchema.index({ createdAt: 1 });
 orderSchema.index({ status: 1 });
 orderSchema.index({ createdBy: 1 });
+orderSchema.index({ tableNumber: 1, createdAt: -1 });
+orderSchema.index({ paymentStatus: 1, status: 1 });
 
 export const OrderModel = mongoose.model<Order & mongoose.Document>(
   'Order',
   orderSchema
 );
 
+// Payment Schema
+const paymentSchema = new mongoose.Schema<Payment & mongoose.Document>(
+  {
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order',
+      required: [true, 'Order ID is required'],
+    },
+    checkId: String,
+    method: {
+      type: String,
+      enum: {
+        values: ['cash', 'card'],
+        message: 'Payment method must be one of: cash, card',
+      },
+      required: [true, 'Payment method is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'completed', 'declined'],
+      default: 'completed',
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be positive'],
+    },
+    tip: {
+      type: Number,
+      default: 0,
+      min: [0, 'Tip cannot be negative'],
+    },
+    amountTendered: {
+      type: Number,
+      min: [0, 'Amount tendered cannot be negative'],
+    },
+    changeGiven: {
+      type: Number,
+      min: [0, 'Change cannot be negative'],
+    },
+    cardBrand: String,
+    cardLast4: {
+      type: String,
+      match: [/^\d{4}$/, 'Card last 4 must be 4 digits'],
+    },
+    provider: String,
+    providerReference: String,
+    declineReason: String,
+    amountRefunded: {
+      type: Number,
+      default: 0,
+      min: [0, 'Amount refunded cannot be negative'],
+    },
+    processedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Processing user is required'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret: Partial<Payment> & { __v?: number }) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+paymentSchema.index({ orderId: 1, createdAt: 1 });
+paymentSchema.index({ createdAt: -1 });
+
+export const PaymentModel = mongoose.model<Payment & mongoose.Document>(
+  'Payment',
+  paymentSchema
+);
+
+// Refund Schema
+const refundSchema = new mongoose.Schema<Refund & mongoose.Document>(
+  {
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order',
+      required: [true, 'Order ID is required'],
+    },
+    type: {
+      type: String,
+      enum: ['full', 'items'],
+      required: [true, 'Refund type is required'],
+    },
+    items: {
+      type: [
+        {
+          _id: false,
+          itemId: { type: String, required: true },
+          menuItemName: { type: String, required: true },
+          quantity: { type: Number, required: true, min: 1 },
+          amount: { type: Number, required: true, min: 0 },
+        },
+      ],
+      default: [],
+    },
+    tenders: {
+      type: [
+        {
+          _id: false,
+          paymentId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Payment',
+            required: true,
+          },
+          method: { type: String, enum: ['cash', 'card'], required: true },
+          amount: { type: Number, required: true, min: 0.01 },
+          providerReference: String,
+        },
+      ],
+      default: [],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be positive'],
+    },
+    reasonCode: {
+      type: String,
+      enum: REFUND_REASON_CODES,
+      required: [true, 'Reason code is required'],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxLength: [200, 'Note cannot exceed 200 characters'],
+    },
+    requestedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Requesting user is required'],
+    },
+    approvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Approving user is required'],
+    },
+    approvalMethod: {
+      type: String,
+      enum: ['permission', 'pin'],
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret: Partial<Refund> & { __v?: number }) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+refundSchema.index({ orderId: 1, createdAt: 1 });
+refundSchema.index({ createdAt: -1 });
+
+export const RefundModel = mongoose.model<Refund & mongoose.Document>(
+  'Refund',
+  refundSchema
+);
+
+// Ingredient Schema
+const INGREDIENT_UNITS = ['g', 'kg', 'ml', 'l', 'each'];
+
+const ingredientSchema = new mongoose.Schema<Ingredient & mongoose.Document>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxLength: [100, 'Name must be less than 100 characters'],
+    },
+    unit: {
+      type: String,
+      enum: {
+        values: INGREDIENT_UNITS,
+        message: 'Unit must be one of g, kg, ml, l or each',
+      },
+      required: [true, 'Unit is required'],
+    },
+    stock: {
+      type: Number,
+      default: 0,
+    },
+    lowStockThreshold: {
+      type: Number,
+      default: 0,
+      min: [0, 'Low stock threshold cannot be negative'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret: Partial<Ingredient> & { __v?: number }) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+ingredientSchema.index({ name: 1 }, { unique: true });
+
+export const IngredientModel = mongoose.model<Ingredient & mongoose.Document>(
+  'Ingredient',
+  ingredientSchema
+);
+
+// Stock Movement Schema
+const stockMovementSchema = new mongoose.Schema<
+  StockMovement & mongoose.Document
+>(
+  {
+    ingredientId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Ingredient',
+      required: [true, 'Ingredient ID is required'],
+    },
+    type: {
+      type: String,
+      enum: ['sale', 'restock', 'wastage', 'count'],
+      required: [true, 'Movement type is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+    },
+    stockAfter: {
+      type: Number,
+      required: [true, 'Stock after movement is required'],
+    },
+    orderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order',
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxLength: [200, 'Reason cannot exceed 200 characters'],
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function (
+        doc,
+        ret: Partial<StockMovement> & { __v?: number }
+      ) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+stockMovementSchema.index({ ingredientId: 1, createdAt: -1 });
+
+export const StockMovementModel = mongoose.model<
+  StockMovement & mongoose.Document
+>('StockMovement', stockMovementSchema);
+
 // Export mongoose instance
 export { mongoose };
 
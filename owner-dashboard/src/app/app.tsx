@@ -8,6 +8,17 @@ import { Dashboard } from '../pages/Dashboard';
 import { StaffManagement } from '../pages/StaffManagement';
 import { AddStaffMember } from '../pages/AddStaffMember';
 import { KitchenDashboard } from '../pages/KitchenDashboard';
+import { FloorPlan } from '../pages/FloorPlan';
+import { Payments } from '../pages/Payments';
+import { OrderDetail } from '../pages/OrderDetail';
+import { Reports } from '../pages/Reports';
+import { MenuManagement } from '../pages/MenuManagement';
+import { MenuItemForm } from '../pages/MenuItemForm';
+import { MenuVersions } from '../pages/MenuVersions';
+import { MenuImport } from '../pages/MenuImport';
+import { NewOrder } from '../pages/NewOrder';
+import { Orders } from '../pages/Orders';
+import { Inventory } from '../pages/Inventory';
 import { StaffLayout } from '../components/layout/StaffLayout';
 import { LoadingSpinner } from '@restaurant-monorepo/shared-ui';
 import { canAccessFeature } from '@restaurant-monorepo/rbac';
@@ -136,33 +147,6 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return <>{children}</>;
 };
 
-// Placeholder components for routes that aren't implemented yet
-const ComingSoonPage: React.FC<{ title: string; description?: string }> = ({
-  title,
-  description = 'This feature is coming soon!',
-}) => (
-  <div className="text-center py-12">
-    <div className="text-gray-400 mb-6">
-      <svg
-        className="mx-auto h-16 w-16"
-        fill="none"
-        viewBox="0 0 24 24"
-        stroke="currentColor"
-      >
-        <path
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          strokeWidth="2"
-          d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 7.172V5L8 4z"
-        />
-      </svg>
-    </div>
-    <h2 className="text-3xl font-bold text-gray-900 mb-4">{title}</h2>
-    <p className="text-gray-600 mb-6">{description}</p>
-    <p className="text-sm text-gray-500">Check back soon for updates!</p>
-  </div>
-);
-
 // Main App Component
 function AppContent() {
   return (
@@ -201,10 +185,7 @@ function AppContent() {
         path="/orders"
         element={
           <ProtectedRoute requiredFeature="orders">
-            <ComingSoonPage
-              title="Orders Management"
-              description="View and manage all restaurant orders in real-time."
-            />
+            <Orders />
           </ProtectedRoute>
         }
       />
@@ -213,10 +194,16 @@ function AppContent() {
         path="/orders/new"
         element={
           <ProtectedRoute requiredFeature="orders">
-            <ComingSoonPage
-              title="Create New Order"
-              description="Create a new order for a customer."
-            />
+            <NewOrder />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/orders/:id"
+        element={
+          <ProtectedRoute requiredFeature="orders">
+            <OrderDetail />
           </ProtectedRoute>
         }
       />
@@ -226,10 +213,25 @@ function AppContent() {
         path="/menu"
         element={
           <ProtectedRoute requiredFeature="menuManagement">
-            <ComingSoonPage
-              title="Menu Management"
-              description="Manage your restaurant's menu items, categories, and pricing."
-            />
+            <MenuManagement />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/menu/versions"
+        element={
+          <ProtectedRoute requiredFeature="menuManagement">
+            <MenuVersions />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/menu/import"
+        element={
+          <ProtectedRoute requiredFeature="menuManagement">
+            <MenuImport />
           </ProtectedRoute>
         }
       />
@@ -238,10 +240,36 @@ function AppContent() {
         path="/menu/new"
         element={
           <ProtectedRoute requiredFeature="menuManagement">
-            <ComingSoonPage
-              title="Add Menu Item"
-              description="Add a new item to your restaurant menu."
-            />
+            <MenuItemForm />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/menu/:id/edit"
+        element={
+          <ProtectedRoute requiredFeature="menuManagement">
+            <MenuItemForm />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Inventory */}
+      <Route
+        path="/inventory"
+        element={
+          <ProtectedRoute requiredFeature="inventory">
+            <Inventory />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Table Management */}
+      <Route
+        path="/tables"
+        element={
+          <ProtectedRoute requiredFeature="tables">
+            <FloorPlan />
           </ProtectedRoute>
         }
       />
@@ -270,10 +298,7 @@ function AppContent() {
         path="/reports"
         element={
           <ProtectedRoute requiredFeature="reports">
-            <ComingSoonPage
-              title="Reports & Analytics"
-              description="View detailed reports and analytics about your restaurant performance."
-            />
+            <Reports />
           </ProtectedRoute>
         }
       />
@@ -283,10 +308,7 @@ function AppContent() {
         path="/payments"
         element={
           <ProtectedRoute requiredFeature="payments">
-            <ComingSoonPage
-              title="Payment Management"
-              description="Process payments and manage financial transactions."
-            />
+            <Payments />
           </ProtectedRoute>
         }
       />
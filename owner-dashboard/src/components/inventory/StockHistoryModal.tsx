@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  Table,
+  TableColumn,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  StockMovement,
+  StockMovementType,
+} from '@restaurant-monorepo/shared-types';
+import type { IngredientRecord } from '../../pages/Inventory';
+
+type StockMovementRecord = Omit<StockMovement, 'createdBy'> & {
+  _id: string;
+  createdBy?: { name: string };
+};
+
+export const movementLabels: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  restock: 'Restock',
+  wastage: 'Wastage',
+  count: 'Stock count',
+};
+
+const PAGE_SIZE = 20;
+
+interface StockHistoryModalProps {
+  ingredient: IngredientRecord | null;
+  onClose: () => void;
+}
+
+export const StockHistoryModal: React.FC<StockHistoryModalProps> = ({
+  ingredient,
+  onClose,
+}) => {
+  const [movements, setMovements] = useState<StockMovementRecord[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPage(1);
+  }, [ingredient]);
+
+  useEffect(() => {
+    if (!ingredient) return;
+
+    const fetchMovements = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await apiClient.getStockMovements(ingredient._id, {
+          page,
+          limit: PAGE_SIZE,
+        });
+
+        if (response.success) {
+          setMovements(
+            response.data.movements as unknown as StockMovementRecord[]
+          );
+          setHasNextPage(response.data.pagination.hasNextPage);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load stock history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMovements();
+  }, [ingredient, page]);
+
+  const unit = ingredient?.unit ?? '';
+
+  const columns: TableColumn<StockMovementRecord>[] = [
+    {
+      key: 'createdAt',
+      title: 'When',
+      render: (_, movement) => new Date(movement.createdAt).toLocaleString(),
+    },
+    {
+      key: 'type',
+      title: 'Type',
+      render: (_, movement) => (
+        <div>
+          <div>{movementLabels[movement.type]}</div>
+          {movement.reason && (
+            <div className="text-xs text-gray-500">{movement.reason}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'quantity',
+      title: 'Change',
+      align: 'right',
+      render: (_, movement) => (
+        <span
+          className={movement.quantity < 0 ? 'text-red-600' : 'text-green-700'}
+        >
+          {movement.quantity > 0 ? '+' : ''}
+          {movement.quantity} {unit}
+        </span>
+      ),
+    },
+    {
+      key: 'stockAfter',
+      title: 'Stock After',
+      align: 'right',
+      render: (_, movement) => `${movement.stockAfter} ${unit}`,
+    },
+    {
+      key: 'createdBy',
+      title: 'By',
+      render: (_, movement) => movement.createdBy?.name ?? '—',
+    },
+  ];
+
+  return (
+    <Modal
+      isOpen={!!ingredient}
+      onClose={onClose}
+      title={ingredient ? `Stock History • ${ingredient.name}` : undefined}
+      size="lg"
+    >
+      <ModalBody className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Table
+          columns={columns}
+          data={movements}
+          loading={loading}
+          emptyMessage="No stock movements yet"
+        />
+      </ModalBody>
+      <ModalFooter>
+        <Button
+          variant="ghost"
+          disabled={page === 1 || loading}
+          onClick={() => setPage((current) => current - 1)}
+        >
+          Newer
+        </Button>
+        <Button
+          variant="ghost"
+          disabled={!hasNextPage || loading}
+          onClick={() => setPage((current) => current + 1)}
+        >
+          Older
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -1,7 +1,8 @@
 import React from 'react';
 import { useAuth } from '../../hooks/useAuth';
 import { Button } from '@restaurant-monorepo/shared-ui';
-import { useNavigate } from 'react-router-dom';
+import { canAccessFeature } from '@restaurant-monorepo/rbac';
+import { useLocation, useNavigate } from 'react-router-dom';
 
 interface StaffLayoutProps {
   children: React.ReactNode;
@@ -10,6 +11,7 @@ interface StaffLayoutProps {
 export const StaffLayout: React.FC<StaffLayoutProps> = ({ children }) => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
 
   // ULTIMATE SAFETY: Don't render if user is not available
   if (!user) {
@@ -66,6 +68,24 @@ export const StaffLayout: React.FC<StaffLayoutProps> = ({ children }) => {
 
             {/* Quick Actions for Staff */}
             <div className="flex items-center space-x-2">
+              {canAccessFeature(user.role, 'inventory') &&
+                (location.pathname === '/inventory' ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate('/kitchen')}
+                  >
+                    Kitchen
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate('/inventory')}
+                  >
+                    📦 Stock
+                  </Button>
+                ))}
               {user?.role === 'manager' && (
                 <Button
                   variant="ghost"
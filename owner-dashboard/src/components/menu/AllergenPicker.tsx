@@ -0,0 +1,127 @@
+import React from 'react';
+import {
+  ALLERGENS,
+  Allergen,
+  DIETARY_TAGS,
+  DietaryTag,
+} from '@restaurant-monorepo/shared-types';
+
+export const allergenLabels: Record<Allergen, string> = {
+  milk: 'Milk',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  tree_nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  wheat: 'Wheat',
+  soy: 'Soy',
+  sesame: 'Sesame',
+};
+
+export const dietaryTagLabels: Record<DietaryTag, string> = {
+  vegan: 'Vegan',
+  vegetarian: 'Vegetarian',
+  halal: 'Halal',
+  gluten_free: 'Gluten-free',
+};
+
+/**
+ * The item's allergens that the guest is allergic to
+ */
+export const allergyConflicts = (
+  allergens: Allergen[] | undefined,
+  allergies: Allergen[]
+) => (allergens ?? []).filter((allergen) => allergies.includes(allergen));
+
+interface TagPickerProps<T extends string> {
+  label: string;
+  hint?: string;
+  options: T[];
+  labels: Record<T, string>;
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  disabled?: boolean;
+  // Allergies are highlighted in red, everything else in blue
+  tone?: 'warning' | 'default';
+}
+
+const TagPicker = <T extends string>({
+  label,
+  hint,
+  options,
+  labels,
+  selected,
+  onChange,
+  disabled,
+  tone = 'default',
+}: TagPickerProps<T>) => (
+  <div>
+    <span className="block text-sm font-medium text-gray-700 mb-2">
+      {label}
+    </span>
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => {
+        const isSelected = selected.includes(option);
+        return (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={isSelected}
+            disabled={disabled}
+            onClick={() =>
+              onChange(
+                isSelected
+                  ? selected.filter((value) => value !== option)
+                  : [...selected, option]
+              )
+            }
+            className={`px-3 py-1.5 rounded-md border text-sm ${
+              !isSelected
+                ? 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                : tone === 'warning'
+                ? 'border-red-600 bg-red-50 text-red-800'
+                : 'border-blue-600 bg-blue-50 text-blue-800'
+            }`}
+          >
+            {labels[option]}
+          </button>
+        );
+      })}
+    </div>
+    {hint && <p className="mt-1 text-sm text-gray-500">{hint}</p>}
+  </div>
+);
+
+interface AllergenPickerProps {
+  label: string;
+  hint?: string;
+  selected: Allergen[];
+  onChange: (selected: Allergen[]) => void;
+  disabled?: boolean;
+  tone?: 'warning' | 'default';
+}
+
+/**
+ * Toggle buttons for the major allergens
+ */
+export const AllergenPicker: React.FC<AllergenPickerProps> = (props) => (
+  <TagPicker {...props} options={ALLERGENS} labels={allergenLabels} />
+);
+
+interface DietaryTagPickerProps {
+  selected: DietaryTag[];
+  onChange: (selected: DietaryTag[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Toggle buttons for the dietary tags
+ */
+export const DietaryTagPicker: React.FC<DietaryTagPickerProps> = (props) => (
+  <TagPicker
+    {...props}
+    label="Dietary"
+    options={DIETARY_TAGS}
+    labels={dietaryTagLabels}
+  />
+);
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  ConfirmModal,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import type { MenuItemRecord } from '../../pages/MenuManagement';
+
+type ArchivedMenuItemRecord = Omit<MenuItemRecord, 'archivedBy'> & {
+  archivedBy?: { name: string };
+};
+
+interface ArchivedMenuItemsProps {
+  // Called after a restore so the live menu can reload
+  onRestored: () => void;
+}
+
+/**
+ * Archived menu items, with restore and permanent delete
+ */
+export const ArchivedMenuItems: React.FC<ArchivedMenuItemsProps> = ({
+  onRestored,
+}) => {
+  const [menuItems, setMenuItems] = useState<ArchivedMenuItemRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingPurge, setPendingPurge] =
+    useState<ArchivedMenuItemRecord | null>(null);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiClient
+      .getArchivedMenuItems()
+      .then((response) =>
+        setMenuItems(
+          response.data.menuItems as unknown as ArchivedMenuItemRecord[]
+        )
+      )
+      .catch((err) => setError(err.message || 'Failed to load the archive'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const removeFromList = (item: ArchivedMenuItemRecord) =>
+    setMenuItems((items) =>
+      items.filter((current) => current._id !== item._id)
+    );
+
+  const handleRestore = async (item: ArchivedMenuItemRecord) => {
+    try {
+      setWorkingId(item._id);
+      setError(null);
+      await apiClient.restoreMenuItem(item._id);
+      removeFromList(item);
+      onRestored();
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          `Failed to restore ${item.name}`
+      );
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    const item = pendingPurge;
+    if (!item) return;
+
+    setPendingPurge(null);
+    try {
+      setWorkingId(item._id);
+      setError(null);
+      await apiClient.purgeMenuItem(item._id);
+      removeFromList(item);
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          `Failed to delete ${item.name}`
+      );
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Archived Items{' '}
+          <span className="text-sm font-normal text-gray-500">
+            ({menuItems.length})
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="h-12 bg-gray-200 rounded animate-pulse"></div>
+        ) : menuItems.length === 0 ? (
+          <p className="text-gray-500">No archived menu items.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {menuItems.map((item) => (
+              <div
+                key={item._id}
+                className="flex items-center justify-between py-4 gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold text-gray-500">
+                      {item.name}
+                    </span>
+                    <span className="text-gray-500">
+                      ${item.price.toFixed(2)}
+                    </span>
+                  </div>
+                  {item.archivedAt && (
+                    <p className="text-xs text-gray-500">
+                      Archived {new Date(item.archivedAt).toLocaleString()}
+                      {item.archivedBy && ` by ${item.archivedBy.name}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={workingId === item._id}
+                    onClick={() => handleRestore(item)}
+                  >
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    disabled={workingId === item._id}
+                    onClick={() => setPendingPurge(item)}
+                  >
+                    Delete forever
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmModal
+        isOpen={pendingPurge !== null}
+        onClose={() => setPendingPurge(null)}
+        onConfirm={handlePurge}
+        title="Delete Menu Item Permanently"
+        message={`Delete ${pendingPurge?.name} for good? Past orders keep its name and price, but it can't be restored.`}
+        confirmText="Delete Forever"
+        variant="danger"
+      />
+    </Card>
+  );
+};
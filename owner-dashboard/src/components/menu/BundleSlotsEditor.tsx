@@ -0,0 +1,146 @@
+import React from 'react';
+import { z } from 'zod';
+import { Button, Input } from '@restaurant-monorepo/shared-ui';
+import { BundleSlotInput } from '@restaurant-monorepo/shared-types';
+import { BundleSlotRecord, MenuItemRecord } from '../../pages/MenuManagement';
+
+export interface BundleSlotDraft {
+  _id?: string;
+  name: string;
+  menuItemIds: string[];
+}
+
+// Mirrors the API's bundle slot validation
+export const bundleSlotsSchema = z.array(
+  z.object({
+    _id: z.string().optional(),
+    name: z.string().trim().min(1, 'Every bundle slot needs a name'),
+    menuItemIds: z
+      .array(z.string())
+      .min(1, 'Every bundle slot needs at least one menu item'),
+  })
+) satisfies z.ZodType<BundleSlotInput[], BundleSlotDraft[]>;
+
+export const toBundleSlotDrafts = (
+  slots: BundleSlotRecord[]
+): BundleSlotDraft[] =>
+  slots.map((slot) => ({
+    _id: slot._id,
+    name: slot.name,
+    menuItemIds: [...slot.menuItemIds],
+  }));
+
+const emptySlot: BundleSlotDraft = { name: '', menuItemIds: [] };
+
+interface BundleSlotsEditorProps {
+  slots: BundleSlotDraft[];
+  menuItems: MenuItemRecord[]; // single items that slots can offer
+  onChange: (slots: BundleSlotDraft[]) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Edit a bundle's slots and the menu items each slot offers
+ */
+export const BundleSlotsEditor: React.FC<BundleSlotsEditorProps> = ({
+  slots,
+  menuItems,
+  onChange,
+  disabled,
+  error,
+}) => {
+  const updateSlot = (index: number, changes: Partial<BundleSlotDraft>) =>
+    onChange(
+      slots.map((slot, current) =>
+        current === index ? { ...slot, ...changes } : slot
+      )
+    );
+
+  const toggleMenuItem = (index: number, menuItemId: string) => {
+    const { menuItemIds } = slots[index];
+    updateSlot(index, {
+      menuItemIds: menuItemIds.includes(menuItemId)
+        ? menuItemIds.filter((id) => id !== menuItemId)
+        : [...menuItemIds, menuItemId],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Bundle Slots</h3>
+          <p className="text-sm text-gray-500">
+            Guests pick one item per slot. A slot with one item is always
+            included.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onChange([...slots, emptySlot])}
+        >
+          Add Slot
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {slots.map((slot, index) => (
+        <div
+          key={slot._id ?? `new-${index}`}
+          className="border border-gray-200 rounded-lg p-4 space-y-3"
+        >
+          <div className="flex items-end gap-4">
+            <div className="flex-1">
+              <Input
+                label="Slot name"
+                fullWidth
+                value={slot.name}
+                onChange={(e) => updateSlot(index, { name: e.target.value })}
+                disabled={disabled}
+                placeholder="Main"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-600"
+              disabled={disabled}
+              onClick={() =>
+                onChange(slots.filter((_, current) => current !== index))
+              }
+            >
+              Remove Slot
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-48 overflow-y-auto">
+            {menuItems.map((menuItem) => (
+              <label
+                key={menuItem._id}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={slot.menuItemIds.includes(menuItem._id)}
+                  onChange={() => toggleMenuItem(index, menuItem._id)}
+                  disabled={disabled}
+                  className="rounded border-gray-300"
+                />
+                <span className="truncate">{menuItem.name}</span>
+                <span className="text-gray-400">
+                  ${menuItem.price.toFixed(2)}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import {
+  Allergen,
+  DietaryTag,
+  MenuCategory,
+  MenuFieldChange,
+} from '@restaurant-monorepo/shared-types';
+import { allergenLabels, dietaryTagLabels } from './AllergenPicker';
+import { categoryLabels } from '../../pages/MenuManagement';
+
+const fieldLabels: Record<string, string> = {
+  type: 'Type',
+  name: 'Name',
+  description: 'Description',
+  price: 'Price',
+  category: 'Category',
+  prepTime: 'Prep time',
+  allergens: 'Allergens',
+  dietaryTags: 'Dietary',
+  imageUrl: 'Image',
+  modifierGroups: 'Modifiers',
+  bundleSlots: 'Bundle slots',
+  schedule: 'Schedule',
+  recipe: 'Recipe',
+  published: 'On the menu',
+};
+
+// Nested fields are summarised rather than spelled out
+const SUMMARISED_FIELDS = [
+  'modifierGroups',
+  'bundleSlots',
+  'schedule',
+  'recipe',
+];
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return 'none';
+
+  switch (field) {
+    case 'price':
+      return `$${Number(value).toFixed(2)}`;
+    case 'prepTime':
+      return `${value} min`;
+    case 'category':
+      return categoryLabels[value as MenuCategory] ?? String(value);
+    case 'type':
+      return value === 'bundle' ? 'Bundle' : 'Single item';
+    case 'published':
+      return value ? 'Yes' : 'No';
+    case 'allergens':
+      return (
+        (value as Allergen[])
+          .map((allergen) => allergenLabels[allergen])
+          .join(', ') || 'none'
+      );
+    case 'dietaryTags':
+      return (
+        (value as DietaryTag[])
+          .map((tag) => dietaryTagLabels[tag])
+          .join(', ') || 'none'
+      );
+    default:
+      return String(value);
+  }
+};
+
+interface MenuChangeListProps {
+  changes: MenuFieldChange[];
+}
+
+/**
+ * Each changed field of a menu item, old value to new
+ */
+export const MenuChangeList: React.FC<MenuChangeListProps> = ({ changes }) => (
+  <ul className="space-y-1 text-sm">
+    {changes.map((change) => (
+      <li key={change.field} className="text-gray-700">
+        <span className="font-medium">
+          {fieldLabels[change.field] ?? change.field}:
+        </span>{' '}
+        {SUMMARISED_FIELDS.includes(change.field) ? (
+          'changed'
+        ) : (
+          <>
+            <span className="text-gray-500 line-through">
+              {formatValue(change.field, change.from)}
+            </span>{' '}
+            → {formatValue(change.field, change.to)}
+          </>
+        )}
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@restaurant-monorepo/shared-ui';
+
+// Formats the API accepts for menu photos
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface MenuImageFieldProps {
+  imageUrl: string; // current photo, shown until a file is picked
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick a photo to upload when the menu item is saved
+ */
+export const MenuImageField: React.FC<MenuImageFieldProps> = ({
+  imageUrl,
+  file,
+  onFileChange,
+  disabled,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setPreview(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    setPreview(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const clearFile = () => {
+    onFileChange(null);
+    if (inputRef.current) {
+      inputRef.current.value = '';
+    }
+  };
+
+  const src = preview ?? imageUrl;
+
+  return (
+    <div className="flex items-center gap-4">
+      {src ? (
+        <img
+          src={src}
+          alt="Preview"
+          className="w-32 h-32 rounded-lg object-cover border flex-shrink-0"
+        />
+      ) : (
+        <div className="w-32 h-32 rounded-lg bg-gray-100 flex items-center justify-center text-4xl flex-shrink-0">
+          🍽️
+        </div>
+      )}
+      <div className="space-y-2 min-w-0">
+        <label className="block text-sm font-medium text-gray-700">
+          Upload Photo
+        </label>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={IMAGE_TYPES.join(',')}
+          disabled={disabled}
+          onChange={(e) => onFileChange(e.target.files?.[0] ?? null)}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        />
+        <p className="text-sm text-gray-500">
+          {file
+            ? `${file.name} will be uploaded when you save`
+            : 'JPEG, PNG or WebP. A thumbnail is made automatically.'}
+        </p>
+        {file && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={clearFile}
+            disabled={disabled}
+          >
+            Don't upload
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
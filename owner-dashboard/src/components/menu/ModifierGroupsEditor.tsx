@@ -0,0 +1,316 @@
+import React from 'react';
+import { z } from 'zod';
+import { Button, Input } from '@restaurant-monorepo/shared-ui';
+import { ModifierGroupInput } from '@restaurant-monorepo/shared-types';
+import { ModifierGroupRecord } from '../../pages/MenuManagement';
+
+export interface ModifierOptionDraft {
+  _id?: string;
+  name: string;
+  priceDelta: string;
+  available: boolean;
+}
+
+export interface ModifierGroupDraft {
+  _id?: string;
+  name: string;
+  required: boolean;
+  minSelections: string;
+  maxSelections: string;
+  options: ModifierOptionDraft[];
+}
+
+const wholeNumber = (label: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${label} is required`)
+    .transform(Number)
+    .pipe(
+      z
+        .number(`${label} must be a number`)
+        .int(`${label} must be a whole number`)
+        .min(0, `${label} cannot be negative`)
+    );
+
+// Mirrors the API's modifier group validation
+export const modifierGroupsSchema = z.array(
+  z
+    .object({
+      _id: z.string().optional(),
+      name: z.string().trim().min(1, 'Every modifier group needs a name'),
+      required: z.boolean(),
+      minSelections: wholeNumber('Minimum selections'),
+      maxSelections: wholeNumber('Maximum selections').refine(
+        (value) => value >= 1,
+        'Maximum selections must be at least 1'
+      ),
+      options: z
+        .array(
+          z.object({
+            _id: z.string().optional(),
+            name: z.string().trim().min(1, 'Every option needs a name'),
+            priceDelta: z
+              .string()
+              .trim()
+              .transform((value) => Number(value || 0))
+              .pipe(
+                z
+                  .number('Option price must be a number')
+                  .min(0, 'Option price cannot be negative')
+              ),
+            available: z.boolean(),
+          })
+        )
+        .min(1, 'Every modifier group needs at least one option'),
+    })
+    .refine((group) => group.minSelections <= group.maxSelections, {
+      message: 'Minimum selections cannot exceed the maximum',
+    })
+    .refine((group) => group.maxSelections <= group.options.length, {
+      message: 'Maximum selections cannot exceed the number of options',
+    })
+) satisfies z.ZodType<ModifierGroupInput[], ModifierGroupDraft[]>;
+
+export const toModifierGroupDrafts = (
+  groups: ModifierGroupRecord[]
+): ModifierGroupDraft[] =>
+  groups.map((group) => ({
+    _id: group._id,
+    name: group.name,
+    required: group.required,
+    minSelections: String(group.minSelections),
+    maxSelections: String(group.maxSelections),
+    options: group.options.map((option) => ({
+      _id: option._id,
+      name: option.name,
+      priceDelta: option.priceDelta.toFixed(2),
+      available: option.available,
+    })),
+  }));
+
+const emptyOption: ModifierOptionDraft = {
+  name: '',
+  priceDelta: '0.00',
+  available: true,
+};
+
+const emptyGroup: ModifierGroupDraft = {
+  name: '',
+  required: false,
+  minSelections: '0',
+  maxSelections: '1',
+  options: [emptyOption],
+};
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroupDraft[];
+  onChange: (groups: ModifierGroupDraft[]) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Edit a menu item's modifier groups and their priced options
+ */
+export const ModifierGroupsEditor: React.FC<ModifierGroupsEditorProps> = ({
+  groups,
+  onChange,
+  disabled,
+  error,
+}) => {
+  const updateGroup = (index: number, changes: Partial<ModifierGroupDraft>) =>
+    onChange(
+      groups.map((group, current) =>
+        current === index ? { ...group, ...changes } : group
+      )
+    );
+
+  const updateOption = (
+    groupIndex: number,
+    optionIndex: number,
+    changes: Partial<ModifierOptionDraft>
+  ) =>
+    updateGroup(groupIndex, {
+      options: groups[groupIndex].options.map((option, current) =>
+        current === optionIndex ? { ...option, ...changes } : option
+      ),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Modifiers</h3>
+          <p className="text-sm text-gray-500">
+            Choices staff make when adding this dish, like size or extras.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onChange([...groups, emptyGroup])}
+        >
+          Add Group
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {groups.map((group, groupIndex) => (
+        <div
+          key={group._id ?? `new-${groupIndex}`}
+          className="border border-gray-200 rounded-lg p-4 space-y-4"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-2">
+              <Input
+                label="Group name"
+                fullWidth
+                value={group.name}
+                onChange={(e) =>
+                  updateGroup(groupIndex, { name: e.target.value })
+                }
+                disabled={disabled}
+                placeholder="Size"
+              />
+            </div>
+            <Input
+              label="Min"
+              type="number"
+              min="0"
+              step="1"
+              fullWidth
+              value={group.minSelections}
+              onChange={(e) =>
+                updateGroup(groupIndex, { minSelections: e.target.value })
+              }
+              disabled={disabled}
+            />
+            <Input
+              label="Max"
+              type="number"
+              min="1"
+              step="1"
+              fullWidth
+              value={group.maxSelections}
+              onChange={(e) =>
+                updateGroup(groupIndex, { maxSelections: e.target.value })
+              }
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={group.required}
+                onChange={(e) =>
+                  updateGroup(groupIndex, { required: e.target.checked })
+                }
+                disabled={disabled}
+                className="rounded border-gray-300"
+              />
+              Required
+            </label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-600"
+              disabled={disabled}
+              onClick={() =>
+                onChange(groups.filter((_, current) => current !== groupIndex))
+              }
+            >
+              Remove Group
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div
+                key={option._id ?? `new-${optionIndex}`}
+                className="flex items-center gap-2"
+              >
+                <input
+                  type="text"
+                  aria-label="Option name"
+                  value={option.name}
+                  onChange={(e) =>
+                    updateOption(groupIndex, optionIndex, {
+                      name: e.target.value,
+                    })
+                  }
+                  disabled={disabled}
+                  placeholder="Option"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <input
+                  type="number"
+                  aria-label="Extra price"
+                  min="0"
+                  step="0.01"
+                  value={option.priceDelta}
+                  onChange={(e) =>
+                    updateOption(groupIndex, optionIndex, {
+                      priceDelta: e.target.value,
+                    })
+                  }
+                  disabled={disabled}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={option.available}
+                    onChange={(e) =>
+                      updateOption(groupIndex, optionIndex, {
+                        available: e.target.checked,
+                      })
+                    }
+                    disabled={disabled}
+                    className="rounded border-gray-300"
+                  />
+                  Available
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Remove option"
+                  disabled={disabled || group.options.length === 1}
+                  onClick={() =>
+                    updateGroup(groupIndex, {
+                      options: group.options.filter(
+                        (_, current) => current !== optionIndex
+                      ),
+                    })
+                  }
+                >
+                  ✕
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              onClick={() =>
+                updateGroup(groupIndex, {
+                  options: [...group.options, emptyOption],
+                })
+              }
+            >
+              + Add Option
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import { z } from 'zod';
+import { Button, Input, Select } from '@restaurant-monorepo/shared-ui';
+import { RecipeLineInput } from '@restaurant-monorepo/shared-types';
+import type { IngredientRecord } from '../../pages/Inventory';
+
+export interface RecipeLineDraft {
+  ingredientId: string;
+  quantity: string;
+}
+
+// Mirrors the API's recipe validation, reading quantities from text fields
+export const recipeSchema = z
+  .array(
+    z.object({
+      ingredientId: z.string().min(1, 'Choose an ingredient for every line'),
+      quantity: z
+        .string()
+        .trim()
+        .min(1, 'Every recipe line needs a quantity')
+        .transform(Number)
+        .pipe(
+          z
+            .number('Recipe quantity must be a number')
+            .positive('Recipe quantity must be positive')
+        ),
+    })
+  )
+  .refine(
+    (lines) =>
+      new Set(lines.map((line) => line.ingredientId)).size === lines.length,
+    'Each ingredient can only appear once'
+  ) satisfies z.ZodType<RecipeLineInput[], RecipeLineDraft[]>;
+
+export const toRecipeDrafts = (recipe: RecipeLineInput[]): RecipeLineDraft[] =>
+  recipe.map((line) => ({
+    ingredientId: line.ingredientId,
+    quantity: String(line.quantity),
+  }));
+
+const emptyLine: RecipeLineDraft = { ingredientId: '', quantity: '' };
+
+interface RecipeEditorProps {
+  recipe: RecipeLineDraft[];
+  ingredients: IngredientRecord[];
+  onChange: (recipe: RecipeLineDraft[]) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Edit the ingredients one portion of a menu item uses
+ */
+export const RecipeEditor: React.FC<RecipeEditorProps> = ({
+  recipe,
+  ingredients,
+  onChange,
+  disabled,
+  error,
+}) => {
+  const updateLine = (index: number, changes: Partial<RecipeLineDraft>) =>
+    onChange(
+      recipe.map((line, current) =>
+        current === index ? { ...line, ...changes } : line
+      )
+    );
+
+  const ingredientOptions = [
+    { value: '', label: 'Choose ingredient' },
+    ...ingredients.map((ingredient) => ({
+      value: ingredient._id,
+      label: `${ingredient.name} (${ingredient.unit})`,
+    })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Recipe</h3>
+          <p className="text-sm text-gray-500">
+            Ingredients used per portion. The item sells out when any of them
+            runs out.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          disabled={disabled || ingredients.length === 0}
+          onClick={() => onChange([...recipe, emptyLine])}
+        >
+          Add Ingredient
+        </Button>
+      </div>
+
+      {ingredients.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Add ingredients on the Stock page to build recipes.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {recipe.map((line, index) => {
+        const unit = ingredients.find(
+          (ingredient) => ingredient._id === line.ingredientId
+        )?.unit;
+
+        return (
+          <div key={index} className="flex items-end gap-4">
+            <div className="flex-1">
+              <Select
+                label={index === 0 ? 'Ingredient' : undefined}
+                fullWidth
+                value={line.ingredientId}
+                options={ingredientOptions}
+                onChange={(e) =>
+                  updateLine(index, { ingredientId: e.target.value })
+                }
+                disabled={disabled}
+              />
+            </div>
+            <div className="w-32">
+              <Input
+                label={index === 0 ? 'Quantity' : undefined}
+                type="number"
+                min={0}
+                step="any"
+                fullWidth
+                value={line.quantity}
+                onChange={(e) =>
+                  updateLine(index, { quantity: e.target.value })
+                }
+                disabled={disabled}
+                placeholder={unit ?? ''}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-600"
+              disabled={disabled}
+              onClick={() =>
+                onChange(recipe.filter((_, current) => current !== index))
+              }
+            >
+              Remove
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React from 'react';
+import { z } from 'zod';
+import { Input } from '@restaurant-monorepo/shared-ui';
+import {
+  DAYPARTS,
+  Daypart,
+  DaypartConfig,
+  MenuSchedule,
+} from '@restaurant-monorepo/shared-types';
+
+export interface ScheduleDraft {
+  dayparts: Daypart[];
+  daysOfWeek: number[];
+  startDate: string;
+  endDate: string;
+}
+
+export const emptySchedule: ScheduleDraft = {
+  dayparts: [],
+  daysOfWeek: [],
+  startDate: '',
+  endDate: '',
+};
+
+// Mirrors the API's schedule validation. Rules left empty are dropped, so an
+// empty schedule means always orderable.
+export const scheduleSchema = z
+  .object({
+    dayparts: z.array(z.enum(DAYPARTS)),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)),
+    startDate: z.string(),
+    endDate: z.string(),
+  })
+  .refine(
+    (schedule) =>
+      !schedule.startDate ||
+      !schedule.endDate ||
+      schedule.startDate <= schedule.endDate,
+    'End date cannot be before the start date'
+  )
+  .transform(
+    (schedule): MenuSchedule => ({
+      dayparts: schedule.dayparts.length ? schedule.dayparts : undefined,
+      daysOfWeek: schedule.daysOfWeek.length
+        ? [...schedule.daysOfWeek].sort((a, b) => a - b)
+        : undefined,
+      startDate: schedule.startDate || undefined,
+      endDate: schedule.endDate || undefined,
+    })
+  );
+
+export const toScheduleDraft = (schedule?: MenuSchedule): ScheduleDraft => ({
+  dayparts: schedule?.dayparts ?? [],
+  daysOfWeek: schedule?.daysOfWeek ?? [],
+  startDate: schedule?.startDate ?? '',
+  endDate: schedule?.endDate ?? '',
+});
+
+export const daypartLabels: Record<Daypart, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+};
+
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ScheduleEditorProps {
+  schedule: ScheduleDraft;
+  dayparts?: DaypartConfig;
+  onChange: (schedule: ScheduleDraft) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value)
+    ? values.filter((current) => current !== value)
+    : [...values, value];
+
+/**
+ * Edit when a menu item can be ordered
+ */
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  schedule,
+  dayparts,
+  onChange,
+  disabled,
+  error,
+}) => (
+  <div className="space-y-4">
+    <div>
+      <h3 className="text-sm font-medium text-gray-700">Schedule</h3>
+      <p className="text-sm text-gray-500">
+        Leave everything empty to serve the item whenever it is switched on.
+        {dayparts && ` Times are in ${dayparts.timezone}.`}
+      </p>
+    </div>
+
+    {error && <p className="text-sm text-red-600">{error}</p>}
+
+    <div>
+      <span className="block text-sm text-gray-700 mb-2">Dayparts</span>
+      <div className="flex flex-wrap gap-2">
+        {DAYPARTS.map((daypart) => (
+          <button
+            key={daypart}
+            type="button"
+            aria-pressed={schedule.dayparts.includes(daypart)}
+            disabled={disabled}
+            onClick={() =>
+              onChange({
+                ...schedule,
+                dayparts: toggle(schedule.dayparts, daypart),
+              })
+            }
+            className={`px-3 py-2 rounded-md border text-sm ${
+              schedule.dayparts.includes(daypart)
+                ? 'border-blue-600 bg-blue-50 text-blue-800'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {daypartLabels[daypart]}
+            {dayparts && (
+              <span className="ml-1 text-xs text-gray-500">
+                {dayparts.dayparts[daypart].start}–
+                {dayparts.dayparts[daypart].end}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div>
+      <span className="block text-sm text-gray-700 mb-2">Days</span>
+      <div className="flex flex-wrap gap-2">
+        {weekdayLabels.map((label, day) => (
+          <button
+            key={label}
+            type="button"
+            aria-pressed={schedule.daysOfWeek.includes(day)}
+            disabled={disabled}
+            onClick={() =>
+              onChange({
+                ...schedule,
+                daysOfWeek: toggle(schedule.daysOfWeek, day),
+              })
+            }
+            className={`w-12 py-2 rounded-md border text-sm ${
+              schedule.daysOfWeek.includes(day)
+                ? 'border-blue-600 bg-blue-50 text-blue-800'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <Input
+        label="Available from"
+        type="date"
+        fullWidth
+        value={schedule.startDate}
+        onChange={(e) => onChange({ ...schedule, startDate: e.target.value })}
+        disabled={disabled}
+      />
+      <Input
+        label="Available until"
+        type="date"
+        fullWidth
+        value={schedule.endDate}
+        onChange={(e) => onChange({ ...schedule, endDate: e.target.value })}
+        disabled={disabled}
+      />
+    </div>
+  </div>
+);
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalFooter,
+} from '@restaurant-monorepo/shared-ui';
+import { OrderItemModifier } from '@restaurant-monorepo/shared-types';
+import { MenuItemRecord } from '../../pages/MenuManagement';
+import { ModifierPicker } from './ModifierPicker';
+
+export interface BundleComponent {
+  slotId: string;
+  slotName: string;
+  menuItem: MenuItemRecord;
+  modifiers: OrderItemModifier[];
+}
+
+interface BundlePickerProps {
+  bundle: MenuItemRecord | null;
+  menuItems: MenuItemRecord[]; // what can be ordered right now
+  onClose: () => void;
+  onConfirm: (components: BundleComponent[]) => void;
+}
+
+/**
+ * Choose one item for each slot of a bundle, and any modifiers those items
+ * take, before the bundle goes in the cart
+ */
+export const BundlePicker: React.FC<BundlePickerProps> = ({
+  bundle,
+  menuItems,
+  onClose,
+  onConfirm,
+}) => {
+  const [chosen, setChosen] = useState<Record<string, BundleComponent>>({});
+  const [configuring, setConfiguring] = useState<BundleComponent | null>(null);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const getChoices = (menuItemIds: string[]) =>
+    menuItems.filter((item) => menuItemIds.includes(item._id));
+
+  // Slots with a single choice and nothing to configure are filled in. This
+  // only resets when a different bundle is opened, not on menu refreshes.
+  const [openedBundle, setOpenedBundle] = useState<MenuItemRecord | null>(null);
+  if (bundle !== openedBundle) {
+    const fixed: Record<string, BundleComponent> = {};
+    for (const slot of bundle?.bundleSlots ?? []) {
+      const choices = getChoices(slot.menuItemIds);
+      if (choices.length === 1 && choices[0].modifierGroups.length === 0) {
+        fixed[slot._id] = {
+          slotId: slot._id,
+          slotName: slot.name,
+          menuItem: choices[0],
+          modifiers: [],
+        };
+      }
+    }
+    setOpenedBundle(bundle);
+    setChosen(fixed);
+    setConfiguring(null);
+    setShowErrors(false);
+  }
+
+  if (!bundle) return null;
+
+  if (configuring) {
+    return (
+      <ModifierPicker
+        menuItem={configuring.menuItem}
+        onClose={() => setConfiguring(null)}
+        onConfirm={(modifiers) => {
+          setChosen((current) => ({
+            ...current,
+            [configuring.slotId]: { ...configuring, modifiers },
+          }));
+          setConfiguring(null);
+        }}
+      />
+    );
+  }
+
+  const chooseItem = (
+    slot: MenuItemRecord['bundleSlots'][number],
+    menuItem: MenuItemRecord
+  ) => {
+    const component = {
+      slotId: slot._id,
+      slotName: slot.name,
+      menuItem,
+      modifiers: [],
+    };
+    if (menuItem.modifierGroups.length > 0) {
+      setConfiguring(component);
+    } else {
+      setChosen((current) => ({ ...current, [slot._id]: component }));
+    }
+  };
+
+  const missingSlots = bundle.bundleSlots.filter((slot) => !chosen[slot._id]);
+  const upcharge = Object.values(chosen).reduce(
+    (sum, component) =>
+      sum +
+      component.modifiers.reduce(
+        (modifierSum, modifier) => modifierSum + modifier.priceDelta,
+        0
+      ),
+    0
+  );
+
+  const handleConfirm = () => {
+    if (missingSlots.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onConfirm(bundle.bundleSlots.map((slot) => chosen[slot._id]));
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={bundle.name} size="lg">
+      <ModalBody>
+        <div className="space-y-6">
+          {bundle.bundleSlots.map((slot) => {
+            const choices = getChoices(slot.menuItemIds);
+            const selected = chosen[slot._id];
+            return (
+              <fieldset key={slot._id}>
+                <legend className="w-full flex justify-between items-baseline mb-2">
+                  <span className="font-semibold text-gray-900">
+                    {slot.name}
+                  </span>
+                  <span
+                    className={`text-xs ${
+                      showErrors && !selected
+                        ? 'text-red-600 font-medium'
+                        : 'text-gray-500'
+                    }`}
+                  >
+                    Choose 1
+                  </span>
+                </legend>
+                {choices.length === 0 ? (
+                  <p className="text-sm text-red-600">
+                    Nothing in this slot is available right now.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {choices.map((menuItem) => {
+                      const isSelected =
+                        selected?.menuItem._id === menuItem._id;
+                      return (
+                        <button
+                          key={menuItem._id}
+                          type="button"
+                          aria-pressed={isSelected}
+                          onClick={() => chooseItem(slot, menuItem)}
+                          className={`min-h-12 rounded-lg border-2 px-3 py-2 text-left text-sm transition-colors ${
+                            isSelected
+                              ? 'border-blue-600 bg-blue-50'
+                              : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <span className="font-medium">{menuItem.name}</span>
+                          {isSelected && selected.modifiers.length > 0 && (
+                            <span className="block text-xs text-gray-600">
+                              {selected.modifiers
+                                .map((modifier) => modifier.optionName)
+                                .join(', ')}
+                            </span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </fieldset>
+            );
+          })}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleConfirm}>
+          Add • ${(bundle.price + upcharge).toFixed(2)}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
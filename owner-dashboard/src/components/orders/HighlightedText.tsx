@@ -0,0 +1,32 @@
+import React from 'react';
+import { MenuSearchHighlight } from '@restaurant-monorepo/shared-types';
+
+interface HighlightedTextProps {
+  text: string;
+  highlight?: MenuSearchHighlight;
+}
+
+/**
+ * Text with the parts that matched a menu search marked
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  highlight,
+}) => {
+  if (!highlight || highlight.text !== text) return text;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of highlight.ranges) {
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+
+  return parts;
+};
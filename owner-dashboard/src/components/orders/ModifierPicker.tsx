@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalFooter,
+} from '@restaurant-monorepo/shared-ui';
+import { OrderItemModifier } from '@restaurant-monorepo/shared-types';
+import {
+  MenuItemRecord,
+  ModifierGroupRecord,
+} from '../../pages/MenuManagement';
+
+interface ModifierPickerProps {
+  menuItem: MenuItemRecord | null;
+  onClose: () => void;
+  onConfirm: (modifiers: OrderItemModifier[]) => void;
+}
+
+const getMinSelections = (group: ModifierGroupRecord) =>
+  Math.max(group.minSelections, group.required ? 1 : 0);
+
+// Same rules the API applies when the order is sent
+const getGroupError = (group: ModifierGroupRecord, count: number) => {
+  if (count === 0 && !group.required) return null;
+
+  const min = getMinSelections(group);
+  if (count >= min && count <= group.maxSelections) return null;
+
+  return min === group.maxSelections
+    ? `Choose ${min}`
+    : `Choose ${min} to ${group.maxSelections}`;
+};
+
+const describeGroup = (group: ModifierGroupRecord) => {
+  const min = getMinSelections(group);
+  const range =
+    min === group.maxSelections
+      ? `choose ${min}`
+      : min > 0
+      ? `choose ${min} to ${group.maxSelections}`
+      : `up to ${group.maxSelections}`;
+  return group.required ? `Required, ${range}` : `Optional, ${range}`;
+};
+
+/**
+ * Choose a menu item's modifiers before it goes in the cart
+ */
+export const ModifierPicker: React.FC<ModifierPickerProps> = ({
+  menuItem,
+  onClose,
+  onConfirm,
+}) => {
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => {
+    setSelected({});
+    setShowErrors(false);
+  }, [menuItem]);
+
+  if (!menuItem) return null;
+
+  const toggleOption = (group: ModifierGroupRecord, optionId: string) =>
+    setSelected((current) => {
+      const chosen = current[group._id] ?? [];
+      if (chosen.includes(optionId)) {
+        return {
+          ...current,
+          [group._id]: chosen.filter((id) => id !== optionId),
+        };
+      }
+      // Single-choice groups swap the answer instead of adding to it
+      return {
+        ...current,
+        [group._id]:
+          group.maxSelections === 1 ? [optionId] : [...chosen, optionId],
+      };
+    });
+
+  const errors = menuItem.modifierGroups.map((group) =>
+    getGroupError(group, selected[group._id]?.length ?? 0)
+  );
+
+  const modifiers: OrderItemModifier[] = menuItem.modifierGroups.flatMap(
+    (group) =>
+      group.options
+        .filter((option) => selected[group._id]?.includes(option._id))
+        .map((option) => ({
+          groupId: group._id,
+          groupName: group.name,
+          optionId: option._id,
+          optionName: option.name,
+          priceDelta: option.priceDelta,
+        }))
+  );
+
+  const unitPrice =
+    menuItem.price +
+    modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+
+  const handleConfirm = () => {
+    if (errors.some(Boolean)) {
+      setShowErrors(true);
+      return;
+    }
+    onConfirm(modifiers);
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={menuItem.name} size="lg">
+      <ModalBody>
+        <div className="space-y-6">
+          {menuItem.modifierGroups.map((group, index) => (
+            <fieldset key={group._id}>
+              <legend className="w-full flex justify-between items-baseline mb-2">
+                <span className="font-semibold text-gray-900">
+                  {group.name}
+                </span>
+                <span
+                  className={`text-xs ${
+                    showErrors && errors[index]
+                      ? 'text-red-600 font-medium'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  {showErrors && errors[index]
+                    ? errors[index]
+                    : describeGroup(group)}
+                </span>
+              </legend>
+              <div className="grid grid-cols-2 gap-2">
+                {group.options.map((option) => {
+                  const isSelected =
+                    selected[group._id]?.includes(option._id) ?? false;
+                  return (
+                    <button
+                      key={option._id}
+                      type="button"
+                      disabled={!option.available}
+                      aria-pressed={isSelected}
+                      onClick={() => toggleOption(group, option._id)}
+                      className={`min-h-12 rounded-lg border-2 px-3 py-2 text-left text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                        isSelected
+                          ? 'border-blue-600 bg-blue-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <span className="font-medium">{option.name}</span>
+                      {option.priceDelta > 0 && (
+                        <span className="text-gray-600">
+                          {' '}
+                          +${option.priceDelta.toFixed(2)}
+                        </span>
+                      )}
+                      {!option.available && (
+                        <span className="block text-xs text-red-600">
+                          Sold out
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </fieldset>
+          ))}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleConfirm}>
+          Add • ${unitPrice.toFixed(2)}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
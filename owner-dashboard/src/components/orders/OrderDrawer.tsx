@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Button,
+  OrderStatusBadge,
+  PaymentStatusBadge,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import { getAllowedStatusTransitions } from '@restaurant-monorepo/rbac';
+import {
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderStatusChange,
+  UserRole,
+} from '@restaurant-monorepo/shared-types';
+
+type DrawerOrder = Omit<Order, 'items' | 'statusHistory' | 'createdBy'> & {
+  _id: string;
+  items: (OrderItem & { _id: string })[];
+  statusHistory: (Omit<OrderStatusChange, 'changedBy'> & {
+    changedBy?: { name: string; role: UserRole };
+  })[];
+  createdBy?: { name: string };
+};
+
+interface OrderDrawerProps {
+  orderId: string | null;
+  userRole?: UserRole;
+  onClose: () => void;
+  /** Called after the order's status is changed from the drawer */
+  onStatusChange: (order: Order) => void;
+}
+
+const statusActionConfig: Record<
+  OrderStatus,
+  { label: string; variant: 'primary' | 'success' | 'danger' }
+> = {
+  pending: { label: 'Back to Pending', variant: 'primary' },
+  preparing: { label: 'Start Preparing', variant: 'primary' },
+  ready: { label: 'Mark Ready', variant: 'success' },
+  served: { label: 'Mark Served', variant: 'success' },
+  cancelled: { label: 'Cancel Order', variant: 'danger' },
+};
+
+const formatDateTime = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Slide-over panel with an order's lines, status timeline and the status
+ * changes the current role may make
+ */
+export const OrderDrawer: React.FC<OrderDrawerProps> = ({
+  orderId,
+  userRole,
+  onClose,
+  onStatusChange,
+}) => {
+  const [order, setOrder] = useState<DrawerOrder | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState<OrderStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orderId) {
+      setOrder(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchOrder = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await apiClient.getOrderById(orderId);
+        if (!cancelled && response.success) {
+          setOrder(response.data.order as unknown as DrawerOrder);
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setError(err.message || 'Failed to load order');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchOrder();
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [orderId, onClose]);
+
+  if (!orderId) return null;
+
+  const handleStatusChange = async (status: OrderStatus) => {
+    if (!order) return;
+
+    try {
+      setUpdating(status);
+      setError(null);
+      const response = await apiClient.updateOrderStatus(order._id, status);
+      if (response.success) {
+        // Reload so the timeline shows who made the change
+        const refreshed = await apiClient.getOrderById(order._id);
+        setOrder(refreshed.data.order as unknown as DrawerOrder);
+        onStatusChange(response.data.order);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to update order');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const actions =
+    order && userRole
+      ? getAllowedStatusTransitions(userRole, order.status)
+      : [];
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div
+        className="absolute inset-0 bg-black bg-opacity-30"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <aside
+        className="relative w-full max-w-md bg-white shadow-xl flex flex-col"
+        role="dialog"
+        aria-label="Order details"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {order ? `Order #${order.orderNumber}` : 'Order'}
+            </h2>
+            {order && (
+              <p className="text-sm text-gray-600">
+                Table {order.tableNumber}
+                {order.customerName && ` • ${order.customerName}`}
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-3 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading && !order ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div
+                  key={i}
+                  className="h-10 bg-gray-200 rounded animate-pulse"
+                ></div>
+              ))}
+            </div>
+          ) : (
+            order && (
+              <>
+                <div className="flex items-center gap-2">
+                  <OrderStatusBadge status={order.status} />
+                  <PaymentStatusBadge status={order.paymentStatus} />
+                </div>
+
+                {/* Line items */}
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    Items
+                  </h3>
+                  <div className="divide-y divide-gray-100">
+                    {order.items.map((item) => (
+                      <div
+                        key={item._id}
+                        className="py-2 flex justify-between gap-4 text-sm"
+                      >
+                        <div>
+                          <span className="font-medium">
+                            {item.quantity}× {item.menuItemName}
+                          </span>
+                          {item.bundle && (
+                            <p className="text-purple-700">
+                              {item.bundle.name}
+                            </p>
+                          )}
+                          {item.modifiers?.map((modifier) => (
+                            <p
+                              key={modifier.optionId}
+                              className="text-gray-600"
+                            >
+                              + {modifier.optionName}
+                            </p>
+                          ))}
+                          {item.specialInstructions && (
+                            <p className="text-gray-500 italic">
+                              {item.specialInstructions}
+                            </p>
+                          )}
+                        </div>
+                        <span className="text-gray-700">
+                          ${item.totalPrice.toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="border-t pt-2 flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span>${order.total.toFixed(2)}</span>
+                  </div>
+                </section>
+
+                {/* Timeline */}
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    Timeline
+                  </h3>
+                  <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+                    <li className="pl-4 relative">
+                      <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-blue-500" />
+                      <p className="text-sm font-medium text-gray-900">
+                        Order placed
+                        {order.createdBy?.name && ` by ${order.createdBy.name}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateTime(order.createdAt)}
+                      </p>
+                    </li>
+                    {order.statusHistory.map((change, index) => (
+                      <li key={index} className="pl-4 relative">
+                        <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-gray-400" />
+                        <p className="text-sm font-medium text-gray-900">
+                          {change.from ? `${change.from} → ` : ''}
+                          {change.to}
+                          {change.changedBy?.name &&
+                            ` by ${change.changedBy.name}`}
+                        </p>
+                        {change.reason && (
+                          <p className="text-sm text-gray-600">
+                            {change.reason}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          {formatDateTime(change.changedAt)}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              </>
+            )
+          )}
+        </div>
+
+        {order && (
+          <div className="p-6 border-t border-gray-200 space-y-3">
+            {actions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {actions.map((status) => (
+                  <Button
+                    key={status}
+                    variant={statusActionConfig[status].variant}
+                    size="sm"
+                    loading={updating === status}
+                    disabled={updating !== null}
+                    onClick={() => handleStatusChange(status)}
+                    className="flex-1"
+                  >
+                    {statusActionConfig[status].label}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <Link
+              to={`/orders/${order._id}`}
+              className="block text-center text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              Open full order
+            </Link>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { CategoryMixRow } from '@restaurant-monorepo/shared-types';
+
+interface CategoryMixChartProps {
+  categories: CategoryMixRow[];
+}
+
+const barColors = [
+  'bg-blue-500',
+  'bg-green-500',
+  'bg-orange-500',
+  'bg-purple-500',
+  'bg-pink-500',
+  'bg-gray-400',
+];
+
+const formatCategory = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1).replace('_', ' ');
+
+/**
+ * Share of item revenue per menu category as horizontal bars
+ */
+export const CategoryMixChart: React.FC<CategoryMixChartProps> = ({
+  categories,
+}) => {
+  if (categories.length === 0) {
+    return (
+      <div className="py-12 text-center text-gray-500">
+        No items sold in this period
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {categories.map((category, index) => (
+        <div key={category.category}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-gray-900">
+              {formatCategory(category.category)}
+            </span>
+            <span className="text-gray-600">
+              ${category.revenue.toFixed(2)} • {category.quantity} sold •{' '}
+              {category.share}%
+            </span>
+          </div>
+          <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${
+                barColors[index % barColors.length]
+              }`}
+              style={{ width: `${category.share}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
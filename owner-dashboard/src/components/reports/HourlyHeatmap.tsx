@@ -0,0 +1,82 @@
+import React from 'react';
+import { HeatmapCell } from '@restaurant-monorepo/shared-types';
+
+interface HourlyHeatmapProps {
+  cells: HeatmapCell[];
+}
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Opacity steps from quiet to busiest hour
+const intensityClasses = [
+  'bg-gray-50',
+  'bg-blue-100',
+  'bg-blue-200',
+  'bg-blue-400',
+  'bg-blue-600',
+  'bg-blue-800',
+];
+
+/**
+ * Orders per weekday and hour, shaded relative to the busiest hour
+ */
+export const HourlyHeatmap: React.FC<HourlyHeatmapProps> = ({ cells }) => {
+  const byKey = new Map(
+    cells.map((cell) => [`${cell.dayOfWeek}-${cell.hour}`, cell])
+  );
+  const busiest = Math.max(1, ...cells.map((cell) => cell.orders));
+
+  const intensity = (orders: number) =>
+    orders === 0
+      ? intensityClasses[0]
+      : intensityClasses[
+          Math.min(
+            intensityClasses.length - 1,
+            Math.ceil((orders / busiest) * (intensityClasses.length - 1))
+          )
+        ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate" style={{ borderSpacing: 2 }}>
+        <thead>
+          <tr>
+            <th />
+            {HOURS.map((hour) => (
+              <th
+                key={hour}
+                className="text-[10px] font-normal text-gray-500 w-6"
+              >
+                {hour % 3 === 0 ? hour : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {DAYS.map((day, dayIndex) => (
+            <tr key={day}>
+              <th className="pr-2 text-xs font-medium text-gray-600 text-right">
+                {day}
+              </th>
+              {HOURS.map((hour) => {
+                const cell = byKey.get(`${dayIndex + 1}-${hour}`);
+                return (
+                  <td
+                    key={hour}
+                    className={`w-6 h-6 rounded ${intensity(
+                      cell?.orders ?? 0
+                    )}`}
+                    title={`${day} ${hour}:00 – ${
+                      cell?.orders ?? 0
+                    } orders, $${(cell?.revenue ?? 0).toFixed(2)}`}
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
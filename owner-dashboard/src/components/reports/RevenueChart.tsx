@@ -0,0 +1,132 @@
+import React from 'react';
+
+export interface RevenueChartPoint {
+  label: string;
+  revenue: number;
+  previousRevenue?: number;
+}
+
+interface RevenueChartProps {
+  points: RevenueChartPoint[];
+  height?: number;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 56 };
+
+/**
+ * Revenue over time as a line, with the previous period dashed behind it
+ */
+export const RevenueChart: React.FC<RevenueChartProps> = ({
+  points,
+  height = 240,
+}) => {
+  if (points.length === 0) {
+    return (
+      <div className="py-12 text-center text-gray-500">
+        No sales in this period
+      </div>
+    );
+  }
+
+  const max = Math.max(
+    1,
+    ...points.map((point) =>
+      Math.max(point.revenue, point.previousRevenue ?? 0)
+    )
+  );
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left +
+    (points.length === 1
+      ? plotWidth / 2
+      : (index / (points.length - 1)) * plotWidth);
+  const y = (value: number) =>
+    PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const toPath = (values: (number | undefined)[]) =>
+    values
+      .map((value, index) =>
+        value === undefined ? null : `${x(index)},${y(value)}`
+      )
+      .filter(Boolean)
+      .join(' ');
+
+  // Label roughly eight points so the axis stays readable
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+  const gridLines = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Revenue trend"
+    >
+      {gridLines.map((fraction) => (
+        <g key={fraction}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(max * fraction)}
+            y2={y(max * fraction)}
+            className="stroke-gray-200"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={y(max * fraction) + 4}
+            textAnchor="end"
+            className="fill-gray-500 text-[10px]"
+          >
+            ${Math.round(max * fraction).toLocaleString()}
+          </text>
+        </g>
+      ))}
+
+      {points.some((point) => point.previousRevenue !== undefined) && (
+        <polyline
+          points={toPath(points.map((point) => point.previousRevenue))}
+          fill="none"
+          strokeWidth={2}
+          strokeDasharray="4 4"
+          className="stroke-gray-400"
+        />
+      )}
+      <polyline
+        points={toPath(points.map((point) => point.revenue))}
+        fill="none"
+        strokeWidth={2.5}
+        className="stroke-blue-600"
+      />
+
+      {points.map((point, index) => (
+        <g key={index}>
+          <circle
+            cx={x(index)}
+            cy={y(point.revenue)}
+            r={3}
+            className="fill-blue-600"
+          >
+            <title>
+              {point.label}: ${point.revenue.toFixed(2)}
+              {point.previousRevenue !== undefined &&
+                ` (previous $${point.previousRevenue.toFixed(2)})`}
+            </title>
+          </circle>
+          {index % labelEvery === 0 && (
+            <text
+              x={x(index)}
+              y={height - 8}
+              textAnchor="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {point.label}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
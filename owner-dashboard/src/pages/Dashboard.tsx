@@ -53,10 +53,12 @@ export const Dashboard: React.FC = () => {
 
     fetchDashboardData();
 
-    // Set up auto-refresh every 30 seconds
-    const interval = setInterval(fetchDashboardData, 30000);
+    // Stats are aggregated server-side, so reload them on every order event
+    const unsubscribe = apiClient.subscribeToOrderEvents(() =>
+      fetchDashboardData()
+    );
 
-    return () => clearInterval(interval);
+    return unsubscribe;
   }, []);
 
   if (loading) {
@@ -109,6 +111,8 @@ export const Dashboard: React.FC = () => {
     totalOrders: 0,
     totalRevenue: 0,
     avgOrderValue: 0,
+    totalRefunds: 0,
+    voidedOrders: 0,
   };
 
   const statusBreakdown = stats?.statusBreakdown || [];
@@ -127,6 +131,10 @@ export const Dashboard: React.FC = () => {
     {
       title: "Today's Revenue",
       value: `$${todayStats.totalRevenue?.toFixed(2) || '0.00'}`,
+      note:
+        todayStats.totalRefunds > 0
+          ? `after $${todayStats.totalRefunds.toFixed(2)} refunded`
+          : undefined,
       icon: '💰',
       color: 'text-green-600',
       bgColor: 'bg-green-50',
@@ -212,6 +220,9 @@ export const Dashboard: React.FC = () => {
                         {stat.change}
                       </div>
                     </dd>
+                    {stat.note && (
+                      <dd className="text-xs text-gray-500">{stat.note}</dd>
+                    )}
                   </dl>
                 </div>
               </div>
@@ -291,9 +302,10 @@ export const Dashboard: React.FC = () => {
             <div className="space-y-4">
               {recentOrders.length > 0 ? (
                 recentOrders.map((order) => (
-                  <div
+                  <Link
                     key={order.id || order._id}
-                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                    to={`/orders/${order._id}`}
+                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
                   >
                     <div className="flex-1">
                       <div className="flex items-center space-x-3">
@@ -315,7 +327,7 @@ export const Dashboard: React.FC = () => {
                     <div className="text-right text-sm text-gray-500">
                       {new Date(order.createdAt).toLocaleTimeString()}
                     </div>
-                  </div>
+                  </Link>
                 ))
               ) : (
                 <div className="text-center py-8 text-gray-500">
@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalFooter,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import { canAccessFeature } from '@restaurant-monorepo/rbac';
+import { FloorPlanTable, TableStatus } from '@restaurant-monorepo/shared-types';
+import { useAuth } from '../hooks/useAuth';
+
+type FloorTable = FloorPlanTable & { _id: string };
+
+export const statusStyles: Record<
+  TableStatus,
+  { label: string; tile: string; badge: string }
+> = {
+  available: {
+    label: 'Available',
+    tile: 'border-green-300 bg-green-50',
+    badge: 'bg-green-100 text-green-800',
+  },
+  occupied: {
+    label: 'Occupied',
+    tile: 'border-red-300 bg-red-50',
+    badge: 'bg-red-100 text-red-800',
+  },
+  reserved: {
+    label: 'Reserved',
+    tile: 'border-yellow-300 bg-yellow-50',
+    badge: 'bg-yellow-100 text-yellow-800',
+  },
+  cleaning: {
+    label: 'Cleaning',
+    tile: 'border-blue-300 bg-blue-50',
+    badge: 'bg-blue-100 text-blue-800',
+  },
+};
+
+const emptyTableForm = { number: '', capacity: '4', section: '' };
+
+export const FloorPlan: React.FC = () => {
+  const { user } = useAuth();
+  const [tables, setTables] = useState<FloorTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedTable, setSelectedTable] = useState<FloorTable | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [showAddTable, setShowAddTable] = useState(false);
+  const [tableForm, setTableForm] = useState(emptyTableForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  const canManageTables = user?.role
+    ? canAccessFeature(user.role, 'tableManagement')
+    : false;
+
+  const fetchFloorPlan = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.getFloorPlan();
+
+      if (response.success) {
+        setTables(response.data.tables as FloorTable[]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load floor plan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFloorPlan();
+
+    // New orders seat tables and change open totals, so reload on each event
+    const unsubscribe = apiClient.subscribeToOrderEvents(() =>
+      fetchFloorPlan()
+    );
+    return unsubscribe;
+  }, []);
+
+  const updateStatus = async (table: FloorTable, status: TableStatus) => {
+    try {
+      setActionLoading(true);
+      const response = await apiClient.updateTableStatus(table._id, status);
+
+      if (response.success) {
+        setSelectedTable(null);
+        await fetchFloorPlan();
+      }
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to update table'
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleAddTable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    const number = parseInt(tableForm.number, 10);
+    const capacity = parseInt(tableForm.capacity, 10);
+
+    if (!number || number < 1) {
+      newErrors.number = 'Table number must be positive';
+    } else if (tables.some((table) => table.number === number)) {
+      newErrors.number = `Table ${number} already exists`;
+    }
+    if (!capacity || capacity < 1) {
+      newErrors.capacity = 'Capacity must be at least 1';
+    }
+    if (!tableForm.section.trim()) {
+      newErrors.section = 'Section is required';
+    }
+
+    setFormErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    try {
+      setActionLoading(true);
+      await apiClient.createTable({
+        number,
+        capacity,
+        section: tableForm.section.trim(),
+      });
+      setShowAddTable(false);
+      setTableForm(emptyTableForm);
+      await fetchFloorPlan();
+    } catch (err: any) {
+      setFormErrors({
+        general:
+          err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to create table',
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const sections = Array.from(new Set(tables.map((table) => table.section)));
+  const occupiedCount = tables.filter((t) => t.status === 'occupied').length;
+  const availableCount = tables.filter((t) => t.status === 'available').length;
+  const openTotal = tables.reduce((sum, t) => sum + t.openOrderTotal, 0);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-gray-200 rounded animate-pulse w-48"></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+          {[1, 2, 3, 4, 5, 6].map((i) => (
+            <div key={i} className="h-28 bg-gray-200 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Floor Plan</h1>
+          <p className="text-gray-600">
+            Live table occupancy and open order totals.
+          </p>
+        </div>
+
+        {canManageTables && (
+          <Button variant="primary" onClick={() => setShowAddTable(true)}>
+            Add Table
+          </Button>
+        )}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center text-red-700">{error}</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Occupancy Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {[
+          { icon: '🪑', value: tables.length, label: 'Tables' },
+          { icon: '🍽️', value: occupiedCount, label: 'Occupied' },
+          { icon: '✅', value: availableCount, label: 'Available' },
+          { icon: '💰', value: `$${openTotal.toFixed(2)}`, label: 'Open Orders' },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className="text-2xl mr-3">{stat.icon}</div>
+                <div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {stat.value}
+                  </div>
+                  <div className="text-sm text-gray-600">{stat.label}</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Sections */}
+      {sections.length > 0 ? (
+        sections.map((section) => (
+          <Card key={section}>
+            <CardHeader>
+              <CardTitle>{section}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                {tables
+                  .filter((table) => table.section === section)
+                  .map((table) => (
+                    <button
+                      key={table._id}
+                      onClick={() => setSelectedTable(table)}
+                      className={`text-left p-4 rounded-lg border-2 hover:shadow-md transition-shadow ${
+                        statusStyles[table.status].tile
+                      }`}
+                      style={
+                        table.position
+                          ? {
+                              gridColumnStart: table.position.x + 1,
+                              gridRowStart: table.position.y + 1,
+                            }
+                          : undefined
+                      }
+                    >
+                      <div className="flex justify-between items-start mb-2">
+                        <span className="text-lg font-bold text-gray-900">
+                          {table.number}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          👤 {table.capacity}
+                        </span>
+                      </div>
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          statusStyles[table.status].badge
+                        }`}
+                      >
+                        {statusStyles[table.status].label}
+                      </span>
+                      {table.openOrderCount > 0 && (
+                        <div className="mt-2 text-sm text-gray-700">
+                          {table.openOrderCount} orders • $
+                          {table.openOrderTotal.toFixed(2)}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="text-4xl mb-4">🪑</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Tables Yet
+            </h3>
+            <p className="text-gray-600">
+              Add tables to start taking orders against them.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Table Status Modal */}
+      <Modal
+        isOpen={!!selectedTable}
+        onClose={() => setSelectedTable(null)}
+        title={selectedTable ? `Table ${selectedTable.number}` : undefined}
+        size="sm"
+      >
+        {selectedTable && (
+          <ModalBody>
+            <p className="text-sm text-gray-600 mb-1">
+              {selectedTable.section} • Seats {selectedTable.capacity}
+            </p>
+            {selectedTable.occupiedSince && (
+              <p className="text-sm text-gray-600 mb-1">
+                Seated at{' '}
+                {new Date(selectedTable.occupiedSince).toLocaleTimeString()}
+              </p>
+            )}
+            <p className="text-sm text-gray-600 mb-4">
+              Open orders: {selectedTable.openOrderCount} • $
+              {selectedTable.openOrderTotal.toFixed(2)}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(statusStyles) as TableStatus[]).map((status) => (
+                <Button
+                  key={status}
+                  variant={
+                    selectedTable.status === status ? 'primary' : 'ghost'
+                  }
+                  disabled={selectedTable.status === status}
+                  loading={actionLoading}
+                  onClick={() => updateStatus(selectedTable, status)}
+                >
+                  {statusStyles[status].label}
+                </Button>
+              ))}
+            </div>
+          </ModalBody>
+        )}
+      </Modal>
+
+      {/* Add Table Modal */}
+      <Modal
+        isOpen={showAddTable}
+        onClose={() => setShowAddTable(false)}
+        title="Add Table"
+        size="sm"
+      >
+        <form onSubmit={handleAddTable}>
+          <ModalBody className="space-y-4">
+            {formErrors.general && (
+              <p className="text-sm text-red-600">{formErrors.general}</p>
+            )}
+            <Input
+              label="Table Number"
+              type="number"
+              min={1}
+              value={tableForm.number}
+              error={formErrors.number}
+              onChange={(e) =>
+                setTableForm((prev) => ({ ...prev, number: e.target.value }))
+              }
+              fullWidth
+            />
+            <Input
+              label="Capacity"
+              type="number"
+              min={1}
+              value={tableForm.capacity}
+              error={formErrors.capacity}
+              onChange={(e) =>
+                setTableForm((prev) => ({ ...prev, capacity: e.target.value }))
+              }
+              fullWidth
+            />
+            <Input
+              label="Section"
+              placeholder="e.g. Patio, Main Hall"
+              value={tableForm.section}
+              error={formErrors.section}
+              onChange={(e) =>
+                setTableForm((prev) => ({ ...prev, section: e.target.value }))
+              }
+              fullWidth
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setShowAddTable(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={actionLoading}>
+              Add Table
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+    </div>
+  );
+};
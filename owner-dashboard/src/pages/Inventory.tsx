@@ -0,0 +1,629 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  ConfirmModal,
+  Input,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  Select,
+  Table,
+  TableColumn,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  INGREDIENT_UNITS,
+  Ingredient,
+  IngredientUnit,
+  RecordStockMovementRequest,
+} from '@restaurant-monorepo/shared-types';
+import {
+  StockHistoryModal,
+  movementLabels,
+} from '../components/inventory/StockHistoryModal';
+
+export type IngredientRecord = Ingredient & { _id: string };
+
+type StockLevel = 'out' | 'low' | 'ok';
+
+const getStockLevel = (ingredient: IngredientRecord): StockLevel =>
+  ingredient.stock <= 0
+    ? 'out'
+    : ingredient.stock <= ingredient.lowStockThreshold
+    ? 'low'
+    : 'ok';
+
+const stockLevelStyles: Record<
+  StockLevel,
+  { label: string; className: string }
+> = {
+  out: { label: 'Out', className: 'bg-red-100 text-red-800' },
+  low: { label: 'Low', className: 'bg-yellow-100 text-yellow-800' },
+  ok: { label: 'OK', className: 'bg-green-100 text-green-800' },
+};
+
+const emptyIngredientForm = {
+  name: '',
+  unit: 'g' as IngredientUnit,
+  stock: '',
+  lowStockThreshold: '',
+};
+
+const emptyAdjustForm = {
+  type: 'restock' as RecordStockMovementRequest['type'],
+  quantity: '',
+  reason: '',
+};
+
+const byName = (a: IngredientRecord, b: IngredientRecord) =>
+  a.name.localeCompare(b.name);
+
+const getErrorMessage = (err: any, fallback: string) =>
+  err.response?.data?.error?.message || err.message || fallback;
+
+export const Inventory: React.FC = () => {
+  const [ingredients, setIngredients] = useState<IngredientRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [lowOnly, setLowOnly] = useState(false);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<IngredientRecord | 'new' | null>(null);
+  const [ingredientForm, setIngredientForm] = useState(emptyIngredientForm);
+  const [adjusting, setAdjusting] = useState<IngredientRecord | null>(null);
+  const [adjustForm, setAdjustForm] = useState(emptyAdjustForm);
+  const [historyFor, setHistoryFor] = useState<IngredientRecord | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<IngredientRecord | null>(
+    null
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchIngredients = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.getIngredients();
+
+      if (response.success) {
+        setIngredients(response.data.ingredients as IngredientRecord[]);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load ingredients');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchIngredients();
+
+    // Orders going into preparation use up stock
+    const unsubscribe = apiClient.subscribeToOrderEvents(
+      (event) => {
+        if (event.order.status === 'preparing') {
+          fetchIngredients();
+        }
+      },
+      { types: ['order.status_changed'] }
+    );
+    return unsubscribe;
+  }, []);
+
+  const replaceIngredient = (ingredient: IngredientRecord) =>
+    setIngredients((current) =>
+      [
+        ...current.filter((item) => item._id !== ingredient._id),
+        ingredient,
+      ].sort(byName)
+    );
+
+  const openIngredientModal = (ingredient: IngredientRecord | 'new') => {
+    setEditing(ingredient);
+    setIngredientForm(
+      ingredient === 'new'
+        ? emptyIngredientForm
+        : {
+            name: ingredient.name,
+            unit: ingredient.unit,
+            stock: String(ingredient.stock),
+            lowStockThreshold: String(ingredient.lowStockThreshold),
+          }
+    );
+    setFormError(null);
+  };
+
+  const openAdjustModal = (ingredient: IngredientRecord) => {
+    setAdjusting(ingredient);
+    setAdjustForm(emptyAdjustForm);
+    setFormError(null);
+  };
+
+  const handleSaveIngredient = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const lowStockThreshold = parseFloat(ingredientForm.lowStockThreshold);
+    const stock = parseFloat(ingredientForm.stock);
+    if (!ingredientForm.name.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+    if (ingredientForm.lowStockThreshold && !(lowStockThreshold >= 0)) {
+      setFormError('Low stock threshold cannot be negative');
+      return;
+    }
+
+    const data = {
+      name: ingredientForm.name.trim(),
+      unit: ingredientForm.unit,
+      lowStockThreshold: ingredientForm.lowStockThreshold
+        ? lowStockThreshold
+        : undefined,
+    };
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      const response =
+        editing === 'new'
+          ? await apiClient.createIngredient({
+              ...data,
+              stock: stock > 0 ? stock : undefined,
+            })
+          : await apiClient.updateIngredient(editing._id, data);
+
+      if (response.success) {
+        replaceIngredient(response.data.ingredient as IngredientRecord);
+        setNotice(`${data.name} ${editing === 'new' ? 'added' : 'updated'}`);
+        setEditing(null);
+      }
+    } catch (err: any) {
+      setFormError(getErrorMessage(err, 'Failed to save ingredient'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAdjustStock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjusting) return;
+
+    const quantity = parseFloat(adjustForm.quantity);
+    if (
+      !Number.isFinite(quantity) ||
+      quantity < 0 ||
+      (adjustForm.type !== 'count' && quantity === 0)
+    ) {
+      setFormError('Enter a quantity greater than zero');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      const response = await apiClient.recordStockMovement(adjusting._id, {
+        type: adjustForm.type,
+        quantity,
+        reason: adjustForm.reason.trim() || undefined,
+      });
+
+      if (response.success) {
+        const ingredient = response.data.ingredient as IngredientRecord;
+        replaceIngredient(ingredient);
+        setNotice(
+          `${movementLabels[adjustForm.type]} recorded • ${
+            ingredient.name
+          } now at ${ingredient.stock} ${ingredient.unit}`
+        );
+        setAdjusting(null);
+      }
+    } catch (err: any) {
+      setFormError(getErrorMessage(err, 'Failed to update stock'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const ingredient = pendingDelete;
+    if (!ingredient) return;
+
+    setPendingDelete(null);
+    try {
+      await apiClient.deleteIngredient(ingredient._id);
+      setIngredients((current) =>
+        current.filter((item) => item._id !== ingredient._id)
+      );
+    } catch (err: any) {
+      setError(getErrorMessage(err, `Failed to delete ${ingredient.name}`));
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleIngredients = ingredients.filter(
+    (ingredient) =>
+      (!lowOnly || getStockLevel(ingredient) !== 'ok') &&
+      (!query || ingredient.name.toLowerCase().includes(query))
+  );
+  const lowCount = ingredients.filter(
+    (ingredient) => getStockLevel(ingredient) === 'low'
+  ).length;
+  const outCount = ingredients.filter(
+    (ingredient) => getStockLevel(ingredient) === 'out'
+  ).length;
+
+  const columns: TableColumn<IngredientRecord>[] = [
+    {
+      key: 'name',
+      title: 'Ingredient',
+      render: (_, ingredient) => (
+        <span className="font-medium text-gray-900">{ingredient.name}</span>
+      ),
+    },
+    {
+      key: 'stock',
+      title: 'In Stock',
+      align: 'right',
+      render: (_, ingredient) => `${ingredient.stock} ${ingredient.unit}`,
+    },
+    {
+      key: 'lowStockThreshold',
+      title: 'Reorder At',
+      align: 'right',
+      render: (_, ingredient) =>
+        `${ingredient.lowStockThreshold} ${ingredient.unit}`,
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      render: (_, ingredient) => {
+        const { label, className } =
+          stockLevelStyles[getStockLevel(ingredient)];
+        return (
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}
+          >
+            {label}
+          </span>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      title: '',
+      align: 'right',
+      render: (_, ingredient) => (
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="primary"
+            onClick={() => openAdjustModal(ingredient)}
+          >
+            Adjust
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setHistoryFor(ingredient)}
+          >
+            History
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => openIngredientModal(ingredient)}
+          >
+            Edit
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-red-600"
+            onClick={() => setPendingDelete(ingredient)}
+          >
+            Delete
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stock</h1>
+          <p className="text-gray-600">
+            Ingredients are used up when orders go into preparation. Menu items
+            sell out automatically when an ingredient runs out.
+          </p>
+        </div>
+        <Button variant="primary" onClick={() => openIngredientModal('new')}>
+          Add Ingredient
+        </Button>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between text-red-700">
+              <span>{error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="text-red-700 hover:text-red-900"
+              >
+                ✕
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      {notice && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between text-green-700">
+              <span>{notice}</span>
+              <button
+                onClick={() => setNotice(null)}
+                className="text-green-700 hover:text-green-900"
+              >
+                ✕
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[
+          { icon: '📦', value: ingredients.length, label: 'Ingredients' },
+          { icon: '⚠️', value: lowCount, label: 'Low Stock' },
+          { icon: '⛔', value: outCount, label: 'Out of Stock' },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className="text-2xl mr-3">{stat.icon}</div>
+                <div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {stat.value}
+                  </div>
+                  <div className="text-sm text-gray-600">{stat.label}</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Ingredients */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Ingredients</CardTitle>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={lowOnly}
+                  onChange={(e) => setLowOnly(e.target.checked)}
+                />
+                Low and out only
+              </label>
+              <Input
+                type="search"
+                placeholder="Search ingredients"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table
+            columns={columns}
+            data={visibleIngredients}
+            loading={loading}
+            emptyMessage={
+              ingredients.length === 0
+                ? 'No ingredients yet. Add one to start tracking stock.'
+                : 'No ingredients match'
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Add / Edit Ingredient Modal */}
+      <Modal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title={editing === 'new' ? 'Add Ingredient' : 'Edit Ingredient'}
+        size="md"
+      >
+        <form onSubmit={handleSaveIngredient}>
+          <ModalBody className="space-y-4">
+            <Input
+              label="Name"
+              value={ingredientForm.name}
+              onChange={(e) =>
+                setIngredientForm((prev) => ({ ...prev, name: e.target.value }))
+              }
+              required
+              fullWidth
+            />
+            <Select
+              label="Unit"
+              value={ingredientForm.unit}
+              options={INGREDIENT_UNITS.map((unit) => ({
+                value: unit,
+                label: unit,
+              }))}
+              onChange={(e) =>
+                setIngredientForm((prev) => ({
+                  ...prev,
+                  unit: e.target.value as IngredientUnit,
+                }))
+              }
+              helperText="Recipes use the same unit"
+              fullWidth
+            />
+            {editing === 'new' && (
+              <Input
+                label="Opening Stock"
+                type="number"
+                min={0}
+                step="any"
+                placeholder="0"
+                value={ingredientForm.stock}
+                onChange={(e) =>
+                  setIngredientForm((prev) => ({
+                    ...prev,
+                    stock: e.target.value,
+                  }))
+                }
+                fullWidth
+              />
+            )}
+            <Input
+              label="Low Stock Threshold"
+              type="number"
+              min={0}
+              step="any"
+              placeholder="0"
+              value={ingredientForm.lowStockThreshold}
+              helperText="Flagged as low at or below this level"
+              onChange={(e) =>
+                setIngredientForm((prev) => ({
+                  ...prev,
+                  lowStockThreshold: e.target.value,
+                }))
+              }
+              fullWidth
+            />
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setEditing(null)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={submitting}>
+              Save
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+
+      {/* Adjust Stock Modal */}
+      <Modal
+        isOpen={!!adjusting}
+        onClose={() => setAdjusting(null)}
+        title={adjusting ? `Adjust Stock • ${adjusting.name}` : undefined}
+        size="md"
+      >
+        {adjusting && (
+          <form onSubmit={handleAdjustStock}>
+            <ModalBody className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Currently {adjusting.stock} {adjusting.unit} in stock.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {(['restock', 'wastage', 'count'] as const).map((type) => (
+                  <Button
+                    key={type}
+                    type="button"
+                    variant={adjustForm.type === type ? 'primary' : 'ghost'}
+                    onClick={() => setAdjustForm((prev) => ({ ...prev, type }))}
+                  >
+                    {movementLabels[type]}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                label={
+                  adjustForm.type === 'count'
+                    ? `Counted (${adjusting.unit})`
+                    : `Quantity (${adjusting.unit})`
+                }
+                type="number"
+                min={0}
+                step="any"
+                value={adjustForm.quantity}
+                helperText={
+                  adjustForm.type === 'count'
+                    ? 'Replaces the stock level with what was counted'
+                    : adjustForm.type === 'wastage'
+                    ? 'Taken out of stock'
+                    : 'Added to stock'
+                }
+                onChange={(e) =>
+                  setAdjustForm((prev) => ({
+                    ...prev,
+                    quantity: e.target.value,
+                  }))
+                }
+                required
+                fullWidth
+              />
+              <Input
+                label="Reason"
+                placeholder={
+                  adjustForm.type === 'wastage'
+                    ? 'e.g. Dropped, expired'
+                    : 'Optional'
+                }
+                maxLength={200}
+                value={adjustForm.reason}
+                onChange={(e) =>
+                  setAdjustForm((prev) => ({
+                    ...prev,
+                    reason: e.target.value,
+                  }))
+                }
+                fullWidth
+              />
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+            </ModalBody>
+            <ModalFooter>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setAdjusting(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" loading={submitting}>
+                Record
+              </Button>
+            </ModalFooter>
+          </form>
+        )}
+      </Modal>
+
+      <StockHistoryModal
+        ingredient={historyFor}
+        onClose={() => setHistoryFor(null)}
+      />
+
+      <ConfirmModal
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete Ingredient"
+        message={`Delete ${pendingDelete?.name}? Its stock history will be kept.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+};
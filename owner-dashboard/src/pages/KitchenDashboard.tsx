@@ -9,7 +9,17 @@ import {
 } from '@restaurant-monorepo/shared-ui';
 import { apiClient } from '@restaurant-monorepo/api-client';
 import { useAuth } from '../hooks/useAuth';
-import { OrderStatus } from '@restaurant-monorepo/shared-types';
+import {
+  Allergen,
+  OrderItemBundle,
+  OrderItemModifier,
+  OrderStatus,
+} from '@restaurant-monorepo/shared-types';
+import { getAllowedStatusTransitions } from '@restaurant-monorepo/rbac';
+import {
+  allergenLabels,
+  allergyConflicts,
+} from '../components/menu/AllergenPicker';
 
 interface Order {
   _id: string;
@@ -21,8 +31,13 @@ interface Order {
       price: number;
     };
     quantity: number;
+    totalPrice: number;
+    modifiers?: OrderItemModifier[];
+    bundle?: OrderItemBundle;
     specialInstructions?: string;
+    allergens?: Allergen[];
   }>;
+  allergies?: Allergen[];
   total: number;
   createdAt: string;
   updatedAt: string;
@@ -38,9 +53,14 @@ export const KitchenDashboard: React.FC = () => {
   useEffect(() => {
     fetchOrders();
 
-    // Auto-refresh orders every 10 seconds
-    const interval = setInterval(fetchOrders, 10000);
-    return () => clearInterval(interval);
+    // Reload whenever the API pushes an order event, and after the socket
+    // (re)connects so nothing missed while offline is lost
+    const unsubscribe = apiClient.subscribeToOrderEvents(() => fetchOrders(), {
+      onConnectionChange: (connected) => {
+        if (connected) fetchOrders();
+      },
+    });
+    return unsubscribe;
   }, []);
 
   // ULTIMATE SAFETY: Don't render if user is not available
@@ -60,7 +80,6 @@ export const KitchenDashboard: React.FC = () => {
       setError(null);
       const response = await apiClient.getOrders({
         limit: 20,
-        status: user?.role === 'chef' ? 'confirmed' : undefined, // Chefs see confirmed orders, waiters see all
       });
 
       if (response.success) {
@@ -109,43 +128,24 @@ export const KitchenDashboard: React.FC = () => {
     }
   };
 
-  const getStatusActions = (order: Order) => {
-    const { status } = order;
-    const isChef = user?.role === 'chef';
-    const isWaiter = user?.role === 'waiter';
-    const isManager = user?.role === 'manager';
-
-    // Define available actions based on role and current status
-    if (isChef || isManager) {
-      switch (status) {
-        case 'confirmed':
-          return [
-            { label: 'Start Cooking', status: 'preparing', variant: 'primary' },
-          ];
-        case 'preparing':
-          return [
-            { label: 'Ready to Serve', status: 'ready', variant: 'success' },
-          ];
-        default:
-          return [];
-      }
-    }
+  const statusActionConfig: Record<
+    string,
+    { label: string; variant: string }
+  > = {
+    preparing: { label: 'Start Cooking', variant: 'primary' },
+    ready: { label: 'Ready to Serve', variant: 'success' },
+    served: { label: 'Served', variant: 'success' },
+    cancelled: { label: 'Cancel', variant: 'danger' },
+  };
 
-    if (isWaiter || isManager) {
-      switch (status) {
-        case 'pending':
-          return [
-            { label: 'Confirm Order', status: 'confirmed', variant: 'primary' },
-            { label: 'Cancel', status: 'cancelled', variant: 'destructive' },
-          ];
-        case 'ready':
-          return [{ label: 'Served', status: 'completed', variant: 'success' }];
-        default:
-          return [];
-      }
-    }
+  // Only offer the transitions this role is allowed to perform
+  const getStatusActions = (order: Order) => {
+    if (!user?.role) return [];
 
-    return [];
+    return getAllowedStatusTransitions(
+      user.role,
+      order.status as OrderStatus
+    ).map((status) => ({ status, ...statusActionConfig[status] }));
   };
 
   const formatTime = (dateString: string) => {
@@ -270,28 +270,58 @@ export const KitchenDashboard: React.FC = () => {
               </CardHeader>
 
               <CardContent className="space-y-4">
+                {/* Guest Allergies */}
+                {order.allergies && order.allergies.length > 0 && (
+                  <div className="rounded-md border-2 border-red-500 bg-red-50 px-3 py-2 text-sm font-bold text-red-800">
+                    ⚠ ALLERGY: {order.allergies.map((allergen) => allergenLabels[allergen]).join(', ')}
+                  </div>
+                )}
+
                 {/* Order Items */}
                 <div className="space-y-2">
-                  {order.items.map((item, index) => (
+                  {order.items.map((item, index) => {
+                    const conflicts = allergyConflicts(item.allergens, order.allergies ?? []);
+                    return (
                     <div
                       key={index}
-                      className="flex justify-between items-start text-sm"
+                      className={`flex justify-between items-start text-sm ${
+                        conflicts.length > 0 ? 'rounded border-l-4 border-red-600 bg-red-50 pl-2' : ''
+                      }`}
                     >
                       <div className="flex-1">
                         <span className="font-medium">
                           {item.quantity}x {item.menuItem.name}
                         </span>
+                        {item.bundle && (
+                          <p className="text-xs text-purple-700">
+                            {item.bundle.name}
+                          </p>
+                        )}
+                        {item.modifiers?.map((modifier) => (
+                          <p
+                            key={modifier.optionId}
+                            className="text-xs text-gray-600"
+                          >
+                            {modifier.groupName}: {modifier.optionName}
+                          </p>
+                        ))}
                         {item.specialInstructions && (
                           <p className="text-xs text-orange-600 mt-1">
                             Note: {item.specialInstructions}
                           </p>
                         )}
+                        {conflicts.length > 0 && (
+                          <p className="text-xs font-bold text-red-700 mt-1">
+                            ⚠ Contains {conflicts.map((allergen) => allergenLabels[allergen]).join(', ')}
+                          </p>
+                        )}
                       </div>
                       <span className="text-gray-500 ml-2">
-                        ${(item.menuItem.price * item.quantity).toFixed(2)}
+                        ${item.totalPrice.toFixed(2)}
                       </span>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
 
                 {/* Order Summary */}
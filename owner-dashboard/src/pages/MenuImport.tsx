@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Table,
+  TableColumn,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  MenuImportAction,
+  MenuImportResult,
+  MenuImportRow,
+  MenuTransferFormat,
+} from '@restaurant-monorepo/shared-types';
+import { MenuChangeList } from '../components/menu/MenuChangeList';
+import { saveDownload } from '../utils/download';
+
+type ImportStep = 'choose' | 'preview' | 'done';
+
+const actionBadges: Record<
+  MenuImportAction,
+  { label: string; className: string }
+> = {
+  create: { label: 'New', className: 'bg-blue-100 text-blue-800' },
+  update: { label: 'Update', className: 'bg-yellow-100 text-yellow-800' },
+  unchanged: { label: 'No change', className: 'bg-gray-100 text-gray-700' },
+};
+
+const formatFromFileName = (name: string): MenuTransferFormat | undefined =>
+  name.toLowerCase().endsWith('.json')
+    ? 'json'
+    : name.toLowerCase().endsWith('.csv')
+    ? 'csv'
+    : undefined;
+
+const columns: TableColumn<MenuImportRow>[] = [
+  { key: 'row', title: 'Row', width: '4rem' },
+  {
+    key: 'name',
+    title: 'Name',
+    render: (_, row) => row.name ?? '—',
+  },
+  {
+    key: 'action',
+    title: 'Result',
+    render: (_, row) =>
+      row.errors.length > 0 ? (
+        <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 text-xs font-medium">
+          Error
+        </span>
+      ) : (
+        row.action && (
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+              actionBadges[row.action].className
+            }`}
+          >
+            {actionBadges[row.action].label}
+          </span>
+        )
+      ),
+  },
+  {
+    key: 'errors',
+    title: 'Details',
+    render: (_, row) =>
+      row.errors.length > 0 ? (
+        <ul className="space-y-1 text-sm text-red-600">
+          {row.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        row.changes && <MenuChangeList changes={row.changes} />
+      ),
+  },
+];
+
+/**
+ * Import menu items from a CSV or JSON file: choose the file, check a
+ * preview of every row, then import the rows without errors
+ */
+export const MenuImport: React.FC = () => {
+  const [step, setStep] = useState<ImportStep>('choose');
+  const [file, setFile] = useState<File | null>(null);
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<MenuTransferFormat>('csv');
+  const [result, setResult] = useState<MenuImportResult | null>(null);
+  const [exporting, setExporting] = useState<MenuTransferFormat | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (selected: File | null) => {
+    setError(null);
+    setFile(selected);
+    if (!selected) return;
+
+    const fileFormat = formatFromFileName(selected.name);
+    if (!fileFormat) {
+      setError('Choose a .csv or .json file');
+      setFile(null);
+      return;
+    }
+
+    setFormat(fileFormat);
+    setContent(await selected.text());
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response = await apiClient.importMenu({ format, content, dryRun });
+      if (response.success) {
+        setResult(response.data.result);
+        setStep(dryRun ? 'preview' : 'done');
+      }
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to import the menu'
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: MenuTransferFormat) => {
+    try {
+      setExporting(exportFormat);
+      const download = await apiClient.exportMenu({ format: exportFormat });
+      saveDownload(download, `menu.${exportFormat}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export the menu');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const startOver = () => {
+    setStep('choose');
+    setFile(null);
+    setContent('');
+    setResult(null);
+    setError(null);
+  };
+
+  const importable = result ? result.created + result.updated : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link
+          to="/menu"
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <svg
+            className="w-5 h-5 text-gray-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Import &amp; Export Menu
+          </h1>
+          <p className="text-gray-600">
+            Items are matched by name. New items and changes are saved as drafts
+            until the menu is published.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 flex justify-between items-center">
+          <span>{error}</span>
+          <Button variant="ghost" size="sm" onClick={() => setError(null)}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      {step === 'choose' && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Choose a File</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Use the columns of an exported menu. Allergens and dietary tags
+                are comma separated; modifiers, bundle slots, schedules and
+                recipes are JSON.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                disabled={isWorking}
+                className="block text-sm text-gray-700"
+              />
+              <div className="flex justify-end">
+                <Button
+                  variant="primary"
+                  disabled={!file || !content}
+                  loading={isWorking}
+                  onClick={() => runImport(true)}
+                >
+                  Preview Import
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Export the Current Menu</CardTitle>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                Download the published menu to edit it or set up another
+                location.
+              </p>
+              <div className="flex gap-2 flex-shrink-0">
+                {(['csv', 'json'] as const).map((exportFormat) => (
+                  <Button
+                    key={exportFormat}
+                    variant="ghost"
+                    loading={exporting === exportFormat}
+                    onClick={() => handleExport(exportFormat)}
+                  >
+                    {exportFormat.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {step !== 'choose' && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {step === 'preview' ? '2. Check the Preview' : 'Import Complete'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'New', value: result.created },
+                { label: 'Updated', value: result.updated },
+                { label: 'No change', value: result.unchanged },
+                { label: 'Errors', value: result.failed },
+              ].map(({ label, value }) => (
+                <div key={label} className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-600">{label}</p>
+                  <p
+                    className={`text-2xl font-semibold ${
+                      label === 'Errors' && value > 0
+                        ? 'text-red-600'
+                        : 'text-gray-900'
+                    }`}
+                  >
+                    {value}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {step === 'preview' && result.failed > 0 && (
+              <p className="text-sm text-gray-600">
+                Rows with errors are skipped. Fix them in {file?.name} and start
+                over to include them.
+              </p>
+            )}
+
+            <Table
+              columns={columns}
+              data={result.rows}
+              emptyMessage="The file has no rows"
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={startOver} disabled={isWorking}>
+                {step === 'done' ? 'Import Another File' : 'Start Over'}
+              </Button>
+              {step === 'preview' ? (
+                <Button
+                  variant="primary"
+                  disabled={importable === 0}
+                  loading={isWorking}
+                  onClick={() => runImport(false)}
+                >
+                  Import {importable} {importable === 1 ? 'item' : 'items'}
+                </Button>
+              ) : (
+                <Link to="/menu/versions">
+                  <Button variant="primary">Review &amp; Publish</Button>
+                </Link>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
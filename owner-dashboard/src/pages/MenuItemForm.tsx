@@ -0,0 +1,663 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { z } from 'zod';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Input,
+  Select,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  ALLERGENS,
+  Allergen,
+  CreateMenuItemRequest,
+  DIETARY_TAGS,
+  DaypartConfig,
+  DietaryTag,
+  MENU_CATEGORIES,
+  MenuCategory,
+  MenuItemRevision,
+  MenuItemType,
+} from '@restaurant-monorepo/shared-types';
+import { categoryLabels, MenuItemRecord } from './MenuManagement';
+import {
+  ModifierGroupDraft,
+  ModifierGroupsEditor,
+  modifierGroupsSchema,
+  toModifierGroupDrafts,
+} from '../components/menu/ModifierGroupsEditor';
+import {
+  BundleSlotDraft,
+  BundleSlotsEditor,
+  bundleSlotsSchema,
+  toBundleSlotDrafts,
+} from '../components/menu/BundleSlotsEditor';
+import {
+  emptySchedule,
+  ScheduleDraft,
+  ScheduleEditor,
+  scheduleSchema,
+  toScheduleDraft,
+} from '../components/menu/ScheduleEditor';
+import {
+  RecipeEditor,
+  RecipeLineDraft,
+  recipeSchema,
+  toRecipeDrafts,
+} from '../components/menu/RecipeEditor';
+import { MenuImageField } from '../components/menu/MenuImageField';
+import {
+  AllergenPicker,
+  DietaryTagPicker,
+} from '../components/menu/AllergenPicker';
+import { MenuChangeList } from '../components/menu/MenuChangeList';
+import type { IngredientRecord } from './Inventory';
+
+type RevisionRecord = Omit<MenuItemRevision, 'changedBy'> & {
+  _id: string;
+  changedBy?: { name: string };
+};
+
+type MenuItemFormValues = {
+  type: MenuItemType;
+  name: string;
+  description: string;
+  price: string;
+  category: MenuCategory;
+  prepTime: string;
+  allergens: Allergen[];
+  dietaryTags: DietaryTag[];
+  imageUrl: string;
+  modifierGroups: ModifierGroupDraft[];
+  bundleSlots: BundleSlotDraft[];
+  schedule: ScheduleDraft;
+  recipe: RecipeLineDraft[];
+};
+
+// Mirrors the API's menu item validation, reading the form's text fields
+const menuItemFormSchema = z
+  .object({
+    type: z.enum(['single', 'bundle']),
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    description: z.string().trim().min(1, 'Description is required').max(500),
+    price: z
+      .string()
+      .trim()
+      .min(1, 'Price is required')
+      .transform(Number)
+      .pipe(
+        z
+          .number('Price must be a number')
+          .min(0, 'Price cannot be negative')
+          .refine(
+            (value) => Math.round(value * 100) === value * 100,
+            'Price can have at most two decimal places'
+          )
+      ),
+    category: z.enum(MENU_CATEGORIES),
+    prepTime: z
+      .string()
+      .trim()
+      .min(1, 'Prep time is required')
+      .transform(Number)
+      .pipe(
+        z
+          .number('Prep time must be a number')
+          .int('Prep time must be whole minutes')
+          .min(1, 'Prep time must be at least 1 minute')
+      ),
+    allergens: z.array(z.enum(ALLERGENS)),
+    dietaryTags: z.array(z.enum(DIETARY_TAGS)),
+    imageUrl: z
+      .string()
+      .trim()
+      .refine(
+        (value) => value === '' || z.url().safeParse(value).success,
+        'Invalid image URL'
+      ),
+    modifierGroups: modifierGroupsSchema,
+    bundleSlots: bundleSlotsSchema,
+    schedule: scheduleSchema,
+    recipe: recipeSchema,
+  })
+  .refine((item) => item.type !== 'bundle' || item.bundleSlots.length > 0, {
+    message: 'A bundle needs at least one slot',
+    path: ['bundleSlots'],
+  });
+
+const emptyForm: MenuItemFormValues = {
+  type: 'single',
+  name: '',
+  description: '',
+  price: '',
+  category: 'main_course',
+  prepTime: '15',
+  allergens: [],
+  dietaryTags: [],
+  imageUrl: '',
+  modifierGroups: [],
+  bundleSlots: [],
+  schedule: emptySchedule,
+  recipe: [],
+};
+
+const typeOptions = [
+  { value: 'single', label: 'Single item' },
+  { value: 'bundle', label: 'Bundle (combo or set menu)' },
+];
+
+const categoryOptions = MENU_CATEGORIES.map((category) => ({
+  value: category,
+  label: categoryLabels[category],
+}));
+
+/**
+ * Create a menu item, or edit one when the route has an id
+ */
+export const MenuItemForm: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+
+  const [formData, setFormData] = useState<MenuItemFormValues>(emptyForm);
+  const [singleItems, setSingleItems] = useState<MenuItemRecord[]>([]);
+  const [dayparts, setDayparts] = useState<DaypartConfig>();
+  const [ingredients, setIngredients] = useState<IngredientRecord[]>([]);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  // Set once a new item is saved, so retrying a failed upload doesn't
+  // create it twice
+  const [createdId, setCreatedId] = useState<string>();
+  const [hasDraft, setHasDraft] = useState(false);
+  const [history, setHistory] = useState<RevisionRecord[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(isEditing);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const navigate = useNavigate();
+
+  // Bundle slots can offer any single item on the menu
+  useEffect(() => {
+    apiClient
+      .getMenuItems({ includeUnavailable: true })
+      .then((response) =>
+        setSingleItems(
+          (response.data.menuItems as unknown as MenuItemRecord[])
+            .filter((item) => item.type !== 'bundle' && item._id !== id)
+            .sort((a, b) => a.name.localeCompare(b.name))
+        )
+      )
+      .catch(() => setSingleItems([]));
+  }, [id]);
+
+  useEffect(() => {
+    apiClient
+      .getDayparts()
+      .then((response) => setDayparts(response.data.config))
+      .catch(() => setDayparts(undefined));
+  }, []);
+
+  useEffect(() => {
+    apiClient
+      .getIngredients()
+      .then((response) =>
+        setIngredients(response.data.ingredients as IngredientRecord[])
+      )
+      .catch(() => setIngredients([]));
+  }, []);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchMenuItem = async () => {
+      try {
+        // Edits pick up where the last unpublished draft left off
+        const response = await apiClient.getMenuItemDraft(id);
+        if (response.success) {
+          const item = response.data.menuItem as unknown as MenuItemRecord;
+          setHasDraft(response.data.draft !== null);
+          setFormData({
+            type: item.type ?? 'single',
+            name: item.name,
+            description: item.description,
+            price: item.price.toFixed(2),
+            category: item.category,
+            prepTime: String(item.prepTime),
+            allergens: item.allergens,
+            dietaryTags: item.dietaryTags,
+            imageUrl: item.imageUrl ?? '',
+            modifierGroups: toModifierGroupDrafts(item.modifierGroups ?? []),
+            bundleSlots: toBundleSlotDrafts(item.bundleSlots ?? []),
+            schedule: toScheduleDraft(item.schedule),
+            recipe: toRecipeDrafts(item.recipe ?? []),
+          });
+        }
+      } catch (err: any) {
+        setErrors({ general: err.message || 'Failed to load menu item' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMenuItem();
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    apiClient
+      .getMenuItemHistory(id)
+      .then((response) =>
+        setHistory(response.data.revisions as unknown as RevisionRecord[])
+      )
+      .catch(() => setHistory([]));
+  }, [id]);
+
+  const handleInputChange = (
+    field: Exclude<
+      keyof MenuItemFormValues,
+      | 'allergens'
+      | 'dietaryTags'
+      | 'modifierGroups'
+      | 'bundleSlots'
+      | 'schedule'
+      | 'recipe'
+    >,
+    value: string
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleAllergensChange = (allergens: Allergen[]) => {
+    setFormData((prev) => ({ ...prev, allergens }));
+    if (errors.allergens) {
+      setErrors((prev) => ({ ...prev, allergens: '' }));
+    }
+  };
+
+  const handleDietaryTagsChange = (dietaryTags: DietaryTag[]) => {
+    setFormData((prev) => ({ ...prev, dietaryTags }));
+    if (errors.dietaryTags) {
+      setErrors((prev) => ({ ...prev, dietaryTags: '' }));
+    }
+  };
+
+  const handleModifierGroupsChange = (modifierGroups: ModifierGroupDraft[]) => {
+    setFormData((prev) => ({ ...prev, modifierGroups }));
+    if (errors.modifierGroups) {
+      setErrors((prev) => ({ ...prev, modifierGroups: '' }));
+    }
+  };
+
+  const handleBundleSlotsChange = (bundleSlots: BundleSlotDraft[]) => {
+    setFormData((prev) => ({ ...prev, bundleSlots }));
+    if (errors.bundleSlots) {
+      setErrors((prev) => ({ ...prev, bundleSlots: '' }));
+    }
+  };
+
+  const handleScheduleChange = (schedule: ScheduleDraft) => {
+    setFormData((prev) => ({ ...prev, schedule }));
+    if (errors.schedule) {
+      setErrors((prev) => ({ ...prev, schedule: '' }));
+    }
+  };
+
+  const handleRecipeChange = (recipe: RecipeLineDraft[]) => {
+    setFormData((prev) => ({ ...prev, recipe }));
+    if (errors.recipe) {
+      setErrors((prev) => ({ ...prev, recipe: '' }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = menuItemFormSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of result.error.issues) {
+        const field = String(issue.path[0]);
+        fieldErrors[field] ??= issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    const { imageUrl, ...values } = result.data;
+    const isBundle = values.type === 'bundle';
+    const menuItem: CreateMenuItemRequest = {
+      ...values,
+      // Bundles take their choices from slots, single items from modifiers
+      modifierGroups: isBundle ? [] : values.modifierGroups,
+      bundleSlots: isBundle ? values.bundleSlots : [],
+      // A bundle uses the stock of the components picked for it
+      recipe: isBundle ? [] : values.recipe,
+      // An empty URL clears the image when editing; an upload replaces it
+      ...(!imageFile && (imageUrl || isEditing) ? { imageUrl } : {}),
+    };
+
+    setIsSaving(true);
+    setErrors({});
+
+    const savedId = id ?? createdId;
+
+    try {
+      const response = savedId
+        ? await apiClient.updateMenuItem(savedId, menuItem)
+        : await apiClient.createMenuItem(menuItem);
+
+      if (!response.success) return;
+
+      const menuItemId =
+        savedId ?? (response.data.menuItem as unknown as MenuItemRecord)._id;
+      setCreatedId(menuItemId);
+
+      if (imageFile) {
+        try {
+          await apiClient.uploadMenuItemImage(menuItemId, imageFile);
+        } catch (err: any) {
+          setErrors({
+            image: `Menu item saved, but the photo upload failed: ${
+              err.response?.data?.error?.message || err.message
+            }`,
+          });
+          return;
+        }
+      }
+
+      navigate('/menu');
+    } catch (err: any) {
+      setErrors({ general: err.message || 'Failed to save menu item' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="h-8 bg-gray-200 rounded animate-pulse w-48"></div>
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div
+                key={i}
+                className="h-10 bg-gray-200 rounded animate-pulse"
+              ></div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4 mb-6">
+        <Link
+          to="/menu"
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <svg
+            className="w-5 h-5 text-gray-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {isEditing ? 'Edit Menu Item' : 'Add Menu Item'}
+          </h1>
+          <p className="text-gray-600">
+            {isEditing
+              ? 'Changes are saved as a draft until the menu is published.'
+              : 'New items go on sale once the menu is published.'}
+          </p>
+        </div>
+      </div>
+
+      {hasDraft && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4">
+          This item has unpublished changes, shown below.{' '}
+          <Link to="/menu/versions" className="font-medium underline">
+            Review and publish
+          </Link>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Menu Item Details</CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          <form className="space-y-6" onSubmit={handleSubmit} noValidate>
+            {errors.general && (
+              <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+                {errors.general}
+              </div>
+            )}
+
+            <Select
+              label="Type"
+              fullWidth
+              value={formData.type}
+              onChange={(e) => handleInputChange('type', e.target.value)}
+              disabled={isSaving}
+              options={typeOptions}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label="Name"
+                required
+                fullWidth
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                disabled={isSaving}
+                placeholder="Margherita Pizza"
+                error={errors.name}
+              />
+
+              <Select
+                label="Category"
+                required
+                fullWidth
+                value={formData.category}
+                onChange={(e) => handleInputChange('category', e.target.value)}
+                disabled={isSaving}
+                options={categoryOptions}
+                error={errors.category}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <textarea
+                rows={3}
+                value={formData.description}
+                onChange={(e) =>
+                  handleInputChange('description', e.target.value)
+                }
+                disabled={isSaving}
+                placeholder="Tomato, mozzarella and fresh basil"
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm text-sm focus:outline-none focus:ring-1 focus:border-transparent ${
+                  errors.description
+                    ? 'border-red-300 text-red-900 focus:ring-red-500'
+                    : 'border-gray-300 focus:ring-blue-500'
+                }`}
+              />
+              {errors.description && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.description}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label={formData.type === 'bundle' ? 'Bundle Price' : 'Price'}
+                type="number"
+                min="0"
+                step="0.01"
+                required
+                fullWidth
+                value={formData.price}
+                onChange={(e) => handleInputChange('price', e.target.value)}
+                disabled={isSaving}
+                placeholder="0.00"
+                error={errors.price}
+              />
+
+              <Input
+                label="Prep Time (minutes)"
+                type="number"
+                min="1"
+                step="1"
+                required
+                fullWidth
+                value={formData.prepTime}
+                onChange={(e) => handleInputChange('prepTime', e.target.value)}
+                disabled={isSaving}
+                error={errors.prepTime}
+              />
+            </div>
+
+            <AllergenPicker
+              label="Allergens"
+              hint={
+                formData.type === 'bundle'
+                  ? "Kitchen tickets use each component's own allergens"
+                  : undefined
+              }
+              selected={formData.allergens}
+              onChange={handleAllergensChange}
+              disabled={isSaving}
+            />
+
+            <DietaryTagPicker
+              selected={formData.dietaryTags}
+              onChange={handleDietaryTagsChange}
+              disabled={isSaving}
+            />
+
+            <Input
+              label="Image URL"
+              type="url"
+              fullWidth
+              value={formData.imageUrl}
+              onChange={(e) => handleInputChange('imageUrl', e.target.value)}
+              disabled={isSaving}
+              placeholder="https://"
+              error={errors.imageUrl}
+            />
+
+            <MenuImageField
+              imageUrl={errors.imageUrl ? '' : formData.imageUrl}
+              file={imageFile}
+              onFileChange={(file) => {
+                setImageFile(file);
+                setErrors((prev) => ({ ...prev, image: '' }));
+              }}
+              disabled={isSaving}
+            />
+            {errors.image && (
+              <p className="text-sm text-red-600">{errors.image}</p>
+            )}
+
+            {formData.type === 'bundle' ? (
+              <BundleSlotsEditor
+                slots={formData.bundleSlots}
+                menuItems={singleItems}
+                onChange={handleBundleSlotsChange}
+                disabled={isSaving}
+                error={errors.bundleSlots}
+              />
+            ) : (
+              <ModifierGroupsEditor
+                groups={formData.modifierGroups}
+                onChange={handleModifierGroupsChange}
+                disabled={isSaving}
+                error={errors.modifierGroups}
+              />
+            )}
+
+            {formData.type !== 'bundle' && (
+              <RecipeEditor
+                recipe={formData.recipe}
+                ingredients={ingredients}
+                onChange={handleRecipeChange}
+                disabled={isSaving}
+                error={errors.recipe}
+              />
+            )}
+
+            <ScheduleEditor
+              schedule={formData.schedule}
+              dayparts={dayparts}
+              onChange={handleScheduleChange}
+              disabled={isSaving}
+              error={errors.schedule}
+            />
+
+            {/* Form Actions */}
+            <div className="flex justify-end space-x-4 pt-4">
+              <Link to="/menu">
+                <Button variant="ghost" disabled={isSaving}>
+                  Cancel
+                </Button>
+              </Link>
+              <Button type="submit" variant="primary" loading={isSaving}>
+                {isEditing ? 'Save Draft' : 'Add Menu Item'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Change History</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100">
+            {history.map((revision) => (
+              <div key={revision._id} className="py-3 space-y-1">
+                <p className="text-xs text-gray-500">
+                  Version {revision.version} •{' '}
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.changedBy && ` • ${revision.changedBy.name}`}
+                </p>
+                {revision.action === 'updated' ? (
+                  <MenuChangeList changes={revision.changes} />
+                ) : (
+                  <p className="text-sm text-gray-700">
+                    {revision.action === 'created'
+                      ? 'Added to the menu'
+                      : 'Taken off the menu by a rollback'}
+                  </p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,449 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  ConfirmModal,
+  Input,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  BundleSlot,
+  MENU_CATEGORIES,
+  MenuCategory,
+  MenuItem,
+  MenuSchedule,
+  ModifierGroup,
+  ModifierOption,
+  RecipeLineInput,
+} from '@restaurant-monorepo/shared-types';
+import {
+  daypartLabels,
+  weekdayLabels,
+} from '../components/menu/ScheduleEditor';
+import {
+  allergenLabels,
+  dietaryTagLabels,
+} from '../components/menu/AllergenPicker';
+import { ArchivedMenuItems } from '../components/menu/ArchivedMenuItems';
+
+export type ModifierGroupRecord = Omit<ModifierGroup, 'options'> & {
+  _id: string;
+  options: (ModifierOption & { _id: string })[];
+};
+
+export type BundleSlotRecord = Omit<BundleSlot, 'menuItemIds'> & {
+  _id: string;
+  menuItemIds: string[];
+};
+
+export type MenuItemRecord = Omit<
+  MenuItem,
+  'modifierGroups' | 'bundleSlots' | 'recipe'
+> & {
+  _id: string;
+  modifierGroups: ModifierGroupRecord[];
+  bundleSlots: BundleSlotRecord[];
+  recipe: RecipeLineInput[];
+};
+
+export const categoryLabels: Record<MenuCategory, string> = {
+  appetizer: 'Appetizers',
+  main_course: 'Main Courses',
+  dessert: 'Desserts',
+  beverage: 'Beverages',
+  special: 'Specials',
+};
+
+const describeSchedule = (schedule?: MenuSchedule) =>
+  [
+    schedule?.dayparts?.map((daypart) => daypartLabels[daypart]).join(', '),
+    schedule?.daysOfWeek?.map((day) => weekdayLabels[day]).join(', '),
+    schedule?.startDate && `From ${schedule.startDate}`,
+    schedule?.endDate && `Until ${schedule.endDate}`,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+const byName = (a: MenuItemRecord, b: MenuItemRecord) =>
+  a.name.localeCompare(b.name);
+
+export const MenuManagement: React.FC = () => {
+  const [menuItems, setMenuItems] = useState<MenuItemRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [offScheduleIds, setOffScheduleIds] = useState<Set<string>>(new Set());
+  const [draftIds, setDraftIds] = useState<Set<string>>(new Set());
+  const [showArchived, setShowArchived] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<MenuItemRecord | null>(
+    null
+  );
+
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchMenuItems();
+  }, []);
+
+  const fetchMenuItems = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [response, orderableResponse, draftsResponse] = await Promise.all([
+        apiClient.getMenuItems({ includeUnavailable: true }),
+        apiClient.getMenuItems({ orderable: true }),
+        apiClient.getMenuDrafts(),
+      ]);
+
+      if (response.success) {
+        const drafts = draftsResponse.data.drafts;
+        // Items that have never been published only exist as drafts
+        const items = [
+          ...(response.data.menuItems as unknown as MenuItemRecord[]),
+          ...(drafts
+            .filter((draft) => draft.isNew)
+            .map((draft) => draft.menuItem) as unknown as MenuItemRecord[]),
+        ];
+        const orderableIds = new Set(
+          (orderableResponse.data.menuItems as unknown as MenuItemRecord[]).map(
+            (item) => item._id
+          )
+        );
+
+        setMenuItems(items);
+        setDraftIds(
+          new Set(
+            drafts.map(
+              (draft) => (draft.menuItem as unknown as MenuItemRecord)._id
+            )
+          )
+        );
+        // Switched on and in stock but outside their schedule right now
+        setOffScheduleIds(
+          new Set(
+            items
+              .filter(
+                (item) =>
+                  item.published &&
+                  item.available &&
+                  !item.outOfStock &&
+                  !orderableIds.has(item._id)
+              )
+              .map((item) => item._id)
+          )
+        );
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load menu');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Flip the switch straight away and put it back if the API refuses
+  const toggleAvailability = async (item: MenuItemRecord) => {
+    const setAvailable = (available: boolean) =>
+      setMenuItems((items) =>
+        items.map((current) =>
+          current._id === item._id ? { ...current, available } : current
+        )
+      );
+
+    setAvailable(!item.available);
+
+    try {
+      const response = await apiClient.toggleMenuItemAvailability(item._id);
+      if (response.success) {
+        setAvailable(response.data.menuItem.available);
+      }
+    } catch (err: any) {
+      setAvailable(item.available);
+      setError(err.message || `Failed to update ${item.name}`);
+    }
+  };
+
+  // Remove the item straight away and bring it back if archiving fails
+  const handleArchive = async () => {
+    const item = pendingDelete;
+    if (!item) return;
+
+    setPendingDelete(null);
+    setMenuItems((items) =>
+      items.filter((current) => current._id !== item._id)
+    );
+
+    try {
+      await apiClient.deleteMenuItem(item._id);
+    } catch (err: any) {
+      setMenuItems((items) => [...items, item].sort(byName));
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          `Failed to archive ${item.name}`
+      );
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleItems = query
+    ? menuItems.filter(
+        (item) =>
+          item.name.toLowerCase().includes(query) ||
+          item.description.toLowerCase().includes(query)
+      )
+    : menuItems;
+
+  const groups = MENU_CATEGORIES.map((category) => ({
+    category,
+    items: visibleItems
+      .filter((item) => item.category === category)
+      .sort(byName),
+  })).filter((group) => group.items.length > 0);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-gray-200 rounded animate-pulse w-48"></div>
+        {[1, 2].map((i) => (
+          <Card key={i}>
+            <CardContent className="p-6 space-y-4">
+              {[1, 2, 3].map((j) => (
+                <div
+                  key={j}
+                  className="h-12 bg-gray-200 rounded animate-pulse"
+                ></div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Menu Management</h1>
+          <p className="text-gray-600">
+            {menuItems.length} items,{' '}
+            {menuItems.filter((item) => item.available).length} available.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => setShowArchived((current) => !current)}
+          >
+            {showArchived ? 'Hide Archive' : 'Archive'}
+          </Button>
+          <Link to="/menu/import">
+            <Button variant="ghost">Import / Export</Button>
+          </Link>
+          <Link to="/menu/versions">
+            <Button variant="ghost">
+              Publish Menu
+              {draftIds.size > 0 && ` (${draftIds.size})`}
+            </Button>
+          </Link>
+          <Link to="/menu/new">
+            <Button
+              variant="primary"
+              icon={
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                  />
+                </svg>
+              }
+            >
+              Add Menu Item
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 flex justify-between items-center">
+          <span>{error}</span>
+          <Button variant="ghost" size="sm" onClick={() => setError(null)}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      <Input
+        type="search"
+        placeholder="Search menu items"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        fullWidth
+      />
+
+      {groups.length === 0 && (
+        <Card>
+          <CardContent className="p-12 text-center text-gray-500">
+            {menuItems.length === 0
+              ? 'No menu items yet. Add your first dish to get started.'
+              : 'No menu items match your search.'}
+          </CardContent>
+        </Card>
+      )}
+
+      {groups.map(({ category, items }) => (
+        <Card key={category}>
+          <CardHeader>
+            <CardTitle>
+              {categoryLabels[category]}{' '}
+              <span className="text-sm font-normal text-gray-500">
+                ({items.length})
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100">
+            {items.map((item) => (
+              <div
+                key={item._id}
+                className="flex items-center justify-between py-4 gap-4"
+              >
+                <div className="flex items-center gap-4 min-w-0">
+                  {item.imageUrl ? (
+                    <img
+                      src={item.thumbnailUrl ?? item.imageUrl}
+                      alt=""
+                      className="w-14 h-14 rounded-lg object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-14 h-14 rounded-lg bg-gray-100 flex items-center justify-center text-2xl flex-shrink-0">
+                      🍽️
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`font-semibold ${
+                          item.available ? 'text-gray-900' : 'text-gray-400'
+                        }`}
+                      >
+                        {item.name}
+                      </span>
+                      {!item.published ? (
+                        <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+                          Not published
+                        </span>
+                      ) : (
+                        draftIds.has(item._id) && (
+                          <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium">
+                            Unpublished changes
+                          </span>
+                        )
+                      )}
+                      {item.outOfStock && (
+                        <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 text-xs font-medium">
+                          Out of stock
+                        </span>
+                      )}
+                      {offScheduleIds.has(item._id) && (
+                        <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs font-medium">
+                          Off schedule now
+                        </span>
+                      )}
+                      {item.type === 'bundle' && (
+                        <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 text-xs font-medium">
+                          Bundle
+                        </span>
+                      )}
+                      <span className="text-gray-700">
+                        ${item.price.toFixed(2)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">
+                      {item.description}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {item.prepTime} min
+                      {item.allergens.length > 0 &&
+                        ` • Contains ${item.allergens
+                          .map((allergen) => allergenLabels[allergen])
+                          .join(', ')}`}
+                      {item.dietaryTags.length > 0 &&
+                        ` • ${item.dietaryTags
+                          .map((tag) => dietaryTagLabels[tag])
+                          .join(', ')}`}
+                      {describeSchedule(item.schedule) &&
+                        ` • ${describeSchedule(item.schedule)}`}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    type="button"
+                    role="switch"
+                    aria-checked={item.available}
+                    aria-label={`${item.name} available`}
+                    onClick={() => toggleAvailability(item)}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      item.available ? 'bg-green-500' : 'bg-gray-300'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        item.available ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                  <span className="w-20 text-sm text-gray-600">
+                    {item.available ? 'Available' : 'Sold out'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate(`/menu/${item._id}/edit`)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => setPendingDelete(item)}
+                  >
+                    Archive
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
+      {showArchived && <ArchivedMenuItems onRestored={fetchMenuItems} />}
+
+      <ConfirmModal
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={handleArchive}
+        title="Archive Menu Item"
+        message={`Archive ${pendingDelete?.name}? It comes off the menu and POS, but past orders and reports keep it. You can restore it from the archive.`}
+        confirmText="Archive"
+        variant="warning"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,494 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  ConfirmModal,
+  Input,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  MenuDraftPreview,
+  MenuItemRevision,
+  MenuRevisionAction,
+  MenuVersion,
+} from '@restaurant-monorepo/shared-types';
+import { MenuChangeList } from '../components/menu/MenuChangeList';
+import type { MenuItemRecord } from './MenuManagement';
+
+type DraftRecord = Omit<MenuDraftPreview, 'menuItem' | 'updatedBy'> & {
+  menuItem: MenuItemRecord;
+  updatedBy?: { name: string };
+};
+
+type VersionRecord = Omit<MenuVersion, 'publishedBy'> & {
+  _id: string;
+  publishedBy?: { name: string };
+};
+
+type RevisionRecord = Omit<MenuItemRevision, 'changedBy'> & {
+  _id: string;
+  changedBy?: { name: string };
+};
+
+const actionLabels: Record<MenuRevisionAction, string> = {
+  created: 'Added',
+  updated: 'Changed',
+  withdrawn: 'Removed',
+};
+
+const PAGE_SIZE = 10;
+
+/**
+ * Review menu drafts, publish them as a new version and roll back to an
+ * earlier one
+ */
+export const MenuVersions: React.FC = () => {
+  const [drafts, setDrafts] = useState<DraftRecord[]>([]);
+  const [currentVersion, setCurrentVersion] = useState(0);
+  const [versions, setVersions] = useState<VersionRecord[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [revisions, setRevisions] = useState<Record<number, RevisionRecord[]>>(
+    {}
+  );
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [pendingRollback, setPendingRollback] = useState<VersionRecord | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const navigate = useNavigate();
+
+  const fetchDrafts = useCallback(async () => {
+    const response = await apiClient.getMenuDrafts();
+    if (response.success) {
+      setDrafts(response.data.drafts as unknown as DraftRecord[]);
+      setCurrentVersion(response.data.currentVersion);
+    }
+  }, []);
+
+  const fetchVersions = useCallback(async () => {
+    const response = await apiClient.getMenuVersions({
+      page,
+      limit: PAGE_SIZE,
+    });
+    if (response.success) {
+      setVersions(response.data.versions as unknown as VersionRecord[]);
+      setHasNextPage(response.data.pagination.hasNextPage);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    const fetchAll = async () => {
+      try {
+        setError(null);
+        await Promise.all([fetchDrafts(), fetchVersions()]);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load menu versions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAll();
+  }, [fetchDrafts, fetchVersions]);
+
+  const toggleVersion = async (version: number) => {
+    if (expandedVersion === version) {
+      setExpandedVersion(null);
+      return;
+    }
+
+    setExpandedVersion(version);
+    if (revisions[version]) return;
+
+    try {
+      const response = await apiClient.getMenuVersionChanges(version);
+      if (response.success) {
+        setRevisions((current) => ({
+          ...current,
+          [version]: response.data.revisions as unknown as RevisionRecord[],
+        }));
+      }
+    } catch (err: any) {
+      setError(err.message || `Failed to load version ${version}`);
+    }
+  };
+
+  // Versions and drafts both move after a publish or rollback
+  const refresh = async (successMessage: string) => {
+    setMessage(successMessage);
+    setRevisions({});
+    setExpandedVersion(null);
+    await fetchDrafts();
+    if (page === 1) {
+      await fetchVersions();
+    } else {
+      setPage(1);
+    }
+  };
+
+  const handlePublish = async () => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response = await apiClient.publishMenu(note.trim() || undefined);
+      if (response.success) {
+        setNote('');
+        await refresh(response.message ?? 'Menu published');
+      }
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to publish the menu'
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDiscard = async (draft: DraftRecord) => {
+    try {
+      setError(null);
+      await apiClient.discardMenuItemDraft(draft.menuItem._id);
+      setDrafts((current) =>
+        current.filter((item) => item.menuItem._id !== draft.menuItem._id)
+      );
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          `Failed to discard ${draft.menuItem.name}`
+      );
+    }
+  };
+
+  const handleRollback = async () => {
+    const target = pendingRollback;
+    if (!target) return;
+
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response = await apiClient.rollbackMenu(target.version);
+      if (response.success) {
+        await refresh(response.message ?? 'Menu rolled back');
+      }
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to roll back the menu'
+      );
+    } finally {
+      setIsWorking(false);
+      setPendingRollback(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-gray-200 rounded animate-pulse w-48"></div>
+        {[1, 2].map((i) => (
+          <Card key={i}>
+            <CardContent className="p-6 space-y-4">
+              {[1, 2, 3].map((j) => (
+                <div
+                  key={j}
+                  className="h-12 bg-gray-200 rounded animate-pulse"
+                ></div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link
+          to="/menu"
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <svg
+            className="w-5 h-5 text-gray-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Publish Menu</h1>
+          <p className="text-gray-600">
+            {currentVersion > 0
+              ? `Guests see menu version ${currentVersion}.`
+              : 'The menu has not been published yet.'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 flex justify-between items-center">
+          <span>{error}</span>
+          <Button variant="ghost" size="sm" onClick={() => setError(null)}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-800 rounded-lg p-4 flex justify-between items-center">
+          <span>{message}</span>
+          <Button variant="ghost" size="sm" onClick={() => setMessage(null)}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      {/* Drafts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Unpublished Changes{' '}
+            <span className="text-sm font-normal text-gray-500">
+              ({drafts.length})
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {drafts.length === 0 ? (
+            <p className="text-gray-500">
+              Nothing to publish. Edits to menu items show up here first.
+            </p>
+          ) : (
+            <>
+              <div className="divide-y divide-gray-100">
+                {drafts.map((draft) => (
+                  <div
+                    key={draft.menuItem._id}
+                    className="flex items-start justify-between py-4 gap-4"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold text-gray-900">
+                          {draft.menuItem.name}
+                        </span>
+                        {draft.isNew && (
+                          <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+                            New item
+                          </span>
+                        )}
+                      </div>
+                      {!draft.isNew && (
+                        <MenuChangeList changes={draft.changes} />
+                      )}
+                      <p className="text-xs text-gray-500">
+                        Edited {new Date(draft.updatedAt).toLocaleString()}
+                        {draft.updatedBy && ` by ${draft.updatedBy.name}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          navigate(`/menu/${draft.menuItem._id}/edit`)
+                        }
+                      >
+                        Edit
+                      </Button>
+                      {!draft.isNew && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => handleDiscard(draft)}
+                        >
+                          Discard
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-end gap-4 pt-2">
+                <Input
+                  label="Note"
+                  fullWidth
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={200}
+                  placeholder="Spring menu, new prices"
+                  disabled={isWorking}
+                />
+                <Button
+                  variant="primary"
+                  onClick={handlePublish}
+                  loading={isWorking}
+                >
+                  Publish {drafts.length}{' '}
+                  {drafts.length === 1 ? 'change' : 'changes'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Version history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {versions.length === 0 ? (
+            <p className="text-gray-500">No versions published yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {versions.map((version) => (
+                <div key={version._id} className="py-4 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold text-gray-900">
+                          Version {version.version}
+                        </span>
+                        {version.version === currentVersion && (
+                          <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 text-xs font-medium">
+                            Live
+                          </span>
+                        )}
+                        {version.rollbackOf !== undefined && (
+                          <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs font-medium">
+                            Rollback
+                          </span>
+                        )}
+                        {!version.complete && (
+                          <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 text-xs font-medium">
+                            Incomplete
+                          </span>
+                        )}
+                      </div>
+                      {version.note && (
+                        <p className="text-sm text-gray-600">{version.note}</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {new Date(version.createdAt).toLocaleString()}
+                        {version.publishedBy &&
+                          ` by ${version.publishedBy.name}`}{' '}
+                        • {version.changeCount}{' '}
+                        {version.changeCount === 1 ? 'item' : 'items'} changed
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleVersion(version.version)}
+                      >
+                        {expandedVersion === version.version
+                          ? 'Hide changes'
+                          : 'Show changes'}
+                      </Button>
+                      {version.version < currentVersion && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isWorking}
+                          onClick={() => setPendingRollback(version)}
+                        >
+                          Roll back to this
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expandedVersion === version.version && (
+                    <div className="pl-4 border-l-2 border-gray-200 space-y-3">
+                      {!revisions[version.version] ? (
+                        <p className="text-sm text-gray-500">Loading…</p>
+                      ) : revisions[version.version].length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          No item changes.
+                        </p>
+                      ) : (
+                        revisions[version.version].map((revision) => (
+                          <div key={revision._id} className="space-y-1">
+                            <p className="text-sm font-medium text-gray-900">
+                              {actionLabels[revision.action]}{' '}
+                              {revision.menuItemName}
+                              {revision.changedBy && (
+                                <span className="font-normal text-gray-500">
+                                  {' '}
+                                  • edited by {revision.changedBy.name}
+                                </span>
+                              )}
+                            </p>
+                            {revision.action === 'updated' && (
+                              <MenuChangeList changes={revision.changes} />
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {(page > 1 || hasNextPage) && (
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                disabled={page === 1}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                Newer
+              </Button>
+              <Button
+                variant="ghost"
+                disabled={!hasNextPage}
+                onClick={() => setPage((current) => current + 1)}
+              >
+                Older
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmModal
+        isOpen={pendingRollback !== null}
+        onClose={() => setPendingRollback(null)}
+        onConfirm={handleRollback}
+        title="Roll Back Menu"
+        message={`Put the menu back the way it was at version ${pendingRollback?.version}? This is published straight away as a new version. Unpublished drafts are kept.`}
+        confirmText="Roll Back"
+        variant="warning"
+        loading={isWorking}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,775 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Input,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import { priceOrder } from '@restaurant-monorepo/pricing';
+import {
+  Allergen,
+  MENU_CATEGORIES,
+  MenuCategory,
+  MenuSearchMatch,
+  OrderItemModifier,
+  PricingConfig,
+  Table,
+} from '@restaurant-monorepo/shared-types';
+import { categoryLabels, MenuItemRecord } from './MenuManagement';
+import { statusStyles } from './FloorPlan';
+import { ModifierPicker } from '../components/orders/ModifierPicker';
+import {
+  BundleComponent,
+  BundlePicker,
+} from '../components/orders/BundlePicker';
+import {
+  AllergenPicker,
+  allergenLabels,
+  allergyConflicts,
+} from '../components/menu/AllergenPicker';
+import { HighlightedText } from '../components/orders/HighlightedText';
+
+type TableRecord = Table & { _id: string };
+
+interface SearchResults {
+  items: MenuItemRecord[];
+  matches: Record<string, MenuSearchMatch>;
+}
+
+interface CartLine {
+  key: number;
+  menuItem: MenuItemRecord;
+  modifiers: OrderItemModifier[];
+  bundleComponents: BundleComponent[];
+  quantity: number;
+  specialInstructions: string;
+}
+
+// How often the menu is reloaded to catch items that sell out mid-order
+const MENU_REFRESH_MS = 30 * 1000;
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+const sumModifiers = (modifiers: OrderItemModifier[]) =>
+  modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+
+// Bundle components are covered by the bundle price apart from upcharges
+const getUnitPrice = (line: CartLine) =>
+  line.menuItem.price +
+  sumModifiers(line.modifiers) +
+  line.bundleComponents.reduce(
+    (sum, component) => sum + sumModifiers(component.modifiers),
+    0
+  );
+
+// Bundles are checked through the components the guest picked
+const getLineAllergens = (line: CartLine) =>
+  line.bundleComponents.length > 0
+    ? line.bundleComponents.flatMap((component) => component.menuItem.allergens)
+    : line.menuItem.allergens;
+
+const formatAllergens = (allergens: Allergen[]) =>
+  [...new Set(allergens)]
+    .map((allergen) => allergenLabels[allergen])
+    .join(', ');
+
+const getModifierKey = (modifiers: OrderItemModifier[]) =>
+  modifiers
+    .map((modifier) => modifier.optionId)
+    .sort()
+    .join(',');
+
+const getChoiceKey = (
+  modifiers: OrderItemModifier[],
+  bundleComponents: BundleComponent[]
+) =>
+  [
+    getModifierKey(modifiers),
+    ...bundleComponents.map(
+      (component) =>
+        `${component.menuItem._id}:${getModifierKey(component.modifiers)}`
+    ),
+  ].join('|');
+
+const isItemAvailable = (
+  menuItemId: string,
+  modifiers: OrderItemModifier[],
+  items: MenuItemRecord[]
+) => {
+  const menuItem = items.find((item) => item._id === menuItemId);
+  if (!menuItem) return false;
+
+  return modifiers.every((modifier) =>
+    menuItem.modifierGroups
+      .find((group) => group._id === modifier.groupId)
+      ?.options.some(
+        (option) => option._id === modifier.optionId && option.available
+      )
+  );
+};
+
+// A line can still be sent if the dish, every bundle component and every
+// chosen option are on sale
+const isLineAvailable = (line: CartLine, items: MenuItemRecord[]) =>
+  isItemAvailable(line.menuItem._id, line.modifiers, items) &&
+  line.bundleComponents.every((component) =>
+    isItemAvailable(component.menuItem._id, component.modifiers, items)
+  );
+
+export const NewOrder: React.FC = () => {
+  const [tables, setTables] = useState<TableRecord[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItemRecord[]>([]);
+  const [pricingConfig, setPricingConfig] = useState<PricingConfig>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [tableNumber, setTableNumber] = useState<number | null>(null);
+  const [category, setCategory] = useState<MenuCategory | null>(null);
+  const [search, setSearch] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(
+    null
+  );
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [customerName, setCustomerName] = useState('');
+  const [partySize, setPartySize] = useState('');
+  const [allergies, setAllergies] = useState<Allergen[]>([]);
+  const [pickerItem, setPickerItem] = useState<MenuItemRecord | null>(null);
+  const [pickerBundle, setPickerBundle] = useState<MenuItemRecord | null>(null);
+  const nextLineKey = useRef(1);
+
+  const navigate = useNavigate();
+
+  const fetchMenu = async () => {
+    const response = await apiClient.getMenuItems({ orderable: true });
+    if (response.success) {
+      const items = response.data.menuItems as unknown as MenuItemRecord[];
+      setMenuItems(items);
+      return items;
+    }
+    return null;
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [tablesResponse] = await Promise.all([
+          apiClient.getTables(),
+          fetchMenu(),
+        ]);
+
+        if (tablesResponse.success) {
+          setTables(
+            (tablesResponse.data.tables as TableRecord[])
+              .filter((table) => table.isActive)
+              .sort((a, b) => a.number - b.number)
+          );
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load menu and tables');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+
+    // The running total follows the same tax and gratuity rules as the API
+    apiClient
+      .getPricingConfig()
+      .then((response) => setPricingConfig(response.data.config))
+      .catch(() => setPricingConfig(undefined));
+
+    const interval = setInterval(() => {
+      fetchMenu().catch(() => undefined);
+    }, MENU_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The API ranks matches and tolerates typos and half-typed words
+  useEffect(() => {
+    const query = search.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      apiClient
+        .getMenuItems({ orderable: true, search: query })
+        .then((response) => {
+          if (cancelled) return;
+          setSearchResults({
+            items: response.data.menuItems as unknown as MenuItemRecord[],
+            matches: response.data.matches ?? {},
+          });
+        })
+        .catch(() => {
+          if (!cancelled) setSearchResults({ items: [], matches: {} });
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [search]);
+
+  const unavailableLines = cart.filter(
+    (line) => !isLineAvailable(line, menuItems)
+  );
+
+  const categories = MENU_CATEGORIES.filter((current) =>
+    menuItems.some((item) => item.category === current)
+  );
+  const activeCategory =
+    category && categories.includes(category) ? category : categories[0];
+  const categoryItems = menuItems
+    .filter((item) => item.category === activeCategory)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const visibleItems = searchResults ? searchResults.items : categoryItems;
+
+  // Taps on the same dish with the same choices add to its line unless that
+  // line has instructions
+  const addItem = (
+    menuItem: MenuItemRecord,
+    modifiers: OrderItemModifier[] = [],
+    bundleComponents: BundleComponent[] = []
+  ) => {
+    const choiceKey = getChoiceKey(modifiers, bundleComponents);
+    setCart((lines) => {
+      const existing = lines.find(
+        (line) =>
+          line.menuItem._id === menuItem._id &&
+          getChoiceKey(line.modifiers, line.bundleComponents) === choiceKey &&
+          !line.specialInstructions
+      );
+      if (existing) {
+        return lines.map((line) =>
+          line === existing ? { ...line, quantity: line.quantity + 1 } : line
+        );
+      }
+      return [
+        ...lines,
+        {
+          key: nextLineKey.current++,
+          menuItem,
+          modifiers,
+          bundleComponents,
+          quantity: 1,
+          specialInstructions: '',
+        },
+      ];
+    });
+  };
+
+  const handleItemTap = (menuItem: MenuItemRecord) => {
+    if (menuItem.type === 'bundle') {
+      setPickerBundle(menuItem);
+    } else if (menuItem.modifierGroups.length > 0) {
+      setPickerItem(menuItem);
+    } else {
+      addItem(menuItem);
+    }
+  };
+
+  const updateLine = (key: number, changes: Partial<CartLine>) =>
+    setCart((lines) =>
+      lines.map((line) => (line.key === key ? { ...line, ...changes } : line))
+    );
+
+  const changeQuantity = (key: number, delta: number) =>
+    setCart((lines) =>
+      lines
+        .map((line) =>
+          line.key === key ? { ...line, quantity: line.quantity + delta } : line
+        )
+        .filter((line) => line.quantity > 0)
+    );
+
+  const removeLine = (key: number) =>
+    setCart((lines) => lines.filter((line) => line.key !== key));
+
+  const guests =
+    Number(partySize) > 0 ? Math.floor(Number(partySize)) : undefined;
+
+  const pricing = priceOrder(
+    {
+      lines: cart.map((line) => ({
+        unitPrice: getUnitPrice(line),
+        quantity: line.quantity,
+        category: line.menuItem.category,
+      })),
+      partySize: guests,
+    },
+    pricingConfig
+  ).breakdown;
+
+  const handleSubmit = async () => {
+    if (tableNumber === null) {
+      setError('Choose a table before sending the order');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      // Check the cart against the latest menu before sending it
+      const latestMenu = await fetchMenu();
+      if (cart.some((line) => !isLineAvailable(line, latestMenu ?? []))) {
+        setError(
+          'Some items are no longer available. Remove them to continue.'
+        );
+        return;
+      }
+
+      const response = await apiClient.createOrder({
+        tableNumber,
+        items: cart.map((line) => ({
+          menuItemId: line.menuItem._id,
+          quantity: line.quantity,
+          modifiers: line.modifiers.length
+            ? line.modifiers.map(({ groupId, optionId }) => ({
+                groupId,
+                optionId,
+              }))
+            : undefined,
+          bundleSelections: line.bundleComponents.length
+            ? line.bundleComponents.map((component) => ({
+                slotId: component.slotId,
+                menuItemId: component.menuItem._id,
+                modifiers: component.modifiers.length
+                  ? component.modifiers.map(({ groupId, optionId }) => ({
+                      groupId,
+                      optionId,
+                    }))
+                  : undefined,
+              }))
+            : undefined,
+          specialInstructions: line.specialInstructions.trim() || undefined,
+        })),
+        customerName: customerName.trim() || undefined,
+        partySize: guests,
+        allergies: allergies.length ? allergies : undefined,
+      });
+
+      if (response.success) {
+        navigate(`/orders/${(response.data.order as any)._id}`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to send order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-gray-200 rounded animate-pulse w-48"></div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
+            <div
+              key={i}
+              className="h-24 bg-gray-200 rounded-lg animate-pulse"
+            ></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+      <div className="xl:col-span-2 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">New Order</h1>
+          <p className="text-gray-600">
+            Pick a table, tap dishes to add them, then send to the kitchen.
+          </p>
+        </div>
+
+        {/* Table picker */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Table</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tables.length === 0 ? (
+              <p className="text-gray-500">
+                No tables set up yet. Add tables on the floor plan first.
+              </p>
+            ) : (
+              <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-3">
+                {tables.map((table) => (
+                  <button
+                    key={table._id}
+                    type="button"
+                    onClick={() => setTableNumber(table.number)}
+                    className={`min-h-16 rounded-lg border-2 p-2 text-center transition-colors ${
+                      tableNumber === table.number
+                        ? 'border-blue-600 bg-blue-600 text-white'
+                        : statusStyles[table.status].tile
+                    }`}
+                  >
+                    <div className="text-lg font-bold">{table.number}</div>
+                    <div className="text-xs">
+                      {statusStyles[table.status].label}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Menu */}
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <Input
+              type="search"
+              placeholder="Search dishes"
+              aria-label="Search dishes"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter adds the best match, so a dish can be rung in
+                // without leaving the keyboard
+                if (e.key === 'Enter' && searchResults?.items[0]) {
+                  e.preventDefault();
+                  handleItemTap(searchResults.items[0]);
+                  setSearch('');
+                }
+              }}
+              fullWidth
+            />
+
+            <div
+              className={`flex gap-2 overflow-x-auto ${
+                searchResults ? 'hidden' : ''
+              }`}
+              role="tablist"
+            >
+              {categories.map((current) => (
+                <button
+                  key={current}
+                  type="button"
+                  role="tab"
+                  aria-selected={current === activeCategory}
+                  onClick={() => setCategory(current)}
+                  className={`px-5 py-3 rounded-lg font-medium whitespace-nowrap ${
+                    current === activeCategory
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {categoryLabels[current]}
+                </button>
+              ))}
+            </div>
+
+            {visibleItems.length === 0 ? (
+              <p className="py-12 text-center text-gray-500">
+                {searchResults
+                  ? `No dishes match "${search.trim()}".`
+                  : 'Nothing on the menu is available right now.'}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+                {visibleItems.map((item) => {
+                  const conflicts = allergyConflicts(item.allergens, allergies);
+                  const highlights =
+                    searchResults?.matches[item._id]?.highlights ?? [];
+                  const descriptionMatch = highlights.find(
+                    (highlight) => highlight.field === 'description'
+                  );
+                  return (
+                    <button
+                      key={item._id}
+                      type="button"
+                      onClick={() => handleItemTap(item)}
+                      className={`min-h-24 rounded-lg border p-3 text-left hover:border-blue-400 hover:bg-blue-50 active:bg-blue-100 transition-colors ${
+                        conflicts.length > 0
+                          ? 'border-red-400 bg-red-50'
+                          : 'border-gray-200 bg-white'
+                      }`}
+                    >
+                      <div className="font-semibold text-gray-900">
+                        <HighlightedText
+                          text={item.name}
+                          highlight={highlights.find(
+                            (highlight) => highlight.field === 'name'
+                          )}
+                        />
+                      </div>
+                      {descriptionMatch && (
+                        <div className="text-xs text-gray-500 line-clamp-2">
+                          <HighlightedText
+                            text={item.description}
+                            highlight={descriptionMatch}
+                          />
+                        </div>
+                      )}
+                      <div className="text-sm text-gray-600">
+                        {formatMoney(item.price)}
+                      </div>
+                      {conflicts.length > 0 ? (
+                        <div className="text-xs font-semibold text-red-700 mt-1">
+                          ⚠ Contains {formatAllergens(conflicts)}
+                        </div>
+                      ) : (
+                        item.allergens.length > 0 && (
+                          <div className="text-xs text-orange-700 mt-1">
+                            {formatAllergens(item.allergens)}
+                          </div>
+                        )
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Cart */}
+      <div className="xl:sticky xl:top-6 self-start">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {tableNumber === null
+                ? 'No table selected'
+                : `Table ${tableNumber}`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-3 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Customer"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder="Optional"
+                fullWidth
+              />
+              <Input
+                label="Guests"
+                type="number"
+                min="1"
+                step="1"
+                value={partySize}
+                onChange={(e) => setPartySize(e.target.value)}
+                placeholder="Optional"
+                fullWidth
+              />
+            </div>
+
+            <AllergenPicker
+              label="Guest allergies"
+              hint="Flagged on the kitchen ticket"
+              selected={allergies}
+              onChange={setAllergies}
+              tone="warning"
+            />
+
+            {cart.length === 0 ? (
+              <p className="py-8 text-center text-gray-500">
+                Tap a dish to add it to the order.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {cart.map((line) => {
+                  const unavailable = !isLineAvailable(line, menuItems);
+                  const conflicts = allergyConflicts(
+                    getLineAllergens(line),
+                    allergies
+                  );
+                  return (
+                    <div
+                      key={line.key}
+                      className={`py-3 space-y-2 ${
+                        unavailable ? 'bg-red-50 -mx-2 px-2 rounded' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900 truncate">
+                            {line.menuItem.name}
+                          </div>
+                          {line.modifiers.length > 0 && (
+                            <div className="text-xs text-gray-600">
+                              {line.modifiers
+                                .map((modifier) => modifier.optionName)
+                                .join(', ')}
+                            </div>
+                          )}
+                          {line.bundleComponents.map((component) => (
+                            <div
+                              key={component.slotId}
+                              className="text-xs text-gray-600"
+                            >
+                              {component.menuItem.name}
+                              {component.modifiers.length > 0 &&
+                                ` (${component.modifiers
+                                  .map((modifier) => modifier.optionName)
+                                  .join(', ')})`}
+                            </div>
+                          ))}
+                          {conflicts.length > 0 && (
+                            <div className="text-xs font-semibold text-red-700">
+                              ⚠ Contains {formatAllergens(conflicts)}
+                            </div>
+                          )}
+                          {unavailable ? (
+                            <div className="text-xs font-medium text-red-700">
+                              No longer available
+                            </div>
+                          ) : (
+                            <div className="text-xs text-gray-500">
+                              {formatMoney(getUnitPrice(line))} each
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <button
+                            type="button"
+                            aria-label={`One less ${line.menuItem.name}`}
+                            onClick={() => changeQuantity(line.key, -1)}
+                            className="w-10 h-10 rounded-full bg-gray-100 text-lg font-bold hover:bg-gray-200"
+                          >
+                            −
+                          </button>
+                          <span className="w-6 text-center font-semibold">
+                            {line.quantity}
+                          </span>
+                          <button
+                            type="button"
+                            aria-label={`One more ${line.menuItem.name}`}
+                            onClick={() => changeQuantity(line.key, 1)}
+                            disabled={unavailable}
+                            className="w-10 h-10 rounded-full bg-gray-100 text-lg font-bold hover:bg-gray-200 disabled:opacity-40"
+                          >
+                            +
+                          </button>
+                          <span className="w-16 text-right font-medium">
+                            {formatMoney(getUnitPrice(line) * line.quantity)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={line.specialInstructions}
+                          onChange={(e) =>
+                            updateLine(line.key, {
+                              specialInstructions: e.target.value,
+                            })
+                          }
+                          maxLength={200}
+                          placeholder="Special instructions"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => removeLine(line.key)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Running total */}
+            <div className="border-t pt-4 space-y-1 text-sm">
+              <div className="flex justify-between text-gray-600">
+                <span>Subtotal</span>
+                <span>{formatMoney(pricing.subtotal)}</span>
+              </div>
+              {pricing.serviceCharge > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Service ({pricing.serviceChargeRate}%)</span>
+                  <span>{formatMoney(pricing.serviceCharge)}</span>
+                </div>
+              )}
+              {pricing.tax > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Tax</span>
+                  <span>{formatMoney(pricing.tax)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-bold text-gray-900">
+                <span>Total</span>
+                <span>{formatMoney(pricing.total)}</span>
+              </div>
+            </div>
+
+            {unavailableLines.length > 0 && (
+              <p className="text-sm text-red-700">
+                Remove{' '}
+                {unavailableLines.map((line) => line.menuItem.name).join(', ')}{' '}
+                to send this order.
+              </p>
+            )}
+
+            <Button
+              variant="primary"
+              size="lg"
+              fullWidth
+              loading={submitting}
+              disabled={
+                cart.length === 0 ||
+                tableNumber === null ||
+                unavailableLines.length > 0
+              }
+              onClick={handleSubmit}
+            >
+              Send to Kitchen
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ModifierPicker
+        menuItem={pickerItem}
+        onClose={() => setPickerItem(null)}
+        onConfirm={(modifiers) => {
+          if (pickerItem) addItem(pickerItem, modifiers);
+          setPickerItem(null);
+        }}
+      />
+
+      <BundlePicker
+        bundle={pickerBundle}
+        menuItems={menuItems}
+        onClose={() => setPickerBundle(null)}
+        onConfirm={(components) => {
+          if (pickerBundle) addItem(pickerBundle, [], components);
+          setPickerBundle(null);
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,1195 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Input,
+  Select,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ConfirmModal,
+  OrderStatusBadge,
+  PaymentStatusBadge,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import { getOrderPricing, priceOrder } from '@restaurant-monorepo/pricing';
+import { canAccessFeature, canApproveRefunds } from '@restaurant-monorepo/rbac';
+import {
+  Discount,
+  DiscountType,
+  Order,
+  OrderCheck,
+  OrderItem,
+  PricingConfig,
+  REFUND_REASON_CODES,
+  Refund,
+  RefundReasonCode,
+  SplitMethod,
+  SplitOrderRequest,
+} from '@restaurant-monorepo/shared-types';
+import { useAuth } from '../hooks/useAuth';
+
+type DetailItem = OrderItem & { _id: string };
+type DetailOrder = Omit<Order, 'items' | 'checks'> & {
+  _id: string;
+  items: DetailItem[];
+  checks: (OrderCheck & { _id: string })[];
+};
+
+const splitMethodLabels: Record<SplitMethod, string> = {
+  by_item: 'By Item',
+  by_seat: 'By Seat',
+  even: 'Evenly',
+};
+
+const receiptOptions = [
+  { value: 'text-80', label: 'Printer (80mm)' },
+  { value: 'text-58', label: 'Printer (58mm)' },
+  { value: 'html', label: 'HTML (email / web)' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+type RefundRecord = Omit<Refund, 'requestedBy' | 'approvedBy'> & {
+  _id: string;
+  requestedBy?: { name: string };
+  approvedBy?: { name: string };
+};
+
+const refundReasonOptions = REFUND_REASON_CODES.map((code) => ({
+  value: code,
+  label: code.charAt(0).toUpperCase() + code.slice(1).replace('_', ' '),
+}));
+
+interface DiscountDraft {
+  type: DiscountType | '';
+  value: string;
+  reason: string;
+}
+
+const discountTypeOptions = [
+  { value: '', label: 'No discount' },
+  { value: 'percentage', label: 'Percent off' },
+  { value: 'fixed', label: 'Amount off' },
+  { value: 'comp', label: 'Comp' },
+];
+
+const toDiscountDraft = (discount?: Discount): DiscountDraft => ({
+  type: discount?.type ?? '',
+  value: discount?.value ? String(discount.value) : '',
+  reason: discount?.reason ?? '',
+});
+
+const fromDiscountDraft = (
+  draft: DiscountDraft
+): Omit<Discount, 'appliedBy'> | null =>
+  draft.type
+    ? {
+        type: draft.type,
+        value: parseFloat(draft.value) || 0,
+        reason: draft.reason.trim() || undefined,
+      }
+    : null;
+
+const describeDiscount = (discount: Discount) =>
+  discount.type === 'comp'
+    ? 'Comp'
+    : discount.type === 'percentage'
+    ? `${discount.value}% off`
+    : `$${discount.value.toFixed(2)} off`;
+
+export const OrderDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [order, setOrder] = useState<DetailOrder | null>(null);
+  const [pricingConfig, setPricingConfig] = useState<PricingConfig>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showSplit, setShowSplit] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [splitMethod, setSplitMethod] = useState<SplitMethod>('by_item');
+  const [checkCount, setCheckCount] = useState('2');
+  const [itemChecks, setItemChecks] = useState<Record<string, string>>({});
+  const [itemSeats, setItemSeats] = useState<Record<string, string>>({});
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showDiscounts, setShowDiscounts] = useState(false);
+  const [orderDiscount, setOrderDiscount] = useState<DiscountDraft>(
+    toDiscountDraft()
+  );
+  const [lineDiscounts, setLineDiscounts] = useState<
+    Record<string, DiscountDraft>
+  >({});
+  const [discountError, setDiscountError] = useState<string | null>(null);
+  const [showReceipt, setShowReceipt] = useState(false);
+  const [receiptOption, setReceiptOption] = useState('text-80');
+  const [receiptCheckId, setReceiptCheckId] = useState('');
+  const [receipt, setReceipt] = useState<{
+    format: string;
+    content: string;
+  } | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
+  const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+  const [adjustment, setAdjustment] = useState<'void' | 'refund' | null>(null);
+  const [reasonCode, setReasonCode] =
+    useState<RefundReasonCode>('customer_request');
+  const [adjustmentNote, setAdjustmentNote] = useState('');
+  const [refundAll, setRefundAll] = useState(true);
+  const [refundQuantities, setRefundQuantities] = useState<
+    Record<string, string>
+  >({});
+  const [approvalEmail, setApprovalEmail] = useState('');
+  const [approvalPin, setApprovalPin] = useState('');
+  const [adjustmentError, setAdjustmentError] = useState<string | null>(null);
+
+  const fetchOrder = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setError(null);
+      const response = await apiClient.getOrderById(id);
+
+      if (response.success) {
+        setOrder(response.data.order as unknown as DetailOrder);
+      }
+
+      const refundsResponse = await apiClient.getOrderRefunds(id);
+      if (refundsResponse.success) {
+        setRefunds(refundsResponse.data.refunds as unknown as RefundRecord[]);
+      }
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to load order'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOrder();
+
+    // Discount previews use the same pricing rules as the API
+    apiClient
+      .getPricingConfig()
+      .then((response) => setPricingConfig(response.data.config))
+      .catch(() => setPricingConfig(undefined));
+
+    const unsubscribe = apiClient.subscribeToOrderEvents((event) => {
+      if ((event.order as any)._id === id) {
+        fetchOrder();
+      }
+    });
+    return unsubscribe;
+  }, [id, fetchOrder]);
+
+  const openSplitModal = () => {
+    if (!order) return;
+
+    setSplitMethod('by_item');
+    setCheckCount('2');
+    setItemChecks(
+      Object.fromEntries(order.items.map((item) => [item._id, '1']))
+    );
+    setItemSeats(
+      Object.fromEntries(
+        order.items.map((item) => [item._id, item.seat?.toString() ?? ''])
+      )
+    );
+    setSplitError(null);
+    setShowSplit(true);
+  };
+
+  const buildSplitRequest = (): SplitOrderRequest | string => {
+    const count = parseInt(checkCount, 10);
+
+    if (splitMethod === 'even') {
+      return count >= 2
+        ? { method: 'even', count }
+        : 'Split into at least two checks';
+    }
+
+    if (splitMethod === 'by_seat') {
+      const seats: Record<string, number> = {};
+      for (const item of order?.items ?? []) {
+        const seat = parseInt(itemSeats[item._id], 10);
+        if (!seat || seat < 1) {
+          return `Assign a seat to ${item.menuItemName}`;
+        }
+        seats[item._id] = seat;
+      }
+      return { method: 'by_seat', seats };
+    }
+
+    const checks = Array.from({ length: count }, (_, index) => ({
+      label: `Check ${index + 1}`,
+      itemIds: (order?.items ?? [])
+        .filter((item) => itemChecks[item._id] === String(index + 1))
+        .map((item) => item._id),
+    }));
+    if (checks.some((check) => check.itemIds.length === 0)) {
+      return 'Every check needs at least one item';
+    }
+    return { method: 'by_item', checks };
+  };
+
+  const handleSplit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const splitRequest = buildSplitRequest();
+    if (typeof splitRequest === 'string') {
+      setSplitError(splitRequest);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setSplitError(null);
+      const response = await apiClient.splitOrder(order._id, splitRequest);
+
+      if (response.success) {
+        setOrder(response.data.order as unknown as DetailOrder);
+        setShowSplit(false);
+      }
+    } catch (err: any) {
+      setSplitError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to split bill'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!order) return;
+
+    try {
+      setSaving(true);
+      const response = await apiClient.clearOrderSplit(order._id);
+
+      if (response.success) {
+        setOrder(response.data.order as unknown as DetailOrder);
+      }
+    } catch (err: any) {
+      setError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to merge checks'
+      );
+    } finally {
+      setSaving(false);
+      setShowMerge(false);
+    }
+  };
+
+  const openDiscountsModal = () => {
+    if (!order) return;
+
+    setOrderDiscount(toDiscountDraft(order.discount));
+    setLineDiscounts(
+      Object.fromEntries(
+        order.items.map((item) => [item._id, toDiscountDraft(item.discount)])
+      )
+    );
+    setDiscountError(null);
+    setShowDiscounts(true);
+  };
+
+  const updateLineDiscount = (
+    itemId: string,
+    changes: Partial<DiscountDraft>
+  ) =>
+    setLineDiscounts((prev) => ({
+      ...prev,
+      [itemId]: { ...prev[itemId], ...changes },
+    }));
+
+  const previewPricing =
+    order && pricingConfig && showDiscounts
+      ? priceOrder(
+          {
+            lines: order.items.map((item) => ({
+              unitPrice: item.unitPrice,
+              quantity: item.quantity,
+              category: item.category,
+              discount: fromDiscountDraft(lineDiscounts[item._id]) ?? undefined,
+            })),
+            orderDiscount: fromDiscountDraft(orderDiscount) ?? undefined,
+            partySize: order.partySize,
+          },
+          pricingConfig
+        ).breakdown
+      : null;
+
+  const handleApplyDiscounts = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const drafts = [orderDiscount, ...Object.values(lineDiscounts)];
+    if (
+      drafts.some((draft) => draft.type === 'percentage' && +draft.value > 100)
+    ) {
+      setDiscountError('Percentage discounts cannot exceed 100');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setDiscountError(null);
+      const response = await apiClient.applyOrderDiscounts(order._id, {
+        orderDiscount: fromDiscountDraft(orderDiscount),
+        lineDiscounts: order.items.map((item) => ({
+          itemId: item._id,
+          discount: fromDiscountDraft(lineDiscounts[item._id]),
+        })),
+      });
+
+      if (response.success) {
+        setOrder(response.data.order as unknown as DetailOrder);
+        setShowDiscounts(false);
+      }
+    } catch (err: any) {
+      setDiscountError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to apply discounts'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReceiptModal = () => {
+    setReceipt(null);
+    setReceiptError(null);
+    setShowReceipt(true);
+  };
+
+  const handleGenerateReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const [format, width] = receiptOption.split('-');
+    const params = {
+      width: width === '58' ? (58 as const) : (80 as const),
+      checkId: receiptCheckId || undefined,
+    };
+
+    try {
+      setSaving(true);
+      setReceiptError(null);
+
+      // The HTML view is a preview; text and PDF receipts are printed
+      if (format === 'pdf') {
+        const pdf = await apiClient.printOrderReceiptPdf(order._id, params);
+        window.open(URL.createObjectURL(pdf), '_blank');
+        setReceipt(null);
+      } else if (format === 'html') {
+        const content = await apiClient.getOrderReceipt(order._id, {
+          ...params,
+          format: 'html',
+        });
+        setReceipt({ format, content });
+      } else {
+        const content = await apiClient.printOrderReceipt(order._id, params);
+        setReceipt({ format, content });
+      }
+    } catch (err: any) {
+      setReceiptError(err.message || 'Failed to generate receipt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openAdjustmentModal = (type: 'void' | 'refund') => {
+    setAdjustment(type);
+    setReasonCode('customer_request');
+    setAdjustmentNote('');
+    setRefundAll(true);
+    setRefundQuantities({});
+    setApprovalEmail('');
+    setApprovalPin('');
+    setAdjustmentError(null);
+  };
+
+  const handleAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !adjustment) return;
+
+    const approval =
+      user && !canApproveRefunds(user.role)
+        ? { email: approvalEmail.trim(), pin: approvalPin }
+        : undefined;
+    const request = {
+      reasonCode,
+      note: adjustmentNote.trim() || undefined,
+      approval,
+    };
+
+    const items = refundAll
+      ? undefined
+      : order.items
+          .map((item) => ({
+            itemId: item._id,
+            quantity: parseInt(refundQuantities[item._id], 10) || 0,
+          }))
+          .filter((item) => item.quantity > 0);
+    if (adjustment === 'refund' && items?.length === 0) {
+      setAdjustmentError('Choose at least one item to refund');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setAdjustmentError(null);
+      const response =
+        adjustment === 'void'
+          ? await apiClient.voidOrder(order._id, request)
+          : await apiClient.createRefund(order._id, { ...request, items });
+
+      if (response.success) {
+        setAdjustment(null);
+        await fetchOrder();
+      }
+    } catch (err: any) {
+      setAdjustmentError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          `Failed to ${adjustment} order`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-gray-200 rounded animate-pulse w-64"></div>
+        <div className="h-64 bg-gray-200 rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          Order not found
+        </h3>
+        <p className="text-gray-600 mb-4">{error}</p>
+        <Link to="/dashboard" className="text-blue-600 hover:text-blue-500">
+          ← Back to Dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  const isSplit = order.checks.length > 0;
+  const canChangeSplit =
+    order.status !== 'cancelled' && !(order.amountPaid > 0);
+  const canDiscount =
+    canChangeSplit && !!user && canAccessFeature(user.role, 'payments');
+  const canVoid = order.status !== 'cancelled' && !(order.amountPaid > 0);
+  const canRefund =
+    order.amountPaid > 0 && (order.amountRefunded ?? 0) < order.amountPaid;
+  const needsApproval = !!user && !canApproveRefunds(user.role);
+  const pricing = getOrderPricing(order);
+  const checkOptions = Array.from(
+    { length: Math.max(2, parseInt(checkCount, 10) || 2) },
+    (_, index) => ({
+      value: String(index + 1),
+      label: `Check ${index + 1}`,
+    })
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {order.orderNumber}
+            </h1>
+            <OrderStatusBadge status={order.status} />
+            <PaymentStatusBadge status={order.paymentStatus ?? 'unpaid'} />
+          </div>
+          <p className="text-gray-600 mt-1">
+            Table {order.tableNumber}
+            {order.customerName && ` • ${order.customerName}`} •{' '}
+            {new Date(order.createdAt).toLocaleString()}
+          </p>
+        </div>
+
+        <div className="flex space-x-2">
+          {order.status !== 'cancelled' && (
+            <Button variant="ghost" onClick={openReceiptModal}>
+              Receipt
+            </Button>
+          )}
+          {canDiscount && (
+            <Button variant="ghost" onClick={openDiscountsModal}>
+              Discounts
+            </Button>
+          )}
+          {canVoid && (
+            <Button variant="ghost" onClick={() => openAdjustmentModal('void')}>
+              Void
+            </Button>
+          )}
+          {canRefund && (
+            <Button
+              variant="ghost"
+              onClick={() => openAdjustmentModal('refund')}
+            >
+              Refund
+            </Button>
+          )}
+          {canChangeSplit &&
+            (isSplit ? (
+              <Button variant="ghost" onClick={() => setShowMerge(true)}>
+                Merge Checks
+              </Button>
+            ) : (
+              <Button variant="primary" onClick={openSplitModal}>
+                Split Bill
+              </Button>
+            ))}
+        </div>
+      </div>
+
+      {order.void && (
+        <Card className="border-gray-200 bg-gray-50">
+          <CardContent className="p-4 text-sm text-gray-700">
+            Voided {new Date(order.void.voidedAt).toLocaleString()} •{' '}
+            {order.void.reasonCode.replace('_', ' ')}
+            {order.void.note && ` • ${order.void.note}`}
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center text-red-700">{error}</div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Items */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {order.items.map((item) => (
+              <div key={item._id} className="flex justify-between py-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {item.quantity}× {item.menuItemName}
+                    {item.seat && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        Seat {item.seat}
+                      </span>
+                    )}
+                  </div>
+                  {item.bundle && (
+                    <div className="text-sm text-purple-700">
+                      {item.bundle.name} · {item.bundle.slotName}
+                    </div>
+                  )}
+                  {item.modifiers?.map((modifier) => (
+                    <div
+                      key={modifier.optionId}
+                      className="text-sm text-gray-600"
+                    >
+                      + {modifier.optionName}
+                      {modifier.priceDelta > 0 &&
+                        ` ($${modifier.priceDelta.toFixed(2)})`}
+                    </div>
+                  ))}
+                  {item.specialInstructions && (
+                    <div className="text-sm text-gray-500">
+                      {item.specialInstructions}
+                    </div>
+                  )}
+                  {item.discount && (
+                    <div className="text-sm text-green-700">
+                      {describeDiscount(item.discount)}
+                      {item.discount.reason && ` • ${item.discount.reason}`}
+                    </div>
+                  )}
+                  {!!item.refundedQuantity && (
+                    <div className="text-sm text-red-600">
+                      {item.refundedQuantity} refunded
+                    </div>
+                  )}
+                </div>
+                <div className="text-gray-900">
+                  ${item.totalPrice.toFixed(2)}
+                </div>
+              </div>
+            ))}
+            <div className="py-3 text-sm text-gray-600 space-y-1">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>${pricing.subtotal.toFixed(2)}</span>
+              </div>
+              {pricing.lineDiscounts > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Item discounts</span>
+                  <span>-${pricing.lineDiscounts.toFixed(2)}</span>
+                </div>
+              )}
+              {pricing.orderDiscount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>
+                    Order discount
+                    {order.discount && ` (${describeDiscount(order.discount)})`}
+                  </span>
+                  <span>-${pricing.orderDiscount.toFixed(2)}</span>
+                </div>
+              )}
+              {pricing.serviceCharge > 0 && (
+                <div className="flex justify-between">
+                  <span>
+                    Service charge ({pricing.serviceChargeRate}%, party of{' '}
+                    {order.partySize})
+                  </span>
+                  <span>${pricing.serviceCharge.toFixed(2)}</span>
+                </div>
+              )}
+              {pricing.taxes.map((tax) => (
+                <div
+                  key={tax.category ?? 'default'}
+                  className="flex justify-between"
+                >
+                  <span>
+                    Tax {tax.category && `• ${tax.category.replace('_', ' ')}`}{' '}
+                    ({tax.rate}%)
+                  </span>
+                  <span>${tax.tax.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between py-3 font-semibold">
+              <span>Total</span>
+              <span>${order.total.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between py-3 text-sm text-gray-600">
+              <span>Paid</span>
+              <span>${(order.amountPaid ?? 0).toFixed(2)}</span>
+            </div>
+            {order.amountRefunded > 0 && (
+              <div className="flex justify-between py-3 text-sm text-red-600">
+                <span>Refunded</span>
+                <span>-${order.amountRefunded.toFixed(2)}</span>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Split Checks */}
+      {isSplit && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Checks ({splitMethodLabels[order.splitMethod ?? 'by_item']})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {order.checks.map((check) => (
+                <div key={check._id} className="border rounded-lg p-4">
+                  <div className="flex justify-between items-center mb-3">
+                    <span className="font-semibold text-gray-900">
+                      {check.label}
+                    </span>
+                    <PaymentStatusBadge
+                      status={check.paymentStatus}
+                      size="sm"
+                    />
+                  </div>
+                  <div className="text-sm text-gray-600 space-y-1 mb-3">
+                    {check.itemIds.length > 0
+                      ? order.items
+                          .filter((item) => check.itemIds.includes(item._id))
+                          .map((item) => (
+                            <div key={item._id}>
+                              {item.quantity}× {item.menuItemName}
+                            </div>
+                          ))
+                      : 'Even share of the whole order'}
+                  </div>
+                  <div className="text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span>Subtotal</span>
+                      <span>${check.subtotal.toFixed(2)}</span>
+                    </div>
+                    {check.serviceCharge > 0 && (
+                      <div className="flex justify-between">
+                        <span>Service charge</span>
+                        <span>${check.serviceCharge.toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <span>${check.tax.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                      <span>Total</span>
+                      <span>${check.total.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Paid</span>
+                      <span>${check.amountPaid.toFixed(2)}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Refunds */}
+      {refunds.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Refunds</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {refunds.map((refund) => (
+                <div key={refund._id} className="py-3 text-sm">
+                  <div className="flex justify-between font-medium text-gray-900">
+                    <span>
+                      {refund.type === 'full' ? 'Full refund' : 'Item refund'} •{' '}
+                      {refund.reasonCode.replace('_', ' ')}
+                    </span>
+                    <span>-${refund.amount.toFixed(2)}</span>
+                  </div>
+                  {refund.type === 'items' && (
+                    <div className="text-gray-600">
+                      {refund.items
+                        .map((item) => `${item.quantity}× ${item.menuItemName}`)
+                        .join(', ')}
+                    </div>
+                  )}
+                  <div className="text-gray-500">
+                    {new Date(refund.createdAt).toLocaleString()} • by{' '}
+                    {refund.requestedBy?.name ?? 'unknown'}
+                    {refund.approvalMethod === 'pin' &&
+                      `, approved by ${refund.approvedBy?.name ?? 'manager'}`}
+                    {refund.note && ` • ${refund.note}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Void / Refund Modal */}
+      <Modal
+        isOpen={!!adjustment}
+        onClose={() => setAdjustment(null)}
+        title={adjustment === 'void' ? 'Void Order' : 'Refund Order'}
+        size="md"
+      >
+        <form onSubmit={handleAdjustment}>
+          <ModalBody className="space-y-4">
+            <Select
+              label="Reason"
+              options={refundReasonOptions}
+              value={reasonCode}
+              onChange={(e) =>
+                setReasonCode(e.target.value as RefundReasonCode)
+              }
+              fullWidth
+            />
+            <Input
+              label="Note"
+              value={adjustmentNote}
+              maxLength={200}
+              onChange={(e) => setAdjustmentNote(e.target.value)}
+              fullWidth
+            />
+
+            {adjustment === 'refund' && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant={refundAll ? 'primary' : 'ghost'}
+                    onClick={() => setRefundAll(true)}
+                  >
+                    Full Refund
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={refundAll ? 'ghost' : 'primary'}
+                    onClick={() => setRefundAll(false)}
+                  >
+                    By Item
+                  </Button>
+                </div>
+                {refundAll ? (
+                  <p className="text-sm text-gray-600">
+                    Refunds $
+                    {(order.amountPaid - (order.amountRefunded ?? 0)).toFixed(
+                      2
+                    )}{' '}
+                    to the original payments. Tips are not refunded.
+                  </p>
+                ) : (
+                  order.items
+                    .filter(
+                      (item) => item.quantity > (item.refundedQuantity ?? 0)
+                    )
+                    .map((item) => (
+                      <Input
+                        key={item._id}
+                        label={`${item.menuItemName} (${
+                          item.quantity - (item.refundedQuantity ?? 0)
+                        } left)`}
+                        type="number"
+                        min={0}
+                        max={item.quantity - (item.refundedQuantity ?? 0)}
+                        placeholder="0"
+                        value={refundQuantities[item._id] ?? ''}
+                        onChange={(e) =>
+                          setRefundQuantities((prev) => ({
+                            ...prev,
+                            [item._id]: e.target.value,
+                          }))
+                        }
+                        fullWidth
+                      />
+                    ))
+                )}
+              </>
+            )}
+
+            {needsApproval && (
+              <div className="border rounded-md p-3 space-y-2">
+                <p className="text-sm text-gray-600">
+                  A manager must approve this with their PIN.
+                </p>
+                <Input
+                  label="Manager Email"
+                  type="email"
+                  value={approvalEmail}
+                  onChange={(e) => setApprovalEmail(e.target.value)}
+                  required
+                  fullWidth
+                />
+                <Input
+                  label="PIN"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={approvalPin}
+                  onChange={(e) => setApprovalPin(e.target.value)}
+                  required
+                  fullWidth
+                />
+              </div>
+            )}
+
+            {adjustmentError && (
+              <p className="text-sm text-red-600">{adjustmentError}</p>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setAdjustment(null)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="danger" loading={saving}>
+              {adjustment === 'void' ? 'Void Order' : 'Refund'}
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+
+      {/* Split Bill Modal */}
+      <Modal
+        isOpen={showSplit}
+        onClose={() => setShowSplit(false)}
+        title="Split Bill"
+        size="md"
+      >
+        <form onSubmit={handleSplit}>
+          <ModalBody className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(splitMethodLabels) as SplitMethod[]).map(
+                (method) => (
+                  <Button
+                    key={method}
+                    type="button"
+                    variant={splitMethod === method ? 'primary' : 'ghost'}
+                    onClick={() => setSplitMethod(method)}
+                  >
+                    {splitMethodLabels[method]}
+                  </Button>
+                )
+              )}
+            </div>
+
+            {splitMethod !== 'by_seat' && (
+              <Input
+                label="Number of Checks"
+                type="number"
+                min={2}
+                value={checkCount}
+                onChange={(e) => setCheckCount(e.target.value)}
+                fullWidth
+              />
+            )}
+
+            {splitMethod === 'by_item' &&
+              order.items.map((item) => (
+                <Select
+                  key={item._id}
+                  label={`${item.quantity}× ${item.menuItemName}`}
+                  options={checkOptions}
+                  value={itemChecks[item._id]}
+                  onChange={(e) =>
+                    setItemChecks((prev) => ({
+                      ...prev,
+                      [item._id]: e.target.value,
+                    }))
+                  }
+                  fullWidth
+                />
+              ))}
+
+            {splitMethod === 'by_seat' &&
+              order.items.map((item) => (
+                <Input
+                  key={item._id}
+                  label={`${item.quantity}× ${item.menuItemName}`}
+                  type="number"
+                  min={1}
+                  placeholder="Seat"
+                  value={itemSeats[item._id]}
+                  onChange={(e) =>
+                    setItemSeats((prev) => ({
+                      ...prev,
+                      [item._id]: e.target.value,
+                    }))
+                  }
+                  fullWidth
+                />
+              ))}
+
+            {splitError && <p className="text-sm text-red-600">{splitError}</p>}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setShowSplit(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={saving}>
+              Split
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+
+      {/* Receipt Modal */}
+      <Modal
+        isOpen={showReceipt}
+        onClose={() => setShowReceipt(false)}
+        title="Receipt"
+        size="lg"
+      >
+        <form onSubmit={handleGenerateReceipt}>
+          <ModalBody className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                label="Format"
+                options={receiptOptions}
+                value={receiptOption}
+                onChange={(e) => setReceiptOption(e.target.value)}
+                fullWidth
+              />
+              <Select
+                label="Bill"
+                options={[
+                  { value: '', label: 'Whole order' },
+                  ...order.checks.map((check) => ({
+                    value: check._id,
+                    label: check.label,
+                  })),
+                ]}
+                value={receiptCheckId}
+                onChange={(e) => setReceiptCheckId(e.target.value)}
+                fullWidth
+              />
+            </div>
+            <p className="text-sm text-gray-600">
+              Only the first printed receipt is the original; reprints are
+              marked as copies. The HTML view is a preview and isn't printed.
+            </p>
+
+            {receipt?.format === 'text' && (
+              <pre className="font-mono text-xs bg-gray-50 border rounded-md p-3 overflow-auto max-h-96">
+                {receipt.content}
+              </pre>
+            )}
+            {receipt?.format === 'html' && (
+              <iframe
+                title="Receipt preview"
+                srcDoc={receipt.content}
+                className="w-full h-96 border rounded-md"
+              />
+            )}
+
+            {receiptError && (
+              <p className="text-sm text-red-600">{receiptError}</p>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setShowReceipt(false)}
+            >
+              Close
+            </Button>
+            <Button type="submit" variant="primary" loading={saving}>
+              {receipt ? 'Reprint' : 'Print'}
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+
+      {/* Discounts Modal */}
+      <Modal
+        isOpen={showDiscounts}
+        onClose={() => setShowDiscounts(false)}
+        title="Discounts"
+        size="lg"
+      >
+        <form onSubmit={handleApplyDiscounts}>
+          <ModalBody className="space-y-4">
+            {[
+              {
+                key: 'order',
+                label: 'Whole order',
+                draft: orderDiscount,
+                onChange: (changes: Partial<DiscountDraft>) =>
+                  setOrderDiscount((prev) => ({ ...prev, ...changes })),
+              },
+              ...order.items.map((item) => ({
+                key: item._id,
+                label: `${item.quantity}× ${item.menuItemName}`,
+                draft: lineDiscounts[item._id] ?? toDiscountDraft(),
+                onChange: (changes: Partial<DiscountDraft>) =>
+                  updateLineDiscount(item._id, changes),
+              })),
+            ].map(({ key, label, draft, onChange }) => (
+              <div key={key} className="grid grid-cols-3 gap-2 items-end">
+                <Select
+                  label={label}
+                  options={discountTypeOptions}
+                  value={draft.type}
+                  onChange={(e) =>
+                    onChange({ type: e.target.value as DiscountType | '' })
+                  }
+                  fullWidth
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder={draft.type === 'percentage' ? '%' : '$'}
+                  value={draft.value}
+                  disabled={!draft.type || draft.type === 'comp'}
+                  onChange={(e) => onChange({ value: e.target.value })}
+                  fullWidth
+                />
+                <Input
+                  placeholder="Reason"
+                  value={draft.reason}
+                  disabled={!draft.type}
+                  onChange={(e) => onChange({ reason: e.target.value })}
+                  fullWidth
+                />
+              </div>
+            ))}
+
+            {previewPricing && (
+              <div className="border rounded-md px-3 py-2 text-sm space-y-1">
+                <div className="flex justify-between text-green-700">
+                  <span>Discounts</span>
+                  <span>
+                    -$
+                    {(
+                      previewPricing.lineDiscounts +
+                      previewPricing.orderDiscount
+                    ).toFixed(2)}
+                  </span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>New total</span>
+                  <span>${previewPricing.total.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+
+            {isSplit && (
+              <p className="text-sm text-gray-600">
+                Changing discounts merges the split checks.
+              </p>
+            )}
+            {discountError && (
+              <p className="text-sm text-red-600">{discountError}</p>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setShowDiscounts(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={saving}>
+              Apply
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+
+      <ConfirmModal
+        isOpen={showMerge}
+        onClose={() => setShowMerge(false)}
+        onConfirm={handleMerge}
+        title="Merge Checks"
+        message="Combine all checks back into a single bill?"
+        confirmText="Merge"
+        loading={saving}
+      />
+    </div>
+  );
+};
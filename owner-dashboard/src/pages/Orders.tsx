@@ -0,0 +1,358 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Card,
+  CardContent,
+  Button,
+  Input,
+  Select,
+  Table,
+  TableColumn,
+  Pagination,
+  OrderStatusBadge,
+  PaymentStatusBadge,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import { hasPermission } from '@restaurant-monorepo/rbac';
+import {
+  ExportFormat,
+  Order,
+  OrderListFilters,
+  OrderStatus,
+} from '@restaurant-monorepo/shared-types';
+import { OrderDrawer } from '../components/orders/OrderDrawer';
+import { useAuth } from '../hooks/useAuth';
+import { saveDownload } from '../utils/download';
+
+type ListOrder = Omit<Order, 'createdBy'> & {
+  _id: string;
+  createdBy?: { _id: string; name: string };
+};
+
+const PAGE_SIZE = 20;
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const statusOptions = [
+  { value: '', label: 'All statuses' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'preparing', label: 'Preparing' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'served', label: 'Served' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const emptyFilters = {
+  status: '',
+  tableNumber: '',
+  from: '',
+  to: '',
+  createdBy: '',
+};
+
+const formatDateTime = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const Orders: React.FC = () => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<ListOrder[]>([]);
+  const [pagination, setPagination] = useState({
+    totalCount: 0,
+    totalPages: 0,
+    hasNextPage: false,
+    hasPrevPage: false,
+  });
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [staff, setStaff] = useState<{ _id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+
+  const userId = (user as any)?._id as string | undefined;
+  const canListStaff = user?.role
+    ? hasPermission(user.role, 'MANAGE_STAFF')
+    : false;
+  const canExport = user?.role
+    ? hasPermission(user.role, 'VIEW_REPORTS')
+    : false;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Only staff managers can list everyone; others can still filter to
+  // their own orders
+  useEffect(() => {
+    if (!canListStaff) return;
+
+    apiClient
+      .getUsers({ limit: 100 })
+      .then((response) =>
+        setStaff(
+          (response.data.users as unknown as { _id: string; name: string }[])
+            .map(({ _id, name }) => ({ _id, name }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        )
+      )
+      .catch(() => setStaff([]));
+  }, [canListStaff]);
+
+  const getQuery = useCallback((): OrderListFilters => {
+    const query: OrderListFilters = { timezone };
+    if (filters.status) query.status = filters.status as OrderStatus;
+    if (filters.tableNumber) query.tableNumber = Number(filters.tableNumber);
+    if (filters.from) query.from = filters.from;
+    if (filters.to) query.to = filters.to;
+    if (filters.createdBy) query.createdBy = filters.createdBy;
+    if (debouncedSearch) query.search = debouncedSearch;
+    return query;
+  }, [filters, debouncedSearch]);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await apiClient.getOrders({
+        ...getQuery(),
+        page,
+        limit: PAGE_SIZE,
+      });
+
+      if (response.success) {
+        setOrders(response.data.orders as unknown as ListOrder[]);
+        setPagination(response.data.pagination);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [getQuery, page]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchOrders();
+
+    // Keep the list current as orders come in and change status
+    const unsubscribe = apiClient.subscribeToOrderEvents(() => fetchOrders());
+    return unsubscribe;
+  }, [fetchOrders]);
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setSearch('');
+    setPage(1);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      const file = await apiClient.exportOrders({ ...getQuery(), format });
+      saveDownload(file, `orders.${format}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export orders');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const closeDrawer = useCallback(() => setSelectedOrderId(null), []);
+
+  const creatorOptions = [
+    { value: '', label: 'Anyone' },
+    ...(userId ? [{ value: userId, label: 'Me' }] : []),
+    ...staff
+      .filter((member) => member._id !== userId)
+      .map((member) => ({ value: member._id, label: member.name })),
+  ];
+
+  const hasFilters =
+    Object.values(filters).some(Boolean) || search.trim().length > 0;
+
+  const orderColumns: TableColumn<ListOrder>[] = [
+    {
+      key: 'orderNumber',
+      title: 'Order',
+      render: (value, order) => (
+        <div>
+          <div className="font-medium text-gray-900">#{value}</div>
+          {order.customerName && (
+            <div className="text-sm text-gray-500">{order.customerName}</div>
+          )}
+        </div>
+      ),
+    },
+    { key: 'tableNumber', title: 'Table', align: 'center' },
+    {
+      key: 'createdAt',
+      title: 'Placed',
+      render: (value) => formatDateTime(value),
+    },
+    {
+      key: 'items',
+      title: 'Items',
+      align: 'center',
+      render: (items: ListOrder['items']) =>
+        items.reduce((sum, item) => sum + item.quantity, 0),
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      render: (value) => <OrderStatusBadge status={value} size="sm" />,
+    },
+    {
+      key: 'paymentStatus',
+      title: 'Payment',
+      render: (value) => <PaymentStatusBadge status={value} size="sm" />,
+    },
+    {
+      key: 'createdBy',
+      title: 'Created By',
+      render: (value) => value?.name ?? '—',
+    },
+    {
+      key: 'total',
+      title: 'Total',
+      align: 'right',
+      render: (value) => `$${value.toFixed(2)}`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Orders</h1>
+          <p className="text-gray-600">
+            {pagination.totalCount} order
+            {pagination.totalCount === 1 ? '' : 's'}
+            {hasFilters ? ' match your filters' : ''}.
+          </p>
+        </div>
+
+        <Link to="/orders/new">
+          <Button variant="primary">New Order</Button>
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end">
+            <div className="md:col-span-3 lg:col-span-2">
+              <Input
+                label="Search"
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Order number or customer"
+                fullWidth
+              />
+            </div>
+            <Select
+              label="Status"
+              value={filters.status}
+              options={statusOptions}
+              onChange={(e) => updateFilter('status', e.target.value)}
+              fullWidth
+            />
+            <Input
+              label="Table"
+              type="number"
+              min="1"
+              value={filters.tableNumber}
+              onChange={(e) => updateFilter('tableNumber', e.target.value)}
+              placeholder="Any"
+              fullWidth
+            />
+            <Input
+              label="From"
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              fullWidth
+            />
+            <Input
+              label="To"
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              fullWidth
+            />
+            <Select
+              label="Created By"
+              value={filters.createdBy}
+              options={creatorOptions}
+              onChange={(e) => updateFilter('createdBy', e.target.value)}
+              fullWidth
+            />
+            {hasFilters && (
+              <Button variant="ghost" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <Table
+          columns={orderColumns}
+          data={orders}
+          loading={loading}
+          emptyMessage={
+            hasFilters ? 'No orders match your filters' : 'No orders yet'
+          }
+          onRowClick={(order) => setSelectedOrderId(order._id)}
+          onExport={canExport ? handleExport : undefined}
+          exporting={exporting}
+        />
+        <Pagination
+          currentPage={page}
+          totalPages={pagination.totalPages}
+          onPageChange={setPage}
+          hasNextPage={pagination.hasNextPage}
+          hasPrevPage={pagination.hasPrevPage}
+          totalCount={pagination.totalCount}
+          pageSize={PAGE_SIZE}
+        />
+      </div>
+
+      <OrderDrawer
+        orderId={selectedOrderId}
+        userRole={user?.role}
+        onClose={closeDrawer}
+        onStatusChange={fetchOrders}
+      />
+    </div>
+  );
+};
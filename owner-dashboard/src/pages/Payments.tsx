@@ -0,0 +1,552 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  OrderStatusBadge,
+  PaymentStatusBadge,
+  Table,
+  TableColumn,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import { canApproveWithPin } from '@restaurant-monorepo/rbac';
+import { Link } from 'react-router-dom';
+import {
+  OpenCheck,
+  OrderCheck,
+  OrderItem,
+  PaymentMethod,
+} from '@restaurant-monorepo/shared-types';
+import { useAuth } from '../hooks/useAuth';
+
+type Check = Omit<OpenCheck, 'order' | 'check'> & {
+  order: Omit<OpenCheck['order'], 'items'> & {
+    _id: string;
+    items: (OrderItem & { _id: string })[];
+  };
+  check?: OrderCheck & { _id: string };
+};
+
+const emptyPaymentForm = { amount: '', tip: '', amountTendered: '' };
+
+// Lines covered by a check; even shares cover no specific lines
+const getCheckItems = ({ order, check }: Check) =>
+  check
+    ? order.items.filter((item) => check.itemIds.includes(item._id))
+    : order.items;
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : 0;
+};
+
+export const Payments: React.FC = () => {
+  const { user } = useAuth();
+  const [checks, setChecks] = useState<Check[]>([]);
+  const [totalOutstanding, setTotalOutstanding] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedCheck, setSelectedCheck] = useState<Check | null>(null);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [pinForm, setPinForm] = useState({ pin: '', currentPassword: '' });
+  const [pinError, setPinError] = useState<string | null>(null);
+
+  const fetchOpenChecks = async () => {
+    try {
+      setError(null);
+      const response = await apiClient.getOpenChecks();
+
+      if (response.success) {
+        setChecks(response.data.checks as Check[]);
+        setTotalOutstanding(response.data.totalOutstanding);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load open checks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOpenChecks();
+
+    // New orders open checks and payments from other terminals close them
+    const unsubscribe = apiClient.subscribeToOrderEvents(() =>
+      fetchOpenChecks()
+    );
+    return unsubscribe;
+  }, []);
+
+  const openPaymentModal = (check: Check) => {
+    setSelectedCheck(check);
+    setMethod('cash');
+    setPaymentForm({ ...emptyPaymentForm, amount: check.balance.toFixed(2) });
+    setFormError(null);
+  };
+
+  const openPinModal = () => {
+    setPinForm({ pin: '', currentPassword: '' });
+    setPinError(null);
+    setShowPinModal(true);
+  };
+
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^\d{4,8}$/.test(pinForm.pin)) {
+      setPinError('PIN must be 4 to 8 digits');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setPinError(null);
+      await apiClient.setApprovalPin(pinForm);
+      setShowPinModal(false);
+      setNotice('Approval PIN updated');
+    } catch (err: any) {
+      setPinError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to update PIN'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const amount = parseAmount(paymentForm.amount);
+  const tip = parseAmount(paymentForm.tip);
+  const amountDue = amount + tip;
+  const tendered = paymentForm.amountTendered
+    ? parseAmount(paymentForm.amountTendered)
+    : amountDue;
+  const changeDue = Math.max(0, tendered - amountDue);
+
+  const handleTakePayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCheck) return;
+
+    if (amount <= 0) {
+      setFormError('Amount must be greater than zero');
+      return;
+    }
+    if (amount > selectedCheck.balance) {
+      setFormError(
+        `Amount cannot exceed the balance of $${selectedCheck.balance.toFixed(
+          2
+        )}`
+      );
+      return;
+    }
+    if (method === 'cash' && tendered < amountDue) {
+      setFormError('Cash tendered is less than the amount due');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      const response = await apiClient.createPayment({
+        orderId: selectedCheck.order._id,
+        checkId: selectedCheck.check?._id,
+        method,
+        amount,
+        tip: tip || undefined,
+        amountTendered:
+          method === 'cash' && paymentForm.amountTendered
+            ? tendered
+            : undefined,
+      });
+
+      if (response.success) {
+        const { payment, balance } = response.data;
+        setNotice(
+          `Payment of $${payment.amount.toFixed(2)} recorded for ${
+            selectedCheck.order.orderNumber
+          }${selectedCheck.check ? ` (${selectedCheck.check.label})` : ''}` +
+            (payment.changeGiven
+              ? ` • Change due $${payment.changeGiven.toFixed(2)}`
+              : '') +
+            (balance > 0 ? ` • $${balance.toFixed(2)} still open` : '')
+        );
+        setSelectedCheck(null);
+        await fetchOpenChecks();
+      }
+    } catch (err: any) {
+      setFormError(
+        err.response?.data?.error?.message ||
+          err.message ||
+          'Failed to take payment'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const columns: TableColumn<Check>[] = [
+    {
+      key: 'orderNumber',
+      title: 'Order',
+      render: (_, check) => (
+        <div>
+          <Link
+            to={`/orders/${check.order._id}`}
+            className="font-medium text-blue-600 hover:text-blue-500"
+          >
+            {check.order.orderNumber}
+          </Link>
+          {check.check && (
+            <div className="text-xs text-gray-500">{check.check.label}</div>
+          )}
+          {check.order.customerName && (
+            <div className="text-xs text-gray-500">
+              {check.order.customerName}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'tableNumber',
+      title: 'Table',
+      render: (_, check) => check.order.tableNumber,
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      render: (_, check) => (
+        <OrderStatusBadge status={check.order.status} size="sm" />
+      ),
+    },
+    {
+      key: 'paymentStatus',
+      title: 'Payment',
+      render: (_, check) => (
+        <PaymentStatusBadge
+          status={(check.check ?? check.order).paymentStatus ?? 'unpaid'}
+          size="sm"
+        />
+      ),
+    },
+    {
+      key: 'total',
+      title: 'Total',
+      align: 'right',
+      render: (_, check) => `$${(check.check ?? check.order).total.toFixed(2)}`,
+    },
+    {
+      key: 'balance',
+      title: 'Balance',
+      align: 'right',
+      render: (_, check) => (
+        <span className="font-semibold">${check.balance.toFixed(2)}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      title: '',
+      align: 'right',
+      render: (_, check) => (
+        <Button
+          size="sm"
+          variant="primary"
+          onClick={() => openPaymentModal(check)}
+        >
+          Take Payment
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Payments</h1>
+          <p className="text-gray-600">
+            Settle open checks with cash or card, including partial payments and
+            tips.
+          </p>
+        </div>
+        {user && canApproveWithPin(user.role) && (
+          <Button variant="ghost" onClick={openPinModal}>
+            Approval PIN
+          </Button>
+        )}
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center text-red-700">{error}</div>
+          </CardContent>
+        </Card>
+      )}
+      {notice && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between text-green-700">
+              <span>{notice}</span>
+              <button
+                onClick={() => setNotice(null)}
+                className="text-green-700 hover:text-green-900"
+              >
+                ✕
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {[
+          { icon: '🧾', value: checks.length, label: 'Open Checks' },
+          {
+            icon: '💰',
+            value: `$${totalOutstanding.toFixed(2)}`,
+            label: 'Outstanding',
+          },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className="text-2xl mr-3">{stat.icon}</div>
+                <div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {stat.value}
+                  </div>
+                  <div className="text-sm text-gray-600">{stat.label}</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Open Checks */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Checks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table
+            columns={columns}
+            data={checks}
+            loading={loading}
+            emptyMessage="All checks are settled 🎉"
+          />
+        </CardContent>
+      </Card>
+
+      {/* Take Payment Modal */}
+      <Modal
+        isOpen={!!selectedCheck}
+        onClose={() => setSelectedCheck(null)}
+        title={
+          selectedCheck
+            ? `Payment • ${selectedCheck.order.orderNumber}` +
+              (selectedCheck.check ? ` • ${selectedCheck.check.label}` : '')
+            : undefined
+        }
+        size="md"
+      >
+        {selectedCheck && (
+          <form onSubmit={handleTakePayment}>
+            <ModalBody className="space-y-4">
+              <div className="border rounded-md divide-y text-sm">
+                {getCheckItems(selectedCheck).map((item) => (
+                  <div
+                    key={item._id}
+                    className="flex justify-between px-3 py-2"
+                  >
+                    <span>
+                      {item.quantity}× {item.menuItemName}
+                    </span>
+                    <span>${item.totalPrice.toFixed(2)}</span>
+                  </div>
+                ))}
+                {selectedCheck.check &&
+                  selectedCheck.check.serviceCharge > 0 && (
+                    <div className="flex justify-between px-3 py-2 text-gray-600">
+                      <span>Service charge</span>
+                      <span>
+                        ${selectedCheck.check.serviceCharge.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+                {selectedCheck.check && (
+                  <div className="flex justify-between px-3 py-2 text-gray-600">
+                    <span>
+                      {selectedCheck.check.itemIds.length === 0 &&
+                        `Even share of $${selectedCheck.order.total.toFixed(
+                          2
+                        )} • `}
+                      Tax
+                    </span>
+                    <span>${selectedCheck.check.tax.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between px-3 py-2 text-gray-600">
+                  <span>Paid so far</span>
+                  <span>
+                    $
+                    {(
+                      (selectedCheck.check ?? selectedCheck.order).amountPaid ??
+                      0
+                    ).toFixed(2)}
+                  </span>
+                </div>
+                <div className="flex justify-between px-3 py-2 font-semibold">
+                  <span>Balance</span>
+                  <span>${selectedCheck.balance.toFixed(2)}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {(['cash', 'card'] as PaymentMethod[]).map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    variant={method === option ? 'primary' : 'ghost'}
+                    onClick={() => setMethod(option)}
+                  >
+                    {option === 'cash' ? '💵 Cash' : '💳 Card'}
+                  </Button>
+                ))}
+              </div>
+
+              <Input
+                label="Amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={paymentForm.amount}
+                helperText="Enter less than the balance for a partial payment"
+                onChange={(e) =>
+                  setPaymentForm((prev) => ({
+                    ...prev,
+                    amount: e.target.value,
+                  }))
+                }
+                fullWidth
+              />
+              <Input
+                label="Tip"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="0.00"
+                value={paymentForm.tip}
+                onChange={(e) =>
+                  setPaymentForm((prev) => ({ ...prev, tip: e.target.value }))
+                }
+                fullWidth
+              />
+              {method === 'cash' && (
+                <Input
+                  label="Cash Tendered"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder={amountDue.toFixed(2)}
+                  value={paymentForm.amountTendered}
+                  helperText={`Change due: $${changeDue.toFixed(2)}`}
+                  onChange={(e) =>
+                    setPaymentForm((prev) => ({
+                      ...prev,
+                      amountTendered: e.target.value,
+                    }))
+                  }
+                  fullWidth
+                />
+              )}
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+            </ModalBody>
+            <ModalFooter>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setSelectedCheck(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" variant="success" loading={submitting}>
+                Charge ${amountDue.toFixed(2)}
+              </Button>
+            </ModalFooter>
+          </form>
+        )}
+      </Modal>
+
+      {/* Approval PIN Modal */}
+      <Modal
+        isOpen={showPinModal}
+        onClose={() => setShowPinModal(false)}
+        title="Approval PIN"
+        size="sm"
+      >
+        <form onSubmit={handleSetPin}>
+          <ModalBody className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Enter this PIN on a waiter's screen to approve voids and refunds.
+            </p>
+            <Input
+              label="New PIN"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pinForm.pin}
+              onChange={(e) =>
+                setPinForm((prev) => ({ ...prev, pin: e.target.value }))
+              }
+              fullWidth
+            />
+            <Input
+              label="Current Password"
+              type="password"
+              autoComplete="current-password"
+              value={pinForm.currentPassword}
+              onChange={(e) =>
+                setPinForm((prev) => ({
+                  ...prev,
+                  currentPassword: e.target.value,
+                }))
+              }
+              required
+              fullWidth
+            />
+            {pinError && <p className="text-sm text-red-600">{pinError}</p>}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setShowPinModal(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={submitting}>
+              Save PIN
+            </Button>
+          </ModalFooter>
+        </form>
+      </Modal>
+    </div>
+  );
+};
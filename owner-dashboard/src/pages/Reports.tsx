@@ -0,0 +1,672 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Input,
+  Select,
+  Table,
+  TableColumn,
+} from '@restaurant-monorepo/shared-ui';
+import { apiClient } from '@restaurant-monorepo/api-client';
+import {
+  CategoryMixRow,
+  ExportFormat,
+  HeatmapCell,
+  ItemSalesReport,
+  ItemSalesRow,
+  ReportGranularity,
+  SalesReport,
+  SalesReportPoint,
+  SalesTotals,
+} from '@restaurant-monorepo/shared-types';
+import {
+  RevenueChart,
+  RevenueChartPoint,
+} from '../components/reports/RevenueChart';
+import { CategoryMixChart } from '../components/reports/CategoryMixChart';
+import { HourlyHeatmap } from '../components/reports/HourlyHeatmap';
+import { saveDownload } from '../utils/download';
+
+type RangePreset = '7d' | '30d' | 'month' | 'custom';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// The API only buckets by hour for ranges of up to a month
+const MAX_HOURLY_DAYS = 31;
+
+const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const presetOptions = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'month', label: 'This month' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const itemRankingOptions: { value: keyof ItemSalesReport; label: string }[] = [
+  { value: 'topByRevenue', label: 'Top sellers by revenue' },
+  { value: 'topByQuantity', label: 'Top sellers by quantity' },
+  { value: 'bottomByRevenue', label: 'Slowest sellers by revenue' },
+  { value: 'bottomByQuantity', label: 'Slowest sellers by quantity' },
+];
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    '0'
+  )}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (value: string, days: number) => {
+  const date = parseDateInput(value);
+  date.setDate(date.getDate() + days);
+  return toDateInput(date);
+};
+
+// Days covered by the range, counting both ends
+const countDays = (from: string, to: string) =>
+  Math.round(
+    (parseDateInput(to).getTime() - parseDateInput(from).getTime()) / DAY_MS
+  ) + 1;
+
+const getPresetRange = (preset: RangePreset) => {
+  const today = toDateInput(new Date());
+  switch (preset) {
+    case '30d':
+      return { from: addDays(today, -29), to: today };
+    case 'month':
+      return { from: `${today.slice(0, 8)}01`, to: today };
+    default:
+      return { from: addDays(today, -6), to: today };
+  }
+};
+
+const startOfWeek = (date: Date) => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return monday;
+};
+
+/**
+ * Start of the nth bucket after the start of the range
+ */
+const getBucketStart = (
+  from: string,
+  granularity: ReportGranularity,
+  index: number
+) => {
+  const start = parseDateInput(from);
+  switch (granularity) {
+    case 'hour':
+      return new Date(start.getTime() + index * HOUR_MS);
+    case 'week': {
+      const monday = startOfWeek(start);
+      monday.setDate(monday.getDate() + index * 7);
+      return monday;
+    }
+    case 'month':
+      return new Date(start.getFullYear(), start.getMonth() + index, 1);
+    default:
+      start.setDate(start.getDate() + index);
+      return start;
+  }
+};
+
+/**
+ * Which bucket of the range a period falls in, so periods without orders can
+ * be filled in and the previous period lined up against this one
+ */
+const getBucketIndex = (
+  from: string,
+  granularity: ReportGranularity,
+  period: Date
+) => {
+  const start = parseDateInput(from);
+  switch (granularity) {
+    case 'hour':
+      return Math.round((period.getTime() - start.getTime()) / HOUR_MS);
+    case 'week':
+      return Math.round(
+        (startOfWeek(period).getTime() - startOfWeek(start).getTime()) /
+          (7 * DAY_MS)
+      );
+    case 'month':
+      return (
+        (period.getFullYear() - start.getFullYear()) * 12 +
+        period.getMonth() -
+        start.getMonth()
+      );
+    default:
+      return countDays(from, toDateInput(period)) - 1;
+  }
+};
+
+const fillSeries = (
+  series: SalesReportPoint[],
+  from: string,
+  length: number,
+  granularity: ReportGranularity
+) => {
+  const revenue: number[] = Array(length).fill(0);
+  for (const point of series) {
+    const index = getBucketIndex(from, granularity, new Date(point.period));
+    if (index >= 0 && index < length) {
+      revenue[index] += point.revenue;
+    }
+  }
+  return revenue;
+};
+
+const formatPeriod = (date: Date, granularity: ReportGranularity) => {
+  switch (granularity) {
+    case 'hour':
+      return date.toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+      });
+    case 'month':
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        year: 'numeric',
+      });
+    default:
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+      });
+  }
+};
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+const formatCategory = (category?: string) =>
+  category
+    ? category.charAt(0).toUpperCase() + category.slice(1).replace('_', ' ')
+    : 'Uncategorized';
+
+export const Reports: React.FC = () => {
+  const [preset, setPreset] = useState<RangePreset>('7d');
+  const [range, setRange] = useState(() => getPresetRange('7d'));
+  const [granularity, setGranularity] = useState<ReportGranularity>('day');
+  const [itemRanking, setItemRanking] =
+    useState<keyof ItemSalesReport>('topByRevenue');
+
+  const [sales, setSales] = useState<SalesReport | null>(null);
+  const [previousSales, setPreviousSales] = useState<SalesReport | null>(null);
+  const [items, setItems] = useState<ItemSalesReport | null>(null);
+  const [categories, setCategories] = useState<CategoryMixRow[]>([]);
+  const [heatmap, setHeatmap] = useState<HeatmapCell[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const days = countDays(range.from, range.to);
+  const rangeError =
+    !range.from || !range.to
+      ? 'Choose a start and end date'
+      : days < 1
+      ? 'The start date must be before the end date'
+      : days > 366
+      ? 'Reports cover at most a year'
+      : null;
+
+  // The previous period is the same number of days just before this one
+  const previousRange = useMemo(
+    () => ({
+      from: addDays(range.from, -days),
+      to: addDays(range.from, -1),
+    }),
+    [range.from, days]
+  );
+
+  useEffect(() => {
+    if (rangeError) return;
+
+    let cancelled = false;
+
+    const fetchReports = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const query = { ...range, timezone };
+        const [
+          salesResponse,
+          previousResponse,
+          itemsResponse,
+          categoriesResponse,
+          heatmapResponse,
+        ] = await Promise.all([
+          apiClient.getSalesReport({ ...query, granularity }),
+          apiClient.getSalesReport({
+            ...previousRange,
+            timezone,
+            granularity,
+          }),
+          apiClient.getItemSalesReport({ ...query, limit: 10 }),
+          apiClient.getCategoryMix(query),
+          apiClient.getHourlyHeatmap(query),
+        ]);
+
+        if (cancelled) return;
+
+        setSales(salesResponse.success ? salesResponse.data.report : null);
+        setPreviousSales(
+          previousResponse.success ? previousResponse.data.report : null
+        );
+        setItems(itemsResponse.success ? itemsResponse.data.report : null);
+        setCategories(
+          categoriesResponse.success ? categoriesResponse.data.categories : []
+        );
+        setHeatmap(heatmapResponse.success ? heatmapResponse.data.cells : []);
+      } catch (err: any) {
+        if (!cancelled) {
+          setError(err.message || 'Failed to load reports');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchReports();
+
+    // Ignore responses for a range the user has already moved away from
+    return () => {
+      cancelled = true;
+    };
+  }, [range, previousRange, granularity, rangeError]);
+
+  const handlePresetChange = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') {
+      const next = getPresetRange(value);
+      setRange(next);
+      if (
+        granularity === 'hour' &&
+        countDays(next.from, next.to) > MAX_HOURLY_DAYS
+      ) {
+        setGranularity('day');
+      }
+    }
+  };
+
+  const handleDateChange = (key: 'from' | 'to', value: string) => {
+    setPreset('custom');
+    setRange((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      const file = await apiClient.exportSalesReport({
+        ...range,
+        timezone,
+        granularity,
+        format,
+      });
+      saveDownload(file, `sales-${range.from}-${range.to}.${format}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export sales report');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const granularityOptions = [
+    {
+      value: 'hour',
+      label: 'By hour',
+      disabled: days > MAX_HOURLY_DAYS,
+    },
+    { value: 'day', label: 'By day' },
+    { value: 'week', label: 'By week' },
+    { value: 'month', label: 'By month' },
+  ];
+
+  const bucketCount =
+    getBucketIndex(
+      range.from,
+      granularity,
+      granularity === 'hour'
+        ? new Date(parseDateInput(addDays(range.to, 1)).getTime() - HOUR_MS)
+        : parseDateInput(range.to)
+    ) + 1;
+
+  const chartPoints: RevenueChartPoint[] = [];
+  if (sales && !rangeError) {
+    const current = fillSeries(
+      sales.series,
+      range.from,
+      bucketCount,
+      granularity
+    );
+    const previous = previousSales
+      ? fillSeries(
+          previousSales.series,
+          previousRange.from,
+          bucketCount,
+          granularity
+        )
+      : undefined;
+
+    current.forEach((revenue, index) => {
+      chartPoints.push({
+        label: formatPeriod(
+          getBucketStart(range.from, granularity, index),
+          granularity
+        ),
+        revenue,
+        previousRevenue: previous?.[index],
+      });
+    });
+  }
+
+  const getChange = (key: keyof SalesTotals) => {
+    const current = sales?.totals[key] ?? 0;
+    const previous = previousSales?.totals[key] ?? 0;
+    if (previous === 0) return null;
+    return Math.round(((current - previous) / previous) * 1000) / 10;
+  };
+
+  const totalsCards: {
+    title: string;
+    key: keyof SalesTotals;
+    format: (value: number) => string;
+    // Whether a rise is good news
+    higherIsBetter: boolean;
+  }[] = [
+    {
+      title: 'Revenue',
+      key: 'revenue',
+      format: formatMoney,
+      higherIsBetter: true,
+    },
+    {
+      title: 'Orders',
+      key: 'orders',
+      format: String,
+      higherIsBetter: true,
+    },
+    {
+      title: 'Average Ticket',
+      key: 'averageTicket',
+      format: formatMoney,
+      higherIsBetter: true,
+    },
+    {
+      title: 'Refunds',
+      key: 'refunds',
+      format: formatMoney,
+      higherIsBetter: false,
+    },
+  ];
+
+  const itemColumns: TableColumn<ItemSalesRow>[] = [
+    {
+      key: 'rank',
+      title: '#',
+      width: '3rem',
+      render: (_, __, index) => index + 1,
+    },
+    {
+      key: 'menuItemName',
+      title: 'Item',
+      render: (value) => (
+        <span className="font-medium text-gray-900">{value}</span>
+      ),
+    },
+    {
+      key: 'category',
+      title: 'Category',
+      render: (value) => formatCategory(value),
+    },
+    { key: 'quantity', title: 'Sold', align: 'right' },
+    {
+      key: 'revenue',
+      title: 'Revenue',
+      align: 'right',
+      render: (value) => formatMoney(value),
+    },
+  ];
+
+  const periodColumns: TableColumn<SalesReportPoint>[] = [
+    {
+      key: 'period',
+      title: 'Period',
+      render: (value) => formatPeriod(new Date(value), granularity),
+    },
+    { key: 'orders', title: 'Orders', align: 'right' },
+    {
+      key: 'revenue',
+      title: 'Revenue',
+      align: 'right',
+      render: (value) => formatMoney(value),
+    },
+    {
+      key: 'averageTicket',
+      title: 'Average Ticket',
+      align: 'right',
+      render: (value) => formatMoney(value),
+    },
+    {
+      key: 'refunds',
+      title: 'Refunds',
+      align: 'right',
+      render: (value) => formatMoney(value),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:justify-between lg:items-end gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Reports & Analytics
+          </h1>
+          <p className="text-gray-600">
+            Compared with the previous {days} day{days === 1 ? '' : 's'} (
+            {previousRange.from} to {previousRange.to}).
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Select
+            label="Range"
+            value={preset}
+            options={presetOptions}
+            onChange={(e) => handlePresetChange(e.target.value as RangePreset)}
+          />
+          <Input
+            label="From"
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => handleDateChange('from', e.target.value)}
+          />
+          <Input
+            label="To"
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => handleDateChange('to', e.target.value)}
+          />
+          <Select
+            label="Group"
+            value={granularity}
+            options={granularityOptions}
+            onChange={(e) =>
+              setGranularity(e.target.value as ReportGranularity)
+            }
+          />
+        </div>
+      </div>
+
+      {(rangeError || error) && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4">
+          {rangeError || error}
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {totalsCards.map((card) => {
+          const change = getChange(card.key);
+          const isGood =
+            change !== null &&
+            change !== 0 &&
+            (card.higherIsBetter ? change > 0 : change < 0);
+
+          return (
+            <Card key={card.key}>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-gray-600">
+                  {card.title}
+                </p>
+                {loading ? (
+                  <div className="h-8 bg-gray-200 rounded animate-pulse w-24 mt-1"></div>
+                ) : (
+                  <p className="text-2xl font-bold text-gray-900">
+                    {card.format(sales?.totals[card.key] ?? 0)}
+                  </p>
+                )}
+                <p className="text-sm mt-1">
+                  {loading ? (
+                    ' '
+                  ) : change === null ? (
+                    <span className="text-gray-500">No previous data</span>
+                  ) : (
+                    <span
+                      className={
+                        change === 0
+                          ? 'text-gray-500'
+                          : isGood
+                          ? 'text-green-600'
+                          : 'text-red-600'
+                      }
+                    >
+                      {change > 0 ? '+' : ''}
+                      {change}% vs previous period
+                    </span>
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Revenue trend */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Revenue Trend</CardTitle>
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <span className="flex items-center gap-2">
+                <span className="w-4 h-0.5 bg-blue-600"></span>
+                This period
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="w-4 border-t-2 border-dashed border-gray-400"></span>
+                Previous period
+              </span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-60 bg-gray-100 rounded animate-pulse"></div>
+          ) : (
+            <RevenueChart points={chartPoints} />
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Category mix */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Category Mix</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="h-48 bg-gray-100 rounded animate-pulse"></div>
+            ) : (
+              <CategoryMixChart categories={categories} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Top items */}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <CardTitle>Menu Items</CardTitle>
+              <Select
+                value={itemRanking}
+                options={itemRankingOptions}
+                onChange={(e) =>
+                  setItemRanking(e.target.value as keyof ItemSalesReport)
+                }
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table
+              columns={itemColumns}
+              data={items?.[itemRanking] ?? []}
+              loading={loading}
+              emptyMessage="No items sold in this period"
+              className="shadow-none"
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Heatmap */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Busiest Hours</CardTitle>
+          <p className="text-sm text-gray-600">
+            Orders by day of week and hour ({timezone})
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-48 bg-gray-100 rounded animate-pulse"></div>
+          ) : (
+            <HourlyHeatmap cells={heatmap} />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sales by period */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales by Period</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table
+            columns={periodColumns}
+            data={sales?.series ?? []}
+            loading={loading}
+            emptyMessage="No sales in this period"
+            onExport={handleExport}
+            exporting={exporting}
+            className="shadow-none"
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
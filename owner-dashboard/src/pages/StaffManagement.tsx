@@ -6,9 +6,12 @@ import {
   CardTitle,
   CardContent,
   Button,
+  Table,
+  TableColumn,
 } from '@restaurant-monorepo/shared-ui';
 import { apiClient } from '@restaurant-monorepo/api-client';
-import { User } from '@restaurant-monorepo/shared-types';
+import { ExportFormat, User } from '@restaurant-monorepo/shared-types';
+import { saveDownload } from '../utils/download';
 
 type StaffMember = Omit<User, 'createdAt' | 'lastLogin'> & {
   _id: string;
@@ -21,6 +24,7 @@ export const StaffManagement: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
 
   useEffect(() => {
     fetchStaff();
@@ -72,6 +76,18 @@ export const StaffManagement: React.FC = () => {
     }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      const file = await apiClient.exportStaff({ format });
+      saveDownload(file, `staff.${format}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to export staff list');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'chef':
@@ -109,6 +125,73 @@ export const StaffManagement: React.FC = () => {
     });
   };
 
+  const staffColumns: TableColumn<StaffMember>[] = [
+    {
+      key: 'name',
+      title: 'Member',
+      render: (_, member) => (
+        <div className="flex items-center space-x-4">
+          <div className="text-3xl">{getRoleIcon(member.role)}</div>
+          <div>
+            <div className="flex items-center space-x-3 mb-1">
+              <span className="font-semibold text-gray-900">{member.name}</span>
+              <span
+                className={`px-2 py-1 text-xs font-medium rounded-full ${getRoleBadgeColor(
+                  member.role
+                )}`}
+              >
+                {member.role.charAt(0).toUpperCase() + member.role.slice(1)}
+              </span>
+              {!member.isActive && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                  Inactive
+                </span>
+              )}
+            </div>
+            <div className="text-gray-600">{member.email}</div>
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'createdAt',
+      title: 'Joined',
+      render: (_, member) =>
+        formatDate(
+          member.createdAt instanceof Date
+            ? member.createdAt.toISOString()
+            : member.createdAt
+        ),
+    },
+    {
+      key: 'lastLogin',
+      title: 'Last Login',
+      render: (_, member) =>
+        member.lastLogin
+          ? formatDate(
+              member.lastLogin instanceof Date
+                ? member.lastLogin.toISOString()
+                : member.lastLogin
+            )
+          : 'Never',
+    },
+    {
+      key: 'actions',
+      title: '',
+      align: 'right',
+      render: (_, member) => (
+        <Button
+          variant={member.isActive ? 'ghost' : 'primary'}
+          size="sm"
+          loading={actionLoading === member._id}
+          onClick={() => toggleUserStatus(member._id, member.isActive)}
+        >
+          {member.isActive ? 'Deactivate' : 'Activate'}
+        </Button>
+      ),
+    },
+  ];
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -264,67 +347,13 @@ export const StaffManagement: React.FC = () => {
         </CardHeader>
         <CardContent className="p-0">
           {staff.length > 0 ? (
-            <div className="divide-y divide-gray-200">
-              {staff.map((member) => (
-                <div
-                  key={member._id}
-                  className="p-6 hover:bg-gray-50 transition-colors"
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-4">
-                      <div className="text-3xl">{getRoleIcon(member.role)}</div>
-
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-1">
-                          <h3 className="font-semibold text-gray-900">
-                            {member.name}
-                          </h3>
-                          <span
-                            className={`px-2 py-1 text-xs font-medium rounded-full ${getRoleBadgeColor(
-                              member.role
-                            )}`}
-                          >
-                            {member.role.charAt(0).toUpperCase() +
-                              member.role.slice(1)}
-                          </span>
-                          {!member.isActive && (
-                            <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
-                              Inactive
-                            </span>
-                          )}
-                        </div>
-
-                        <p className="text-sm text-gray-600 mb-1">
-                          {member.email}
-                        </p>
-
-                        <div className="flex items-center space-x-4 text-xs text-gray-500">
-                          <span>
-                            Joined: {formatDate(member.createdAt instanceof Date ? member.createdAt.toISOString() : member.createdAt)}
-                          </span>
-                          <span>
-                            Last login: {member.lastLogin ? formatDate(member.lastLogin instanceof Date ? member.lastLogin.toISOString() : member.lastLogin) : 'Never'}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-
-                    <div className="flex items-center space-x-3">
-                      <Button
-                        variant={member.isActive ? 'ghost' : 'primary'}
-                        size="sm"
-                        loading={actionLoading === member._id}
-                        onClick={() =>
-                          toggleUserStatus(member._id, member.isActive)
-                        }
-                      >
-                        {member.isActive ? 'Deactivate' : 'Activate'}
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+            <Table
+              columns={staffColumns}
+              data={staff}
+              className="shadow-none"
+              onExport={handleExport}
+              exporting={exporting}
+            />
           ) : (
             <div className="text-center py-12">
               <div className="text-gray-400 mb-4">
@@ -7,6 +7,8 @@ export interface DashboardStats {
     totalOrders: number;
     totalRevenue: number;
     avgOrderValue: number;
+    totalRefunds: number;
+    voidedOrders: number;
   }>;
   statusBreakdown: Array<{
     _id: string;
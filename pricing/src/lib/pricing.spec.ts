@@ -0,0 +1,107 @@
+import { PricingConfig } from '@restaurant-monorepo/shared-types';
+import { allocateCents, getOrderPricing, priceOrder } from './pricing.js';
+
+const config: PricingConfig = {
+  defaultTaxRate: 8,
+  taxRates: { beverage: 10 },
+  autoGratuity: { minPartySize: 6, rate: 18 },
+  taxServiceCharge: false,
+};
+
+describe('allocateCents', () => {
+  it('should always add back up to the original amount', () => {
+    expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateCents(0, [5, 3])).toEqual([0, 0]);
+  });
+});
+
+describe('priceOrder', () => {
+  it('should be a plain sum of lines with the default config', () => {
+    const { breakdown } = priceOrder({
+      lines: [
+        { unitPrice: 12.5, quantity: 2, category: 'main_course' },
+        { unitPrice: 3.25, quantity: 1, category: 'beverage' },
+      ],
+    });
+
+    expect(breakdown.subtotal).toBe(28.25);
+    expect(breakdown.tax).toBe(0);
+    expect(breakdown.total).toBe(28.25);
+  });
+
+  it('should tax each category at its own rate after discounts', () => {
+    const { breakdown } = priceOrder(
+      {
+        lines: [
+          {
+            unitPrice: 20,
+            quantity: 1,
+            category: 'main_course',
+            discount: { type: 'percentage', value: 50 },
+          },
+          { unitPrice: 5, quantity: 2, category: 'beverage' },
+        ],
+      },
+      config
+    );
+
+    expect(breakdown.lineDiscounts).toBe(10);
+    expect(breakdown.taxes).toEqual([
+      { category: 'main_course', rate: 8, taxableAmount: 10, tax: 0.8 },
+      { category: 'beverage', rate: 10, taxableAmount: 10, tax: 1 },
+    ]);
+    expect(breakdown.total).toBe(21.8);
+  });
+
+  it('should comp the whole order', () => {
+    const { breakdown } = priceOrder(
+      {
+        lines: [{ unitPrice: 14.99, quantity: 3, category: 'dessert' }],
+        orderDiscount: { type: 'comp', value: 0 },
+      },
+      config
+    );
+
+    expect(breakdown.orderDiscount).toBe(44.97);
+    expect(breakdown.total).toBe(0);
+  });
+
+  it('should add automatic gratuity for large parties only', () => {
+    const input = {
+      lines: [{ unitPrice: 100, quantity: 1, category: 'special' as const }],
+    };
+
+    expect(
+      priceOrder({ ...input, partySize: 4 }, config).breakdown.serviceCharge
+    ).toBe(0);
+
+    const { breakdown, lines } = priceOrder({ ...input, partySize: 8 }, config);
+    expect(breakdown.serviceCharge).toBe(18);
+    expect(breakdown.total).toBe(126);
+    expect(lines[0].total).toBe(breakdown.total);
+  });
+
+  it('should keep line shares consistent with the breakdown', () => {
+    const { breakdown, lines } = priceOrder(
+      {
+        lines: [
+          { unitPrice: 9.99, quantity: 1, category: 'appetizer' },
+          { unitPrice: 7.49, quantity: 3, category: 'main_course' },
+          { unitPrice: 2.5, quantity: 1, category: 'beverage' },
+        ],
+        orderDiscount: { type: 'fixed', value: 5 },
+        partySize: 6,
+      },
+      config
+    );
+
+    const lineTotal = lines.reduce((sum, line) => sum + line.total * 100, 0);
+    expect(Math.round(lineTotal)).toBe(Math.round(breakdown.total * 100));
+  });
+});
+
+describe('getOrderPricing', () => {
+  it('should fall back to the total for orders without a breakdown', () => {
+    expect(getOrderPricing({ total: 42 }).subtotal).toBe(42);
+  });
+});
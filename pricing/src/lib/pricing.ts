@@ -0,0 +1,233 @@
+import {
+  Discount,
+  MenuCategory,
+  Order,
+  PricingBreakdown,
+  PricingConfig,
+  TaxLine,
+} from '@restaurant-monorepo/shared-types';
+
+// No tax and no gratuity unless the restaurant configures them
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  defaultTaxRate: 0,
+  taxRates: {},
+  taxServiceCharge: false,
+};
+
+export interface PricingLineInput {
+  unitPrice: number;
+  quantity: number;
+  category?: MenuCategory;
+  discount?: Discount;
+}
+
+export interface PricingInput {
+  lines: PricingLineInput[];
+  orderDiscount?: Discount;
+  partySize?: number;
+}
+
+// What a single line contributes to each part of the order total
+export interface PricedLine {
+  subtotal: number;
+  lineDiscount: number;
+  orderDiscount: number;
+  net: number;
+  serviceCharge: number;
+  tax: number;
+  total: number;
+}
+
+export interface PricingResult {
+  lines: PricedLine[];
+  breakdown: PricingBreakdown;
+}
+
+export const toCents = (value: number) => Math.round(value * 100);
+
+export const roundCurrency = (value: number) => toCents(value) / 100;
+
+const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Divide an amount in cents across weights so the parts always add back up to
+ * the original amount. Leftover cents go to the largest fractional shares.
+ */
+export function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = sum(weights);
+  const shares = weights.map((weight) =>
+    weightSum > 0
+      ? (totalCents * weight) / weightSum
+      : totalCents / weights.length
+  );
+  const parts = shares.map(Math.floor);
+
+  let remainder = totalCents - sum(parts);
+  const byFraction = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    parts[index] += 1;
+    remainder -= 1;
+  }
+
+  return parts;
+}
+
+export function getTaxRate(
+  config: PricingConfig,
+  category?: MenuCategory
+): number {
+  return (category && config.taxRates[category]) ?? config.defaultTaxRate;
+}
+
+export function isAutoGratuityApplied(
+  config: PricingConfig,
+  partySize?: number
+): boolean {
+  return (
+    !!config.autoGratuity &&
+    !!partySize &&
+    partySize >= config.autoGratuity.minPartySize
+  );
+}
+
+/**
+ * Amount a discount takes off, in cents. Never more than the amount itself.
+ */
+function getDiscountCents(amountCents: number, discount?: Discount): number {
+  if (!discount) return 0;
+
+  switch (discount.type) {
+    case 'comp':
+      return amountCents;
+    case 'percentage':
+      return Math.min(
+        amountCents,
+        Math.round((amountCents * discount.value) / 100)
+      );
+    case 'fixed':
+      return Math.min(amountCents, toCents(discount.value));
+  }
+}
+
+/**
+ * Price an order.
+ *
+ * Works in whole cents: line discounts come off each line, the order discount
+ * comes off what is left and is shared across lines by amount, then the
+ * automatic gratuity and tax are charged on the discounted amounts. Tax is
+ * rounded half-up once per tax category. Every per-line share is allocated so
+ * the lines always add up to the breakdown exactly.
+ */
+export function priceOrder(
+  input: PricingInput,
+  config: PricingConfig = DEFAULT_PRICING_CONFIG
+): PricingResult {
+  const subtotals = input.lines.map((line) =>
+    toCents(line.unitPrice * line.quantity)
+  );
+  const lineDiscounts = input.lines.map((line, index) =>
+    getDiscountCents(subtotals[index], line.discount)
+  );
+  const afterLineDiscounts = subtotals.map(
+    (subtotal, index) => subtotal - lineDiscounts[index]
+  );
+
+  const orderDiscounts = allocateCents(
+    getDiscountCents(sum(afterLineDiscounts), input.orderDiscount),
+    afterLineDiscounts
+  );
+  const nets = afterLineDiscounts.map(
+    (amount, index) => amount - orderDiscounts[index]
+  );
+
+  const serviceChargeRate = isAutoGratuityApplied(config, input.partySize)
+    ? config.autoGratuity?.rate ?? 0
+    : 0;
+  const serviceCharges = allocateCents(
+    Math.round((sum(nets) * serviceChargeRate) / 100),
+    nets
+  );
+
+  const taxableAmounts = nets.map(
+    (net, index) => net + (config.taxServiceCharge ? serviceCharges[index] : 0)
+  );
+
+  // Group lines by tax category and round each category's tax once
+  const taxes = new Array<number>(input.lines.length).fill(0);
+  const taxLines: TaxLine[] = [];
+  const categories = Array.from(
+    new Set(input.lines.map((line) => line.category))
+  );
+
+  for (const category of categories) {
+    const indexes = input.lines
+      .map((line, index) => (line.category === category ? index : -1))
+      .filter((index) => index >= 0);
+    const rate = getTaxRate(config, category);
+    const taxable = indexes.map((index) => taxableAmounts[index]);
+    const categoryTax = Math.round((sum(taxable) * rate) / 100);
+
+    allocateCents(categoryTax, taxable).forEach((tax, position) => {
+      taxes[indexes[position]] = tax;
+    });
+
+    if (rate > 0) {
+      taxLines.push({
+        category,
+        rate,
+        taxableAmount: sum(taxable) / 100,
+        tax: categoryTax / 100,
+      });
+    }
+  }
+
+  const lines = input.lines.map((_, index) => ({
+    subtotal: subtotals[index] / 100,
+    lineDiscount: lineDiscounts[index] / 100,
+    orderDiscount: orderDiscounts[index] / 100,
+    net: nets[index] / 100,
+    serviceCharge: serviceCharges[index] / 100,
+    tax: taxes[index] / 100,
+    total: (nets[index] + serviceCharges[index] + taxes[index]) / 100,
+  }));
+
+  return {
+    lines,
+    breakdown: {
+      subtotal: sum(subtotals) / 100,
+      lineDiscounts: sum(lineDiscounts) / 100,
+      orderDiscount: sum(orderDiscounts) / 100,
+      serviceCharge: sum(serviceCharges) / 100,
+      serviceChargeRate,
+      tax: sum(taxes) / 100,
+      taxes: taxLines,
+      total: (sum(nets) + sum(serviceCharges) + sum(taxes)) / 100,
+    },
+  };
+}
+
+/**
+ * Stored pricing breakdown of an order. Orders placed before the pricing
+ * engine only have a total, which was a plain sum of their lines.
+ */
+export function getOrderPricing(
+  order: Pick<Order, 'total'> & { pricing?: PricingBreakdown }
+): PricingBreakdown {
+  return (
+    order.pricing ?? {
+      subtotal: order.total,
+      lineDiscounts: 0,
+      orderDiscount: 0,
+      serviceCharge: 0,
+      serviceChargeRate: 0,
+      tax: 0,
+      taxes: [],
+      total: order.total,
+    }
+  );
+}
@@ -1,7 +1,55 @@
-import { rbac } from './rbac.js';
+import {
+  rbac,
+  canApproveRefunds,
+  canApproveWithPin,
+  canTransitionOrderStatus,
+  getAllowedStatusTransitions,
+  isValidStatusTransition,
+} from './rbac.js';
 
 describe('rbac', () => {
   it('should work', () => {
     expect(rbac()).toEqual('rbac');
   });
 });
+
+describe('order status transitions', () => {
+  it('should follow the pending → preparing → ready → served flow', () => {
+    expect(isValidStatusTransition('pending', 'preparing')).toBe(true);
+    expect(isValidStatusTransition('preparing', 'ready')).toBe(true);
+    expect(isValidStatusTransition('ready', 'served')).toBe(true);
+  });
+
+  it('should not allow moving backwards or reviving cancelled orders', () => {
+    expect(isValidStatusTransition('served', 'pending')).toBe(false);
+    expect(isValidStatusTransition('ready', 'preparing')).toBe(false);
+    expect(isValidStatusTransition('cancelled', 'pending')).toBe(false);
+  });
+
+  it('should only let chefs mark orders ready', () => {
+    expect(canTransitionOrderStatus('chef', 'preparing', 'ready')).toBe(true);
+    expect(canTransitionOrderStatus('waiter', 'preparing', 'ready')).toBe(
+      false
+    );
+    expect(canTransitionOrderStatus('owner', 'preparing', 'ready')).toBe(
+      false
+    );
+  });
+
+  it('should list the allowed next statuses for a role', () => {
+    expect(getAllowedStatusTransitions('waiter', 'pending')).toEqual([]);
+    expect(getAllowedStatusTransitions('manager', 'preparing')).toEqual([
+      'cancelled',
+    ]);
+    expect(getAllowedStatusTransitions('chef', 'served')).toEqual([]);
+  });
+});
+
+describe('refund approval', () => {
+  it('should let payment roles approve and only owners/managers override', () => {
+    expect(canApproveRefunds('manager')).toBe(true);
+    expect(canApproveRefunds('waiter')).toBe(false);
+    expect(canApproveWithPin('owner')).toBe(true);
+    expect(canApproveWithPin('chef')).toBe(false);
+  });
+});
@@ -1,7 +1,10 @@
 import {
   UserRole,
   Permission,
+  OrderStatus,
   ROLE_PERMISSIONS,
+  ORDER_STATUS_TRANSITIONS,
+  APPROVAL_PIN_ROLES,
 } from '@restaurant-monorepo/shared-types';
 
 /**
@@ -52,10 +55,13 @@ export function canAccessFeature(userRole: UserRole, feature: string): boolean {
     orderManagement: ['UPDATE_ORDER_STATUS'],
     menu: ['VIEW_ORDERS'], // Everyone can view menu
     menuManagement: ['MANAGE_MENU'],
+    tables: ['VIEW_ORDERS'],
+    tableManagement: ['MANAGE_TABLES'],
     staff: ['MANAGE_STAFF'],
     reports: ['VIEW_REPORTS'],
     payments: ['PROCESS_PAYMENTS'],
     customers: ['VIEW_CUSTOMER_DATA'],
+    inventory: ['MANAGE_INVENTORY'],
   };
 
   const requiredPermissions = featurePermissions[feature];
@@ -76,10 +82,13 @@ export function getAvailableFeatures(userRole: UserRole): string[] {
     'orderManagement',
     'menu',
     'menuManagement',
+    'tables',
+    'tableManagement',
     'staff',
     'reports',
     'payments',
     'customers',
+    'inventory',
   ];
 
   return features.filter((feature) => canAccessFeature(userRole, feature));
@@ -107,6 +116,56 @@ export function canManageRole(
   );
 }
 
+/**
+ * Check if an order status change is part of the lifecycle at all
+ */
+export function isValidStatusTransition(
+  from: OrderStatus,
+  to: OrderStatus
+): boolean {
+  return to in ORDER_STATUS_TRANSITIONS[from];
+}
+
+/**
+ * Check if a role may move an order from one status to another
+ */
+export function canTransitionOrderStatus(
+  userRole: UserRole,
+  from: OrderStatus,
+  to: OrderStatus
+): boolean {
+  return (
+    hasPermission(userRole, 'UPDATE_ORDER_STATUS') &&
+    (ORDER_STATUS_TRANSITIONS[from][to]?.includes(userRole) ?? false)
+  );
+}
+
+/**
+ * Get the statuses a role may move an order to from its current status
+ */
+export function getAllowedStatusTransitions(
+  userRole: UserRole,
+  from: OrderStatus
+): OrderStatus[] {
+  return (Object.keys(ORDER_STATUS_TRANSITIONS[from]) as OrderStatus[]).filter(
+    (to) => canTransitionOrderStatus(userRole, from, to)
+  );
+}
+
+/**
+ * Check if a role may approve voids and refunds on its own
+ */
+export function canApproveRefunds(userRole: UserRole): boolean {
+  return hasPermission(userRole, 'PROCESS_PAYMENTS');
+}
+
+/**
+ * Check if a role's PIN can approve a void or refund started by someone else
+ */
+export function canApproveWithPin(userRole: UserRole): boolean {
+  return APPROVAL_PIN_ROLES.includes(userRole) && canApproveRefunds(userRole);
+}
+
 export function filterByPermissions<T>(
   data: T[],
   userRole: UserRole,
@@ -152,6 +211,20 @@ export function getNavigationItems(userRole: UserRole): NavigationItem[] {
       permission: 'MANAGE_MENU',
       roles: ['owner', 'manager'],
     },
+    {
+      name: 'Floor Plan',
+      href: '/tables',
+      icon: '🪑',
+      permission: 'VIEW_ORDERS',
+      roles: ['owner', 'manager'],
+    },
+    {
+      name: 'Stock',
+      href: '/inventory',
+      icon: '📦',
+      permission: 'MANAGE_INVENTORY',
+      roles: ['owner', 'manager', 'chef'],
+    },
     {
       name: 'Staff',
       href: '/staff',
@@ -6,10 +6,12 @@ describe('ROLE_PERMISSIONS', () => {
       'VIEW_ORDERS',
       'UPDATE_ORDER_STATUS',
       'MANAGE_MENU',
+      'MANAGE_TABLES',
       'VIEW_REPORTS',
       'MANAGE_STAFF',
       'PROCESS_PAYMENTS',
       'VIEW_CUSTOMER_DATA',
+      'MANAGE_INVENTORY',
     ]);
   });
 });
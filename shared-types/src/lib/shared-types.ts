@@ -11,10 +11,103 @@ export interface OrderItem {
   id?: string;
   menuItemId: mongoose.Schema.Types.ObjectId;
   menuItemName: string;
+  category?: MenuCategory;
   quantity: number;
   unitPrice: number;
-  totalPrice: number;
+  totalPrice: number; // unitPrice × quantity, before discounts
+  modifiers?: OrderItemModifier[];
+  bundle?: OrderItemBundle;
+  discount?: Discount;
   specialInstructions?: string;
+  seat?: number;
+  refundedQuantity?: number;
+  allergens?: Allergen[]; // copied from the menu item when the line is added
+  menuVersion?: number; // published menu the line was priced from
+}
+
+// Pricing Types
+export type DiscountType = 'percentage' | 'fixed' | 'comp';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // percent for 'percentage', amount for 'fixed', ignored for 'comp'
+  reason?: string;
+  appliedBy?: mongoose.Schema.Types.ObjectId;
+}
+
+export interface TaxLine {
+  category?: MenuCategory;
+  rate: number; // percent
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface PricingBreakdown {
+  subtotal: number;
+  lineDiscounts: number;
+  orderDiscount: number;
+  serviceCharge: number;
+  serviceChargeRate: number; // percent, 0 when no automatic gratuity applied
+  tax: number;
+  taxes: TaxLine[];
+  total: number;
+}
+
+export interface PricingConfig {
+  defaultTaxRate: number; // percent
+  taxRates: Partial<Record<MenuCategory, number>>;
+  autoGratuity?: {
+    minPartySize: number;
+    rate: number; // percent
+  };
+  taxServiceCharge: boolean;
+}
+
+export interface OrderStatusChange {
+  from?: OrderStatus;
+  to: OrderStatus;
+  changedBy: mongoose.Schema.Types.ObjectId;
+  changedAt: Date;
+  reason?: string;
+}
+
+export type OrderModificationAction =
+  | 'item_added'
+  | 'item_updated'
+  | 'item_removed';
+
+export interface OrderModification {
+  action: OrderModificationAction;
+  itemId: string;
+  menuItemName: string;
+  previousQuantity?: number;
+  quantity?: number;
+  previousInstructions?: string;
+  specialInstructions?: string;
+  changedBy: mongoose.Schema.Types.ObjectId;
+  changedAt: Date;
+}
+
+export type OrderPaymentStatus =
+  | 'unpaid'
+  | 'partially_paid'
+  | 'paid'
+  | 'refunded';
+
+export type SplitMethod = 'by_item' | 'by_seat' | 'even';
+
+// One separate check when an order's bill is split
+export interface OrderCheck {
+  id?: string;
+  label: string;
+  itemIds: string[]; // order lines on this check; empty for even splits
+  seat?: number;
+  subtotal: number; // after discounts
+  serviceCharge: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  paymentStatus: OrderPaymentStatus;
 }
 
 export interface Order {
@@ -23,11 +116,24 @@ export interface Order {
   tableNumber: number;
   items: OrderItem[];
   status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  modifications: OrderModification[];
+  partySize?: number;
+  discount?: Discount;
+  pricing: PricingBreakdown;
   total: number;
+  amountPaid: number;
+  amountRefunded: number;
+  paymentStatus: OrderPaymentStatus;
+  void?: OrderVoid;
+  splitMethod?: SplitMethod;
+  checks: OrderCheck[];
+  receiptPrints: ReceiptPrint[];
   createdBy: mongoose.Schema.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
   customerName?: string;
+  allergies?: Allergen[]; // guest allergies, flagged on the kitchen ticket
 }
 
 // Menu Management Types
@@ -38,18 +144,506 @@ export type MenuCategory =
   | 'beverage'
   | 'special';
 
+export const MENU_CATEGORIES: MenuCategory[] = [
+  'appetizer',
+  'main_course',
+  'dessert',
+  'beverage',
+  'special',
+];
+
+export type MenuItemType = 'single' | 'bundle';
+
+// The nine major food allergens
+export type Allergen =
+  | 'milk'
+  | 'eggs'
+  | 'fish'
+  | 'shellfish'
+  | 'tree_nuts'
+  | 'peanuts'
+  | 'wheat'
+  | 'soy'
+  | 'sesame';
+
+export const ALLERGENS: Allergen[] = [
+  'milk',
+  'eggs',
+  'fish',
+  'shellfish',
+  'tree_nuts',
+  'peanuts',
+  'wheat',
+  'soy',
+  'sesame',
+];
+
+export type DietaryTag = 'vegan' | 'vegetarian' | 'halal' | 'gluten_free';
+
+export const DIETARY_TAGS: DietaryTag[] = [
+  'vegan',
+  'vegetarian',
+  'halal',
+  'gluten_free',
+];
+
 export interface MenuItem {
   id: string;
+  type: MenuItemType;
   name: string;
   description: string;
-  price: number;
+  price: number; // for bundles, replaces the component prices
   category: MenuCategory;
   available: boolean;
   prepTime: number; // in minutes
-  allergens: string[];
+  allergens: Allergen[];
+  dietaryTags: DietaryTag[];
   imageUrl?: string;
+  thumbnailUrl?: string; // square crop, set when the photo was uploaded
+  modifierGroups: ModifierGroup[];
+  bundleSlots: BundleSlot[]; // only used by bundles
+  schedule?: MenuSchedule;
+  recipe: RecipeLine[];
+  outOfStock: boolean; // set by inventory when an ingredient runs out
+  published: boolean; // new items stay hidden until their first publish
+  draft?: MenuItemDraft; // only returned to menu managers
+  archivedAt?: Date; // off the menu for good, but kept for order history
+  archivedBy?: mongoose.Schema.Types.ObjectId;
+}
+
+// Edits waiting for the next menu publish. Photos and availability aren't
+// drafted; they change the live item straight away.
+export interface MenuItemDraft {
+  changes: Partial<Omit<CreateMenuItemRequest, 'imageUrl'>> & {
+    published?: boolean;
+  };
+  updatedBy?: mongoose.Schema.Types.ObjectId;
+  updatedAt: Date;
+}
+
+export interface MenuFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// Each publish or rollback makes a new menu version
+export interface MenuVersion {
+  id: string;
+  version: number;
+  note?: string;
+  rollbackOf?: number;
+  changeCount: number;
+  complete: boolean; // false while its changes are still being written
+  publishedBy?: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+}
+
+// 'withdrawn' is a rollback hiding an item that didn't exist yet
+export type MenuRevisionAction = 'created' | 'updated' | 'withdrawn';
+
+// One item's change in a menu version. The published fields before and
+// after are kept whole so any version can be restored.
+export interface MenuItemRevision {
+  id: string;
+  menuItemId: mongoose.Schema.Types.ObjectId;
+  menuItemName: string;
+  version: number;
+  action: MenuRevisionAction;
+  changes: MenuFieldChange[];
+  before?: Record<string, unknown>;
+  after: Record<string, unknown>;
+  changedBy?: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+}
+
+// A pending draft with the item as it will look once published
+export interface MenuDraftPreview {
+  menuItem: MenuItem;
+  changes: MenuFieldChange[];
+  isNew: boolean;
+  updatedBy?: mongoose.Schema.Types.ObjectId;
+  updatedAt: Date;
+}
+
+export interface PublishMenuRequest {
+  note?: string;
+}
+
+export type MenuTransferFormat = 'csv' | 'json';
+
+export interface ImportMenuRequest {
+  format: MenuTransferFormat;
+  content: string; // text of the CSV or JSON file
+  dryRun?: boolean;
+}
+
+export type MenuImportAction = 'create' | 'update' | 'unchanged';
+
+// One item of an import file. Rows count from 1, not including the CSV
+// header; `action` is left out when the row has errors.
+export interface MenuImportRow {
+  row: number;
+  name?: string;
+  action?: MenuImportAction;
+  changes?: MenuFieldChange[];
+  errors: string[];
+}
+
+export interface MenuImportResult {
+  dryRun: boolean;
+  rows: MenuImportRow[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+export type MenuSearchField = 'name' | 'description' | 'category' | 'allergens';
+
+// Character ranges [start, end) of `text` that matched the search
+export interface MenuSearchHighlight {
+  field: MenuSearchField;
+  text: string;
+  ranges: [number, number][];
+}
+
+export interface MenuSearchMatch {
+  score: number;
+  highlights: MenuSearchHighlight[];
+}
+
+export type Daypart = 'breakfast' | 'lunch' | 'dinner';
+
+export const DAYPARTS: Daypart[] = ['breakfast', 'lunch', 'dinner'];
+
+// Local restaurant time as HH:mm. A window that ends before it starts runs
+// past midnight.
+export interface DaypartHours {
+  start: string;
+  end: string;
+}
+
+export interface DaypartConfig {
+  timezone: string;
+  dayparts: Record<Daypart, DaypartHours>;
+}
+
+// When an item can be ordered, in restaurant time. Each rule that is set must
+// match; an empty schedule means always. The manual `available` flag still
+// applies on top, so an item can be taken off during its window.
+export interface MenuSchedule {
+  dayparts?: Daypart[];
+  daysOfWeek?: number[]; // 0 = Sunday
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+// One course of a bundle. Guests pick one of the slot's menu items; a slot
+// with a single choice is a fixed component.
+export interface BundleSlot {
+  id: string;
+  name: string;
+  menuItemIds: mongoose.Schema.Types.ObjectId[];
+}
+
+// A bundle is sent to the kitchen as one order line per component. Every
+// component line carries this, and their prices add up to the bundle price
+// plus any modifier upcharges.
+export interface OrderItemBundle {
+  instanceId: string; // shared by the lines of one bundle ordered
+  menuItemId: mongoose.Schema.Types.ObjectId;
+  name: string;
+  price: number;
+  slotId: string;
+  slotName: string;
+}
+
+export interface BundleSelection {
+  slotId: string;
+  menuItemId: string;
+  modifiers?: ModifierSelection[];
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number; // added to the item price
+  available: boolean;
+}
+
+// A required group must be answered. An optional group may be skipped, but
+// once answered it takes between minSelections and maxSelections options.
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number;
+  options: ModifierOption[];
+}
+
+// Names and prices are copied onto the order line so later menu edits don't
+// change what was ordered
+export interface OrderItemModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
+}
+
+export interface ModifierSelection {
+  groupId: string;
+  optionId: string;
+}
+
+// Inventory Types
+export type IngredientUnit = 'g' | 'kg' | 'ml' | 'l' | 'each';
+
+export const INGREDIENT_UNITS: IngredientUnit[] = [
+  'g',
+  'kg',
+  'ml',
+  'l',
+  'each',
+];
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  stock: number; // may go below zero if the kitchen uses more than recorded
+  lowStockThreshold: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Ingredient used by one portion of a menu item, in the ingredient's unit
+export interface RecipeLine {
+  ingredientId: mongoose.Schema.Types.ObjectId;
+  quantity: number;
+}
+
+// sale: used by an order going into preparation. count: a stocktake that
+// sets the level, recorded as the difference.
+export type StockMovementType = 'sale' | 'restock' | 'wastage' | 'count';
+
+export interface StockMovement {
+  id: string;
+  ingredientId: mongoose.Schema.Types.ObjectId;
+  type: StockMovementType;
+  quantity: number; // change in stock, negative when stock goes down
+  stockAfter: number;
+  orderId?: mongoose.Schema.Types.ObjectId;
+  reason?: string;
+  createdBy?: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
 }
 
+// Table Management Types
+export type TableStatus = 'available' | 'occupied' | 'reserved' | 'cleaning';
+
+export interface TablePosition {
+  x: number;
+  y: number;
+}
+
+export interface Table {
+  id: string;
+  number: number;
+  capacity: number;
+  section: string;
+  status: TableStatus;
+  position?: TablePosition;
+  occupiedSince?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FloorPlanTable extends Table {
+  openOrderCount: number;
+  openOrderTotal: number;
+}
+
+// Payment Types
+export type PaymentMethod = 'cash' | 'card';
+
+// Pending until the order has been updated with the payment
+export type PaymentStatus = 'pending' | 'completed' | 'declined';
+
+export interface Payment {
+  id: string;
+  orderId: mongoose.Schema.Types.ObjectId;
+  checkId?: string;
+  method: PaymentMethod;
+  status: PaymentStatus;
+  amount: number; // applied to the order balance
+  tip: number;
+  amountTendered?: number; // cash handed over
+  changeGiven?: number;
+  cardBrand?: string;
+  cardLast4?: string;
+  provider?: string;
+  providerReference?: string;
+  declineReason?: string;
+  amountRefunded: number;
+  processedBy: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OpenCheck {
+  order: Order;
+  check?: OrderCheck; // set when the order is split into separate checks
+  balance: number;
+}
+
+// Refund and Void Types
+export type RefundReasonCode =
+  | 'customer_request'
+  | 'wrong_item'
+  | 'quality_issue'
+  | 'long_wait'
+  | 'duplicate_charge'
+  | 'entry_error'
+  | 'other';
+
+export const REFUND_REASON_CODES: RefundReasonCode[] = [
+  'customer_request',
+  'wrong_item',
+  'quality_issue',
+  'long_wait',
+  'duplicate_charge',
+  'entry_error',
+  'other',
+];
+
+// How a void or refund was approved: by the user's own permissions, or by an
+// owner/manager entering their PIN on someone else's session
+export type ApprovalMethod = 'permission' | 'pin';
+
+export interface OrderVoid {
+  reasonCode: RefundReasonCode;
+  note?: string;
+  requestedBy: mongoose.Schema.Types.ObjectId;
+  approvedBy: mongoose.Schema.Types.ObjectId;
+  approvalMethod: ApprovalMethod;
+  voidedAt: Date;
+}
+
+export type RefundType = 'full' | 'items';
+
+export interface RefundItem {
+  itemId: string;
+  menuItemName: string;
+  quantity: number;
+  amount: number;
+}
+
+// The part of a refund returned to one original payment
+export interface RefundTender {
+  paymentId: mongoose.Schema.Types.ObjectId;
+  method: PaymentMethod;
+  amount: number;
+  providerReference?: string;
+}
+
+export interface Refund {
+  id: string;
+  orderId: mongoose.Schema.Types.ObjectId;
+  type: RefundType;
+  items: RefundItem[];
+  tenders: RefundTender[];
+  amount: number;
+  reasonCode: RefundReasonCode;
+  note?: string;
+  requestedBy: mongoose.Schema.Types.ObjectId;
+  approvedBy: mongoose.Schema.Types.ObjectId;
+  approvalMethod: ApprovalMethod;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Receipt Types
+export type ReceiptFormat = 'text' | 'html' | 'pdf';
+
+export type ReceiptPaperWidth = 58 | 80; // thermal printer roll width in mm
+
+export interface ReceiptPrint {
+  checkId?: string; // unset for whole-order receipts
+  format: ReceiptFormat;
+  copy: boolean;
+  printedBy: mongoose.Schema.Types.ObjectId;
+  printedAt: Date;
+}
+
+// Report Types
+export type ReportGranularity = 'hour' | 'day' | 'week' | 'month';
+
+// Reports cover from up to to, bucketed in the given IANA timezone. Plain
+// dates (YYYY-MM-DD) are whole days in that timezone, so to is inclusive.
+export interface ReportQuery {
+  from: string;
+  to: string;
+  timezone?: string;
+}
+
+export interface SalesTotals {
+  revenue: number; // order totals less refunds
+  orders: number;
+  averageTicket: number;
+  refunds: number;
+}
+
+export interface SalesReportPoint extends SalesTotals {
+  period: string; // start of the bucket
+}
+
+export interface SalesReport {
+  granularity: ReportGranularity;
+  timezone: string;
+  totals: SalesTotals;
+  series: SalesReportPoint[];
+}
+
+// Item and category sales count what was sold less what was refunded, at
+// menu price before order-level discounts, service charge and tax
+export interface ItemSalesRow {
+  menuItemId: string;
+  menuItemName: string;
+  category?: MenuCategory;
+  quantity: number;
+  revenue: number; // share of order totals after discounts and refunds, tax included
+}
+
+export interface ItemSalesReport {
+  topByQuantity: ItemSalesRow[];
+  topByRevenue: ItemSalesRow[];
+  bottomByQuantity: ItemSalesRow[];
+  bottomByRevenue: ItemSalesRow[];
+}
+
+export interface CategoryMixRow {
+  category: MenuCategory | 'uncategorized';
+  quantity: number;
+  revenue: number; // counted like ItemSalesRow revenue
+  share: number; // percentage of item revenue
+}
+
+export interface HeatmapCell {
+  dayOfWeek: number; // ISO weekday, 1 = Monday
+  hour: number;
+  orders: number;
+  revenue: number;
+}
+
+// Export Types
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
 // User and Authentication Types
 export type UserRole = 'owner' | 'manager' | 'chef' | 'waiter';
 
@@ -57,10 +651,12 @@ export type Permission =
   | 'VIEW_ORDERS'
   | 'UPDATE_ORDER_STATUS'
   | 'MANAGE_MENU'
+  | 'MANAGE_TABLES'
   | 'VIEW_REPORTS'
   | 'MANAGE_STAFF'
   | 'PROCESS_PAYMENTS'
-  | 'VIEW_CUSTOMER_DATA';
+  | 'VIEW_CUSTOMER_DATA'
+  | 'MANAGE_INVENTORY';
 
 export interface User {
   id: string;
@@ -69,6 +665,9 @@ export interface User {
   password: string;
   role: UserRole;
   permissions: Permission[];
+  pin?: string; // hashed approval PIN for owners and managers
+  pinFailedAttempts?: number; // wrong PINs entered since the last success
+  pinLockedUntil?: Date; // PIN approvals refused until then
   createdAt: Date;
   isActive: boolean;
   lastLogin: Date;
@@ -80,13 +679,92 @@ export interface CreateOrderRequest {
   items: {
     menuItemId: string;
     quantity: number;
+    modifiers?: ModifierSelection[];
+    bundleSelections?: BundleSelection[];
     specialInstructions?: string;
+    seat?: number;
   }[];
   customerName?: string;
+  partySize?: number;
+  allergies?: Allergen[];
+}
+
+// Order list filters, shared by the list and its export. Plain dates are
+// whole days in the timezone, so to is inclusive.
+export interface OrderListFilters {
+  status?: OrderStatus;
+  tableNumber?: number;
+  from?: string;
+  to?: string;
+  timezone?: string;
+  createdBy?: string;
+  search?: string; // order number or customer name
+}
+
+export interface AddOrderItemRequest {
+  menuItemId: string;
+  quantity: number;
+  modifiers?: ModifierSelection[];
+  bundleSelections?: BundleSelection[];
+  specialInstructions?: string;
+  seat?: number;
+}
+
+export interface UpdateOrderItemRequest {
+  quantity?: number;
+  specialInstructions?: string;
+}
+
+export interface ApplyDiscountsRequest {
+  orderDiscount?: Omit<Discount, 'appliedBy'> | null; // null removes it
+  lineDiscounts?: {
+    itemId: string;
+    discount: Omit<Discount, 'appliedBy'> | null;
+  }[];
+}
+
+export type SplitOrderRequest =
+  | { method: 'by_item'; checks: { label?: string; itemIds: string[] }[] }
+  | { method: 'by_seat'; seats?: Record<string, number> } // itemId -> seat
+  | { method: 'even'; count: number };
+
+export interface CreatePaymentRequest {
+  orderId: string;
+  checkId?: string;
+  method: PaymentMethod;
+  amount: number;
+  tip?: number;
+  amountTendered?: number;
+  cardToken?: string;
 }
 
 export interface UpdateOrderStatusRequest {
   status: OrderStatus;
+  reason?: string;
+}
+
+// Owner or manager approving on another user's session
+export interface ManagerApproval {
+  email: string;
+  pin: string;
+}
+
+export interface VoidOrderRequest {
+  reasonCode: RefundReasonCode;
+  note?: string;
+  approval?: ManagerApproval;
+}
+
+export interface CreateRefundRequest {
+  reasonCode: RefundReasonCode;
+  note?: string;
+  items?: { itemId: string; quantity: number }[]; // omit for a full refund
+  approval?: ManagerApproval;
+}
+
+export interface SetApprovalPinRequest {
+  pin: string;
+  currentPassword: string;
 }
 
 export interface CreateMenuItemRequest {
@@ -95,8 +773,62 @@ export interface CreateMenuItemRequest {
   price: number;
   category: MenuCategory;
   prepTime: number;
-  allergens: string[];
+  allergens: Allergen[];
+  dietaryTags?: DietaryTag[];
   imageUrl?: string;
+  modifierGroups?: ModifierGroupInput[];
+  type?: MenuItemType;
+  bundleSlots?: BundleSlotInput[];
+  schedule?: MenuSchedule;
+  recipe?: RecipeLineInput[];
+}
+
+export interface BundleSlotInput {
+  _id?: string;
+  name: string;
+  menuItemIds: string[];
+}
+
+export interface RecipeLineInput {
+  ingredientId: string;
+  quantity: number;
+}
+
+// Groups and options sent back with their _id keep it, so editing a menu item
+// doesn't change the ids of options that stay
+export interface ModifierGroupInput
+  extends Omit<ModifierGroup, 'id' | 'required' | 'minSelections' | 'options'> {
+  _id?: string;
+  required?: boolean;
+  minSelections?: number;
+  options: (Omit<ModifierOption, 'id' | 'available'> & {
+    _id?: string;
+    available?: boolean;
+  })[];
+}
+
+export interface CreateIngredientRequest {
+  name: string;
+  unit: IngredientUnit;
+  stock?: number; // opening stock, recorded as a count
+  lowStockThreshold?: number;
+}
+
+export interface RecordStockMovementRequest {
+  type: Exclude<StockMovementType, 'sale'>;
+  quantity: number; // amount restocked or wasted, or the level counted
+  reason?: string;
+}
+
+export interface CreateTableRequest {
+  number: number;
+  capacity: number;
+  section: string;
+  position?: TablePosition;
+}
+
+export interface UpdateTableStatusRequest {
+  status: TableStatus;
 }
 
 export interface LoginRequest {
@@ -109,24 +841,80 @@ export interface LoginResponse {
   user: User;
 }
 
+// Real-time Event Types
+export type OrderEventType =
+  | 'order.created'
+  | 'order.items_changed'
+  | 'order.status_changed'
+  | 'order.payment_recorded'
+  | 'order.refunded'
+  | 'order.cancelled';
+
+export interface OrderEvent {
+  type: OrderEventType;
+  order: Order;
+  previousStatus?: OrderStatus;
+  actorId?: string;
+  timestamp: string;
+}
+
 // RBAC Helper Types
 export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   owner: [
     'VIEW_ORDERS',
     'UPDATE_ORDER_STATUS',
     'MANAGE_MENU',
+    'MANAGE_TABLES',
     'VIEW_REPORTS',
     'MANAGE_STAFF',
     'PROCESS_PAYMENTS',
     'VIEW_CUSTOMER_DATA',
+    'MANAGE_INVENTORY',
   ],
   manager: [
     'VIEW_ORDERS',
     'UPDATE_ORDER_STATUS',
+    'MANAGE_TABLES',
     'VIEW_REPORTS',
     'PROCESS_PAYMENTS',
     'VIEW_CUSTOMER_DATA',
+    'MANAGE_INVENTORY',
   ],
-  chef: ['VIEW_ORDERS', 'UPDATE_ORDER_STATUS'],
+  chef: ['VIEW_ORDERS', 'UPDATE_ORDER_STATUS', 'MANAGE_INVENTORY'],
   waiter: ['VIEW_ORDERS', 'UPDATE_ORDER_STATUS', 'VIEW_CUSTOMER_DATA'],
 };
+
+// Roles whose PIN can approve voids and refunds for other users
+export const APPROVAL_PIN_ROLES: UserRole[] = ['owner', 'manager'];
+
+// Permissions a role needs before it receives a real-time order event.
+// Payment and refund events carry amounts, so only cashiers get them.
+export const ORDER_EVENT_PERMISSIONS: Record<OrderEventType, Permission[]> = {
+  'order.created': ['VIEW_ORDERS'],
+  'order.items_changed': ['VIEW_ORDERS'],
+  'order.status_changed': ['VIEW_ORDERS'],
+  'order.payment_recorded': ['PROCESS_PAYMENTS'],
+  'order.refunded': ['PROCESS_PAYMENTS'],
+  'order.cancelled': ['VIEW_ORDERS'],
+};
+
+// Order lifecycle: which roles may move an order from one status to the next.
+// Statuses missing from a row cannot be reached from that status at all.
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, UserRole[]>>
+> = {
+  pending: {
+    preparing: ['owner', 'manager', 'chef'],
+    cancelled: ['owner', 'manager'], // waiters void with manager approval
+  },
+  preparing: {
+    ready: ['chef'],
+    cancelled: ['owner', 'manager'],
+  },
+  ready: {
+    served: ['owner', 'manager', 'waiter'],
+  },
+  served: {},
+  cancelled: {},
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { OrderPaymentStatus } from '@restaurant-monorepo/shared-types';
+
+interface PaymentStatusBadgeProps {
+  status: OrderPaymentStatus;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+export const PaymentStatusBadge: React.FC<PaymentStatusBadgeProps> = ({
+  status,
+  size = 'md',
+}) => {
+  const statusConfig = {
+    unpaid: {
+      label: 'Unpaid',
+      bgColor: 'bg-red-100',
+      textColor: 'text-red-800',
+      icon: '🧾',
+    },
+    partially_paid: {
+      label: 'Partially Paid',
+      bgColor: 'bg-yellow-100',
+      textColor: 'text-yellow-800',
+      icon: '🪙',
+    },
+    paid: {
+      label: 'Paid',
+      bgColor: 'bg-green-100',
+      textColor: 'text-green-800',
+      icon: '✅',
+    },
+    refunded: {
+      label: 'Refunded',
+      bgColor: 'bg-gray-100',
+      textColor: 'text-gray-800',
+      icon: '↩️',
+    },
+  };
+
+  const sizeClasses = {
+    sm: 'px-2 py-1 text-xs',
+    md: 'px-2.5 py-0.5 text-xs',
+    lg: 'px-3 py-1 text-sm',
+  };
+
+  const config = statusConfig[status];
+  const classes = `inline-flex items-center rounded-full font-medium ${config.bgColor} ${config.textColor} ${sizeClasses[size]}`;
+
+  return (
+    <span className={classes}>
+      <span className="mr-1">{config.icon}</span>
+      {config.label}
+    </span>
+  );
+};
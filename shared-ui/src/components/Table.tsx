@@ -1,4 +1,5 @@
 import React from 'react';
+import { ExportFormat } from '@restaurant-monorepo/shared-types';
 import { Button } from './Button';
 
 export interface TableColumn<T = any> {
@@ -17,8 +18,18 @@ interface TableProps<T = any> {
   emptyMessage?: string;
   onRowClick?: (record: T, index: number) => void;
   className?: string;
+  /** Shows export buttons above the table; exports cover the full data set */
+  onExport?: (format: ExportFormat) => void;
+  exportFormats?: ExportFormat[];
+  exporting?: ExportFormat | null;
 }
 
+const exportLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  pdf: 'PDF',
+};
+
 export function Table<T = any>({
   columns,
   data,
@@ -26,6 +37,9 @@ export function Table<T = any>({
   emptyMessage = 'No data available',
   onRowClick,
   className = '',
+  onExport,
+  exportFormats = ['csv', 'xlsx', 'pdf'],
+  exporting = null,
 }: TableProps<T>) {
   if (loading) {
     return (
@@ -42,7 +56,26 @@ export function Table<T = any>({
   }
 
   return (
-    <div className={`bg-white shadow overflow-hidden sm:rounded-md ${className}`}>
+    <div
+      className={`bg-white shadow overflow-hidden sm:rounded-md ${className}`}
+    >
+      {onExport && (
+        <div className="flex items-center justify-end space-x-2 px-4 py-2 border-b border-gray-200">
+          <span className="text-xs text-gray-500">Export</span>
+          {exportFormats.map((format) => (
+            <Button
+              key={format}
+              variant="ghost"
+              size="sm"
+              loading={exporting === format}
+              disabled={!!exporting}
+              onClick={() => onExport(format)}
+            >
+              {exportLabels[format]}
+            </Button>
+          ))}
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
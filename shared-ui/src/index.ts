@@ -5,6 +5,7 @@ export * from './components/Input.js';
 export * from './components/LoadingSpinner.js';
 export * from './components/Modal.js';
 export * from './components/OrderStatusBadge.js';
+export * from './components/PaymentStatusBadge.js';
 export * from './components/Table.js';
 
 // Legacy export
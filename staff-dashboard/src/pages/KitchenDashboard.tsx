@@ -1,9 +1,29 @@
 import React, { useEffect, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent, Button, OrderStatusBadge, LoadingSpinner } from '@restaurant-monorepo/shared-ui';
 import { apiClient } from '@restaurant-monorepo/api-client';
-import { Order, OrderStatus } from '@restaurant-monorepo/shared-types';
+import { Allergen, Order, OrderStatus } from '@restaurant-monorepo/shared-types';
+import { getOrderPricing } from '@restaurant-monorepo/pricing';
 import { useAuth } from '../hooks/useAuth';
 
+const allergenLabels: Record<Allergen, string> = {
+  milk: 'Milk',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  tree_nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  wheat: 'Wheat',
+  soy: 'Soy',
+  sesame: 'Sesame',
+};
+
+const formatAllergens = (allergens: Allergen[]) =>
+  allergens.map((allergen) => allergenLabels[allergen]).join(', ');
+
+// Orders from the API and from pushed events may only carry Mongo's _id
+const getOrderId = (order: Order) =>
+  order.id || (order as Order & { _id?: string })._id;
+
 export const KitchenDashboard: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -61,10 +81,35 @@ export const KitchenDashboard: React.FC = () => {
   useEffect(() => {
     fetchOrders();
 
-    // Auto-refresh every 15 seconds
-    const interval = setInterval(fetchOrders, 15000);
+    // Apply pushed order events; refetch after (re)connecting to catch up
+    // on anything missed while the socket was down
+    const unsubscribe = apiClient.subscribeToOrderEvents(
+      (event) => {
+        const eventOrderId = getOrderId(event.order);
+
+        setOrders(prevOrders => {
+          const isActive = ['pending', 'preparing', 'ready'].includes(event.order.status);
+          const exists = prevOrders.some(order => getOrderId(order) === eventOrderId);
 
-    return () => clearInterval(interval);
+          if (!isActive) {
+            return prevOrders.filter(order => getOrderId(order) !== eventOrderId);
+          }
+          if (exists) {
+            return prevOrders.map(order =>
+              getOrderId(order) === eventOrderId ? event.order : order
+            );
+          }
+          return [...prevOrders, event.order];
+        });
+      },
+      {
+        onConnectionChange: (connected) => {
+          if (connected) fetchOrders();
+        },
+      }
+    );
+
+    return unsubscribe;
   }, []);
 
   const getNextStatus = (currentStatus: OrderStatus): OrderStatus | null => {
@@ -236,7 +281,9 @@ interface OrderCardProps {
 const OrderCard: React.FC<OrderCardProps> = ({ order, onUpdateStatus, isUpdating }) => {
   const nextStatus = getNextStatus(order.status);
   const statusAction = getStatusAction(order.status);
-  const orderId = order.id || (order as any)._id;
+  const orderId = getOrderId(order);
+  const pricing = getOrderPricing(order);
+  const allergies = order.allergies ?? [];
 
   const timeSinceCreated = Date.now() - new Date(order.createdAt).getTime();
   const minutesAgo = Math.floor(timeSinceCreated / 60000);
@@ -259,27 +306,63 @@ const OrderCard: React.FC<OrderCardProps> = ({ order, onUpdateStatus, isUpdating
       </CardHeader>
       
       <CardContent className="pt-0">
+        {/* Guest Allergies */}
+        {allergies.length > 0 && (
+          <div className="mb-3 rounded-md border-2 border-red-500 bg-red-50 px-3 py-2 font-bold text-red-800">
+            ⚠ ALLERGY: {formatAllergens(allergies)}
+          </div>
+        )}
+
         {/* Order Items */}
         <div className="space-y-2 mb-4">
-          {order.items.map((item, index) => (
-            <div key={index} className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0">
+          {order.items.map((item, index) => {
+            const conflicts = (item.allergens ?? []).filter((allergen) => allergies.includes(allergen));
+            return (
+            <div
+              key={index}
+              className={`flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0 ${
+                conflicts.length > 0 ? 'border-l-4 border-l-red-600 bg-red-50 pl-2' : ''
+              }`}
+            >
               <div>
                 <span className="font-medium">{item.quantity}x {item.menuItemName}</span>
+                {item.bundle && (
+                  <p className="text-xs text-purple-700">{item.bundle.name}</p>
+                )}
+                {item.modifiers?.map((modifier) => (
+                  <p key={modifier.optionId} className="text-sm text-gray-600">
+                    {modifier.groupName}: {modifier.optionName}
+                  </p>
+                ))}
                 {item.specialInstructions && (
                   <p className="text-sm text-orange-600 mt-1">
                     ⚠️ {item.specialInstructions}
                   </p>
                 )}
+                {conflicts.length > 0 && (
+                  <p className="text-sm font-bold text-red-700 mt-1">
+                    ⚠ Contains {formatAllergens(conflicts)}
+                  </p>
+                )}
               </div>
               <span className="text-sm text-gray-600">${item.totalPrice.toFixed(2)}</span>
             </div>
-          ))}
+            );
+          })}
         </div>
 
         {/* Total & Action */}
         <div className="flex justify-between items-center">
-          <div className="text-lg font-semibold">
-            Total: ${order.total.toFixed(2)}
+          <div>
+            <div className="text-lg font-semibold">
+              Total: ${order.total.toFixed(2)}
+            </div>
+            {(pricing.tax > 0 || pricing.serviceCharge > 0) && (
+              <div className="text-xs text-gray-500">
+                Incl. ${pricing.tax.toFixed(2)} tax
+                {pricing.serviceCharge > 0 && ` • $${pricing.serviceCharge.toFixed(2)} service`}
+              </div>
+            )}
           </div>
           {nextStatus && statusAction && (
             <Button